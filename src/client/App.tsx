@@ -3,10 +3,14 @@ import { navigateTo } from '@devvit/web/client';
 import { useCounter } from './hooks/useCounter';
 import { DocumentUploader } from './components/DocumentUploader';
 import { DocumentsList } from './components/DocumentsList';
+import { TrashList } from './components/TrashList';
+import { Insights } from './components/Insights';
 
 export const App = () => {
   const { username } = useCounter();
-  const [activeTab, setActiveTab] = useState<'upload' | 'documents'>('upload');
+  const [activeTab, setActiveTab] = useState<'upload' | 'documents' | 'insights' | 'trash'>(
+    'upload'
+  );
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   const handleDocumentAdded = () => {
@@ -54,14 +58,41 @@ export const App = () => {
           >
             My Documents
           </button>
+          <button
+            onClick={() => setActiveTab('insights')}
+            className={`px-6 py-3 font-medium text-sm border-b-2 transition-all ${
+              activeTab === 'insights'
+                ? 'border-blue-500 text-blue-400'
+                : 'border-transparent text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            Insights
+          </button>
+          <button
+            onClick={() => setActiveTab('trash')}
+            className={`px-6 py-3 font-medium text-sm border-b-2 transition-all ${
+              activeTab === 'trash'
+                ? 'border-blue-500 text-blue-400'
+                : 'border-transparent text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            Trash
+          </button>
         </div>
       </nav>
 
       <main className="flex-1 py-8">
         {activeTab === 'upload' ? (
           <DocumentUploader onDocumentAdded={handleDocumentAdded} />
-        ) : (
+        ) : activeTab === 'documents' ? (
           <DocumentsList refreshTrigger={refreshTrigger} />
+        ) : activeTab === 'insights' ? (
+          <Insights refreshTrigger={refreshTrigger} />
+        ) : (
+          <TrashList
+            refreshTrigger={refreshTrigger}
+            onDocumentRestored={() => setRefreshTrigger((prev) => prev + 1)}
+          />
         )}
       </main>
 
@@ -0,0 +1,355 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type {
+  AiSettingsResponse,
+  AiSettingsUpdateRequest,
+  PromptTemplatesRequest,
+} from '../../shared/types/api';
+
+const inputClass =
+  'block w-full mt-1 text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60';
+
+type SettingsForm = {
+  model: string;
+  temperature: string;
+  maxOutputTokens: string;
+  timeoutSeconds: string;
+  language: string;
+};
+
+const toForm = ({ settings }: AiSettingsResponse): SettingsForm => ({
+  model: settings.model,
+  temperature: String(settings.temperature),
+  maxOutputTokens: String(settings.maxOutputTokens),
+  timeoutSeconds: String(settings.timeoutMs / 1000),
+  language: settings.language ?? '',
+});
+
+// The prompts analyses use now: the active saved version, or the built-in ones
+const activePrompts = (data: AiSettingsResponse) =>
+  data.prompts.find(({ version }) => version === data.settings.promptVersion) ?? data.defaults;
+
+// The model, generation settings and analysis prompts for the subreddit. Everyone can
+// see them; only moderators can change them.
+export const AiSettingsPanel = () => {
+  const [data, setData] = useState<AiSettingsResponse | null>(null);
+  const [form, setForm] = useState<SettingsForm | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplatesRequest>({ image: '', pdf: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const apply = (next: AiSettingsResponse) => {
+    setData(next);
+    setForm(toForm(next));
+    const { image, pdf } = activePrompts(next);
+    setTemplates({ image, pdf, note: '' });
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/ai-settings');
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to load AI settings');
+        }
+        apply(result as AiSettingsResponse);
+      } catch (err) {
+        console.error('Failed to load AI settings:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load AI settings');
+      }
+    };
+    void load();
+  }, []);
+
+  const send = async (
+    url: string,
+    method: 'PUT' | 'POST',
+    body: AiSettingsUpdateRequest | PromptTemplatesRequest,
+    done: string
+  ) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save AI settings');
+      }
+      apply(result as AiSettingsResponse);
+      setMessage(done);
+    } catch (err) {
+      console.error('Failed to save AI settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save AI settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSettings = (e: FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    void send(
+      '/api/ai-settings',
+      'PUT',
+      {
+        model: form.model,
+        temperature: Number(form.temperature),
+        maxOutputTokens: Number(form.maxOutputTokens),
+        timeoutMs: Math.round(Number(form.timeoutSeconds) * 1000),
+        language: form.language.trim() || null,
+      },
+      'Settings saved'
+    );
+  };
+
+  const handleSavePrompts = (e: FormEvent) => {
+    e.preventDefault();
+    void send('/api/ai-settings/prompts', 'POST', templates, 'New prompt version saved and active');
+  };
+
+  const handleActivate = (promptVersion: number | null) => {
+    void send(
+      '/api/ai-settings',
+      'PUT',
+      { promptVersion },
+      promptVersion === null ? 'Built-in prompts active' : `Prompt version ${promptVersion} active`
+    );
+  };
+
+  if (!data || !form) {
+    return (
+      <div className="w-full max-w-4xl mx-auto p-4 md:p-6">
+        {error ? (
+          <p className="text-red-300 text-sm">{error}</p>
+        ) : (
+          <p className="text-gray-500 text-sm">Loading...</p>
+        )}
+      </div>
+    );
+  }
+
+  const { settings, canEdit } = data;
+  const disabled = !canEdit || saving;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 md:p-6 space-y-6">
+      {!canEdit && (
+        <p className="text-gray-400 text-sm">Only moderators can change the AI settings.</p>
+      )}
+      {error && <p className="text-red-300 text-sm">{error}</p>}
+      {message && <p className="text-green-300 text-sm">{message}</p>}
+
+      <form
+        onSubmit={handleSaveSettings}
+        className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50"
+      >
+        <h2 className="text-xl font-bold text-white mb-1">Model</h2>
+        <p className="text-gray-500 text-sm mb-3">
+          Used for analysis, questions and digests. Changing a setting means files are analyzed
+          again instead of reusing cached results.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+          <label className="text-sm text-gray-400">
+            Model
+            <select
+              value={form.model}
+              onChange={(e) => setForm({ ...form, model: e.target.value })}
+              disabled={disabled}
+              className={inputClass}
+            >
+              {data.models.map((model) => (
+                <option key={model} value={model}>
+                  {model}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-400">
+            Temperature (0-2, lower is more consistent)
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={form.temperature}
+              onChange={(e) => setForm({ ...form, temperature: e.target.value })}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-sm text-gray-400">
+            Max output tokens
+            <input
+              type="number"
+              min={256}
+              max={8192}
+              step={1}
+              value={form.maxOutputTokens}
+              onChange={(e) => setForm({ ...form, maxOutputTokens: e.target.value })}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-sm text-gray-400">
+            Analysis timeout (seconds)
+            <input
+              type="number"
+              min={2}
+              max={30}
+              step={0.5}
+              value={form.timeoutSeconds}
+              onChange={(e) => setForm({ ...form, timeoutSeconds: e.target.value })}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-sm text-gray-400 sm:col-span-2">
+            Output language
+            <input
+              type="text"
+              value={form.language}
+              onChange={(e) => setForm({ ...form, language: e.target.value })}
+              disabled={disabled}
+              maxLength={40}
+              placeholder="Leave empty to use each document's own language"
+              className={inputClass}
+            />
+          </label>
+        </div>
+        {canEdit && (
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save settings'}
+          </button>
+        )}
+        {settings.updatedBy && settings.updatedAt && (
+          <p className="text-xs text-gray-600 mt-2">
+            Last changed by u/{settings.updatedBy} on{' '}
+            {new Date(settings.updatedAt).toLocaleString()}
+          </p>
+        )}
+      </form>
+
+      <form
+        onSubmit={handleSavePrompts}
+        className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50"
+      >
+        <h2 className="text-xl font-bold text-white mb-1">Analysis prompts</h2>
+        <p className="text-gray-500 text-sm mb-2">
+          Active:{' '}
+          {settings.promptVersion === null
+            ? 'built-in prompts'
+            : `version ${settings.promptVersion}`}
+          . Saving creates a new version and makes it active. A prompt must still ask for the JSON
+          response with description, summary, category, tags, confidence and fields.
+        </p>
+        <ul className="text-xs text-gray-400 mb-3 space-y-0.5">
+          {data.variables.map((variable) => (
+            <li key={variable.name}>
+              <code className="text-purple-300">{`{{${variable.name}}}`}</code>{' '}
+              {variable.description}
+              {variable.required && <span className="text-gray-500"> (required)</span>}
+            </li>
+          ))}
+        </ul>
+        {(['image', 'pdf'] as const).map((kind) => (
+          <label key={kind} className="block text-sm text-gray-400 mb-3">
+            {kind === 'image' ? 'Image prompt' : 'PDF prompt'}
+            <textarea
+              value={templates[kind]}
+              onChange={(e) => setTemplates({ ...templates, [kind]: e.target.value })}
+              disabled={disabled}
+              rows={10}
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </label>
+        ))}
+        {canEdit && (
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={templates.note ?? ''}
+              onChange={(e) => setTemplates({ ...templates, note: e.target.value })}
+              disabled={saving}
+              maxLength={200}
+              placeholder="What changed (optional)"
+              className={`${inputClass} flex-1 min-w-0 mt-0`}
+            />
+            <button
+              type="button"
+              onClick={() => setTemplates({ ...data.defaults, note: templates.note ?? '' })}
+              disabled={saving}
+              className="px-3 py-2 border border-gray-700 text-gray-300 text-sm rounded-lg hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              Start from built-in
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save new version'}
+            </button>
+          </div>
+        )}
+      </form>
+
+      <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+        <h2 className="text-xl font-bold text-white mb-3">Prompt versions</h2>
+        <ul className="text-sm divide-y divide-gray-700/50">
+          <li className="py-2 flex items-center justify-between gap-2">
+            <span className="text-gray-300">Built-in prompts</span>
+            {settings.promptVersion === null ? (
+              <span className="text-xs text-green-300">Active</span>
+            ) : (
+              canEdit && (
+                <button
+                  onClick={() => handleActivate(null)}
+                  disabled={saving}
+                  className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                >
+                  Activate
+                </button>
+              )
+            )}
+          </li>
+          {data.prompts.map((prompt) => (
+            <li key={prompt.version} className="py-2 flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-gray-300">
+                  Version {prompt.version}
+                  {prompt.note && <span className="text-gray-400"> · {prompt.note}</span>}
+                </p>
+                <p className="text-xs text-gray-600">
+                  u/{prompt.createdBy} · {new Date(prompt.createdAt).toLocaleString()}
+                </p>
+              </div>
+              {settings.promptVersion === prompt.version ? (
+                <span className="text-xs text-green-300">Active</span>
+              ) : (
+                canEdit && (
+                  <button
+                    onClick={() => handleActivate(prompt.version)}
+                    disabled={saving}
+                    className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    Activate
+                  </button>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import { useEffect, useState } from 'react';
+import type {
+  BillAccount,
+  BillChange,
+  BillInsight,
+  BillInsightsResponse,
+} from '../../shared/types/api';
+import { formatCurrency } from '../utils/formatCurrency';
+
+// Chart layout, in SVG units
+const SLOT_WIDTH = 48;
+const BAR_WIDTH = 28;
+const CHART_HEIGHT = 160;
+const LABEL_HEIGHT = 20;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "Mar" within a year, "Jan 25" at the start of the chart and of each year
+const monthLabel = (month: string, first: boolean) => {
+  const [year, index = '1'] = month.split('-');
+  const name = MONTHS[Number(index) - 1] ?? month;
+  return first || index === '01' ? `${name} ${year?.slice(2)}` : name;
+};
+
+// A rise in a bill is bad news, so increases are shown in red
+const ChangeBadge = ({ change }: { change: BillChange | null }) => {
+  if (!change || change.percent === null) {
+    return <span className="text-gray-600">—</span>;
+  }
+  const up = change.percent > 0;
+  return (
+    <span className={up ? 'text-red-300' : change.percent < 0 ? 'text-green-300' : 'text-gray-400'}>
+      {up ? '▲' : change.percent < 0 ? '▼' : ''} {Math.abs(change.percent)}%
+    </span>
+  );
+};
+
+// Amount per month as bars, outliers in red, with the trailing average as a dashed line
+const BillChart = ({ account }: { account: BillAccount }) => {
+  const { bills } = account;
+  const max =
+    Math.max(...bills.map((bill) => Math.max(bill.amountDue, bill.trailingAverage ?? 0)), 1) * 1.1;
+  const width = Math.max(bills.length * SLOT_WIDTH, SLOT_WIDTH * 3);
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+  const center = (index: number) => index * SLOT_WIDTH + SLOT_WIDTH / 2;
+
+  const averagePoints = bills
+    .map((bill, index) =>
+      bill.trailingAverage === null ? null : `${center(index)},${y(bill.trailingAverage)}`
+    )
+    .filter((point): point is string => point !== null)
+    .join(' ');
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        viewBox={`0 0 ${width} ${CHART_HEIGHT + LABEL_HEIGHT}`}
+        width={width}
+        height={CHART_HEIGHT + LABEL_HEIGHT}
+        className="max-w-none"
+        role="img"
+        aria-label={`${account.provider} amount due by month`}
+      >
+        {bills.map((bill, index) => (
+          <g key={bill.month}>
+            <rect
+              x={center(index) - BAR_WIDTH / 2}
+              y={y(bill.amountDue)}
+              width={BAR_WIDTH}
+              height={CHART_HEIGHT - y(bill.amountDue)}
+              rx={3}
+              className={bill.outlier ? 'fill-red-500/80' : 'fill-blue-500/70'}
+            >
+              <title>
+                {`${monthLabel(bill.month, true)}: ${formatCurrency(bill.amountDue, account.currency)}`}
+              </title>
+            </rect>
+            <text
+              x={center(index)}
+              y={CHART_HEIGHT + 14}
+              textAnchor="middle"
+              className="fill-gray-500 text-[10px]"
+            >
+              {monthLabel(bill.month, index === 0)}
+            </text>
+          </g>
+        ))}
+        {averagePoints && (
+          <polyline
+            points={averagePoints}
+            fill="none"
+            strokeWidth={2}
+            strokeDasharray="4 3"
+            className="stroke-purple-400"
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+const BillRow = ({ bill, account }: { bill: BillInsight; account: BillAccount }) => (
+  <tr className="border-t border-gray-700/50 align-top">
+    <td className="py-2 pr-3 text-gray-300">{monthLabel(bill.month, true)}</td>
+    <td className={`py-2 pr-3 ${bill.outlier ? 'text-red-300 font-medium' : 'text-white'}`}>
+      {formatCurrency(bill.amountDue, account.currency)}
+    </td>
+    <td className="py-2 pr-3">
+      <ChangeBadge change={bill.amountChange.monthOverMonth} />
+    </td>
+    <td className="py-2 pr-3">
+      <ChangeBadge change={bill.amountChange.yearOverYear} />
+    </td>
+    <td className="py-2 pr-3 text-gray-300">
+      {bill.usage === null ? '—' : `${bill.usage} ${account.usageUnit ?? ''}`}
+      {bill.usageChange.monthOverMonth && (
+        <span className="ml-2 text-xs">
+          <ChangeBadge change={bill.usageChange.monthOverMonth} />
+        </span>
+      )}
+    </td>
+    <td className="py-2 text-xs text-yellow-300">
+      {bill.alerts.map((alert) => (
+        <p key={alert}>⚠️ {alert}</p>
+      ))}
+    </td>
+  </tr>
+);
+
+// Bill trends per provider account: chart, month-over-month and year-over-year changes,
+// and alerts for bills well above the account's trailing average
+export const BillInsights = ({ refreshTrigger }: { refreshTrigger: number }) => {
+  const [insights, setInsights] = useState<BillInsightsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadInsights();
+  }, [refreshTrigger]);
+
+  const loadInsights = async () => {
+    try {
+      const response = await fetch('/api/insights/bills');
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data: BillInsightsResponse = await response.json();
+      setInsights(data);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load bill insights:', err);
+      setError('Failed to load bill insights');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center text-gray-400 py-8">Loading insights...</div>;
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 md:p-6">
+      <h2 className="text-xl font-bold text-white mb-2">Bill Insights</h2>
+      <p className="text-gray-500 text-sm mb-4">
+        Bills with extracted fields, grouped by provider and account. Bills more than{' '}
+        {Math.round((insights?.outlierThreshold ?? 0) * 100)}% above their recent average are
+        flagged.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 rounded-lg p-4">
+          <p className="text-red-300 text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      {insights && insights.accounts.length === 0 ? (
+        <div className="text-center text-gray-500 py-12">
+          <p className="text-gray-400">No bills yet.</p>
+          <p className="text-sm mt-1">
+            Choose "Bill" under "Extract fields" when uploading a bill to see its trends here.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {insights?.accounts.map((account) => {
+            const latest = account.bills[account.bills.length - 1];
+            return (
+              <section
+                key={account.key}
+                className="bg-gray-800/50 backdrop-blur-sm rounded-xl shadow-lg p-4 border border-gray-700/50"
+              >
+                <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                  <div>
+                    <h3 className="font-semibold text-white">{account.provider}</h3>
+                    {account.accountNumber && (
+                      <p className="text-xs text-gray-500">Account {account.accountNumber}</p>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-400">
+                    {account.bills.length} bills · average{' '}
+                    {formatCurrency(account.averageAmount, account.currency)}
+                  </p>
+                </div>
+
+                {latest && latest.alerts.length > 0 && (
+                  <div className="mb-3 bg-yellow-900/20 border border-yellow-700/30 rounded-lg p-3 text-sm text-yellow-300">
+                    {latest.alerts.map((alert) => (
+                      <p key={alert}>⚠️ {alert}</p>
+                    ))}
+                  </div>
+                )}
+
+                <BillChart account={account} />
+
+                <div className="overflow-x-auto mt-3">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-gray-500">
+                      <tr>
+                        <th className="py-1 pr-3 font-medium">Month</th>
+                        <th className="py-1 pr-3 font-medium">Amount</th>
+                        <th className="py-1 pr-3 font-medium">vs last month</th>
+                        <th className="py-1 pr-3 font-medium">vs last year</th>
+                        <th className="py-1 pr-3 font-medium">Usage</th>
+                        <th className="py-1 font-medium">Alerts</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...account.bills].reverse().map((bill) => (
+                        <BillRow key={bill.month} bill={bill} account={account} />
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      )}
+
+      {insights && insights.skipped > 0 && (
+        <p className="text-xs text-gray-600 mt-4">
+          {insights.skipped} bills are missing a provider or amount due and are not included.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AnalysisJobsResponse } from '../../shared/types/api';
+import { useAnalysisJobs } from '../hooks/useAnalysisJobs';
+
+// Queue AI analysis for every document saved without it (e.g. while the AI was
+// unavailable), and show progress until the jobs have run
+export const BulkReanalysis = ({ onFinished }: { onFinished: () => void }) => {
+  const { jobs, pending, track, clear } = useAnalysisJobs();
+  const [queueing, setQueueing] = useState(false);
+  const [note, setNote] = useState<string | null>(null);
+  const wasPending = useRef(false);
+
+  useEffect(() => {
+    if (wasPending.current && !pending) {
+      onFinished();
+    }
+    wasPending.current = pending;
+  }, [pending, onFinished]);
+
+  const handleQueue = async () => {
+    setQueueing(true);
+    setNote(null);
+    clear();
+    try {
+      const response = await fetch('/api/documents/reanalyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fallbackOnly: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to queue analysis');
+      }
+      const { jobs: queued, alreadyQueued = 0, limited } = data as AnalysisJobsResponse;
+      track(queued);
+      if (queued.length === 0) {
+        setNote(
+          alreadyQueued > 0
+            ? `${alreadyQueued} documents are already queued`
+            : 'Every document already has AI analysis'
+        );
+      } else if (limited) {
+        setNote(`Queued the first ${queued.length}; run again for the rest`);
+      }
+    } catch (error) {
+      console.error('Failed to queue analysis:', error);
+      setNote(error instanceof Error ? error.message : 'Failed to queue analysis');
+    } finally {
+      setQueueing(false);
+    }
+  };
+
+  const done = jobs.filter((job) => job.status === 'done').length;
+  const failed = jobs.filter((job) => job.status === 'failed').length;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-3 text-xs">
+      <button
+        onClick={() => void handleQueue()}
+        disabled={queueing || pending}
+        className="px-3 py-1.5 border border-purple-500/50 text-purple-300 rounded-lg hover:bg-purple-500/10 disabled:opacity-50 transition-colors"
+      >
+        {queueing ? 'Queueing...' : 'Re-analyze documents without AI analysis'}
+      </button>
+      {jobs.length > 0 && (
+        <span className={pending ? 'text-blue-300' : 'text-gray-400'}>
+          {pending ? 'Re-analyzing: ' : 'Finished: '}
+          {done} of {jobs.length} updated{failed > 0 ? `, ${failed} failed` : ''}
+        </span>
+      )}
+      {note && <span className="text-gray-400">{note}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type {
+  CollectionAnswer,
+  CollectionAskResponse,
+  CollectionDigest,
+  CollectionDigestResponse,
+  DigestPeriod,
+} from '../../shared/types/api';
+import { formatCurrency } from '../utils/formatCurrency';
+
+// Matches MAX_QUESTION_LENGTH on the server
+const MAX_QUESTION_LENGTH = 500;
+
+const PERIOD_LABELS: Record<DigestPeriod, string> = {
+  week: 'Last 7 days',
+  month: 'Last 30 days',
+};
+
+// Questions across every document in the post, and a digest of recent uploads
+export const CollectionAssistant = ({ refreshTrigger }: { refreshTrigger: number }) => {
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState<CollectionAnswer | null>(null);
+  const [asking, setAsking] = useState(false);
+  const [askError, setAskError] = useState<string | null>(null);
+  const [period, setPeriod] = useState<DigestPeriod>('week');
+  const [digest, setDigest] = useState<CollectionDigest | null>(null);
+  const [digestError, setDigestError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setDigest(null);
+      setDigestError(null);
+      try {
+        const response = await fetch(`/api/collection/digest?period=${period}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load the digest');
+        }
+        setDigest((data as CollectionDigestResponse).digest);
+      } catch (error) {
+        console.error('Failed to load digest:', error);
+        setDigestError(error instanceof Error ? error.message : 'Failed to load the digest');
+      }
+    };
+    void load();
+  }, [period, refreshTrigger]);
+
+  const handleAsk = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+
+    setAsking(true);
+    setAskError(null);
+    try {
+      const response = await fetch('/api/collection/ask', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to get an answer');
+      }
+      setAnswer((data as CollectionAskResponse).answer);
+    } catch (error) {
+      console.error('Failed to ask about documents:', error);
+      setAskError(error instanceof Error ? error.message : 'Failed to get an answer');
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 md:p-6 space-y-6">
+      <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+        <h2 className="text-xl font-bold text-white mb-1">Ask your documents</h2>
+        <p className="text-gray-500 text-sm mb-3">
+          Answers come from the descriptions, notes, fields and recognized text of the documents in
+          this post.
+        </p>
+        <form onSubmit={(e) => void handleAsk(e)} className="flex gap-2">
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={MAX_QUESTION_LENGTH}
+            disabled={asking}
+            placeholder="e.g. How much did we spend on electricity this year?"
+            className="flex-1 min-w-0 text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={asking || !question.trim()}
+            className="px-4 py-2 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+          >
+            {asking ? 'Asking...' : 'Ask'}
+          </button>
+        </form>
+        {askError && <p className="text-red-300 text-sm mt-2">{askError}</p>}
+
+        {answer && (
+          <div className="mt-4">
+            <p className="text-xs text-gray-500 mb-1">{answer.question}</p>
+            <p className={`text-sm ${answer.found ? 'text-gray-200' : 'text-gray-400 italic'}`}>
+              {answer.answer}
+            </p>
+            {answer.citations.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {answer.citations.map((citation) => (
+                  <li key={citation.documentId} className="text-xs text-gray-400">
+                    <span className="text-purple-300">Source:</span> {citation.description}{' '}
+                    <span className="text-gray-600">({citation.documentId})</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-gray-600 mt-2">
+              Based on {answer.consideredDocuments} matching documents
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <h2 className="text-xl font-bold text-white">Digest</h2>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as DigestPeriod)}
+            className="text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {digestError && <p className="text-red-300 text-sm">{digestError}</p>}
+        {!digest && !digestError && <p className="text-gray-500 text-sm">Loading...</p>}
+        {digest && digest.uploads === 0 && (
+          <p className="text-gray-400 text-sm">No documents were uploaded in this period.</p>
+        )}
+        {digest && digest.uploads > 0 && (
+          <div className="space-y-3">
+            {digest.summary ? (
+              <p className="text-sm text-gray-200">{digest.summary}</p>
+            ) : (
+              <p className="text-sm text-gray-500 italic">The written summary is unavailable.</p>
+            )}
+            <div className="flex flex-wrap gap-2 text-xs">
+              <span className="px-2 py-1 bg-gray-900/50 text-gray-300 rounded-full">
+                {digest.uploads} uploads
+              </span>
+              {digest.byCategory.map(({ category, count }) => (
+                <span
+                  key={category}
+                  className="px-2 py-1 bg-blue-500/20 text-blue-300 rounded-full capitalize"
+                >
+                  {category} · {count}
+                </span>
+              ))}
+              {digest.amounts.map((amount) => (
+                <span
+                  key={amount.currency ?? ''}
+                  className="px-2 py-1 bg-green-500/20 text-green-300 rounded-full"
+                >
+                  {formatCurrency(amount.total, amount.currency)} in {amount.count} documents
+                </span>
+              ))}
+            </div>
+            <ul className="text-sm divide-y divide-gray-700/50">
+              {digest.documents.map((document) => (
+                <li key={document.documentId} className="py-1 text-gray-300">
+                  {document.description}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type {
+  AskResponse,
+  ConversationResponse,
+  DocumentMetadata,
+  QaExchange,
+} from '../../shared/types/api';
+
+// Matches MAX_QUESTION_LENGTH on the server
+const MAX_QUESTION_LENGTH = 500;
+
+// Ask the AI questions about a document; answers quote the text they are based on
+export const DocumentChat = ({ doc }: { doc: DocumentMetadata }) => {
+  const [exchanges, setExchanges] = useState<QaExchange[]>([]);
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const fileVersion = doc.fileVersion ?? 1;
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/documents/${doc.id}/conversation`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: ConversationResponse = await response.json();
+        setExchanges(data.exchanges);
+      } catch (error) {
+        console.error('Failed to load conversation:', error);
+      }
+    };
+    void load();
+  }, [doc.id]);
+
+  const handleAsk = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+
+    setAsking(true);
+    setChatError(null);
+    try {
+      const response = await fetch(`/api/documents/${doc.id}/ask`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to get an answer');
+      }
+      const { exchange } = data as AskResponse;
+      setExchanges((prev) => [...prev, exchange]);
+      setQuestion('');
+    } catch (error) {
+      console.error('Failed to ask question:', error);
+      setChatError(error instanceof Error ? error.message : 'Failed to get an answer');
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      const response = await fetch(`/api/documents/${doc.id}/conversation`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setExchanges([]);
+    } catch (error) {
+      console.error('Failed to clear conversation:', error);
+      setChatError('Failed to clear the conversation');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-400">Ask about this document</h3>
+        {exchanges.length > 0 && (
+          <button
+            onClick={() => void handleClear()}
+            disabled={asking}
+            className="text-xs text-gray-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {exchanges.length > 0 && (
+        <div className="space-y-3 mb-3 max-h-80 overflow-y-auto pr-1">
+          {exchanges.map((exchange) => (
+            <div key={exchange.id} className="space-y-1">
+              <p className="ml-8 bg-blue-900/30 border border-blue-700/30 rounded-lg px-3 py-2 text-sm text-blue-100">
+                {exchange.question}
+              </p>
+              <div className="mr-8 bg-gray-900/50 border border-gray-700/50 rounded-lg px-3 py-2">
+                <p
+                  className={`text-sm ${exchange.found ? 'text-gray-200' : 'text-gray-400 italic'}`}
+                >
+                  {exchange.answer}
+                </p>
+                {exchange.quotes.map((quote, index) => (
+                  <blockquote
+                    key={index}
+                    className="mt-2 border-l-2 border-purple-500/60 pl-2 text-xs text-gray-400"
+                  >
+                    “{quote}”
+                  </blockquote>
+                ))}
+                {exchange.fileVersion !== fileVersion && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    About an earlier file (version {exchange.fileVersion})
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={(e) => void handleAsk(e)} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          maxLength={MAX_QUESTION_LENGTH}
+          disabled={asking}
+          placeholder="e.g. When is this due?"
+          className="flex-1 min-w-0 text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={asking || !question.trim()}
+          className="px-3 py-2 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+        >
+          {asking ? 'Asking...' : 'Ask'}
+        </button>
+      </form>
+      {chatError && <p className="text-red-300 text-sm mt-2">{chatError}</p>}
+    </div>
+  );
+};
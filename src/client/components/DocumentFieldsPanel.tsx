@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import type {
+  DocumentFields,
+  DocumentMetadata,
+  DocumentUpdateRequest,
+  FieldSchema,
+  LineItem,
+} from '../../shared/types/api';
+import { FieldsForm, FieldsSummary, type FieldValues } from './FieldsForm';
+import { LineItemsEditor, LineItemsSummary } from './LineItems';
+
+// Extracted fields for the document detail view, editable as a form. Documents without
+// fields can have them entered by hand after picking a schema.
+export const DocumentFieldsPanel = ({
+  doc,
+  schemas,
+  onDocumentChanged,
+}: {
+  doc: DocumentMetadata;
+  schemas: FieldSchema[];
+  onDocumentChanged: (updated: DocumentMetadata) => void;
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [schemaId, setSchemaId] = useState('');
+  const [values, setValues] = useState<FieldValues>({});
+  const [lineItems, setLineItems] = useState<LineItem[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [fieldsError, setFieldsError] = useState<string | null>(null);
+
+  const schema = schemas.find(
+    (candidate) => candidate.id === (editing ? schemaId : doc.fields?.schemaId)
+  );
+
+  const handleEditStart = () => {
+    setSchemaId(doc.fields?.schemaId ?? schemas[0]?.id ?? '');
+    setValues(doc.fields?.values ?? {});
+    setLineItems(doc.fields?.lineItems ?? []);
+    setFieldsError(null);
+    setEditing(true);
+  };
+
+  const save = async (fields: DocumentFields | null) => {
+    setSaving(true);
+    setFieldsError(null);
+    try {
+      const body: DocumentUpdateRequest = { fields };
+      if (doc.version !== undefined) {
+        body.version = doc.version;
+      }
+
+      const response = await fetch(`/api/documents/${doc.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (response.status === 409 && data.document) {
+        // Someone else edited this document; show their values and keep the form open
+        onDocumentChanged(data.document);
+        throw new Error('This document was changed elsewhere. Review it and save again.');
+      }
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save fields');
+      }
+
+      onDocumentChanged(data.document);
+      setEditing(false);
+    } catch (error) {
+      console.error('Failed to save fields:', error);
+      setFieldsError(error instanceof Error ? error.message : 'Failed to save fields');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing && !doc.fields) {
+    return (
+      <div>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-400">Fields</h3>
+          {schemas.length > 0 && (
+            <button
+              onClick={handleEditStart}
+              className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Add fields
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-400">
+          Fields{schema && !editing ? ` · ${schema.name}` : ''}
+        </h3>
+        {!editing && (
+          <button
+            onClick={handleEditStart}
+            className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            Edit fields
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="space-y-3">
+          <select
+            value={schemaId}
+            onChange={(e) => setSchemaId(e.target.value)}
+            disabled={saving}
+            className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {schemas.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.name}
+              </option>
+            ))}
+          </select>
+          {schema && (
+            <FieldsForm schema={schema} values={values} onChange={setValues} disabled={saving} />
+          )}
+          {schema?.lineItems && (
+            <div>
+              <p className="mb-2 text-xs font-medium text-gray-400">Line items</p>
+              <LineItemsEditor items={lineItems} onChange={setLineItems} disabled={saving} />
+            </div>
+          )}
+          {fieldsError && <p className="text-red-300 text-sm">{fieldsError}</p>}
+          <div className="flex gap-3">
+            <button
+              onClick={() =>
+                void save({ schemaId, values, ...(schema?.lineItems ? { lineItems } : {}) })
+              }
+              disabled={saving || !schema}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save Fields'}
+            </button>
+            {doc.fields && (
+              <button
+                onClick={() => void save(null)}
+                disabled={saving}
+                className="px-4 py-2 border border-gray-700 rounded-lg text-gray-300 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                Remove
+              </button>
+            )}
+            <button
+              onClick={() => setEditing(false)}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-700 rounded-lg text-gray-300 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : schema && doc.fields ? (
+        <div className="space-y-3">
+          <FieldsSummary schema={schema} values={doc.fields.values} />
+          {doc.fields.lineItems && doc.fields.lineItems.length > 0 && (
+            <LineItemsSummary
+              items={doc.fields.lineItems}
+              currency={
+                typeof doc.fields.values.currency === 'string' ? doc.fields.values.currency : null
+              }
+            />
+          )}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-sm">This document's schema has been deleted.</p>
+      )}
+    </div>
+  );
+};
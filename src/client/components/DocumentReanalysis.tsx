@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AnalysisJobResponse, DocumentMetadata } from '../../shared/types/api';
+import { useAnalysisJobs } from '../hooks/useAnalysisJobs';
+
+// Run AI analysis again on a stored document, in the background
+export const DocumentReanalysis = ({
+  doc,
+  onDocumentChanged,
+}: {
+  doc: DocumentMetadata;
+  onDocumentChanged: (updated: DocumentMetadata) => void;
+}) => {
+  const { jobs, pending, track } = useAnalysisJobs();
+  const [overwrite, setOverwrite] = useState(false);
+  const [queueing, setQueueing] = useState(false);
+  const [queueError, setQueueError] = useState<string | null>(null);
+  const appliedJobId = useRef<string | null>(null);
+  const job = jobs[0];
+
+  useEffect(() => {
+    if (job?.status === 'done' && job.document && appliedJobId.current !== job.id) {
+      appliedJobId.current = job.id;
+      onDocumentChanged(job.document);
+    }
+  }, [job, onDocumentChanged]);
+
+  const handleQueue = async () => {
+    setQueueing(true);
+    setQueueError(null);
+    try {
+      const response = await fetch(`/api/documents/${doc.id}/analyze`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overwrite }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to queue analysis');
+      }
+      track([(data as AnalysisJobResponse).job]);
+    } catch (error) {
+      console.error('Failed to queue analysis:', error);
+      setQueueError(error instanceof Error ? error.message : 'Failed to queue analysis');
+    } finally {
+      setQueueing(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-400">AI Analysis</h3>
+      <div className="flex flex-wrap items-center gap-3 mt-1">
+        <button
+          onClick={() => void handleQueue()}
+          disabled={queueing || pending}
+          className="px-3 py-1.5 bg-purple-600 text-white text-xs rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+        >
+          {queueing ? 'Queueing...' : 'Re-analyze'}
+        </button>
+        <label className="flex items-center gap-1.5 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={overwrite}
+            onChange={(e) => setOverwrite(e.target.checked)}
+            disabled={pending}
+          />
+          Replace my description, notes and category
+        </label>
+      </div>
+      {job?.status === 'queued' && (
+        <p className="text-xs text-blue-300 mt-1">
+          Queued{job.message ? `: ${job.message}` : '; it usually runs within a minute'}
+        </p>
+      )}
+      {job?.status === 'running' && <p className="text-xs text-blue-300 mt-1">Analyzing...</p>}
+      {job?.status === 'done' && <p className="text-xs text-green-300 mt-1">Analysis updated</p>}
+      {job?.status === 'failed' && (
+        <p className="text-xs text-red-300 mt-1">Analysis failed: {job.message}</p>
+      )}
+      {queueError && <p className="text-xs text-red-300 mt-1">{queueError}</p>}
+    </div>
+  );
+};
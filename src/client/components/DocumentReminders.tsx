@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import type {
+  DocumentMetadata,
+  Reminder,
+  ReminderDelivery,
+  ReminderResponse,
+  RemindersResponse,
+} from '../../shared/types/api';
+
+const DELIVERY_LABELS: Record<ReminderDelivery, string> = {
+  message: 'Private message',
+  comment: 'Comment on this post',
+};
+
+const STATUS_CLASSES: Record<Reminder['status'], string> = {
+  scheduled: 'text-blue-300',
+  sent: 'text-green-300',
+  failed: 'text-red-300',
+};
+
+// Reminders for a document's due date. Only shown for documents whose fields have one.
+export const DocumentReminders = ({ doc }: { doc: DocumentMetadata }) => {
+  const dueDate = doc.fields?.values.dueDate;
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [daysBefore, setDaysBefore] = useState('3');
+  const [delivery, setDelivery] = useState<ReminderDelivery>('message');
+  const [busy, setBusy] = useState(false);
+  const [reminderError, setReminderError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof dueDate !== 'string') return;
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/reminders?documentId=${encodeURIComponent(doc.id)}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: RemindersResponse = await response.json();
+        setReminders(data.reminders);
+      } catch (error) {
+        console.error('Failed to load reminders:', error);
+      }
+    };
+    void load();
+  }, [doc.id, dueDate]);
+
+  if (typeof dueDate !== 'string') {
+    return null;
+  }
+
+  const handleAdd = async () => {
+    setBusy(true);
+    setReminderError(null);
+    try {
+      const response = await fetch('/api/reminders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId: doc.id, daysBefore: Number(daysBefore), delivery }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to add reminder');
+      }
+      const { reminder } = data as ReminderResponse;
+      setReminders((prev) => [...prev, reminder].sort((a, b) => a.remindAt - b.remindAt));
+    } catch (error) {
+      console.error('Failed to add reminder:', error);
+      setReminderError(error instanceof Error ? error.message : 'Failed to add reminder');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    setBusy(true);
+    setReminderError(null);
+    try {
+      const response = await fetch(`/api/reminders/${id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to cancel reminder');
+      }
+      setReminders((prev) => prev.filter((reminder) => reminder.id !== id));
+    } catch (error) {
+      console.error('Failed to cancel reminder:', error);
+      setReminderError(error instanceof Error ? error.message : 'Failed to cancel reminder');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-400 mb-2">
+        Reminders · due {new Date(`${dueDate}T00:00:00`).toLocaleDateString()}
+      </h3>
+
+      {reminders.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {reminders.map((reminder) => (
+            <li key={reminder.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-gray-300">
+                {new Date(reminder.remindAt).toLocaleDateString()} ·{' '}
+                {DELIVERY_LABELS[reminder.delivery]} ·{' '}
+                <span className={STATUS_CLASSES[reminder.status]}>{reminder.status}</span>
+                {reminder.error && (
+                  <span className="text-gray-500 text-xs"> ({reminder.error})</span>
+                )}
+              </span>
+              <button
+                onClick={() => void handleCancel(reminder.id)}
+                disabled={busy}
+                className="text-xs text-gray-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+              >
+                {reminder.status === 'scheduled' ? 'Cancel' : 'Remove'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="number"
+          min={0}
+          max={90}
+          value={daysBefore}
+          onChange={(e) => setDaysBefore(e.target.value)}
+          disabled={busy}
+          className="w-16 text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <span className="text-gray-400">days before, by</span>
+        <select
+          value={delivery}
+          onChange={(e) => setDelivery(e.target.value as ReminderDelivery)}
+          disabled={busy}
+          className="text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {Object.entries(DELIVERY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => void handleAdd()}
+          disabled={busy || daysBefore === ''}
+          className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          Remind me
+        </button>
+      </div>
+      {reminderError && <p className="text-red-300 text-sm mt-2">{reminderError}</p>}
+    </div>
+  );
+};
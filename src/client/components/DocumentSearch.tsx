@@ -0,0 +1,160 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import type {
+  DocumentMetadata,
+  DocumentSearchResponse,
+  SearchSnippet,
+} from '../../shared/types/api';
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+const FIELD_LABELS: Record<SearchSnippet['field'], string> = {
+  description: 'Description',
+  notes: 'Notes',
+  ocrText: 'Extracted text',
+  fileName: 'File name',
+};
+
+const Snippet = ({ snippet }: { snippet: SearchSnippet }) => {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(<span key={`text-${index}`}>{snippet.text.slice(position, start)}</span>);
+    }
+    parts.push(
+      <mark key={`match-${index}`} className="bg-yellow-500/30 text-yellow-100 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(<span key="text-end">{snippet.text.slice(position)}</span>);
+
+  return (
+    <p className="text-sm text-gray-400 line-clamp-3">
+      <span className="text-gray-600 text-xs mr-1">{FIELD_LABELS[snippet.field]}:</span>
+      {parts}
+    </p>
+  );
+};
+
+// Search bar for the documents list; shows ranked results below it while a query is
+// entered. The query is kept by the parent so it survives opening a result.
+export const DocumentSearch = ({
+  query,
+  onQueryChange,
+  onSelect,
+}: {
+  query: string;
+  onQueryChange: (query: string) => void;
+  onSelect: (doc: DocumentMetadata) => void;
+}) => {
+  const [results, setResults] = useState<DocumentSearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (!trimmed) {
+      setResults(null);
+      setSearchError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const search = async () => {
+        setSearching(true);
+        try {
+          const params = new URLSearchParams({ q: trimmed });
+          const response = await fetch(`/api/documents/search?${params.toString()}`);
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          const data: DocumentSearchResponse = await response.json();
+          if (!cancelled) {
+            setResults(data);
+            setSearchError(null);
+          }
+        } catch (error) {
+          console.error('Failed to search documents:', error);
+          if (!cancelled) {
+            setSearchError('Search failed. Please try again.');
+          }
+        } finally {
+          if (!cancelled) {
+            setSearching(false);
+          }
+        }
+      };
+      void search();
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed]);
+
+  return (
+    <div className="mb-4">
+      <div className="relative">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search descriptions, notes, file names and extracted text"
+          className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2.5 pr-20 focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-gray-500"
+        />
+        {query && (
+          <button
+            onClick={() => onQueryChange('')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {trimmed && (
+        <div className="mt-4 space-y-3">
+          {searchError ? (
+            <p className="text-red-300 text-sm">{searchError}</p>
+          ) : !results || (searching && results.query !== trimmed) ? (
+            <p className="text-center text-gray-400 py-6">Searching...</p>
+          ) : results.results.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No documents match "{results.query}".</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500">
+                {results.total} {results.total === 1 ? 'match' : 'matches'}
+                {results.total > results.results.length
+                  ? ` (showing the best ${results.results.length})`
+                  : ''}
+              </p>
+              {results.results.map(({ document, snippets }) => (
+                <div
+                  key={document.id}
+                  onClick={() => onSelect(document)}
+                  className="bg-gray-800/50 backdrop-blur-sm rounded-xl shadow-lg p-4 border border-gray-700/50 cursor-pointer hover:border-blue-500/50 hover:shadow-xl transition-all"
+                >
+                  <h3 className="font-semibold text-white truncate">{document.description}</h3>
+                  <p className="text-xs text-gray-500 mb-2 truncate">
+                    {document.fileName} · {new Date(document.timestamp).toLocaleDateString()}
+                  </p>
+                  <div className="space-y-1">
+                    {snippets.map((snippet) => (
+                      <Snippet key={snippet.field} snippet={snippet} />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import type { DocumentRetrievalResponse } from '../../shared/types/api';
+
+// List pages only carry metadata, so each image card loads its own payload
+export const DocumentThumbnail = ({
+  documentId,
+  fileName,
+}: {
+  documentId: string;
+  fileName: string;
+}) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/documents/get/${documentId}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: DocumentRetrievalResponse = await response.json();
+        if (!cancelled) {
+          setSrc(data.imageData ?? data.url ?? null);
+        }
+      } catch (error) {
+        console.error(`Failed to load thumbnail for ${documentId}:`, error);
+        if (!cancelled) setFailed(true);
+      }
+    };
+    void load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  if (!src) {
+    return (
+      <div className="w-full h-40 bg-gray-900/50 rounded-lg flex items-center justify-center border border-gray-700">
+        {failed ? (
+          <p className="text-gray-500 text-xs">Preview unavailable</p>
+        ) : (
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-500"></div>
+        )}
+      </div>
+    );
+  }
+
+  return <img src={src} alt={fileName} className="w-full h-40 object-cover rounded-lg" />;
+};
@@ -1,4 +1,32 @@
 import { useState, useRef } from 'react';
+import type {
+  AnalysisResponse,
+  DocumentMetadata,
+  DuplicateCheckResponse,
+  LineItem,
+} from '../../shared/types/api';
+import { fetchWithConflictRetry } from '../utils/fetchWithRetry';
+import { useUploadLimits } from '../hooks/useUploadLimits';
+import { useFolders } from '../hooks/useFolders';
+import { useTags } from '../hooks/useTags';
+import { useCategories } from '../hooks/useCategories';
+import { useFieldSchemas } from '../hooks/useFieldSchemas';
+import {
+  ChunkedUploadError,
+  dataUriToBytes,
+  sha256Hex,
+  uploadInChunks,
+} from '../utils/chunkedUpload';
+import { compressImage } from '../utils/compressImage';
+import { FieldsForm, type FieldValues } from './FieldsForm';
+import { LineItemsEditor } from './LineItems';
+import { TagInput } from './TagInput';
+
+// Below this the AI category is flagged for the user to check
+const LOW_CONFIDENCE = 0.6;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.round(bytes / 1024)}KB`;
 
 export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => void }) => {
   const [uploading, setUploading] = useState(false);
@@ -12,52 +40,49 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
   const [base64Data, setBase64Data] = useState('');
   const [description, setDescription] = useState('');
   const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [folderId, setFolderId] = useState('');
+  const [category, setCategory] = useState('');
   const [aiGeneratedDescription, setAiGeneratedDescription] = useState(false);
   const [aiGeneratedNotes, setAiGeneratedNotes] = useState(false);
+  const [aiGeneratedTags, setAiGeneratedTags] = useState(false);
+  // Confidence of the AI category while it is unchanged, null otherwise
+  const [aiCategoryConfidence, setAiCategoryConfidence] = useState<number | null>(null);
+  // Schema to extract fields with; chosen before the file so analysis can fill it in
+  const [schemaId, setSchemaId] = useState('');
+  const [fieldValues, setFieldValues] = useState<FieldValues>({});
+  const [aiGeneratedFields, setAiGeneratedFields] = useState(false);
+  const [lineItems, setLineItems] = useState<LineItem[]>([]);
+  // Bumped when line items are replaced, so the editor starts over from them
+  const [lineItemsKey, setLineItemsKey] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const compressImage = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          let width = img.width;
-          let height = img.height;
-
-          const maxSize = 800;
-          if (width > maxSize || height > maxSize) {
-            if (width > height) {
-              height = (height / width) * maxSize;
-              width = maxSize;
-            } else {
-              width = (width / height) * maxSize;
-              height = maxSize;
-            }
-          }
-
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-            reject(new Error('Failed to get canvas context'));
-            return;
-          }
-
-          ctx.drawImage(img, 0, 0, width, height);
-          const compressed = canvas.toDataURL('image/jpeg', 0.5);
-          resolve(compressed);
-        };
-        img.onerror = () => reject(new Error('Failed to load image'));
-        img.src = e.target?.result as string;
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsDataURL(file);
-    });
+  const limits = useUploadLimits();
+  const [uploadProgress, setUploadProgress] = useState<{ received: number; total: number } | null>(
+    null
+  );
+  const [resumeSessionId, setResumeSessionId] = useState<string | null>(null);
+  const [duplicate, setDuplicate] = useState<DocumentMetadata | null>(null);
+  const { folders } = useFolders();
+  const { tags: knownTags, reload: reloadTags } = useTags();
+  const categories = useCategories();
+  const schemas = useFieldSchemas();
+  const schema = schemas.find((candidate) => candidate.id === schemaId);
+
+  const replaceLineItems = (items: LineItem[]) => {
+    setLineItems(items);
+    setLineItemsKey((prev) => prev + 1);
   };
 
   const analyzeFile = async (fileData: string, fileType: string, fileName: string) => {
+    // Analysis sends the whole file in one request, so very large files are skipped
+    if (fileData.length * 0.75 > limits.maxInlineFileSizeBytes) {
+      const fileTypeLabel = fileType.includes('pdf') ? 'PDF' : 'Image';
+      setAnalysisError('File is too large for AI analysis.');
+      setDescription(`${fileTypeLabel} - ${fileName}`);
+      setNotes('Please add details manually.');
+      return;
+    }
+
     setAnalyzing(true);
     setAnalysisError(null);
 
@@ -71,6 +96,7 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
           fileData,
           fileType,
           fileName,
+          ...(schemaId ? { schema: schemaId } : {}),
         }),
       });
 
@@ -79,10 +105,10 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
         throw new Error(errorData.message || 'Analysis failed');
       }
 
-      const result = await response.json();
+      const result: AnalysisResponse = await response.json();
       console.log('Analysis completed:', result);
 
-      // Pre-fill description and notes with AI-generated content
+      // Pre-fill description, notes, tags and category with AI-generated content
       if (result.description) {
         setDescription(result.description);
         setAiGeneratedDescription(true);
@@ -91,6 +117,23 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
         setNotes(result.summary);
         setAiGeneratedNotes(true);
       }
+      if (result.suggestedTags?.length) {
+        setTags(result.suggestedTags);
+        setAiGeneratedTags(true);
+      }
+      // Fallback responses have no real classification (confidence 0)
+      if (result.category && result.confidence > 0) {
+        setCategory(result.category);
+        setAiCategoryConfidence(result.confidence ?? 0);
+      }
+      if (result.fields && Object.values(result.fields.values).some((value) => value !== null)) {
+        setFieldValues(result.fields.values);
+        setAiGeneratedFields(true);
+      }
+      if (result.fields?.lineItems?.length) {
+        replaceLineItems(result.fields.lineItems);
+        setAiGeneratedFields(true);
+      }
 
       setAnalysisError(null);
     } catch (err) {
@@ -109,16 +152,35 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
       setNotes('Please add details manually.');
       setAiGeneratedDescription(false);
       setAiGeneratedNotes(false);
+      setAiGeneratedTags(false);
+      setAiCategoryConfidence(null);
+      setAiGeneratedFields(false);
     } finally {
       setAnalyzing(false);
     }
   };
 
+  // Warn before saving a file that is already stored in this post
+  const checkDuplicate = async (fileData: string) => {
+    try {
+      const contentHash = await sha256Hex(dataUriToBytes(fileData));
+      const response = await fetch(`/api/documents/duplicates?contentHash=${contentHash}`);
+      if (!response.ok) return;
+      const data: DuplicateCheckResponse = await response.json();
+      setDuplicate(data.duplicate);
+    } catch (err) {
+      console.error('Duplicate check failed:', err);
+    }
+  };
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     setError(null);
+    setResumeSessionId(null);
+    setUploadProgress(null);
+    setDuplicate(null);
 
     try {
       // More robust PDF detection
@@ -133,13 +195,10 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
         throw new Error('Only image files and PDFs are supported');
       }
 
-      // Check file size limits
-      // Both images and PDFs stored in Redis with 500KB limit
-      const maxSizeMB = 0.5;
-      const fileSizeMB = file.size / (1024 * 1024);
-      
-      if (fileSizeMB > maxSizeMB) {
-        throw new Error(`File is too large. Maximum size is ${maxSizeMB}MB for ${isPDF ? 'PDFs' : 'images'}.`);
+      // Check file size limits (from server config; large PDFs may go to external storage)
+      // Images are compressed below, so only PDFs are checked against the raw size here
+      if (isPDF && file.size > limits.maxFileSizeBytes) {
+        throw new Error(`File is too large. Maximum size is ${formatSize(limits.maxFileSizeBytes)} for PDFs.`);
       }
 
       if (isPDF) {
@@ -154,6 +213,7 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
           setFileType(pdfFileType);
           setImagePreview(null); // No preview for PDFs
           console.log('PDF loaded successfully:', file.name);
+          void checkDuplicate(base64);
 
           // Auto-analyze if enabled
           if (autoAnalyze) {
@@ -168,8 +228,8 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
       } else {
         // For images, compress as before
         const compressed = await compressImage(file);
-        const sizeEstimate = (compressed.length * 0.75) / 1024;
-        if (sizeEstimate > 500) {
+        const sizeEstimate = compressed.length * 0.75;
+        if (sizeEstimate > limits.maxFileSizeBytes) {
           throw new Error('Image is too large even after compression. Try a smaller image.');
         }
 
@@ -177,6 +237,7 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
         setBase64Data(compressed);
         setFileName(file.name);
         setFileType('image/jpeg');
+        void checkDuplicate(compressed);
 
         // Auto-analyze if enabled
         if (autoAnalyze) {
@@ -211,38 +272,78 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
     setError(null);
 
     try {
-      const response = await fetch('/api/documents/add', {
+      // Send the file in chunks; a failed chunk leaves the session open to resume
+      const sessionId = await uploadInChunks({
+        bytes: dataUriToBytes(base64Data),
+        fileName,
+        fileType,
+        sessionId: resumeSessionId,
+        onProgress: (received, total) => setUploadProgress({ received, total }),
+      });
+      setResumeSessionId(sessionId);
+
+      const response = await fetchWithConflictRetry(`/api/uploads/${sessionId}/complete`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          fileName,
-          fileType,
-          fileData: base64Data, // Changed from imageData to fileData for consistency
           description: description.trim(),
           notes: notes.trim(),
+          tags,
+          ...(folderId ? { folderId } : {}),
+          ...(category ? { category } : {}),
+          ...(schemaId &&
+          (Object.values(fieldValues).some((value) => value !== null) || lineItems.length > 0)
+            ? {
+                fields: {
+                  schemaId,
+                  values: fieldValues,
+                  ...(schema?.lineItems ? { lineItems } : {}),
+                },
+              }
+            : {}),
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (response.status === 422 || response.status === 404) {
+          // Session is gone (checksum mismatch or expired); the next attempt starts over
+          setResumeSessionId(null);
+        }
         throw new Error(errorData.message || 'Failed to upload document');
       }
 
+      setResumeSessionId(null);
+      setUploadProgress(null);
+      setDuplicate(null);
       setImagePreview(null);
       setBase64Data('');
       setFileName('');
       setFileType('');
       setDescription('');
       setNotes('');
+      setTags([]);
+      setCategory('');
       setAiGeneratedDescription(false);
       setAiGeneratedNotes(false);
+      setAiGeneratedTags(false);
+      setAiCategoryConfidence(null);
+      setFieldValues({});
+      replaceLineItems([]);
+      setAiGeneratedFields(false);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
 
+      void reloadTags();
       onDocumentAdded();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Upload failed. Please try again.');
+      if (err instanceof ChunkedUploadError && err.sessionId) {
+        setResumeSessionId(err.sessionId);
+        setError(`Upload interrupted: ${err.message}. Press "Resume Upload" to continue.`);
+      } else {
+        setError(err instanceof Error ? err.message : 'Upload failed. Please try again.');
+      }
       console.error('Upload error:', err);
     } finally {
       setUploading(false);
@@ -250,14 +351,24 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
   };
 
   const handleCancel = () => {
+    setResumeSessionId(null);
+    setUploadProgress(null);
+    setDuplicate(null);
     setImagePreview(null);
     setBase64Data('');
     setFileName('');
     setFileType('');
     setDescription('');
     setNotes('');
+    setTags([]);
+    setCategory('');
     setAiGeneratedDescription(false);
     setAiGeneratedNotes(false);
+    setAiGeneratedTags(false);
+    setAiCategoryConfidence(null);
+    setFieldValues({});
+    replaceLineItems([]);
+    setAiGeneratedFields(false);
     setError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -298,6 +409,30 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
           </label>
         </div>
 
+        {schemas.length > 0 && (
+          <div className="mb-4">
+            <label className="block mb-2 text-sm font-medium text-gray-300">Extract fields</label>
+            <select
+              value={schemaId}
+              onChange={(e) => {
+                setSchemaId(e.target.value);
+                setFieldValues({});
+                replaceLineItems([]);
+                setAiGeneratedFields(false);
+              }}
+              disabled={analyzing || uploading}
+              className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Don't extract fields</option>
+              {schemas.map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {!imagePreview && !fileName ? (
           <div className="mb-6">
             {/* Visible, styled file input - most reliable for mobile */}
@@ -328,7 +463,9 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
                 </div>
                 <div>
                   <p className="text-gray-300 font-medium">Tap to select a file</p>
-                  <p className="text-gray-500 text-sm mt-1">Images (max 500KB) or PDFs (max 10MB)</p>
+                  <p className="text-gray-500 text-sm mt-1">
+                    Images or PDFs (max {formatSize(limits.maxFileSizeBytes)})
+                  </p>
                 </div>
               </div>
             </label>
@@ -403,6 +540,18 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
               </div>
             )}
 
+            {duplicate && (
+              <div className="mb-4 bg-yellow-900/20 border border-yellow-700/30 rounded-lg p-4">
+                <p className="text-yellow-300 text-sm font-medium">
+                  This file already exists as "{duplicate.description}"
+                  {duplicate.deletedAt !== undefined && ' (in Trash)'}
+                </p>
+                <p className="text-yellow-400/70 text-xs mt-1">
+                  Saving it again adds another entry that shares the stored file.
+                </p>
+              </div>
+            )}
+
             <div className="mb-4">
               <div className="flex items-center justify-between mb-2">
                 <label className="text-sm font-medium text-gray-300">Description *</label>
@@ -466,15 +615,128 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
               </div>
             </div>
 
+            <div className="mb-4">
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-gray-300">Category</label>
+                {aiCategoryConfidence !== null && category && (
+                  <span
+                    className={`text-xs ${
+                      aiCategoryConfidence < LOW_CONFIDENCE ? 'text-yellow-400' : 'text-purple-400/80'
+                    }`}
+                  >
+                    ✨ AI · {Math.round(aiCategoryConfidence * 100)}% sure
+                    {aiCategoryConfidence < LOW_CONFIDENCE && ', please check'}
+                  </span>
+                )}
+              </div>
+              <select
+                value={category}
+                onChange={(e) => {
+                  setCategory(e.target.value);
+                  setAiCategoryConfidence(null);
+                }}
+                disabled={analyzing}
+                className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">No category</option>
+                {categories.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mb-4">
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-gray-300">Tags (optional)</label>
+                {aiGeneratedTags && tags.length > 0 && (
+                  <span className="text-xs text-purple-400/80">✨ Suggested by AI</span>
+                )}
+              </div>
+              <TagInput
+                tags={tags}
+                onChange={(next) => {
+                  setTags(next);
+                  setAiGeneratedTags(false);
+                }}
+                suggestions={knownTags}
+                disabled={analyzing}
+              />
+            </div>
+
+            {schema && (
+              <div className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-gray-300">{schema.name} fields</label>
+                  {aiGeneratedFields && (
+                    <span className="text-xs text-purple-400/80">
+                      ✨ Extracted by AI, please check
+                    </span>
+                  )}
+                </div>
+                <FieldsForm
+                  schema={schema}
+                  values={fieldValues}
+                  onChange={setFieldValues}
+                  disabled={analyzing}
+                />
+                {schema.lineItems && (
+                  <div className="mt-3">
+                    <label className="block mb-2 text-xs font-medium text-gray-400">
+                      Line items
+                    </label>
+                    <LineItemsEditor
+                      key={lineItemsKey}
+                      items={lineItems}
+                      onChange={setLineItems}
+                      disabled={analyzing}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {folders.length > 0 && (
+              <div className="mb-4">
+                <label className="block mb-2 text-sm font-medium text-gray-300">Folder</label>
+                <select
+                  value={folderId}
+                  onChange={(e) => setFolderId(e.target.value)}
+                  disabled={analyzing}
+                  className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">No folder</option>
+                  {folders.map((folder) => (
+                    <option key={folder.id} value={folder.id}>
+                      {folder.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {uploading && (
               <div className="mb-4 bg-blue-900/20 border border-blue-700/30 rounded-lg p-4">
                 <div className="flex items-center gap-3">
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-400"></div>
                   <div className="flex-1">
                     <p className="text-blue-300 text-sm font-medium">Uploading document...</p>
-                    <p className="text-blue-400/70 text-xs mt-1">Please wait while we save your file</p>
+                    <p className="text-blue-400/70 text-xs mt-1">
+                      {uploadProgress
+                        ? `Sent ${uploadProgress.received} of ${uploadProgress.total} chunks`
+                        : 'Please wait while we save your file'}
+                    </p>
                   </div>
                 </div>
+                {uploadProgress && uploadProgress.total > 0 && (
+                  <div className="mt-3 h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${(uploadProgress.received / uploadProgress.total) * 100}%` }}
+                    ></div>
+                  </div>
+                )}
               </div>
             )}
 
@@ -484,7 +746,13 @@ export const DocumentUploader = ({ onDocumentAdded }: { onDocumentAdded: () => v
                 disabled={uploading || analyzing}
                 className="flex-1 bg-gradient-to-r from-blue-600 to-blue-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-700 hover:to-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg shadow-blue-500/30 touch-manipulation"
               >
-                {uploading ? 'Uploading...' : 'Save Document'}
+                {uploading
+                  ? 'Uploading...'
+                  : resumeSessionId
+                    ? 'Resume Upload'
+                    : duplicate
+                      ? 'Save Anyway'
+                      : 'Save Document'}
               </button>
               <button
                 type="button"
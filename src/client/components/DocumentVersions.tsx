@@ -0,0 +1,247 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import type {
+  DocumentFileVersion,
+  DocumentMetadata,
+  DocumentRetrievalResponse,
+  DocumentVersionsResponse,
+} from '../../shared/types/api';
+import { fetchWithConflictRetry } from '../utils/fetchWithRetry';
+import { ChunkedUploadError, dataUriToBytes, uploadInChunks } from '../utils/chunkedUpload';
+import { compressImage } from '../utils/compressImage';
+
+const formatVersion = (version: DocumentFileVersion, currentVersion: number) =>
+  `v${version.number} · ${new Date(version.uploadedAt).toLocaleString()}` +
+  (version.uploadedBy ? ` · ${version.uploadedBy}` : ' · original upload') +
+  (version.number === currentVersion ? ' (current)' : '');
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+
+// File history for the document detail view: pick a version to preview or roll back to,
+// or upload a corrected file as a new version
+export const DocumentVersions = ({
+  doc,
+  onDocumentChanged,
+}: {
+  doc: DocumentMetadata;
+  onDocumentChanged: (updated: DocumentMetadata) => void;
+}) => {
+  const [history, setHistory] = useState<DocumentVersionsResponse | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ received: number; total: number } | null>(
+    null
+  );
+  const [versionError, setVersionError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/documents/${doc.id}/versions`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: DocumentVersionsResponse = await response.json();
+        if (!cancelled) {
+          setHistory(data);
+          setSelected(data.currentVersion);
+          setPreview(null);
+        }
+      } catch (error) {
+        console.error(`Failed to load versions for ${doc.id}:`, error);
+      }
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [doc.id, doc.version]);
+
+  // Show the server's copy after a conflict so the user can decide again
+  const handleFailure = async (response: Response, fallback: string) => {
+    const data = await response.json();
+    if (response.status === 409 && data.document) {
+      onDocumentChanged(data.document);
+    }
+    throw new Error(data.message || fallback);
+  };
+
+  const handlePreview = async (version: DocumentFileVersion) => {
+    setVersionError(null);
+    try {
+      const response = await fetch(`/api/documents/get/${doc.id}?version=${version.number}`);
+      if (!response.ok) throw new Error('Failed to load this version');
+      const data: DocumentRetrievalResponse = await response.json();
+
+      if (data.url) {
+        window.open(data.url, '_blank');
+      } else if (data.imageData && version.fileType.startsWith('image/')) {
+        setPreview(data.imageData);
+      } else {
+        throw new Error('Preview is not available for this file');
+      }
+    } catch (error) {
+      console.error('Failed to preview version:', error);
+      setVersionError(error instanceof Error ? error.message : 'Failed to load this version');
+    }
+  };
+
+  const handleRollback = async (version: DocumentFileVersion) => {
+    setBusy(true);
+    setVersionError(null);
+    try {
+      const response = await fetch(`/api/documents/${doc.id}/versions/${version.number}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version: doc.version }),
+      });
+      if (!response.ok) {
+        await handleFailure(response, 'Failed to roll back');
+      }
+
+      const data = await response.json();
+      onDocumentChanged(data.document);
+    } catch (error) {
+      console.error('Failed to roll back document:', error);
+      setVersionError(error instanceof Error ? error.message : 'Failed to roll back');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileSelect = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setBusy(true);
+    setVersionError(null);
+    try {
+      const isPDF = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+      if (!isPDF && !file.type.startsWith('image/')) {
+        throw new Error('Only image files and PDFs are supported');
+      }
+
+      // Prepare the file the same way as a new upload
+      const fileData = isPDF ? await readAsDataUrl(file) : await compressImage(file);
+      const fileType = isPDF ? file.type || 'application/pdf' : 'image/jpeg';
+
+      const sessionId = await uploadInChunks({
+        bytes: dataUriToBytes(fileData),
+        fileName: file.name,
+        fileType,
+        onProgress: (received, total) => setUploadProgress({ received, total }),
+      });
+
+      const response = await fetchWithConflictRetry(`/api/documents/${doc.id}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ uploadSessionId: sessionId }),
+      });
+      if (!response.ok) {
+        await handleFailure(response, 'Failed to upload new version');
+      }
+
+      const data = await response.json();
+      onDocumentChanged(data.document);
+    } catch (error) {
+      console.error('Failed to upload new version:', error);
+      const message = error instanceof Error ? error.message : 'Failed to upload new version';
+      setVersionError(
+        error instanceof ChunkedUploadError ? `Upload interrupted: ${message}` : message
+      );
+    } finally {
+      setBusy(false);
+      setUploadProgress(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const selectedVersion = history?.versions.find((version) => version.number === selected);
+
+  return (
+    <div className="border-t border-gray-700 pt-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-400">Versions</h3>
+        <label
+          className={`text-xs text-blue-400 hover:text-blue-300 transition-colors cursor-pointer ${
+            busy ? 'opacity-50 pointer-events-none' : ''
+          }`}
+        >
+          {uploadProgress
+            ? `Uploading ${Math.round((uploadProgress.received / uploadProgress.total) * 100)}%...`
+            : 'Upload new version'}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,application/pdf"
+            onChange={(e) => void handleFileSelect(e)}
+            disabled={busy}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {history && (
+        <select
+          value={selected ?? history.currentVersion}
+          onChange={(e) => {
+            setSelected(Number(e.target.value));
+            setPreview(null);
+          }}
+          disabled={busy}
+          className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {history.versions.map((version) => (
+            <option key={version.number} value={version.number}>
+              {formatVersion(version, history.currentVersion)}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {history && selectedVersion && selectedVersion.number !== history.currentVersion && (
+        <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-3 space-y-2">
+          <p className="text-white text-sm">{selectedVersion.description}</p>
+          <p className="text-gray-500 text-xs">
+            {selectedVersion.fileName} · {Math.round(selectedVersion.fileSize / 1024)}KB
+          </p>
+          {preview && (
+            <img
+              src={preview}
+              alt={selectedVersion.fileName}
+              className="max-h-48 mx-auto rounded-lg border border-gray-700"
+            />
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={() => void handlePreview(selectedVersion)}
+              disabled={busy}
+              className="px-3 py-1.5 border border-gray-700 rounded-lg text-gray-300 text-sm hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              Preview
+            </button>
+            <button
+              onClick={() => void handleRollback(selectedVersion)}
+              disabled={busy}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {busy ? 'Rolling back...' : 'Roll back to this version'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {versionError && <p className="text-red-300 text-sm">{versionError}</p>}
+    </div>
+  );
+};
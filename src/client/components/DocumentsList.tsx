@@ -1,31 +1,144 @@
-import { useState, useEffect } from 'react';
-import type { Document } from '../../shared/types/api';
+import { useCallback, useState, useEffect, useRef } from 'react';
+import type {
+  Document,
+  DocumentMetadata,
+  DocumentsListResponse,
+  DocumentRetrievalResponse,
+  DocumentUpdateRequest,
+  OcrResponse,
+} from '../../shared/types/api';
+import { BulkReanalysis } from './BulkReanalysis';
+import { DocumentThumbnail } from './DocumentThumbnail';
+import { DocumentVersions } from './DocumentVersions';
+import { DocumentChat } from './DocumentChat';
+import { DocumentFieldsPanel } from './DocumentFieldsPanel';
+import { DocumentReanalysis } from './DocumentReanalysis';
+import { DocumentReminders } from './DocumentReminders';
+import { DocumentSearch } from './DocumentSearch';
+import { FolderSidebar } from './FolderSidebar';
+import { TagInput } from './TagInput';
+import { fetchWithConflictRetry } from '../utils/fetchWithRetry';
+import { useFolders } from '../hooks/useFolders';
+import { useTags } from '../hooks/useTags';
+import { useCategories } from '../hooks/useCategories';
+import { useFieldSchemas } from '../hooks/useFieldSchemas';
+
+const PAGE_SIZE = 12;
+
+const STORAGE_LABELS: Record<Document['storageProvider'], string> = {
+  redis: 'Redis',
+  s3: 'AWS S3',
+  postgresql: 'PostgreSQL',
+  filesystem: 'Local Storage',
+};
 
 export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) => {
-  const [documents, setDocuments] = useState<Document[]>([]);
+  const [documents, setDocuments] = useState<DocumentMetadata[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [selectedDoc, setSelectedDoc] = useState<Document | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
   const [loadingUrl, setLoadingUrl] = useState(false);
   const [urlError, setUrlError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [editDescription, setEditDescription] = useState('');
+  const [editNotes, setEditNotes] = useState('');
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [editFolderId, setEditFolderId] = useState('');
+  const [editCategory, setEditCategory] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [extracting, setExtracting] = useState(false);
+  const [ocrError, setOcrError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [folderFilter, setFolderFilter] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const { folders, reload: reloadFolders } = useFolders();
+  const { tags, reload: reloadTags } = useTags();
+  const categories = useCategories();
+  const schemas = useFieldSchemas();
 
-  useEffect(() => {
-    loadDocuments();
-  }, [refreshTrigger]);
+  // Search results replace the grid while a query is entered
+  const searching = searchQuery.trim().length > 0;
+  const filtered = tagFilter !== null || folderFilter !== null;
+  const folderNames = new Map(folders.map((folder) => [folder.id, folder.name]));
+
+  const fetchPage = useCallback(
+    async (cursor: string | null): Promise<DocumentsListResponse> => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+      if (tagFilter) {
+        params.set('tag', tagFilter);
+      } else if (folderFilter) {
+        params.set('folderId', folderFilter);
+      }
+      const response = await fetch(`/api/documents/list?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return response.json();
+    },
+    [tagFilter, folderFilter]
+  );
 
-  const loadDocuments = async () => {
+  const loadDocuments = useCallback(async () => {
     try {
-      const response = await fetch('/api/documents/list');
-      const data = await response.json();
+      const data = await fetchPage(null);
       setDocuments(data.documents || []);
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
     } catch (error) {
       console.error('Failed to load documents:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [fetchPage]);
+
+  // loadDocuments changes with the filters, so this also reloads when they do
+  useEffect(() => {
+    void loadDocuments();
+  }, [loadDocuments, refreshTrigger]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const data = await fetchPage(nextCursor);
+      // Offsets shift when documents are added, so skip any we already have
+      setDocuments((prev) => {
+        const seen = new Set(prev.map((doc) => doc.id));
+        return [...prev, ...data.documents.filter((doc) => !seen.has(doc.id))];
+      });
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
+    } catch (error) {
+      console.error('Failed to load more documents:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, nextCursor, loadingMore]);
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        void loadMore();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor, selectedDoc, searching]);
 
   const handleDeleteClick = (docId: string) => {
     setDeleteConfirm(docId);
@@ -36,7 +149,7 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
 
     setDeleting(true);
     try {
-      const response = await fetch('/api/documents/delete', {
+      const response = await fetchWithConflictRetry('/api/documents/delete', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ id: deleteConfirm }),
@@ -44,6 +157,7 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
 
       if (response.ok) {
         setDocuments(documents.filter((doc) => doc.id !== deleteConfirm));
+        setTotal((prev) => Math.max(0, prev - 1));
         if (selectedDoc?.id === deleteConfirm) {
           setSelectedDoc(null);
         }
@@ -63,7 +177,163 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
     setDeleteConfirm(null);
   };
 
-  const handleDocumentClick = async (doc: Document) => {
+  // Only one filter applies at a time
+  const handleSelectTag = (tag: string | null) => {
+    setTagFilter(tag);
+    setFolderFilter(null);
+    setSelectedDoc(null);
+    setEditing(false);
+  };
+
+  const handleSelectFolder = (folderId: string | null) => {
+    setFolderFilter(folderId);
+    setTagFilter(null);
+  };
+
+  const handleEditStart = () => {
+    if (!selectedDoc) return;
+    setEditDescription(selectedDoc.description);
+    setEditNotes(selectedDoc.notes);
+    setEditTags(selectedDoc.tags ?? []);
+    setEditFolderId(selectedDoc.folderId ?? '');
+    setEditCategory(selectedDoc.category ?? '');
+    setEditError(null);
+    setEditing(true);
+  };
+
+  const handleEditCancel = () => {
+    setEditing(false);
+    setEditError(null);
+  };
+
+  const handleEditSave = async () => {
+    if (!selectedDoc) return;
+
+    if (!editDescription.trim()) {
+      setEditError('Description cannot be empty');
+      return;
+    }
+
+    setSaving(true);
+    setEditError(null);
+    try {
+      const body: DocumentUpdateRequest = {
+        description: editDescription.trim(),
+        notes: editNotes.trim(),
+        tags: editTags,
+        folderId: editFolderId || null,
+        category: editCategory || null,
+      };
+      if (selectedDoc.version !== undefined) {
+        body.version = selectedDoc.version;
+      }
+
+      const response = await fetch(`/api/documents/${selectedDoc.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (response.status === 409 && data.document) {
+        // Someone else edited this document; show their version and keep the form open
+        const latest: DocumentMetadata = data.document;
+        setSelectedDoc({ ...selectedDoc, ...latest });
+        setDocuments((prev) => prev.map((doc) => (doc.id === latest.id ? latest : doc)));
+        setEditError('This document was changed elsewhere. Review the latest version and save again.');
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save changes');
+      }
+
+      // Spread drops fields the update removed (e.g. folderId), except the file payload
+      const updated: DocumentMetadata = data.document;
+      setSelectedDoc(
+        selectedDoc.imageData ? { ...updated, imageData: selectedDoc.imageData } : updated
+      );
+      setDocuments((prev) => prev.map((doc) => (doc.id === updated.id ? updated : doc)));
+      setEditing(false);
+      void reloadFolders();
+      void reloadTags();
+    } catch (error) {
+      console.error('Failed to save document:', error);
+      setEditError(error instanceof Error ? error.message : 'Failed to save changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFieldsChanged = (updated: DocumentMetadata) => {
+    setDocuments((prev) => prev.map((doc) => (doc.id === updated.id ? updated : doc)));
+    setSelectedDoc((current) =>
+      current?.imageData ? { ...updated, imageData: current.imageData } : updated
+    );
+  };
+
+  // Background analysis may also have added tags
+  const handleReanalyzed = (updated: DocumentMetadata) => {
+    handleFieldsChanged(updated);
+    void reloadTags();
+  };
+
+  const handleBulkReanalyzed = () => {
+    void loadDocuments();
+    void reloadTags();
+  };
+
+  const handleVersionChanged = async (updated: DocumentMetadata) => {
+    setDocuments((prev) => prev.map((doc) => (doc.id === updated.id ? updated : doc)));
+    setEditing(false);
+    setSelectedDoc(updated);
+
+    // The file itself may have changed, so reload its payload
+    try {
+      const response = await fetch(`/api/documents/get/${updated.id}`);
+      if (!response.ok) {
+        throw new Error('Failed to load document');
+      }
+      const data: DocumentRetrievalResponse = await response.json();
+      if (data.imageData) {
+        setSelectedDoc({ ...updated, imageData: data.imageData });
+      }
+    } catch (error) {
+      console.error('Failed to reload document:', error);
+    }
+  };
+
+  const handleExtractText = async () => {
+    if (!selectedDoc) return;
+
+    setExtracting(true);
+    setOcrError(null);
+    try {
+      const response = await fetch('/api/ocr', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId: selectedDoc.id }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to extract text');
+      }
+
+      const updated = (data as OcrResponse).document;
+      if (updated) {
+        setSelectedDoc({ ...selectedDoc, ...updated });
+        setDocuments((prev) => prev.map((doc) => (doc.id === updated.id ? updated : doc)));
+      }
+    } catch (error) {
+      console.error('Failed to extract text:', error);
+      setOcrError(error instanceof Error ? error.message : 'Failed to extract text');
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  const handleDocumentClick = async (doc: DocumentMetadata) => {
     // For PDFs stored externally, fetch URL and open in new tab
     if (doc.fileType === 'application/pdf' && doc.storageProvider !== 'redis') {
       setLoadingUrl(true);
@@ -91,8 +361,25 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
         setLoadingUrl(false);
       }
     } else {
-      // For images or Redis-stored documents, show in detail view
-      setSelectedDoc(doc);
+      // For images or Redis-stored documents, load the payload and show in detail view
+      setLoadingUrl(true);
+      setUrlError(null);
+
+      try {
+        const response = await fetch(`/api/documents/get/${doc.id}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to load document');
+        }
+
+        const data: DocumentRetrievalResponse = await response.json();
+        setSelectedDoc(data.imageData ? { ...doc, imageData: data.imageData } : doc);
+      } catch (error) {
+        console.error('Failed to load document:', error);
+        setUrlError(error instanceof Error ? error.message : 'Failed to open document');
+      } finally {
+        setLoadingUrl(false);
+      }
     }
   };
 
@@ -100,7 +387,7 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
     return <div className="text-center text-gray-400 py-8">Loading documents...</div>;
   }
 
-  if (documents.length === 0) {
+  if (documents.length === 0 && !filtered) {
     return (
       <div className="max-w-2xl mx-auto">
         <div className="text-center text-gray-500 py-12">
@@ -124,7 +411,7 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
             <li>• Documents are stored per-post (this Reddit post)</li>
             <li>• Access your documents anytime by returning to this post</li>
             <li>• Download individual documents or copy all metadata to clipboard</li>
-            <li>• Maximum 20 documents per post (500KB each)</li>
+            <li>• Documents load in pages as you scroll (500KB each)</li>
           </ul>
         </div>
       </div>
@@ -134,13 +421,27 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
   const handleCopyAll = async () => {
     if (documents.length === 0) return;
 
+    // Fetch any pages not yet loaded so the export covers every document
+    let allDocuments = documents;
+    let cursor = nextCursor;
+    try {
+      while (cursor) {
+        const data = await fetchPage(cursor);
+        const seen = new Set(allDocuments.map((doc) => doc.id));
+        allDocuments = [...allDocuments, ...data.documents.filter((doc) => !seen.has(doc.id))];
+        cursor = data.nextCursor;
+      }
+    } catch (error) {
+      console.error('Failed to load remaining documents for export:', error);
+    }
+
     // Create a simple text export with all document info
     let exportText = `Document Manager Export\n`;
     exportText += `Exported: ${new Date().toLocaleString()}\n`;
-    exportText += `Total Documents: ${documents.length}\n\n`;
+    exportText += `Total Documents: ${allDocuments.length}\n\n`;
     exportText += `${'='.repeat(50)}\n\n`;
 
-    documents.forEach((doc, index) => {
+    allDocuments.forEach((doc, index) => {
       exportText += `Document ${index + 1}\n`;
       exportText += `File: ${doc.fileName}\n`;
       exportText += `Description: ${doc.description}\n`;
@@ -181,7 +482,11 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
       {selectedDoc ? (
         <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl shadow-2xl p-4 md:p-6 border border-gray-700/50">
           <button
-            onClick={() => setSelectedDoc(null)}
+            onClick={() => {
+              setSelectedDoc(null);
+              setEditing(false);
+              setOcrError(null);
+            }}
             className="mb-4 text-blue-400 hover:text-blue-300 flex items-center gap-1 transition-colors"
           >
             ← Back to list
@@ -211,7 +516,7 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
                 </svg>
                 <p className="text-gray-300 font-medium mb-2">PDF Document</p>
                 <p className="text-gray-500 text-sm">
-                  Stored in {selectedDoc.storageProvider === 's3' ? 'AWS S3' : 'PostgreSQL'}
+                  Stored in {STORAGE_LABELS[selectedDoc.storageProvider]}
                 </p>
               </div>
             )}
@@ -223,16 +528,154 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
               <p className="text-white">{selectedDoc.fileName}</p>
             </div>
 
-            <div>
-              <h3 className="text-sm font-medium text-gray-400">Description</h3>
-              <p className="text-white">{selectedDoc.description}</p>
-            </div>
-
-            {selectedDoc.notes && (
-              <div>
-                <h3 className="text-sm font-medium text-gray-400">Notes</h3>
-                <p className="text-gray-300 whitespace-pre-wrap">{selectedDoc.notes}</p>
+            {editing ? (
+              <div className="space-y-3">
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-400">Description *</label>
+                  <input
+                    type="text"
+                    value={editDescription}
+                    onChange={(e) => setEditDescription(e.target.value)}
+                    disabled={saving}
+                    className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-400">Notes</label>
+                  <textarea
+                    value={editNotes}
+                    onChange={(e) => setEditNotes(e.target.value)}
+                    disabled={saving}
+                    rows={4}
+                    className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-400">Category</label>
+                  <select
+                    value={editCategory}
+                    onChange={(e) => setEditCategory(e.target.value)}
+                    disabled={saving}
+                    className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">No category</option>
+                    {categories.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-400">Tags</label>
+                  <TagInput
+                    tags={editTags}
+                    onChange={setEditTags}
+                    suggestions={tags}
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-400">Folder</label>
+                  <select
+                    value={editFolderId}
+                    onChange={(e) => setEditFolderId(e.target.value)}
+                    disabled={saving}
+                    className="block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">No folder</option>
+                    {folders.map((folder) => (
+                      <option key={folder.id} value={folder.id}>
+                        {folder.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {editError && <p className="text-red-300 text-sm">{editError}</p>}
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => void handleEditSave()}
+                    disabled={saving}
+                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  >
+                    {saving ? 'Saving...' : 'Save Changes'}
+                  </button>
+                  <button
+                    onClick={handleEditCancel}
+                    disabled={saving}
+                    className="px-4 py-2 border border-gray-700 rounded-lg text-gray-300 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
               </div>
+            ) : (
+              <>
+                <div>
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-medium text-gray-400">Description</h3>
+                    <button
+                      onClick={handleEditStart}
+                      className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                  <p className="text-white">{selectedDoc.description}</p>
+                </div>
+
+                {selectedDoc.category && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-400">Category</h3>
+                    <p className="text-gray-300 capitalize">{selectedDoc.category}</p>
+                  </div>
+                )}
+
+                {selectedDoc.notes && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-400">Notes</h3>
+                    <p className="text-gray-300 whitespace-pre-wrap">{selectedDoc.notes}</p>
+                  </div>
+                )}
+
+                {(selectedDoc.folderId || (selectedDoc.tags?.length ?? 0) > 0) && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-400">Folder & Tags</h3>
+                    {selectedDoc.folderId && (
+                      <p className="text-gray-300 text-sm">
+                        📁 {folderNames.get(selectedDoc.folderId) ?? 'Unknown folder'}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-1.5 mt-1">
+                      {selectedDoc.tags?.map((tag) => (
+                        <button
+                          key={tag}
+                          onClick={() => handleSelectTag(tag)}
+                          className="px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded-full text-xs hover:bg-blue-500/30 transition-colors"
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <DocumentFieldsPanel
+                  doc={selectedDoc}
+                  schemas={schemas}
+                  onDocumentChanged={handleFieldsChanged}
+                />
+
+                <DocumentReminders doc={selectedDoc} />
+
+                <DocumentReanalysis
+                  key={`reanalysis-${selectedDoc.id}`}
+                  doc={selectedDoc}
+                  onDocumentChanged={handleReanalyzed}
+                />
+
+                <DocumentChat key={selectedDoc.id} doc={selectedDoc} />
+              </>
             )}
 
             <div>
@@ -240,6 +683,11 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
               <p className="text-gray-500 text-sm">
                 {new Date(selectedDoc.timestamp).toLocaleString()}
               </p>
+              {selectedDoc.updatedAt && (
+                <p className="text-gray-600 text-xs mt-1">
+                  Edited {new Date(selectedDoc.updatedAt).toLocaleString()}
+                </p>
+              )}
             </div>
 
             {selectedDoc.imageData ? (
@@ -250,149 +698,244 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
               </div>
             ) : null}
 
+            {selectedDoc.fileType.startsWith('image/') && (
+              <div>
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium text-gray-400">Extracted Text</h3>
+                  <button
+                    onClick={() => void handleExtractText()}
+                    disabled={extracting}
+                    className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50 transition-colors"
+                  >
+                    {extracting
+                      ? 'Extracting...'
+                      : selectedDoc.ocrText !== undefined
+                        ? 'Extract again'
+                        : 'Extract text'}
+                  </button>
+                </div>
+                {selectedDoc.ocrText !== undefined && (
+                  <p className="text-gray-300 text-sm whitespace-pre-wrap max-h-48 overflow-y-auto">
+                    {selectedDoc.ocrText || 'No text was found in this image.'}
+                  </p>
+                )}
+                {ocrError && <p className="text-red-300 text-sm">{ocrError}</p>}
+              </div>
+            )}
+
+            <DocumentVersions
+              doc={selectedDoc}
+              onDocumentChanged={(updated) => void handleVersionChanged(updated)}
+            />
+
             <div className="flex justify-center mt-4">
               <button
                 onClick={() => handleDeleteClick(selectedDoc.id)}
                 className="px-6 py-3 bg-red-600/80 text-white rounded-lg hover:bg-red-600 active:bg-red-700 transition-colors touch-manipulation"
               >
-                Delete Document
+                Move to Trash
               </button>
             </div>
           </div>
         </div>
       ) : (
-        <div>
-          <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-bold text-white">
-              My Documents ({documents.length})
-            </h2>
+        <div className="md:flex md:gap-6">
+          <FolderSidebar
+            folders={folders}
+            tags={tags}
+            selectedFolderId={folderFilter}
+            selectedTag={tagFilter}
+            onSelectFolder={handleSelectFolder}
+            onSelectTag={handleSelectTag}
+            onFoldersChanged={() => void reloadFolders()}
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-white">
+                {tagFilter
+                  ? `#${tagFilter}`
+                  : folderFilter
+                    ? (folderNames.get(folderFilter) ?? 'Folder')
+                    : 'My Documents'}{' '}
+                ({total})
+              </h2>
+              {documents.length > 0 && (
+                <button
+                  onClick={handleCopyAll}
+                  className={`px-4 py-2 rounded-lg transition-all text-sm flex items-center gap-2 ${
+                    copySuccess
+                      ? 'bg-green-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {copySuccess ? (
+                    <>
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                      </svg>
+                      Copied!
+                    </>
+                  ) : (
+                    <>
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                      </svg>
+                      Copy All
+                    </>
+                  )}
+                </button>
+              )}
+            </div>
+            {documents.length > 0 && <BulkReanalysis onFinished={handleBulkReanalyzed} />}
             {documents.length > 0 && (
-              <button
-                onClick={handleCopyAll}
-                className={`px-4 py-2 rounded-lg transition-all text-sm flex items-center gap-2 ${
-                  copySuccess
-                    ? 'bg-green-600 text-white'
-                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                }`}
-              >
-                {copySuccess ? (
-                  <>
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                    </svg>
-                    Copied!
-                  </>
-                ) : (
-                  <>
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                    </svg>
-                    Copy All
-                  </>
-                )}
-              </button>
+              <DocumentSearch
+                query={searchQuery}
+                onQueryChange={setSearchQuery}
+                onSelect={(doc) => void handleDocumentClick(doc)}
+              />
             )}
-          </div>
-          {urlError && (
-            <div className="mb-4 bg-red-900/30 border border-red-700 rounded-lg p-4">
-              <div className="flex items-start gap-2">
-                <svg
-                  className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                  />
-                </svg>
-                <div>
-                  <p className="text-red-300 text-sm font-medium">{urlError}</p>
-                  <button
-                    onClick={() => setUrlError(null)}
-                    className="text-red-400 text-xs underline mt-1"
+            {urlError && (
+              <div className="mb-4 bg-red-900/30 border border-red-700 rounded-lg p-4">
+                <div className="flex items-start gap-2">
+                  <svg
+                    className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
                   >
-                    Dismiss
-                  </button>
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                    />
+                  </svg>
+                  <div>
+                    <p className="text-red-300 text-sm font-medium">{urlError}</p>
+                    <button
+                      onClick={() => setUrlError(null)}
+                      className="text-red-400 text-xs underline mt-1"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {documents.map((doc) => {
-              const isPDF = doc.fileType === 'application/pdf';
-              const isExternalStorage = doc.storageProvider !== 'redis';
+            <div className={`grid grid-cols-1 md:grid-cols-2 gap-4 ${searching ? 'hidden' : ''}`}>
+              {documents.map((doc) => {
+                const isPDF = doc.fileType === 'application/pdf';
+                const isExternalStorage = doc.storageProvider !== 'redis';
               
-              return (
-                <div
-                  key={doc.id}
-                  onClick={() => handleDocumentClick(doc)}
-                  className="bg-gray-800/50 backdrop-blur-sm rounded-xl shadow-lg p-4 border border-gray-700/50 cursor-pointer hover:border-blue-500/50 hover:shadow-xl transition-all"
-                >
-                  <div className="mb-3 relative">
-                    {isPDF ? (
-                      <div className="w-full h-40 bg-gray-900/50 rounded-lg flex items-center justify-center border border-gray-700">
-                        <div className="text-center">
-                          <svg
-                            className="w-16 h-16 text-red-400 mx-auto mb-2"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
-                            />
-                          </svg>
-                          <p className="text-gray-400 text-sm">PDF Document</p>
-                          {isExternalStorage && (
-                            <p className="text-gray-500 text-xs mt-1">
-                              {doc.storageProvider === 's3' ? 'Stored in S3' : 'Stored in PostgreSQL'}
-                            </p>
-                          )}
+                return (
+                  <div
+                    key={doc.id}
+                    onClick={() => handleDocumentClick(doc)}
+                    className="bg-gray-800/50 backdrop-blur-sm rounded-xl shadow-lg p-4 border border-gray-700/50 cursor-pointer hover:border-blue-500/50 hover:shadow-xl transition-all"
+                  >
+                    <div className="mb-3 relative">
+                      {isPDF ? (
+                        <div className="w-full h-40 bg-gray-900/50 rounded-lg flex items-center justify-center border border-gray-700">
+                          <div className="text-center">
+                            <svg
+                              className="w-16 h-16 text-red-400 mx-auto mb-2"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+                              />
+                            </svg>
+                            <p className="text-gray-400 text-sm">PDF Document</p>
+                            {isExternalStorage && (
+                              <p className="text-gray-500 text-xs mt-1">
+                                Stored in {STORAGE_LABELS[doc.storageProvider]}
+                              </p>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    ) : (
-                      <img
-                        src={doc.imageData}
-                        alt={doc.fileName}
-                        className="w-full h-40 object-cover rounded-lg"
-                      />
-                    )}
-                    {isPDF && (
-                      <div className="absolute top-2 right-2 bg-red-500 text-white text-xs px-2 py-1 rounded-md font-medium">
-                        PDF
-                      </div>
-                    )}
-                  </div>
+                      ) : (
+                        <DocumentThumbnail documentId={doc.id} fileName={doc.fileName} />
+                      )}
+                      {isPDF && (
+                        <div className="absolute top-2 right-2 bg-red-500 text-white text-xs px-2 py-1 rounded-md font-medium">
+                          PDF
+                        </div>
+                      )}
+                      {doc.category && (
+                        <div className="absolute top-2 left-2 bg-gray-900/80 text-gray-200 text-xs px-2 py-1 rounded-md font-medium capitalize">
+                          {doc.category}
+                        </div>
+                      )}
+                    </div>
 
-                  <h3 className="font-semibold text-white mb-1 truncate">
-                    {doc.description}
-                  </h3>
+                    <h3 className="font-semibold text-white mb-1 truncate">
+                      {doc.description}
+                    </h3>
 
-                  <p className="text-xs text-gray-500 mb-2 truncate">{doc.fileName}</p>
+                    <p className="text-xs text-gray-500 mb-2 truncate">{doc.fileName}</p>
 
-                  {doc.notes && (
-                    <p className="text-sm text-gray-400 line-clamp-2 mb-2">{doc.notes}</p>
-                  )}
+                    {doc.notes && (
+                      <p className="text-sm text-gray-400 line-clamp-2 mb-2">{doc.notes}</p>
+                    )}
 
-                  <div className="flex items-center justify-between">
-                    <p className="text-xs text-gray-600">
-                      {new Date(doc.timestamp).toLocaleDateString()}
-                    </p>
-                    {isPDF && isExternalStorage && (
-                      <p className="text-xs text-blue-400">Click to open</p>
+                    {doc.tags && doc.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5 mb-2">
+                        {doc.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleSelectTag(tag);
+                            }}
+                            className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                              tag === tagFilter
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-blue-500/20 text-blue-300 hover:bg-blue-500/30'
+                            }`}
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
                     )}
+
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs text-gray-600">
+                        {new Date(doc.timestamp).toLocaleDateString()}
+                      </p>
+                      {isPDF && isExternalStorage && (
+                        <p className="text-xs text-blue-400">Click to open</p>
+                      )}
+                    </div>
                   </div>
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
+
+            {documents.length === 0 && !searching && (
+              <p className="text-center text-gray-500 py-12">
+                {tagFilter ? `No documents are tagged #${tagFilter}.` : 'This folder is empty.'}
+              </p>
+            )}
+
+            {nextCursor && !searching && (
+              <div ref={sentinelRef} className="text-center text-gray-500 text-sm py-6">
+                {loadingMore ? 'Loading more documents...' : (
+                  <button
+                    onClick={() => void loadMore()}
+                    className="text-blue-400 hover:text-blue-300 transition-colors"
+                  >
+                    Load more
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -401,9 +944,9 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
       {deleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 backdrop-blur-sm">
           <div className="bg-gray-800 rounded-xl p-6 max-w-sm mx-4 shadow-2xl border border-gray-700">
-            <h3 className="text-lg font-bold text-white mb-2">Delete Document?</h3>
+            <h3 className="text-lg font-bold text-white mb-2">Move to Trash?</h3>
             <p className="text-gray-400 mb-6">
-              Are you sure you want to delete this document? This action cannot be undone.
+              You can restore this document from the Trash tab until it is permanently deleted.
             </p>
             <div className="flex gap-3">
               <button
@@ -418,7 +961,7 @@ export const DocumentsList = ({ refreshTrigger }: { refreshTrigger: number }) =>
                 disabled={deleting}
                 className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
               >
-                {deleting ? 'Deleting...' : 'Delete'}
+                {deleting ? 'Moving...' : 'Move to Trash'}
               </button>
             </div>
           </div>
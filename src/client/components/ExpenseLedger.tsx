@@ -0,0 +1,230 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type { LedgerResponse, LedgerTotal } from '../../shared/types/api';
+import { formatCurrency } from '../utils/formatCurrency';
+
+// Rows shown in the merchant breakdown
+const MAX_MERCHANTS = 10;
+
+const rangeQuery = (from: string, to: string) => {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  return params;
+};
+
+// Group totals as horizontal bars, scaled to the largest total in the list
+const TotalsList = ({ title, totals }: { title: string; totals: LedgerTotal[] }) => {
+  const max = Math.max(...totals.map(({ total }) => total), 1);
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+      <h3 className="text-sm font-medium text-gray-400 mb-3">{title}</h3>
+      <ul className="space-y-2">
+        {totals.map((total) => (
+          <li key={`${total.key}|${total.currency ?? ''}`} className="text-sm">
+            <div className="flex justify-between gap-2">
+              <span className="text-gray-300 truncate capitalize">{total.key}</span>
+              <span className="text-gray-200 whitespace-nowrap">
+                {formatCurrency(total.total, total.currency)}
+                <span className="text-gray-500 text-xs"> · {total.count}</span>
+              </span>
+            </div>
+            <div className="h-1.5 mt-1 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500"
+                style={{ width: `${Math.max(0, (total.total / max) * 100)}%` }}
+              ></div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// Receipts with extracted fields as an expense ledger: totals by category, merchant and
+// month for a date range, with CSV and JSON export
+export const ExpenseLedger = ({ refreshTrigger }: { refreshTrigger: number }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  // The range shown; the date inputs only apply when the form is submitted
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [ledger, setLedger] = useState<LedgerResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<'csv' | 'json' | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/ledger?${rangeQuery(range.from, range.to).toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load the ledger');
+        }
+        setLedger(data as LedgerResponse);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load ledger:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the ledger');
+      } finally {
+        setLoading(false);
+      }
+    };
+    void load();
+  }, [refreshTrigger, range]);
+
+  const handleApply = (e: FormEvent) => {
+    e.preventDefault();
+    setRange({ from, to });
+  };
+
+  // Copy rather than download; downloads are unreliable inside Reddit's webview
+  const handleCopy = async (format: 'csv' | 'json') => {
+    try {
+      const params = rangeQuery(range.from, range.to);
+      params.set('format', format);
+      const response = await fetch(`/api/ledger/export?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      await navigator.clipboard.writeText(await response.text());
+      setCopied(format);
+      setTimeout(() => setCopied(null), 3000);
+    } catch (err) {
+      console.error('Failed to copy ledger export:', err);
+      setError('Copy to clipboard failed. Try again, or use /api/ledger/export directly.');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 md:p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h2 className="text-xl font-bold text-white">Expense Ledger</h2>
+        <div className="flex gap-2">
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => void handleCopy(format)}
+              disabled={!ledger || ledger.entries.length === 0}
+              className={`px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                copied === format
+                  ? 'bg-green-600 text-white'
+                  : 'border border-gray-700 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {copied === format ? 'Copied!' : `Copy ${format.toUpperCase()}`}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-gray-500 text-sm mb-4">
+        Receipts with extracted fields. Amounts in different currencies are totalled separately.
+      </p>
+
+      <form onSubmit={handleApply} className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="text-sm text-gray-400">
+          From
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="block mt-1 text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-sm text-gray-400">
+          To
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="block mt-1 text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {loading ? 'Loading...' : 'Apply'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 rounded-lg p-4">
+          <p className="text-red-300 text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      {ledger && ledger.entries.length === 0 ? (
+        <div className="text-center text-gray-500 py-12">
+          <p className="text-gray-400">No receipts in this range.</p>
+          <p className="text-sm mt-1">
+            Choose "Receipt" under "Extract fields" when uploading a receipt to add it here.
+          </p>
+        </div>
+      ) : (
+        ledger && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-3">
+              {ledger.totals.map((total) => (
+                <div
+                  key={total.key}
+                  className="bg-gray-800/50 rounded-xl px-4 py-3 border border-gray-700/50"
+                >
+                  <p className="text-2xl font-bold text-white">
+                    {formatCurrency(total.total, total.currency)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {total.count} receipts · tax {formatCurrency(total.tax, total.currency)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <TotalsList title="By category" totals={ledger.byCategory} />
+              <TotalsList title="By merchant" totals={ledger.byMerchant.slice(0, MAX_MERCHANTS)} />
+              <TotalsList title="By month" totals={ledger.byMonth} />
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Date</th>
+                    <th className="py-1 pr-3 font-medium">Merchant</th>
+                    <th className="py-1 pr-3 font-medium">Category</th>
+                    <th className="py-1 pr-3 font-medium">Items</th>
+                    <th className="py-1 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledger.entries.map((entry) => (
+                    <tr key={entry.documentId} className="border-t border-gray-700/50">
+                      <td className="py-2 pr-3 text-gray-400 whitespace-nowrap">
+                        {new Date(`${entry.date}T00:00:00`).toLocaleDateString()}
+                      </td>
+                      <td className="py-2 pr-3 text-white">{entry.merchant}</td>
+                      <td className="py-2 pr-3 text-gray-300 capitalize">{entry.category}</td>
+                      <td className="py-2 pr-3 text-gray-500">{entry.lineItems.length || '—'}</td>
+                      <td className="py-2 text-right text-white whitespace-nowrap">
+                        {formatCurrency(entry.total, entry.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )
+      )}
+
+      {ledger && ledger.skipped > 0 && (
+        <p className="text-xs text-gray-600 mt-4">
+          {ledger.skipped} receipts are missing a merchant or total and are not included.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import type { FieldDefinition, FieldSchema, FieldValue } from '../../shared/types/api';
+import { formatCurrency } from '../utils/formatCurrency';
+
+export type FieldValues = Record<string, FieldValue | null>;
+
+const inputClass =
+  'block w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Currency amounts use the document's "currency" field
+const formatValue = (field: FieldDefinition, value: FieldValue, values: FieldValues): string => {
+  if (field.type === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (field.type === 'currency' && typeof value === 'number') {
+    return formatCurrency(value, typeof values.currency === 'string' ? values.currency : null);
+  }
+  if (field.type === 'date' && typeof value === 'string') {
+    return new Date(`${value}T00:00:00`).toLocaleDateString();
+  }
+  return String(value);
+};
+
+// Read-only list of a document's extracted values
+export const FieldsSummary = ({ schema, values }: { schema: FieldSchema; values: FieldValues }) => {
+  const filled = schema.fields.filter((field) => values[field.name] != null);
+  if (filled.length === 0) {
+    return <p className="text-gray-500 text-sm">No values yet.</p>;
+  }
+
+  return (
+    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+      {filled.map((field) => {
+        const value = values[field.name];
+        return value == null ? null : (
+          <div key={field.name} className="contents">
+            <dt className="text-gray-500">{field.label}</dt>
+            <dd className="text-gray-200">{formatValue(field, value, values)}</dd>
+          </div>
+        );
+      })}
+    </dl>
+  );
+};
+
+// Inputs for each field in a schema. Values are kept as typed; the server coerces
+// them to the field types when they are saved.
+export const FieldsForm = ({
+  schema,
+  values,
+  onChange,
+  disabled = false,
+}: {
+  schema: FieldSchema;
+  values: FieldValues;
+  onChange: (values: FieldValues) => void;
+  disabled?: boolean;
+}) => {
+  const setValue = (name: string, value: FieldValue | null) =>
+    onChange({ ...values, [name]: value });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {schema.fields.map((field) => {
+        const value = values[field.name];
+        return (
+          <label key={field.name} className="block">
+            <span className="block mb-1 text-xs font-medium text-gray-400">
+              {field.label}
+              {field.required && ' *'}
+            </span>
+            {field.type === 'boolean' ? (
+              <input
+                type="checkbox"
+                checked={value === true}
+                onChange={(e) => setValue(field.name, e.target.checked)}
+                disabled={disabled}
+                className="w-5 h-5 rounded border-gray-600 bg-gray-900/50 text-blue-500"
+              />
+            ) : (
+              <input
+                type={field.type === 'date' ? 'date' : 'text'}
+                inputMode={
+                  field.type === 'number' || field.type === 'currency' ? 'decimal' : 'text'
+                }
+                value={value == null ? '' : String(value)}
+                onChange={(e) => setValue(field.name, e.target.value || null)}
+                disabled={disabled}
+                placeholder={field.description ?? ''}
+                className={inputClass}
+              />
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import { useState, type FormEvent } from 'react';
+import type { Folder, TagCount } from '../../shared/types/api';
+
+const itemClass = (active: boolean) =>
+  `w-full text-left px-3 py-2 rounded-lg text-sm flex justify-between gap-2 transition-colors ${
+    active ? 'bg-blue-600/20 text-blue-300' : 'text-gray-300 hover:bg-gray-700/50'
+  }`;
+
+// Folder and tag filters for the documents list, with folder create/rename/delete
+export const FolderSidebar = ({
+  folders,
+  tags,
+  selectedFolderId,
+  selectedTag,
+  onSelectFolder,
+  onSelectTag,
+  onFoldersChanged,
+}: {
+  folders: Folder[];
+  tags: TagCount[];
+  selectedFolderId: string | null;
+  selectedTag: string | null;
+  onSelectFolder: (folderId: string | null) => void;
+  onSelectTag: (tag: string | null) => void;
+  onFoldersChanged: () => void;
+}) => {
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Folder change failed');
+      }
+      onFoldersChanged();
+      return true;
+    } catch (err) {
+      console.error('Folder change failed:', err);
+      setError(err instanceof Error ? err.message : 'Folder change failed');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    if (await send('/api/folders', 'POST', { name: newName.trim() })) {
+      setNewName('');
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    if (await send(`/api/folders/${id}`, 'PATCH', { name: renameValue.trim() })) {
+      setRenamingId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (await send(`/api/folders/${id}`, 'DELETE')) {
+      setConfirmDeleteId(null);
+      if (selectedFolderId === id) {
+        onSelectFolder(null);
+      }
+    }
+  };
+
+  return (
+    <aside className="md:w-48 flex-shrink-0 mb-6 md:mb-0 space-y-4">
+      <div>
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+          Folders
+        </h3>
+        <ul className="space-y-1">
+          <li>
+            <button
+              onClick={() => onSelectFolder(null)}
+              className={itemClass(!selectedFolderId && !selectedTag)}
+            >
+              All documents
+            </button>
+          </li>
+          {folders.map((folder) => (
+            <li key={folder.id}>
+              {renamingId === folder.id ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    void handleRename(folder.id);
+                  }}
+                  className="flex gap-1"
+                >
+                  <input
+                    type="text"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    disabled={busy}
+                    autoFocus
+                    className="flex-1 min-w-0 text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setRenamingId(null)}
+                    className="text-xs text-gray-400 hover:text-gray-200"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : confirmDeleteId === folder.id ? (
+                <div className="px-3 py-2 text-xs text-gray-300 bg-gray-900/50 rounded-lg">
+                  <p className="mb-1">Delete "{folder.name}"? Its documents are kept.</p>
+                  <button
+                    onClick={() => void handleDelete(folder.id)}
+                    disabled={busy}
+                    className="text-red-400 hover:text-red-300 mr-3 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(null)}
+                    className="text-gray-400 hover:text-gray-200"
+                  >
+                    Keep
+                  </button>
+                </div>
+              ) : (
+                <div className="group relative">
+                  <button
+                    onClick={() => onSelectFolder(folder.id)}
+                    className={itemClass(selectedFolderId === folder.id)}
+                  >
+                    <span className="truncate">{folder.name}</span>
+                    <span className="text-gray-500 text-xs group-hover:invisible">
+                      {folder.documentCount}
+                    </span>
+                  </button>
+                  <div className="absolute right-2 top-1/2 -translate-y-1/2 hidden group-hover:flex gap-2 text-xs">
+                    <button
+                      onClick={() => {
+                        setRenamingId(folder.id);
+                        setRenameValue(folder.name);
+                      }}
+                      className="text-gray-400 hover:text-gray-200"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => setConfirmDeleteId(folder.id)}
+                      className="text-gray-400 hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={(e) => void handleCreate(e)} className="mt-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            disabled={busy}
+            placeholder="+ New folder"
+            className="w-full text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-gray-500"
+          />
+        </form>
+        {error && <p className="text-red-300 text-xs mt-2">{error}</p>}
+      </div>
+
+      {tags.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Tags</h3>
+          <div className="flex flex-wrap gap-1.5">
+            {tags.map(({ name, count }) => (
+              <button
+                key={name}
+                onClick={() => onSelectTag(selectedTag === name ? null : name)}
+                className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                  selectedTag === name
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-700/60 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                #{name} <span className="opacity-60">{count}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
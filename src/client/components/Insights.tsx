@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { AiSettingsPanel } from './AiSettingsPanel';
+import { BillInsights } from './BillInsights';
+import { CollectionAssistant } from './CollectionAssistant';
+import { ExpenseLedger } from './ExpenseLedger';
+
+const VIEWS = {
+  bills: 'Bills',
+  expenses: 'Expenses',
+  ask: 'Ask & Digest',
+  ai: 'AI Settings',
+} as const;
+
+// The Insights tab: bill trends, the receipt expense ledger, questions and a digest
+// across all documents, or the subreddit's AI settings
+export const Insights = ({ refreshTrigger }: { refreshTrigger: number }) => {
+  const [view, setView] = useState<keyof typeof VIEWS>('bills');
+
+  return (
+    <div>
+      <div className="flex justify-center gap-2 mb-2">
+        {Object.entries(VIEWS).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setView(key as keyof typeof VIEWS)}
+            className={`px-4 py-1.5 rounded-full text-sm transition-colors ${
+              view === key
+                ? 'bg-blue-600 text-white'
+                : 'border border-gray-700 text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {view === 'bills' ? (
+        <BillInsights refreshTrigger={refreshTrigger} />
+      ) : view === 'expenses' ? (
+        <ExpenseLedger refreshTrigger={refreshTrigger} />
+      ) : view === 'ask' ? (
+        <CollectionAssistant refreshTrigger={refreshTrigger} />
+      ) : (
+        <AiSettingsPanel />
+      )}
+    </div>
+  );
+};
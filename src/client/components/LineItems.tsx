@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import type { LineItem } from '../../shared/types/api';
+import { formatCurrency } from '../utils/formatCurrency';
+
+// Numbers are edited as text so partial input like "12." is kept while typing
+type LineItemDraft = { description: string; quantity: string; amount: string };
+
+const inputClass =
+  'min-w-0 text-sm text-white bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const toDraft = (item: LineItem): LineItemDraft => ({
+  description: item.description,
+  quantity: item.quantity === null ? '' : String(item.quantity),
+  amount: item.amount === null ? '' : String(item.amount),
+});
+
+// Unreadable numbers are sent as null; the server checks the rest
+const toNumber = (text: string) => {
+  const value = parseFloat(text.replace(/[^\d.-]/g, ''));
+  return Number.isFinite(value) ? value : null;
+};
+
+// Read-only list of a receipt's or invoice's line items
+export const LineItemsSummary = ({
+  items,
+  currency,
+}: {
+  items: LineItem[];
+  currency: string | null;
+}) => (
+  <ul className="text-sm divide-y divide-gray-700/50">
+    {items.map((item, index) => (
+      <li key={index} className="flex justify-between gap-3 py-1">
+        <span className="text-gray-300">
+          {item.quantity !== null && <span className="text-gray-500">{item.quantity} × </span>}
+          {item.description}
+        </span>
+        {item.amount !== null && (
+          <span className="text-gray-200">{formatCurrency(item.amount, currency)}</span>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+// Editable rows of line items. Keeps its own text while editing, so give it a new key
+// when the items are replaced from outside (e.g. by AI analysis).
+export const LineItemsEditor = ({
+  items,
+  onChange,
+  disabled = false,
+}: {
+  items: LineItem[];
+  onChange: (items: LineItem[]) => void;
+  disabled?: boolean;
+}) => {
+  const [drafts, setDrafts] = useState<LineItemDraft[]>(() => items.map(toDraft));
+
+  const update = (next: LineItemDraft[]) => {
+    setDrafts(next);
+    onChange(
+      next
+        .filter((draft) => draft.description.trim())
+        .map((draft) => ({
+          description: draft.description.trim(),
+          quantity: toNumber(draft.quantity),
+          amount: toNumber(draft.amount),
+        }))
+    );
+  };
+
+  const setDraft = (index: number, change: Partial<LineItemDraft>) =>
+    update(drafts.map((draft, i) => (i === index ? { ...draft, ...change } : draft)));
+
+  return (
+    <div className="space-y-2">
+      {drafts.map((draft, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft(index, { description: e.target.value })}
+            disabled={disabled}
+            placeholder="Item"
+            className={`${inputClass} flex-1`}
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            value={draft.quantity}
+            onChange={(e) => setDraft(index, { quantity: e.target.value })}
+            disabled={disabled}
+            placeholder="Qty"
+            className={`${inputClass} w-16`}
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            value={draft.amount}
+            onChange={(e) => setDraft(index, { amount: e.target.value })}
+            disabled={disabled}
+            placeholder="Amount"
+            className={`${inputClass} w-24`}
+          />
+          <button
+            type="button"
+            onClick={() => update(drafts.filter((_, i) => i !== index))}
+            disabled={disabled}
+            className="px-2 text-gray-400 hover:text-red-300 disabled:opacity-50"
+            aria-label="Remove line item"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => update([...drafts, { description: '', quantity: '', amount: '' }])}
+        disabled={disabled}
+        className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50 transition-colors"
+      >
+        + Add line item
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import { useState, type KeyboardEvent } from 'react';
+import type { TagCount } from '../../shared/types/api';
+
+// Suggestions shown below the input while typing
+const MAX_SUGGESTIONS = 6;
+
+// Same rules as the server: lowercase, words joined with "-"
+const toTag = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^\p{L}\p{N}-]/gu, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '');
+
+// Tag editor with autocomplete from the post's existing tags. Enter or comma adds
+// the typed tag; Backspace on an empty input removes the last one.
+export const TagInput = ({
+  tags,
+  onChange,
+  suggestions,
+  disabled = false,
+}: {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: TagCount[];
+  disabled?: boolean;
+}) => {
+  const [input, setInput] = useState('');
+
+  const typed = toTag(input);
+  const matches = typed
+    ? suggestions
+        .filter(({ name }) => name.startsWith(typed) && !tags.includes(name))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (value: string) => {
+    const tag = toTag(value);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setInput('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 w-full bg-gray-900/50 border border-gray-700 rounded-lg p-2 focus-within:ring-2 focus-within:ring-blue-500">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded-full text-xs"
+          >
+            #{tag}
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => onChange(tags.filter((other) => other !== tag))}
+                className="text-blue-400 hover:text-blue-200"
+                aria-label={`Remove tag ${tag}`}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => addTag(input)}
+          disabled={disabled}
+          placeholder={tags.length === 0 ? 'Add tags, e.g. taxes, 2024' : ''}
+          className="flex-1 min-w-[8rem] text-sm text-white bg-transparent p-1 focus:outline-none placeholder-gray-500"
+        />
+      </div>
+      {matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden">
+          {matches.map(({ name, count }) => (
+            <li key={name}>
+              <button
+                type="button"
+                // Keep focus in the input so its blur does not add the partial tag first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(name)}
+                className="w-full flex justify-between px-3 py-2 text-sm text-gray-300 hover:bg-gray-700 transition-colors"
+              >
+                <span>#{name}</span>
+                <span className="text-gray-500 text-xs">{count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
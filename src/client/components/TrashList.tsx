@@ -0,0 +1,247 @@
+import { useCallback, useState, useEffect } from 'react';
+import type { DocumentMetadata, TrashListResponse } from '../../shared/types/api';
+import { fetchWithConflictRetry } from '../utils/fetchWithRetry';
+
+const PAGE_SIZE = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fetchPage = async (cursor: string | null): Promise<TrashListResponse> => {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+  const response = await fetch(`/api/documents/trash?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+export const TrashList = ({
+  refreshTrigger,
+  onDocumentRestored,
+}: {
+  refreshTrigger: number;
+  onDocumentRestored: () => void;
+}) => {
+  const [documents, setDocuments] = useState<DocumentMetadata[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeConfirm, setPurgeConfirm] = useState<DocumentMetadata | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const data = await fetchPage(null);
+      setDocuments(data.documents || []);
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
+      setRetentionDays(data.retentionDays);
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTrash();
+  }, [loadTrash, refreshTrigger]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const data = await fetchPage(nextCursor);
+      setDocuments((prev) => {
+        const seen = new Set(prev.map((doc) => doc.id));
+        return [...prev, ...data.documents.filter((doc) => !seen.has(doc.id))];
+      });
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
+    } catch (error) {
+      console.error('Failed to load more of the trash:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const removeFromList = (id: string) => {
+    setDocuments((prev) => prev.filter((doc) => doc.id !== id));
+    setTotal((prev) => Math.max(0, prev - 1));
+  };
+
+  const handleRestore = async (doc: DocumentMetadata) => {
+    setBusyId(doc.id);
+    setActionError(null);
+    try {
+      const response = await fetchWithConflictRetry(`/api/documents/${doc.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to restore document');
+      }
+
+      removeFromList(doc.id);
+      onDocumentRestored();
+    } catch (error) {
+      console.error('Failed to restore document:', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to restore document');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurgeConfirm = async () => {
+    if (!purgeConfirm) return;
+
+    setBusyId(purgeConfirm.id);
+    setActionError(null);
+    try {
+      const response = await fetchWithConflictRetry('/api/documents/delete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: purgeConfirm.id, permanent: true }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to delete document');
+      }
+
+      removeFromList(purgeConfirm.id);
+      setPurgeConfirm(null);
+    } catch (error) {
+      console.error('Failed to delete document:', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to delete document');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const daysLeft = (doc: DocumentMetadata) => {
+    const purgeAt = (doc.deletedAt ?? Date.now()) + retentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+  };
+
+  if (loading) {
+    return <div className="text-center text-gray-400 py-8">Loading trash...</div>;
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 md:p-6">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-bold text-white">Trash ({total})</h2>
+      </div>
+      <p className="text-gray-500 text-sm mb-4">
+        Deleted documents are removed permanently after {retentionDays} days.
+      </p>
+
+      {actionError && (
+        <div className="mb-4 bg-red-900/30 border border-red-700 rounded-lg p-4">
+          <p className="text-red-300 text-sm font-medium">{actionError}</p>
+          <button
+            onClick={() => setActionError(null)}
+            className="text-red-400 text-xs underline mt-1"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {documents.length === 0 ? (
+        <div className="text-center text-gray-500 py-12">
+          <p className="text-gray-400">The trash is empty.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {documents.map((doc) => (
+            <div
+              key={doc.id}
+              className="bg-gray-800/50 backdrop-blur-sm rounded-xl shadow-lg p-4 border border-gray-700/50 flex flex-col md:flex-row md:items-center gap-3"
+            >
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-white truncate">{doc.description}</h3>
+                <p className="text-xs text-gray-500 truncate">{doc.fileName}</p>
+                <p className="text-xs text-gray-600 mt-1">
+                  Deleted {doc.deletedAt ? new Date(doc.deletedAt).toLocaleString() : ''}
+                  {doc.deletedBy ? ` by ${doc.deletedBy}` : ''} · {daysLeft(doc)} days left
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => void handleRestore(doc)}
+                  disabled={busyId === doc.id}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm"
+                >
+                  {busyId === doc.id && !purgeConfirm ? 'Restoring...' : 'Restore'}
+                </button>
+                <button
+                  onClick={() => setPurgeConfirm(doc)}
+                  disabled={busyId === doc.id}
+                  className="px-4 py-2 border border-red-700 text-red-300 rounded-lg hover:bg-red-900/30 disabled:opacity-50 transition-colors text-sm"
+                >
+                  Delete Forever
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {nextCursor && (
+        <div className="text-center text-gray-500 text-sm py-6">
+          {loadingMore ? (
+            'Loading more...'
+          ) : (
+            <button
+              onClick={() => void loadMore()}
+              className="text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Permanent Delete Confirmation Modal */}
+      {purgeConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 backdrop-blur-sm">
+          <div className="bg-gray-800 rounded-xl p-6 max-w-sm mx-4 shadow-2xl border border-gray-700">
+            <h3 className="text-lg font-bold text-white mb-2">Delete Forever?</h3>
+            <p className="text-gray-400 mb-6">
+              "{purgeConfirm.description}" will be permanently deleted. This action cannot be
+              undone.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setPurgeConfirm(null)}
+                disabled={busyId !== null}
+                className="flex-1 px-4 py-2 border border-gray-700 rounded-lg text-gray-300 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => void handlePurgeConfirm()}
+                disabled={busyId !== null}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+              >
+                {busyId !== null ? 'Deleting...' : 'Delete Forever'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
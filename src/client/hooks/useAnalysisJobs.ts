@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { AnalysisJob, AnalysisJobsResponse } from '../../shared/types/api';
+
+// The worker runs once a minute, so there is no point polling much faster
+const POLL_INTERVAL_MS = 10000;
+
+const isPending = (job: AnalysisJob) => job.status === 'queued' || job.status === 'running';
+
+// Tracks background analysis jobs, polling their status until every one has finished
+export const useAnalysisJobs = () => {
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+
+  const track = useCallback((added: AnalysisJob[]) => {
+    setJobs((prev) => {
+      const addedIds = new Set(added.map((job) => job.id));
+      return [...prev.filter((job) => !addedIds.has(job.id)), ...added];
+    });
+  }, []);
+
+  const clear = useCallback(() => setJobs([]), []);
+
+  useEffect(() => {
+    const pending = jobs.filter(isPending).map((job) => job.id);
+    if (pending.length === 0) return;
+
+    const timer = setTimeout(() => {
+      const poll = async () => {
+        try {
+          const response = await fetch(`/api/analysis-jobs?ids=${pending.join(',')}`);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const data: AnalysisJobsResponse = await response.json();
+          const latest = new Map(data.jobs.map((job) => [job.id, job]));
+          setJobs((prev) => prev.map((job) => latest.get(job.id) ?? job));
+        } catch (error) {
+          console.error('Failed to check analysis jobs:', error);
+          // Keep polling; a new array schedules the next check
+          setJobs((prev) => [...prev]);
+        }
+      };
+      void poll();
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [jobs]);
+
+  return { jobs, pending: jobs.some(isPending), track, clear };
+};
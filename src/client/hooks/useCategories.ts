@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import type { CategoriesResponse } from '../../shared/types/api';
+
+// Used until the server responds; matches the server's default taxonomy
+const DEFAULT_CATEGORIES = ['bill', 'receipt', 'invoice', 'id', 'contract', 'medical', 'other'];
+
+export const useCategories = () => {
+  const [categories, setCategories] = useState<string[]>(DEFAULT_CATEGORIES);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/categories');
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data: CategoriesResponse = await res.json();
+        if (data.type !== 'categories') throw new Error('Unexpected response');
+        setCategories(data.categories);
+      } catch (err) {
+        console.error('Failed to load categories', err);
+      }
+    };
+    void load();
+  }, []);
+
+  return categories;
+};
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import type { FieldSchema, FieldSchemasResponse } from '../../shared/types/api';
+
+export const useFieldSchemas = () => {
+  const [schemas, setSchemas] = useState<FieldSchema[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/schemas');
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data: FieldSchemasResponse = await res.json();
+        if (data.type !== 'field-schemas') throw new Error('Unexpected response');
+        setSchemas(data.schemas);
+      } catch (err) {
+        console.error('Failed to load field schemas', err);
+      }
+    };
+    void load();
+  }, []);
+
+  return schemas;
+};
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Folder, FoldersResponse } from '../../shared/types/api';
+
+export const useFolders = () => {
+  const [folders, setFolders] = useState<Folder[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch('/api/folders');
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: FoldersResponse = await res.json();
+      if (data.type !== 'folders') throw new Error('Unexpected response');
+      setFolders(data.folders);
+    } catch (err) {
+      console.error('Failed to load folders', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { folders, reload };
+};
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { TagCount, TagsResponse } from '../../shared/types/api';
+
+export const useTags = () => {
+  const [tags, setTags] = useState<TagCount[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch('/api/tags');
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: TagsResponse = await res.json();
+      if (data.type !== 'tags') throw new Error('Unexpected response');
+      setTags(data.tags);
+    } catch (err) {
+      console.error('Failed to load tags', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { tags, reload };
+};
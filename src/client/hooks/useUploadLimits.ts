@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import type { UploadLimitsResponse } from '../../shared/types/api';
+
+// Used until the server responds; matches the server's Redis-only defaults
+const DEFAULT_LIMITS: UploadLimitsResponse = {
+  type: 'upload-limits',
+  maxFileSizeBytes: 500 * 1024,
+  maxInlineFileSizeBytes: 1536 * 1024,
+  redisMaxFileSizeBytes: 500 * 1024,
+  externalStorageEnabled: false,
+  externalThresholdBytes: 500 * 1024,
+  chunkSizeBytes: 256 * 1024,
+};
+
+export const useUploadLimits = () => {
+  const [limits, setLimits] = useState<UploadLimitsResponse>(DEFAULT_LIMITS);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/documents/limits');
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data: UploadLimitsResponse = await res.json();
+        if (data.type !== 'upload-limits') throw new Error('Unexpected response');
+        setLimits(data);
+      } catch (err) {
+        console.error('Failed to load upload limits', err);
+      }
+    };
+    void load();
+  }, []);
+
+  return limits;
+};
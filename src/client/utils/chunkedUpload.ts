@@ -0,0 +1,148 @@
+import type { UploadSession, UploadSessionResponse } from '../../shared/types/api';
+
+const MAX_CHUNK_ATTEMPTS = 3;
+
+/**
+ * Raised when a chunk still fails after retries. Keep sessionId to resume later.
+ */
+export class ChunkedUploadError extends Error {
+  constructor(
+    message: string,
+    public sessionId?: string
+  ) {
+    super(message);
+    this.name = 'ChunkedUploadError';
+  }
+}
+
+export const dataUriToBytes = (dataUri: string): Uint8Array => {
+  const base64 = dataUri.includes(',') ? (dataUri.split(',')[1] ?? '') : dataUri;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const blockSize = 0x8000; // Stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += blockSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + blockSize));
+  }
+  return btoa(binary);
+};
+
+export const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const readSession = async (response: Response): Promise<UploadSession> => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `HTTP ${response.status}`);
+  }
+  return (data as UploadSessionResponse).session;
+};
+
+const startSession = async (
+  bytes: Uint8Array,
+  fileName: string,
+  fileType: string
+): Promise<UploadSession> => {
+  const response = await fetch('/api/uploads/init', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      fileName,
+      fileType,
+      fileSize: bytes.length,
+      checksum: await sha256Hex(bytes),
+    }),
+  });
+  return readSession(response);
+};
+
+const resumeSession = async (sessionId: string): Promise<UploadSession | null> => {
+  const response = await fetch(`/api/uploads/${sessionId}`);
+  if (response.status === 404) {
+    return null; // Expired; caller starts over
+  }
+  return readSession(response);
+};
+
+const sendChunk = async (session: UploadSession, bytes: Uint8Array, index: number) => {
+  const start = index * session.chunkSize;
+  const data = bytesToBase64(bytes.subarray(start, start + session.chunkSize));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(`/api/uploads/${session.sessionId}/chunk`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ index, data }),
+      });
+      return await readSession(response);
+    } catch (error) {
+      if (attempt >= MAX_CHUNK_ATTEMPTS) {
+        throw error;
+      }
+      const backoffMs = 500 * Math.pow(2, attempt - 1);
+      console.log(`Chunk ${index} failed, retrying in ${backoffMs}ms`, error);
+      await new Promise((resolve) => setTimeout(resolve, backoffMs));
+    }
+  }
+};
+
+/**
+ * Upload a file through an /api/uploads session, sending only missing chunks
+ * @param sessionId - Session from a previous interrupted attempt, to resume it
+ * @param onProgress - Called with the number of chunks the server has received
+ * @returns The session id, ready for /api/uploads/:sessionId/complete
+ * @throws ChunkedUploadError with the session id if a chunk keeps failing
+ */
+export const uploadInChunks = async ({
+  bytes,
+  fileName,
+  fileType,
+  sessionId,
+  onProgress,
+}: {
+  bytes: Uint8Array;
+  fileName: string;
+  fileType: string;
+  sessionId?: string | null;
+  onProgress: (received: number, total: number) => void;
+}): Promise<string> => {
+  let session: UploadSession | null = null;
+  if (sessionId) {
+    session = await resumeSession(sessionId);
+  }
+  if (!session) {
+    session = await startSession(bytes, fileName, fileType);
+  }
+
+  const received = new Set(session.receivedChunks);
+  onProgress(received.size, session.totalChunks);
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (received.has(index)) continue;
+
+    try {
+      const updated = await sendChunk(session, bytes, index);
+      received.add(index);
+      onProgress(updated.receivedChunks.length, session.totalChunks);
+    } catch (error) {
+      throw new ChunkedUploadError(
+        error instanceof Error ? error.message : 'Chunk upload failed',
+        session.sessionId
+      );
+    }
+  }
+
+  return session.sessionId;
+};
@@ -0,0 +1,21 @@
+/**
+ * fetch() that retries when the server reports a write conflict (HTTP 409).
+ * The server returns 409 when a concurrent request modified the same document,
+ * so a short backoff and a fresh attempt is usually enough.
+ */
+export const fetchWithConflictRetry = async (
+  input: string,
+  init: RequestInit,
+  maxAttempts: number = 3
+): Promise<Response> => {
+  let response = await fetch(input, init);
+
+  for (let attempt = 1; attempt < maxAttempts && response.status === 409; attempt++) {
+    const backoffMs = 200 * Math.pow(2, attempt - 1) + Math.random() * 100;
+    console.log(`Write conflict on ${input}, retrying in ${Math.round(backoffMs)}ms`);
+    await new Promise((resolve) => setTimeout(resolve, backoffMs));
+    response = await fetch(input, init);
+  }
+
+  return response;
+};
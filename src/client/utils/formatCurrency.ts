@@ -0,0 +1,11 @@
+// Amount with its currency symbol when the currency is a known ISO code
+export const formatCurrency = (value: number, currency: string | null): string => {
+  try {
+    if (currency && /^[A-Za-z]{3}$/.test(currency)) {
+      return value.toLocaleString(undefined, { style: 'currency', currency });
+    }
+  } catch {
+    // Unknown currency code; fall through to a plain amount
+  }
+  return `${value.toFixed(2)}${currency ? ` ${currency}` : ''}`;
+};
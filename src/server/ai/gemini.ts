@@ -1,107 +1,52 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { redis } from '@devvit/web/server';
-
-/**
- * Logging utility for structured Gemini API logs
- */
-const logger = {
-  info: (message: string, metadata?: Record<string, any>) => {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      level: 'INFO',
-      message,
-      ...metadata,
-    };
-    console.log(`[Gemini] ${JSON.stringify(logEntry)}`);
-  },
-
-  warn: (message: string, metadata?: Record<string, any>) => {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      level: 'WARN',
-      message,
-      ...metadata,
-    };
-    console.warn(`[Gemini] ${JSON.stringify(logEntry)}`);
-  },
-
-  error: (message: string, error: unknown, metadata?: Record<string, any>) => {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const errorStack = error instanceof Error ? error.stack : undefined;
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      level: 'ERROR',
-      message,
-      error: errorMessage,
-      stack: errorStack,
-      ...metadata,
-    };
-    console.error(`[Gemini] ${JSON.stringify(logEntry)}`);
-  },
-
-  performance: (operation: string, durationMs: number, metadata?: Record<string, any>) => {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      level: 'PERFORMANCE',
-      operation,
-      durationMs,
-      ...metadata,
-    };
-    console.log(`[Gemini] ${JSON.stringify(logEntry)}`);
-  },
+import { DEFAULT_DOCUMENT_CATEGORIES } from '../config';
+import type { DocumentFields, FieldSchema, FieldType } from '../../shared/types/api';
+import { FALLBACK_CATEGORY, matchCategory } from '../core/categories';
+import { coerceFields } from '../core/fieldSchemas';
+import { normalizeTag } from '../core/tags';
+import {
+  getActiveAiSettings,
+  getAiSettings,
+  renderPromptTemplate,
+  type ActiveAiSettings,
+} from '../core/aiSettings';
+import type { AiSettings } from '../../shared/types/api';
+import { logger } from './logger';
+import { getAnalysisProvider } from './providers';
+
+// Suggested tags kept from a response
+const MAX_SUGGESTED_TAGS = 5;
+
+// Summary of the fallback response returned when analysis fails
+export const FALLBACK_SUMMARY = 'Auto-analysis unavailable. Please add details manually.';
+
+// How each field type is described to the model
+const FIELD_TYPE_HINTS: Record<FieldType, string> = {
+  string: 'text',
+  number: 'number',
+  currency: 'amount as a plain number, e.g. 125.5',
+  date: 'date as YYYY-MM-DD',
+  boolean: 'true or false',
 };
 
 /**
- * Initialize Gemini API client with API key from Redis
- * @returns GoogleGenerativeAI instance or null if API key not configured
+ * What to ask for besides the description and summary
  */
-async function initializeGeminiClient(): Promise<GoogleGenerativeAI | null> {
-  try {
-    // Retrieve API key from Redis
-    const apiKey = await redis.get('config:gemini_api_key');
-
-    if (!apiKey) {
-      logger.warn('API key not configured in Redis');
-      return null;
-    }
-
-    // Initialize Google Generative AI client
-    const genAI = new GoogleGenerativeAI(apiKey as string);
-    logger.info('Client initialized successfully');
-
-    return genAI;
-  } catch (error) {
-    logger.error('Failed to initialize client', error);
-    return null;
-  }
+export interface AnalysisOptions {
+  categories?: string[]; // Taxonomy to classify into; defaults to DEFAULT_DOCUMENT_CATEGORIES
+  schema?: FieldSchema; // Extract typed values for these fields as well
+  ai?: ActiveAiSettings; // Model settings and prompts; the subreddit's current ones if not given
 }
 
 /**
- * Get configured Gemini model instance
- * Uses gemini-1.5-flash for cost-effective analysis
+ * Result of analyzing a document
  */
-async function getModel() {
-  const genAI = await initializeGeminiClient();
-
-  if (!genAI) {
-    throw new Error('Gemini API key not configured');
-  }
-
-  // Configure model with optimal settings for document analysis
-  const model = genAI.getGenerativeModel(
-    {
-      model: 'gemini-2.5-flash',
-      generationConfig: {
-        temperature: 0.4, // Lower temperature for more consistent, factual responses
-        maxOutputTokens: 1000, // Increased to allow full JSON response
-      },
-    },
-    {
-      apiVersion: 'v1', // Use v1 API instead of v1beta
-    }
-  );
-
-  return model;
+export interface DocumentAnalysis {
+  description: string;
+  summary: string;
+  category: string; // One of the categories given to the analysis
+  suggestedTags: string[];
+  confidence: number; // 0-1; 0 for fallback responses
+  fields?: DocumentFields; // Set when a schema was given; values that fail coercion are null
 }
 
 /**
@@ -138,75 +83,42 @@ function stripDataUriPrefix(base64Data: string): string {
 }
 
 /**
- * Analyze an image using Gemini API with retry logic
+ * Analyze an image using the configured AI provider with retry logic
  * @param base64Image - Base64 encoded image data (with or without data URI prefix)
  * @param fileName - Original filename for fallback
+ * @param options - Taxonomy to classify into and schema to extract fields with
  * @param retryCount - Current retry attempt (internal use)
- * @returns Object with description and summary
+ * @returns Description, summary, category, suggested tags and confidence
  */
 export async function analyzeImage(
   base64Image: string,
   fileName: string,
+  options: AnalysisOptions = {},
   retryCount: number = 0
-): Promise<{ description: string; summary: string }> {
+): Promise<DocumentAnalysis> {
   const MAX_RETRIES = 2;
-  const TIMEOUT_MS = 5000; // 5 second timeout
+  const categories = options.categories ?? DEFAULT_DOCUMENT_CATEGORIES;
+  const ai = options.ai ?? (await getActiveAiSettings());
 
   try {
-    const model = await getModel();
+    const provider = await getAnalysisProvider();
 
     // Detect MIME type and clean base64 data
     const mimeType = detectMimeType(base64Image);
     const cleanBase64 = stripDataUriPrefix(base64Image);
 
-    // Prepare the image part for Gemini
-    const imagePart = {
-      inlineData: {
-        data: cleanBase64,
-        mimeType: mimeType,
-      },
-    };
-
     // Prompt for image analysis - force JSON output
-    const prompt = `You must respond with ONLY valid JSON, no other text.
-
-Analyze this image and return JSON with this exact structure:
-{
-  "description": "brief description (max 80 chars)",
-  "summary": "key details and information"
-}
-
-If it's a document/receipt: include company name, date, amounts.
-If it's a photo: describe what you see briefly.
-
-Respond with ONLY the JSON object, nothing else.`;
+    const prompt = buildAnalysisPrompt(ai, 'image', categories, options.schema);
 
-    // Call Gemini API with timeout
-    const result = await Promise.race([
-      model.generateContent([prompt, imagePart]),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('API timeout')), TIMEOUT_MS)
-      ),
-    ]);
-
-    const response = await result.response;
-
-    // Log full response object for debugging
-    logger.info('Full API response object', {
-      candidates: response.candidates?.length || 0,
-      promptFeedback: JSON.stringify(response.promptFeedback),
-      firstCandidate: response.candidates?.[0]
-        ? {
-            finishReason: response.candidates[0].finishReason,
-            safetyRatings: response.candidates[0].safetyRatings,
-            hasContent: !!response.candidates[0].content,
-          }
-        : null,
+    const text = await provider.generate({
+      operation: 'analyze-image',
+      prompt,
+      file: { data: cleanBase64, mimeType },
       fileName,
+      timeoutMs: ai.settings.timeoutMs,
+      generation: toGenerationSettings(ai.settings),
     });
 
-    const text = response.text();
-
     // Log raw response for debugging
     logger.info('Raw API response text', {
       textLength: text.length,
@@ -216,11 +128,16 @@ Respond with ONLY the JSON object, nothing else.`;
     });
 
     // Parse JSON response
-    const parsed = parseGeminiResponse(text);
+    const parsed = parseGeminiResponse(text, categories, options.schema);
 
     logger.info('Image analysis successful', {
+      provider: provider.name,
+      model: ai.settings.model,
+      promptVersion: ai.prompts.version,
       descriptionLength: parsed.description.length,
       summaryLength: parsed.summary.length,
+      category: parsed.category,
+      confidence: parsed.confidence,
       retryCount,
       fileName,
     });
@@ -247,7 +164,7 @@ Respond with ONLY the JSON object, nothing else.`;
       });
 
       await new Promise((resolve) => setTimeout(resolve, backoffMs));
-      return analyzeImage(base64Image, fileName, retryCount + 1);
+      return analyzeImage(base64Image, fileName, { ...options, ai }, retryCount + 1);
     }
 
     // Fallback to generic description
@@ -258,16 +175,23 @@ Respond with ONLY the JSON object, nothing else.`;
     return createFallbackResponse(
       fileName,
       'image',
-      error instanceof Error ? error.message : String(error)
+      error instanceof Error ? error.message : String(error),
+      options.schema
     );
   }
 }
 
 /**
- * Parse Gemini API response and extract description and summary
- * Handles various response formats and validates output
+ * Parse Gemini API response and extract description, summary and classification
+ * Handles various response formats and validates output; an unknown category
+ * becomes "other", a missing confidence becomes 0, and field values are coerced
+ * to the schema's types
  */
-function parseGeminiResponse(text: string): { description: string; summary: string } {
+function parseGeminiResponse(
+  text: string,
+  categories: string[],
+  schema?: FieldSchema
+): DocumentAnalysis {
   try {
     // Remove markdown code blocks if present
     let cleanText = text.trim();
@@ -288,15 +212,31 @@ function parseGeminiResponse(text: string): { description: string; summary: stri
     // Enforce length limits and sanitize
     const description = sanitizeText(parsed.description.substring(0, 100));
     const summary = sanitizeText(parsed.summary.substring(0, 500));
+    const category = matchCategory(parsed.category, categories) ?? FALLBACK_CATEGORY;
+    const suggestedTags = parseSuggestedTags(parsed.tags);
+    const confidence = parseConfidence(parsed.confidence);
+    const extracted = schema ? coerceFields(schema, parsed.fields, parsed.lineItems) : null;
 
     logger.info('Response parsed successfully', {
       originalDescriptionLength: parsed.description.length,
       originalSummaryLength: parsed.summary.length,
       truncatedDescription: parsed.description.length > 100,
       truncatedSummary: parsed.summary.length > 500,
+      category,
+      modelCategory: parsed.category,
+      suggestedTagCount: suggestedTags.length,
+      schemaId: schema?.id,
+      fieldErrors: extracted?.errors,
     });
 
-    return { description, summary };
+    return {
+      description,
+      summary,
+      category,
+      suggestedTags,
+      confidence,
+      ...(extracted ? { fields: extracted.fields } : {}),
+    };
   } catch (error) {
     logger.error('Failed to parse response', error, {
       responseLength: text.length,
@@ -306,6 +246,86 @@ function parseGeminiResponse(text: string): { description: string; summary: stri
   }
 }
 
+/**
+ * Describe a schema's fields for the JSON structure in a prompt
+ * @returns Lines to add to the structure, or an empty string without a schema
+ */
+function buildFieldsPrompt(schema?: FieldSchema): string {
+  if (!schema) {
+    return '';
+  }
+  const lines = schema.fields.map((field) => {
+    const hint = field.description ? `; ${field.description}` : '';
+    return `    "${field.name}": ${FIELD_TYPE_HINTS[field.type]} (${field.label}${hint}) or null`;
+  });
+  const lineItems = schema.lineItems
+    ? `,
+  "lineItems": [
+    { "description": text, "quantity": number or null, "amount": ${FIELD_TYPE_HINTS.currency} (line total) or null }
+  ]`
+    : '';
+  return `,
+  "fields": {
+${lines.join(',\n')}
+  }${lineItems}`;
+}
+
+/**
+ * Fill in the active image or PDF prompt template, adding the output language
+ * when one is set
+ */
+function buildAnalysisPrompt(
+  ai: ActiveAiSettings,
+  kind: 'image' | 'pdf',
+  categories: string[],
+  schema?: FieldSchema
+): string {
+  const prompt = renderPromptTemplate(ai.prompts[kind], {
+    categories: categories.join(', '),
+    fields: buildFieldsPrompt(schema),
+    fallbackCategory: FALLBACK_CATEGORY,
+    maxTags: String(MAX_SUGGESTED_TAGS),
+  });
+  const { language } = ai.settings;
+  return language
+    ? `${prompt}\n\nWrite the "description", "summary" and "tags" values in ${language}.`
+    : prompt;
+}
+
+const toGenerationSettings = ({ model, temperature, maxOutputTokens }: AiSettings) => ({
+  model,
+  temperature,
+  maxOutputTokens,
+});
+
+/**
+ * Normalize the model's tag suggestions like document tags, dropping invalid ones
+ */
+function parseSuggestedTags(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const tags = new Set<string>();
+  for (const raw of value) {
+    const tag = typeof raw === 'string' ? normalizeTag(raw) : null;
+    if (tag) {
+      tags.add(tag);
+    }
+  }
+  return [...tags].slice(0, MAX_SUGGESTED_TAGS);
+}
+
+/**
+ * Clamp the model's confidence to 0-1; percentages such as 85 are scaled down
+ */
+function parseConfidence(value: unknown): number {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+    return 0;
+  }
+  return Math.min(1, number > 1 ? number / 100 : number);
+}
+
 /**
  * Sanitize text output by removing unsafe characters
  * @param text - Text to sanitize
@@ -351,8 +371,9 @@ function isRetryableError(error: unknown): boolean {
 function createFallbackResponse(
   fileName: string,
   fileType: 'image' | 'pdf',
-  errorMessage: string
-): { description: string; summary: string } {
+  errorMessage: string,
+  schema?: FieldSchema
+): DocumentAnalysis {
   logger.warn('Creating fallback response', {
     fileName,
     fileType,
@@ -363,70 +384,65 @@ function createFallbackResponse(
 
   return {
     description: `${fileTypeLabel} - ${fileName}`,
-    summary: 'Auto-analysis unavailable. Please add details manually.',
+    summary: FALLBACK_SUMMARY,
+    category: FALLBACK_CATEGORY,
+    suggestedTags: [],
+    confidence: 0,
+    ...(schema ? { fields: coerceFields(schema, {}).fields } : {}),
   };
 }
 
 /**
- * Analyze a PDF document using Gemini API with retry logic
+ * Analyze a PDF document using the configured AI provider with retry logic
  * @param base64PDF - Base64 encoded PDF data (with or without data URI prefix)
  * @param fileName - Original filename for fallback
+ * @param options - Taxonomy to classify into and schema to extract fields with
  * @param retryCount - Current retry attempt (internal use)
- * @returns Object with description and summary
+ * @returns Description, summary, category, suggested tags and confidence
  */
 export async function analyzePDF(
   base64PDF: string,
   fileName: string,
+  options: AnalysisOptions = {},
   retryCount: number = 0
-): Promise<{ description: string; summary: string }> {
+): Promise<DocumentAnalysis> {
   const MAX_RETRIES = 2;
-  const TIMEOUT_MS = 5000; // 5 second timeout
+  const categories = options.categories ?? DEFAULT_DOCUMENT_CATEGORIES;
+  const ai = options.ai ?? (await getActiveAiSettings());
 
   try {
-    const model = await getModel();
+    const provider = await getAnalysisProvider();
 
     // Detect MIME type and clean base64 data
     const mimeType = detectMimeType(base64PDF);
     const cleanBase64 = stripDataUriPrefix(base64PDF);
 
-    // Prepare the PDF part for Gemini
-    const pdfPart = {
-      inlineData: {
+    // Prompt for PDF analysis - force JSON output
+    const prompt = buildAnalysisPrompt(ai, 'pdf', categories, options.schema);
+
+    const text = await provider.generate({
+      operation: 'analyze-pdf',
+      prompt,
+      file: {
         data: cleanBase64,
         mimeType: mimeType.includes('pdf') ? mimeType : 'application/pdf',
       },
-    };
-
-    // Prompt for PDF analysis - force JSON output
-    const prompt = `You must respond with ONLY valid JSON, no other text.
-
-Analyze this PDF and return JSON with this exact structure:
-{
-  "description": "brief description (max 80 chars)",
-  "summary": "key points and details (max 400 chars)"
-}
-
-Include: document type, main subject, key dates, important numbers.
-
-Respond with ONLY the JSON object, nothing else.`;
-
-    // Call Gemini API with timeout
-    const result = await Promise.race([
-      model.generateContent([prompt, pdfPart]),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('API timeout')), TIMEOUT_MS)
-      ),
-    ]);
-
-    const response = await result.response;
-    const text = response.text();
+      fileName,
+      timeoutMs: ai.settings.timeoutMs,
+      generation: toGenerationSettings(ai.settings),
+    });
 
     // Parse JSON response
-    const parsed = parseGeminiResponse(text);
+    const parsed = parseGeminiResponse(text, categories, options.schema);
 
     logger.info('PDF analysis successful', {
+      provider: provider.name,
+      model: ai.settings.model,
+      promptVersion: ai.prompts.version,
       descriptionLength: parsed.description.length,
       summaryLength: parsed.summary.length,
+      category: parsed.category,
+      confidence: parsed.confidence,
       retryCount,
       fileName,
     });
@@ -453,7 +469,7 @@ Respond with ONLY the JSON object, nothing else.`;
       });
 
       await new Promise((resolve) => setTimeout(resolve, backoffMs));
-      return analyzePDF(base64PDF, fileName, retryCount + 1);
+      return analyzePDF(base64PDF, fileName, { ...options, ai }, retryCount + 1);
     }
 
     // Fallback to generic description
@@ -464,23 +480,339 @@ Respond with ONLY the JSON object, nothing else.`;
     return createFallbackResponse(
       fileName,
       'pdf',
-      error instanceof Error ? error.message : String(error)
+      error instanceof Error ? error.message : String(error),
+      options.schema
     );
   }
 }
 
+/**
+ * An earlier question about a document, given to the model for follow-up questions
+ */
+export interface QuestionTurn {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Answer to a question about a document
+ */
+export interface DocumentAnswer {
+  answer: string;
+  quotes: string[]; // Passages copied from the document that support the answer
+  found: boolean; // False when the document does not answer the question
+}
+
+// Limits applied to the model's answer
+const MAX_ANSWER_LENGTH = 1000;
+const MAX_QUOTES = 3;
+const MAX_QUOTE_LENGTH = 300;
+
+/**
+ * Answer a question about an image or PDF using the configured AI provider with retry logic.
+ * Unlike analysis there is no fallback answer: errors are thrown to the caller.
+ * @param fileData - Base64 encoded file data (with or without data URI prefix)
+ * @param fileType - MIME type or file extension
+ * @param fileName - Original filename, for logging
+ * @param question - The user's question
+ * @param history - Earlier questions and answers about the document, oldest first
+ * @param retryCount - Current retry attempt (internal use)
+ * @throws Error if the API key is missing, the call times out or the response is invalid
+ */
+export async function askDocument(
+  fileData: string,
+  fileType: string,
+  fileName: string,
+  question: string,
+  history: QuestionTurn[] = [],
+  retryCount: number = 0
+): Promise<DocumentAnswer> {
+  const MAX_RETRIES = 2;
+  const TIMEOUT_MS = 15000; // Answers take longer than descriptions
+  const startTime = Date.now();
+
+  try {
+    const provider = await getAnalysisProvider();
+    const settings = await getAiSettings();
+    const isPDF = detectFileType(fileData, fileType) === 'pdf';
+    const mimeType = detectMimeType(fileData);
+
+    // Questions are user text, so they are passed as JSON strings rather than instructions
+    const conversation = history
+      .map((turn) => `Q: ${JSON.stringify(turn.question)}\nA: ${JSON.stringify(turn.answer)}`)
+      .join('\n');
+    const prompt = `You must respond with ONLY valid JSON, no other text.
+
+Answer a question about this ${isPDF ? 'PDF' : 'image'} using only what it contains.
+${conversation ? `\nEarlier questions and answers about it:\n${conversation}\n` : ''}
+Question: ${JSON.stringify(question)}
+
+Return JSON with this exact structure:
+{
+  "answer": "the answer in at most 3 sentences",
+  "quotes": ["up to ${MAX_QUOTES} short passages copied exactly from the document that support the answer"],
+  "found": true if the document answers the question, otherwise false
+}
+
+If the document does not answer the question, say so in "answer", leave "quotes" empty and set "found" to false.
+Do not use outside knowledge.
+
+Respond with ONLY the JSON object, nothing else.`;
+
+    const text = await provider.generate({
+      operation: 'ask-document',
+      prompt,
+      file: {
+        data: stripDataUriPrefix(fileData),
+        mimeType: isPDF && !mimeType.includes('pdf') ? 'application/pdf' : mimeType,
+      },
+      fileName,
+      timeoutMs: TIMEOUT_MS,
+      generation: toGenerationSettings(settings),
+    });
+    const answer = parseAnswerResponse(text);
+
+    logger.performance('Question answered', Date.now() - startTime, {
+      provider: provider.name,
+      fileName,
+      questionLength: question.length,
+      historyLength: history.length,
+      answerLength: answer.answer.length,
+      quoteCount: answer.quotes.length,
+      found: answer.found,
+      retryCount,
+    });
+
+    return answer;
+  } catch (error) {
+    logger.error('Question answering failed', error, { retryCount, fileName });
+
+    if (isRetryableError(error) && retryCount < MAX_RETRIES) {
+      const backoffMs = Math.pow(2, retryCount) * 1000; // 1s, 2s
+      logger.info('Retrying question', { backoffMs, attempt: retryCount + 1, fileName });
+      await new Promise((resolve) => setTimeout(resolve, backoffMs));
+      return askDocument(fileData, fileType, fileName, question, history, retryCount + 1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse an answer response, keeping at most MAX_QUOTES non-empty quotes
+ */
+function parseAnswerResponse(text: string): DocumentAnswer {
+  try {
+    const parsed = parseJsonText(text);
+
+    if (typeof parsed.answer !== 'string' || !parsed.answer.trim()) {
+      throw new Error('Missing answer in response');
+    }
+    const quotes = Array.isArray(parsed.quotes)
+      ? parsed.quotes
+          .filter((quote: unknown): quote is string => typeof quote === 'string')
+          .map((quote: string) => sanitizeText(quote.trim()).substring(0, MAX_QUOTE_LENGTH))
+          .filter((quote: string) => quote)
+          .slice(0, MAX_QUOTES)
+      : [];
+
+    return {
+      answer: sanitizeText(parsed.answer.trim()).substring(0, MAX_ANSWER_LENGTH),
+      quotes,
+      found: parsed.found !== false,
+    };
+  } catch (error) {
+    logger.error('Failed to parse answer', error, {
+      responseLength: text.length,
+      responsePreview: text.substring(0, 100),
+    });
+    throw new Error('Invalid response format from Gemini API');
+  }
+}
+
+/**
+ * Parse a JSON response, removing markdown code fences if present
+ */
+function parseJsonText(text: string): Record<string, unknown> {
+  return JSON.parse(
+    text
+      .trim()
+      .replace(/^```(?:json)?\n?/, '')
+      .replace(/\n?```$/, '')
+  );
+}
+
+/**
+ * A stored document described as text, for requests about many documents at once
+ */
+export interface ContextDocument {
+  id: string;
+  text: string; // Compact description built from the document's stored details
+}
+
+/**
+ * Answer to a question about a collection of documents
+ */
+export interface CollectionAnswerResult {
+  answer: string;
+  documentIds: string[]; // Documents the answer is based on; only ids from the context
+  found: boolean; // False when the documents do not answer the question
+}
+
+/**
+ * Send a text-only prompt to the AI provider with retry logic
+ * @param operation - What the prompt is for; also used in logs
+ * @param retryCount - Current retry attempt (internal use)
+ * @returns The response text
+ * @throws Error if the API key is missing, the call times out or keeps failing
+ */
+async function generateFromText(
+  prompt: string,
+  operation: 'ask-collection' | 'summarize-documents',
+  retryCount: number = 0
+): Promise<string> {
+  const MAX_RETRIES = 2;
+  const TIMEOUT_MS = 15000;
+  const startTime = Date.now();
+
+  try {
+    const provider = await getAnalysisProvider();
+    const text = await provider.generate({
+      operation,
+      prompt,
+      timeoutMs: TIMEOUT_MS,
+      generation: toGenerationSettings(await getAiSettings()),
+    });
+    logger.performance(operation, Date.now() - startTime, {
+      provider: provider.name,
+      promptLength: prompt.length,
+      responseLength: text.length,
+      retryCount,
+    });
+    return text;
+  } catch (error) {
+    logger.error(`${operation} failed`, error, { retryCount });
+
+    if (isRetryableError(error) && retryCount < MAX_RETRIES) {
+      const backoffMs = Math.pow(2, retryCount) * 1000; // 1s, 2s
+      logger.info(`Retrying ${operation}`, { backoffMs, attempt: retryCount + 1 });
+      await new Promise((resolve) => setTimeout(resolve, backoffMs));
+      return generateFromText(prompt, operation, retryCount + 1);
+    }
+    throw error;
+  }
+}
+
+const formatContext = (documents: ContextDocument[]) =>
+  documents.map((document) => `[${document.id}] ${document.text}`).join('\n');
+
+/**
+ * Answer a question from the stored details of several documents
+ * @param documents - The documents most relevant to the question
+ * @throws Error if the API key is missing, the call times out or the response is invalid
+ */
+export async function askCollection(
+  question: string,
+  documents: ContextDocument[]
+): Promise<CollectionAnswerResult> {
+  const prompt = `You must respond with ONLY valid JSON, no other text.
+
+Answer a question about a library of stored documents, using only the documents listed below.
+Each line starts with the document's id in square brackets.
+
+${formatContext(documents)}
+
+Question: ${JSON.stringify(question)}
+
+Return JSON with this exact structure:
+{
+  "answer": "the answer in at most 4 sentences; add up amounts when asked for a total and name the currency",
+  "documentIds": ["ids of the documents the answer is based on"],
+  "found": true if the documents answer the question, otherwise false
+}
+
+If the documents do not answer the question, say so in "answer", leave "documentIds" empty and set "found" to false.
+Do not use outside knowledge.
+
+Respond with ONLY the JSON object, nothing else.`;
+
+  const text = await generateFromText(prompt, 'ask-collection');
+  try {
+    const parsed = parseJsonText(text);
+    if (typeof parsed.answer !== 'string' || !parsed.answer.trim()) {
+      throw new Error('Missing answer in response');
+    }
+    // Ids the model made up or mistyped are dropped
+    const known = new Set(documents.map(({ id }) => id));
+    const documentIds = Array.isArray(parsed.documentIds)
+      ? [...new Set<string>(parsed.documentIds)].filter((id) => known.has(id))
+      : [];
+    return {
+      answer: sanitizeText(parsed.answer.trim()).substring(0, MAX_ANSWER_LENGTH),
+      documentIds,
+      found: parsed.found !== false,
+    };
+  } catch (error) {
+    logger.error('Failed to parse collection answer', error, {
+      responseLength: text.length,
+      responsePreview: text.substring(0, 100),
+    });
+    throw new Error('Invalid response format from Gemini API');
+  }
+}
+
+/**
+ * Write a short summary of newly uploaded documents
+ * @param periodLabel - When they were uploaded, e.g. "the last 7 days"
+ * @throws Error if the API key is missing, the call times out or the response is invalid
+ */
+export async function summarizeDocuments(
+  documents: ContextDocument[],
+  periodLabel: string
+): Promise<string> {
+  const prompt = `You must respond with ONLY valid JSON, no other text.
+
+These documents were uploaded in ${periodLabel}. Each line starts with the document's id in square brackets.
+
+${formatContext(documents)}
+
+Return JSON with this exact structure:
+{
+  "summary": "at most 5 sentences on what was uploaded: the kinds of documents, notable amounts and upcoming due dates"
+}
+
+Respond with ONLY the JSON object, nothing else.`;
+
+  const text = await generateFromText(prompt, 'summarize-documents');
+  try {
+    const parsed = parseJsonText(text);
+    if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+      throw new Error('Missing summary in response');
+    }
+    return sanitizeText(parsed.summary.trim()).substring(0, MAX_ANSWER_LENGTH);
+  } catch (error) {
+    logger.error('Failed to parse digest summary', error, {
+      responseLength: text.length,
+      responsePreview: text.substring(0, 100),
+    });
+    throw new Error('Invalid response format from Gemini API');
+  }
+}
+
 /**
  * Main document analysis function that routes to appropriate handler
  * @param fileData - Base64 encoded file data (with or without data URI prefix)
  * @param fileType - MIME type or file extension
  * @param fileName - Original filename
- * @returns Object with description and summary
+ * @param options - Taxonomy to classify into and schema to extract fields with
+ * @returns Description, summary, category, suggested tags and confidence, plus
+ *          field values when a schema is given
  */
 export async function analyzeDocument(
   fileData: string,
   fileType: string,
-  fileName: string
-): Promise<{ description: string; summary: string }> {
+  fileName: string,
+  options: AnalysisOptions = {}
+): Promise<DocumentAnalysis> {
   const startTime = Date.now();
   const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -501,12 +833,12 @@ export async function analyzeDocument(
       providedType: fileType,
     });
 
-    let result: { description: string; summary: string };
+    let result: DocumentAnalysis;
 
     if (detectedType === 'pdf') {
-      result = await analyzePDF(fileData, fileName);
+      result = await analyzePDF(fileData, fileName, options);
     } else if (detectedType === 'image') {
-      result = await analyzeImage(fileData, fileName);
+      result = await analyzeImage(fileData, fileName, options);
     } else {
       throw new Error(`Unsupported file type: ${fileType}`);
     }
@@ -519,6 +851,8 @@ export async function analyzeDocument(
       fileType: detectedType,
       descriptionLength: result.description.length,
       summaryLength: result.summary.length,
+      category: result.category,
+      confidence: result.confidence,
       success: true,
     });
 
@@ -545,7 +879,8 @@ export async function analyzeDocument(
     return createFallbackResponse(
       fileName,
       detectedType === 'pdf' ? 'pdf' : 'image',
-      error instanceof Error ? error.message : String(error)
+      error instanceof Error ? error.message : String(error),
+      options.schema
     );
   }
 }
@@ -659,5 +994,3 @@ export function logRateLimitCheck(
     });
   }
 }
-
-export { initializeGeminiClient, getModel };
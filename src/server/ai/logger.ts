@@ -0,0 +1,50 @@
+/**
+ * Logging utility for structured AI logs, shared by every provider
+ * (all lines keep the [Gemini] prefix described in LOGGING.md)
+ */
+export const logger = {
+  info: (message: string, metadata?: Record<string, any>) => {
+    const logEntry = {
+      timestamp: new Date().toISOString(),
+      level: 'INFO',
+      message,
+      ...metadata,
+    };
+    console.log(`[Gemini] ${JSON.stringify(logEntry)}`);
+  },
+
+  warn: (message: string, metadata?: Record<string, any>) => {
+    const logEntry = {
+      timestamp: new Date().toISOString(),
+      level: 'WARN',
+      message,
+      ...metadata,
+    };
+    console.warn(`[Gemini] ${JSON.stringify(logEntry)}`);
+  },
+
+  error: (message: string, error: unknown, metadata?: Record<string, any>) => {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorStack = error instanceof Error ? error.stack : undefined;
+    const logEntry = {
+      timestamp: new Date().toISOString(),
+      level: 'ERROR',
+      message,
+      error: errorMessage,
+      stack: errorStack,
+      ...metadata,
+    };
+    console.error(`[Gemini] ${JSON.stringify(logEntry)}`);
+  },
+
+  performance: (operation: string, durationMs: number, metadata?: Record<string, any>) => {
+    const logEntry = {
+      timestamp: new Date().toISOString(),
+      level: 'PERFORMANCE',
+      operation,
+      durationMs,
+      ...metadata,
+    };
+    console.log(`[Gemini] ${JSON.stringify(logEntry)}`);
+  },
+};
@@ -0,0 +1,63 @@
+/**
+ * AI Provider Interface
+ *
+ * Prompts, response parsing, retries and fallback responses live in gemini.ts and are
+ * shared by every provider. A provider only sends a prompt, with an optional file,
+ * to a model and returns the text it answered with.
+ */
+
+/**
+ * Supported AI provider types
+ */
+export type AnalysisProviderName = 'gemini' | 'mock';
+
+/**
+ * What a request is for; the mock provider picks its fixture by this
+ */
+export type GenerationOperation =
+  | 'analyze-image'
+  | 'analyze-pdf'
+  | 'ask-document'
+  | 'ask-collection'
+  | 'summarize-documents';
+
+/**
+ * Model and generation settings for a request, from the subreddit's AI settings
+ */
+export interface GenerationSettings {
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+/**
+ * A prompt to send to the model
+ */
+export interface GenerationRequest {
+  operation: GenerationOperation;
+  prompt: string;
+  file?: {
+    data: string; // Base64 without the data URI prefix
+    mimeType: string;
+  };
+  fileName?: string; // For logs and fixtures
+  timeoutMs: number;
+  generation: GenerationSettings;
+}
+
+/**
+ * Interface for AI providers
+ *
+ * Errors use the messages the callers already recognize: "API key not configured",
+ * "timeout", or a status code such as 503 for temporary failures (which are retried)
+ */
+export interface AnalysisProvider {
+  readonly name: AnalysisProviderName; // Part of analysis cache keys, so providers never share results
+
+  /**
+   * Send a prompt to the model
+   * @returns The response text, unparsed
+   * @throws Error if the provider is not configured, times out or fails
+   */
+  generate(request: GenerationRequest): Promise<string>;
+}
@@ -0,0 +1,101 @@
+/**
+ * Gemini AI Provider
+ *
+ * Sends prompts to Google's Gemini API. The API key is read from Redis on every
+ * request, so a key set after startup is picked up without a restart; the model
+ * and generation settings come with each request.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { redis } from '@devvit/web/server';
+import { logger } from '../logger';
+import type { AnalysisProvider, GenerationRequest, GenerationSettings } from './AnalysisProvider';
+
+/**
+ * Initialize Gemini API client with API key from Redis
+ * @returns GoogleGenerativeAI instance or null if API key not configured
+ */
+export async function initializeGeminiClient(): Promise<GoogleGenerativeAI | null> {
+  try {
+    // Retrieve API key from Redis
+    const apiKey = await redis.get('config:gemini_api_key');
+
+    if (!apiKey) {
+      logger.warn('API key not configured in Redis');
+      return null;
+    }
+
+    // Initialize Google Generative AI client
+    const genAI = new GoogleGenerativeAI(apiKey as string);
+    logger.info('Client initialized successfully');
+
+    return genAI;
+  } catch (error) {
+    logger.error('Failed to initialize client', error);
+    return null;
+  }
+}
+
+/**
+ * Get configured Gemini model instance
+ * @param generation - Model, temperature and output limit from the AI settings
+ */
+export async function getModel(generation: GenerationSettings) {
+  const genAI = await initializeGeminiClient();
+
+  if (!genAI) {
+    throw new Error('Gemini API key not configured');
+  }
+
+  const model = genAI.getGenerativeModel(
+    {
+      model: generation.model,
+      generationConfig: {
+        temperature: generation.temperature,
+        maxOutputTokens: generation.maxOutputTokens,
+      },
+    },
+    {
+      apiVersion: 'v1', // Use v1 API instead of v1beta
+    }
+  );
+
+  return model;
+}
+
+export class GeminiAnalysisProvider implements AnalysisProvider {
+  readonly name = 'gemini';
+
+  async generate(request: GenerationRequest): Promise<string> {
+    const model = await getModel(request.generation);
+    const content = request.file ? [request.prompt, { inlineData: request.file }] : request.prompt;
+
+    // Call Gemini API with timeout
+    const result = await Promise.race([
+      model.generateContent(content),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('API timeout')), request.timeoutMs)
+      ),
+    ]);
+
+    const response = await result.response;
+
+    // Log full response object for debugging
+    logger.info('Full API response object', {
+      operation: request.operation,
+      model: request.generation.model,
+      candidates: response.candidates?.length || 0,
+      promptFeedback: JSON.stringify(response.promptFeedback),
+      firstCandidate: response.candidates?.[0]
+        ? {
+            finishReason: response.candidates[0].finishReason,
+            safetyRatings: response.candidates[0].safetyRatings,
+            hasContent: !!response.candidates[0].content,
+          }
+        : null,
+      fileName: request.fileName,
+    });
+
+    return response.text();
+  }
+}
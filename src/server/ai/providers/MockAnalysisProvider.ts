@@ -0,0 +1,105 @@
+/**
+ * Mock AI Provider
+ *
+ * Answers every request from fixtures without any network access, so analysis,
+ * caching, fallbacks, questions and digests can be tried out offline. Responses go
+ * through the same parsing as real ones. Latency and failures are configurable;
+ * whether a request fails depends only on the request, so runs are repeatable.
+ */
+
+import crypto from 'crypto';
+import type { MockAiConfig } from '../../config';
+import { logger } from '../logger';
+import type { AnalysisProvider, GenerationOperation, GenerationRequest } from './AnalysisProvider';
+
+const DEFAULT_FIXTURES: Record<GenerationOperation, string> = {
+  'analyze-image': JSON.stringify({
+    description: 'Mock analysis of {{fileName}}',
+    summary: 'Generated by the mock AI provider.',
+    category: 'other',
+    tags: ['mock'],
+    confidence: 0.5,
+  }),
+  'analyze-pdf': JSON.stringify({
+    description: 'Mock analysis of {{fileName}}',
+    summary: 'Generated by the mock AI provider.',
+    category: 'other',
+    tags: ['mock'],
+    confidence: 0.5,
+  }),
+  'ask-document': JSON.stringify({
+    answer: 'This is a mock answer about {{fileName}}.',
+    quotes: [],
+    found: true,
+  }),
+  'ask-collection': JSON.stringify({
+    answer: 'This is a mock answer; no documents were read.',
+    documentIds: [],
+    found: false,
+  }),
+  'summarize-documents': JSON.stringify({
+    summary: 'This is a mock digest summary.',
+  }),
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class MockAnalysisProvider implements AnalysisProvider {
+  readonly name = 'mock';
+
+  constructor(private config: MockAiConfig = {}) {}
+
+  async generate(request: GenerationRequest): Promise<string> {
+    const failure = this.shouldFail(request) ? (this.config.failure ?? 'unavailable') : null;
+
+    if (failure === 'not-configured') {
+      throw new Error('Mock provider: API key not configured');
+    }
+    if (failure === 'timeout') {
+      await delay(request.timeoutMs);
+      throw new Error('API timeout');
+    }
+
+    // Latency beyond the request's timeout behaves like a real timeout
+    const latencyMs = Math.max(0, this.config.latencyMs ?? 0);
+    if (latencyMs >= request.timeoutMs) {
+      await delay(request.timeoutMs);
+      throw new Error('API timeout');
+    }
+    await delay(latencyMs);
+
+    if (failure === 'unavailable') {
+      throw new Error('Mock provider: 503 service temporarily unavailable');
+    }
+    if (failure === 'invalid-response') {
+      return 'This is not JSON.';
+    }
+
+    const fixture =
+      this.config.fixtures?.[request.operation] ?? DEFAULT_FIXTURES[request.operation];
+    logger.info('Mock response', {
+      operation: request.operation,
+      fileName: request.fileName,
+      latencyMs,
+    });
+    // Escaped so a quote in the file name keeps the fixture valid JSON
+    const fileName = JSON.stringify(request.fileName ?? '').slice(1, -1);
+    return fixture.replaceAll('{{fileName}}', () => fileName);
+  }
+
+  /**
+   * Whether a request falls within the configured failure rate, from a hash of
+   * the request
+   */
+  private shouldFail(request: GenerationRequest): boolean {
+    const rate = this.config.failureRate ?? 0;
+    if (rate <= 0) {
+      return false;
+    }
+    const hash = crypto
+      .createHash('md5')
+      .update(`${request.operation}\n${request.fileName ?? ''}\n${request.prompt}`)
+      .digest();
+    return hash.readUInt32BE(0) / 0x100000000 < rate;
+  }
+}
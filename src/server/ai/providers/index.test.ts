@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getAnalysisProvider, GeminiAnalysisProvider, MockAnalysisProvider } from './index';
+
+vi.mock('@devvit/web/server', () => ({ redis: {} }));
+
+describe('getAnalysisProvider', () => {
+  it('uses Gemini unless the mock provider is configured', async () => {
+    const provider = await getAnalysisProvider({ storageProvider: 'redis' });
+
+    expect(provider).toBeInstanceOf(GeminiAnalysisProvider);
+    expect(await getAnalysisProvider({ storageProvider: 'redis' })).toBe(provider);
+  });
+
+  it('reuses the mock provider until its config changes', async () => {
+    const config = { storageProvider: 'redis', aiProvider: 'mock' } as const;
+
+    const provider = await getAnalysisProvider({ ...config, mockAi: { latencyMs: 10 } });
+    expect(provider).toBeInstanceOf(MockAnalysisProvider);
+    expect(await getAnalysisProvider({ ...config, mockAi: { latencyMs: 10 } })).toBe(provider);
+
+    const changed = await getAnalysisProvider({ ...config, mockAi: { latencyMs: 20 } });
+    expect(changed).toBeInstanceOf(MockAnalysisProvider);
+    expect(changed).not.toBe(provider);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * AI Provider Exports
+ *
+ * The provider is chosen with aiProvider in the app config; Gemini is the default.
+ */
+
+import { redis } from '@devvit/web/server';
+import { getConfig, type AppConfig } from '../../config';
+import type { AnalysisProvider } from './AnalysisProvider';
+import { GeminiAnalysisProvider } from './GeminiAnalysisProvider';
+import { MockAnalysisProvider } from './MockAnalysisProvider';
+
+export type {
+  AnalysisProvider,
+  AnalysisProviderName,
+  GenerationOperation,
+  GenerationRequest,
+  GenerationSettings,
+} from './AnalysisProvider';
+export { GeminiAnalysisProvider } from './GeminiAnalysisProvider';
+export { MockAnalysisProvider } from './MockAnalysisProvider';
+
+const gemini = new GeminiAnalysisProvider();
+
+// The mock provider for the last mockAi config seen; replaced when the config changes
+let mock: { config: string; provider: MockAnalysisProvider } | null = null;
+
+/**
+ * Get the configured AI provider
+ * @param config - Configuration from Redis (loaded if not provided)
+ */
+export async function getAnalysisProvider(config?: AppConfig): Promise<AnalysisProvider> {
+  const appConfig = config ?? (await getConfig(redis));
+  if (appConfig.aiProvider === 'mock') {
+    const mockConfig = JSON.stringify(appConfig.mockAi ?? {});
+    if (mock?.config !== mockConfig) {
+      mock = { config: mockConfig, provider: new MockAnalysisProvider(appConfig.mockAi) };
+    }
+    return mock.provider;
+  }
+  return gemini;
+}
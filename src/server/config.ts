@@ -4,19 +4,55 @@
  */
 
 import { RedisClient } from '@devvit/web/server';
+import type { AnalysisProviderName, GenerationOperation } from './ai/providers/AnalysisProvider';
 
 const CONFIG_KEY = 'app:config';
 
+// Defaults for the upload routing thresholds below
+export const DEFAULT_REDIS_MAX_FILE_SIZE_KB = 500;
+export const DEFAULT_EXTERNAL_STORAGE_THRESHOLD_KB = 500;
+export const DEFAULT_S3_PRESIGN_EXPIRY_SECONDS = 3600;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const DEFAULT_DOCUMENT_CATEGORIES = [
+  'bill',
+  'receipt',
+  'invoice',
+  'id',
+  'contract',
+  'medical',
+  'other',
+];
+
+/**
+ * Behaviour of the 'mock' AI provider, for running AI features offline
+ */
+export interface MockAiConfig {
+  latencyMs?: number; // Delay before each response
+  failureRate?: number; // 0-1 share of requests that fail; the same request always fails or succeeds
+  failure?: 'unavailable' | 'timeout' | 'invalid-response' | 'not-configured'; // How they fail
+  fixtures?: Partial<Record<GenerationOperation, string>>; // Response text; {{fileName}} is filled in
+}
+
 export interface AppConfig {
-  storageProvider: 's3' | 'postgresql' | 'redis';
+  storageProvider: 's3' | 'postgresql' | 'filesystem' | 'redis';
   awsRegion?: string;
   awsAccessKeyId?: string;
   awsSecretAccessKey?: string;
   awsS3Bucket?: string;
+  s3Endpoint?: string; // Custom endpoint for S3-compatible services (MinIO, R2, Backblaze B2)
+  s3ForcePathStyle?: boolean; // Use bucket-in-path URLs; most S3-compatible services need this
+  s3PresignExpirySeconds?: number; // Lifetime of presigned download URLs
   postgresqlConnectionString?: string;
   postgresqlSsl?: boolean;
   serverBaseUrl?: string;
+  filesystemRoot?: string; // Directory for the 'filesystem' provider
   maxFileSizeMB?: number;
+  externalStorageThresholdKB?: number; // Files larger than this go to the storage adapter
+  redisMaxFileSizeKB?: number; // Largest file stored as base64 in Redis (also the fallback limit)
+  trashRetentionDays?: number; // Days a deleted document stays in the trash before it is purged
+  documentCategories?: string[]; // Taxonomy AI analysis classifies documents into
+  aiProvider?: AnalysisProviderName; // Model backend for AI features (default 'gemini')
+  mockAi?: MockAiConfig; // Used when aiProvider is 'mock'
 }
 
 /**
@@ -0,0 +1,333 @@
+/**
+ * AI model, generation settings and analysis prompts
+ *
+ * Moderators choose the model, its temperature and output limit, how long an
+ * analysis may take, and the language descriptions and summaries are written in.
+ * The image and PDF analysis prompts are templates with {{variables}}; every save
+ * is a new version, and any saved version, or the built-in prompts, can be made
+ * active. A template is only accepted if it still asks for the JSON the response
+ * parser expects.
+ *
+ * Redis is scoped to the app installation, so these settings apply per subreddit.
+ *
+ * Key layout:
+ *   ai:settings              AiSettings JSON; the defaults apply until it is saved
+ *   ai:prompts               hash of version -> PromptTemplates JSON
+ *   ai:prompts:last-version  counter for version numbers
+ */
+
+import { redis } from '@devvit/web/server';
+import type {
+  AiSettings,
+  AiSettingsUpdateRequest,
+  PromptTemplates,
+  PromptTemplatesRequest,
+  PromptVariable,
+} from '../../shared/types/api';
+
+export const AI_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+  'gemini-2.5-pro',
+  'gemini-2.0-flash',
+];
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  model: 'gemini-2.5-flash',
+  temperature: 0.4, // Lower temperature for more consistent, factual responses
+  maxOutputTokens: 1000, // Enough for the full JSON response
+  timeoutMs: 5000,
+  language: null,
+  promptVersion: null,
+};
+
+// Saved prompt versions kept; older ones are dropped when a new one is saved
+export const MAX_PROMPT_VERSIONS = 20;
+export const MAX_TEMPLATE_LENGTH = 4000;
+
+const MAX_NOTE_LENGTH = 200;
+const MAX_LANGUAGE_LENGTH = 40;
+const TEMPERATURE_RANGE: [number, number] = [0, 2];
+const OUTPUT_TOKENS_RANGE: [number, number] = [256, 8192];
+const TIMEOUT_RANGE_MS: [number, number] = [2000, 30000];
+
+const SETTINGS_KEY = 'ai:settings';
+const PROMPTS_KEY = 'ai:prompts';
+const LAST_VERSION_KEY = 'ai:prompts:last-version';
+
+export const PROMPT_VARIABLES: PromptVariable[] = [
+  { name: 'categories', description: 'The category taxonomy, comma separated', required: true },
+  {
+    name: 'fields',
+    description: "The field schema's properties; place it right after the last JSON property",
+    required: true,
+  },
+  {
+    name: 'fallbackCategory',
+    description: 'The category for documents that fit no other',
+    required: false,
+  },
+  { name: 'maxTags', description: 'How many suggested tags are kept', required: false },
+];
+
+// Properties of the JSON the response parser reads; description and summary are required
+const RESPONSE_PROPERTIES = ['description', 'summary', 'category', 'tags', 'confidence'];
+
+export const DEFAULT_PROMPT_TEMPLATES: Pick<PromptTemplates, 'image' | 'pdf'> = {
+  image: `You must respond with ONLY valid JSON, no other text.
+
+Analyze this image and return JSON with this exact structure:
+{
+  "description": "brief description (max 80 chars)",
+  "summary": "key details and information",
+  "category": "one of: {{categories}}",
+  "tags": ["up to {{maxTags}} short lowercase keywords, e.g. company or topic"],
+  "confidence": number from 0 to 1 for how sure you are of the category{{fields}}
+}
+
+If it's a document/receipt: include company name, date, amounts.
+If it's a photo: describe what you see briefly.
+Use "{{fallbackCategory}}" as the category if none of the others fit.
+
+Respond with ONLY the JSON object, nothing else.`,
+  pdf: `You must respond with ONLY valid JSON, no other text.
+
+Analyze this PDF and return JSON with this exact structure:
+{
+  "description": "brief description (max 80 chars)",
+  "summary": "key points and details (max 400 chars)",
+  "category": "one of: {{categories}}",
+  "tags": ["up to {{maxTags}} short lowercase keywords, e.g. company or topic"],
+  "confidence": number from 0 to 1 for how sure you are of the category{{fields}}
+}
+
+Include: document type, main subject, key dates, important numbers.
+Use "{{fallbackCategory}}" as the category if none of the others fit.
+
+Respond with ONLY the JSON object, nothing else.`,
+};
+
+/**
+ * Settings and prompts used for one analysis
+ */
+export interface ActiveAiSettings {
+  settings: AiSettings;
+  prompts: { version: number | null; image: string; pdf: string };
+}
+
+/**
+ * Raised when settings or prompt templates are invalid
+ */
+export class AiSettingsRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'AiSettingsRejectedError';
+  }
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fill in a template's {{variables}}; unknown variables are left as they are
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Check that a template only uses known variables, includes the required ones, and
+ * still asks for every property of the JSON response
+ * @throws AiSettingsRejectedError describing the first problem found
+ */
+export function validatePromptTemplate(kind: 'image' | 'pdf', template: unknown): string {
+  if (typeof template !== 'string' || !template.trim()) {
+    throw new AiSettingsRejectedError(`The ${kind} prompt is required`);
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new AiSettingsRejectedError(
+      `The ${kind} prompt must be at most ${MAX_TEMPLATE_LENGTH} characters`
+    );
+  }
+
+  const used = new Set([...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]));
+  for (const name of used) {
+    if (!PROMPT_VARIABLES.some((variable) => variable.name === name)) {
+      throw new AiSettingsRejectedError(`The ${kind} prompt uses unknown variable {{${name}}}`);
+    }
+  }
+  for (const variable of PROMPT_VARIABLES) {
+    if (variable.required && !used.has(variable.name)) {
+      throw new AiSettingsRejectedError(`The ${kind} prompt must include {{${variable.name}}}`);
+    }
+  }
+
+  // With the variables filled in, the prompt must still describe the response JSON
+  const rendered = renderPromptTemplate(template, {
+    categories: 'bill, other',
+    fields: ',\n  "fields": {}',
+    fallbackCategory: 'other',
+    maxTags: '5',
+  });
+  if (!/\bJSON\b/i.test(rendered)) {
+    throw new AiSettingsRejectedError(`The ${kind} prompt must ask for a JSON response`);
+  }
+  for (const property of [...RESPONSE_PROPERTIES, 'fields']) {
+    if (!rendered.includes(`"${property}"`)) {
+      throw new AiSettingsRejectedError(
+        `The ${kind} prompt must ask for the "${property}" property in the JSON response`
+      );
+    }
+  }
+  return template;
+}
+
+function parseNumber(name: string, value: unknown, [min, max]: [number, number]): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new AiSettingsRejectedError(`${name} must be a number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+/**
+ * The subreddit's settings, with defaults for anything not saved
+ */
+export async function getAiSettings(): Promise<AiSettings> {
+  const json = await redis.get(SETTINGS_KEY);
+  return json
+    ? { ...DEFAULT_AI_SETTINGS, ...(JSON.parse(json) as AiSettings) }
+    : DEFAULT_AI_SETTINGS;
+}
+
+/**
+ * Saved prompt versions, newest first
+ */
+export async function listPromptTemplates(): Promise<PromptTemplates[]> {
+  const entries = await redis.hGetAll(PROMPTS_KEY);
+  return Object.values(entries)
+    .map((json) => JSON.parse(json) as PromptTemplates)
+    .sort((a, b) => b.version - a.version);
+}
+
+async function getPromptTemplates(version: number): Promise<PromptTemplates | null> {
+  const json = await redis.hGet(PROMPTS_KEY, String(version));
+  return json ? (JSON.parse(json) as PromptTemplates) : null;
+}
+
+/**
+ * The settings and prompts analyses use now. If the active prompt version no longer
+ * exists, the built-in prompts are used.
+ */
+export async function getActiveAiSettings(): Promise<ActiveAiSettings> {
+  const settings = await getAiSettings();
+  const saved =
+    settings.promptVersion !== null ? await getPromptTemplates(settings.promptVersion) : null;
+  return {
+    settings,
+    prompts: saved
+      ? { version: saved.version, image: saved.image, pdf: saved.pdf }
+      : { version: null, ...DEFAULT_PROMPT_TEMPLATES },
+  };
+}
+
+/**
+ * Change some of the settings
+ * @returns The settings after the change
+ * @throws AiSettingsRejectedError if a value is invalid or the prompt version does not exist
+ */
+export async function updateAiSettings(
+  input: AiSettingsUpdateRequest,
+  updatedBy: string
+): Promise<AiSettings> {
+  const settings = { ...(await getAiSettings()) };
+
+  if (input.model !== undefined) {
+    if (!AI_MODELS.includes(input.model)) {
+      throw new AiSettingsRejectedError(`model must be one of: ${AI_MODELS.join(', ')}`);
+    }
+    settings.model = input.model;
+  }
+  if (input.temperature !== undefined) {
+    settings.temperature = parseNumber('temperature', input.temperature, TEMPERATURE_RANGE);
+  }
+  if (input.maxOutputTokens !== undefined) {
+    settings.maxOutputTokens = Math.round(
+      parseNumber('maxOutputTokens', input.maxOutputTokens, OUTPUT_TOKENS_RANGE)
+    );
+  }
+  if (input.timeoutMs !== undefined) {
+    settings.timeoutMs = Math.round(parseNumber('timeoutMs', input.timeoutMs, TIMEOUT_RANGE_MS));
+  }
+  if (input.language !== undefined) {
+    const language = typeof input.language === 'string' ? input.language.trim() : input.language;
+    if (
+      language !== null &&
+      (typeof language !== 'string' ||
+        language.length > MAX_LANGUAGE_LENGTH ||
+        !/^[\p{L} ()-]*$/u.test(language))
+    ) {
+      throw new AiSettingsRejectedError(
+        `language must be a language name of at most ${MAX_LANGUAGE_LENGTH} letters`
+      );
+    }
+    settings.language = language || null;
+  }
+  if (input.promptVersion !== undefined) {
+    if (input.promptVersion !== null) {
+      if (
+        typeof input.promptVersion !== 'number' ||
+        !(await getPromptTemplates(input.promptVersion))
+      ) {
+        throw new AiSettingsRejectedError(
+          `Unknown prompt version ${String(input.promptVersion)}`,
+          404
+        );
+      }
+    }
+    settings.promptVersion = input.promptVersion;
+  }
+
+  settings.updatedAt = Date.now();
+  settings.updatedBy = updatedBy;
+  await redis.set(SETTINGS_KEY, JSON.stringify(settings));
+  console.log(
+    `[AI Settings] ${updatedBy} updated settings: ${settings.model}, temperature ${settings.temperature}, prompts v${settings.promptVersion ?? 'built-in'}`
+  );
+  return settings;
+}
+
+/**
+ * Save new image and PDF prompts as the next version and make it active
+ * @throws AiSettingsRejectedError if a template is invalid
+ */
+export async function savePromptTemplates(
+  input: PromptTemplatesRequest,
+  createdBy: string
+): Promise<PromptTemplates> {
+  const image = validatePromptTemplate('image', input.image);
+  const pdf = validatePromptTemplate('pdf', input.pdf);
+  const note = typeof input.note === 'string' ? input.note.trim().slice(0, MAX_NOTE_LENGTH) : '';
+
+  const templates: PromptTemplates = {
+    version: await redis.incrBy(LAST_VERSION_KEY, 1),
+    image,
+    pdf,
+    ...(note ? { note } : {}),
+    createdAt: Date.now(),
+    createdBy,
+  };
+  await redis.hSet(PROMPTS_KEY, { [String(templates.version)]: JSON.stringify(templates) });
+  await updateAiSettings({ promptVersion: templates.version }, createdBy);
+
+  // The new version is active, so the oldest ones can go
+  const versions = await listPromptTemplates();
+  const expired = versions.slice(MAX_PROMPT_VERSIONS).map(({ version }) => String(version));
+  if (expired.length > 0) {
+    await redis.hDel(PROMPTS_KEY, expired);
+  }
+
+  console.log(`[AI Settings] ${createdBy} saved prompt version ${templates.version}`);
+  return templates;
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { FALLBACK_SUMMARY } from '../ai/gemini';
+import { MockAnalysisProvider } from '../ai/providers';
+import { setConfig, type MockAiConfig } from '../config';
+import { analyzeWithCache } from './analysisCache';
+
+// Only the calls analysis makes, kept in memory
+const { store } = vi.hoisted(() => ({ store: new Map<string, string>() }));
+vi.mock('@devvit/web/server', () => ({
+  redis: {
+    get: async (key: string) => store.get(key),
+    set: async (key: string, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    },
+    expire: async () => {},
+    hGet: async () => undefined,
+    hGetAll: async () => ({}),
+  },
+}));
+
+const IMAGE =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const useMockProvider = (mockAi: MockAiConfig = {}) =>
+  setConfig(redis, { storageProvider: 'redis', aiProvider: 'mock', mockAi });
+
+const cachedKeys = () => [...store.keys()].filter((key) => key.startsWith('analysis:'));
+
+describe('analyzeWithCache', () => {
+  beforeEach(() => {
+    store.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('analyzes a file with the mock provider and caches the result', async () => {
+    await useMockProvider();
+
+    const { analysis, cached } = await analyzeWithCache(IMAGE, 'image/png', 'receipt.png', null);
+
+    expect(cached).toBe(false);
+    expect(analysis).toMatchObject({
+      description: 'Mock analysis of receipt.png',
+      summary: 'Generated by the mock AI provider.',
+      category: 'other',
+      suggestedTags: ['mock'],
+      confidence: 0.5,
+    });
+    expect(cachedKeys()).toHaveLength(1);
+  });
+
+  it('returns the cached analysis without calling the provider again', async () => {
+    await useMockProvider();
+    const generate = vi.spyOn(MockAnalysisProvider.prototype, 'generate');
+
+    const first = await analyzeWithCache(IMAGE, 'image/png', 'receipt.png', null);
+    const second = await analyzeWithCache(IMAGE, 'image/png', 'receipt.png', null);
+
+    expect(second.cached).toBe(true);
+    expect(second.analysis).toEqual(first.analysis);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('misses the cache when the taxonomy changes', async () => {
+    await useMockProvider();
+    await analyzeWithCache(IMAGE, 'image/png', 'receipt.png', null);
+
+    await setConfig(redis, {
+      storageProvider: 'redis',
+      aiProvider: 'mock',
+      documentCategories: ['bill', 'other'],
+    });
+    const { cached } = await analyzeWithCache(IMAGE, 'image/png', 'receipt.png', null);
+
+    expect(cached).toBe(false);
+    expect(cachedKeys()).toHaveLength(2);
+  });
+
+  it('falls back without caching when the provider fails', async () => {
+    await useMockProvider({ failureRate: 1, failure: 'not-configured' });
+
+    const { analysis, cached } = await analyzeWithCache(IMAGE, 'image/png', 'receipt.png', null);
+
+    expect(cached).toBe(false);
+    expect(analysis.summary).toBe(FALLBACK_SUMMARY);
+    expect(analysis.confidence).toBe(0);
+    expect(cachedKeys()).toHaveLength(0);
+  });
+
+  it('falls back when the response is not JSON', async () => {
+    await useMockProvider({ failureRate: 1, failure: 'invalid-response' });
+
+    const { analysis } = await analyzeWithCache(IMAGE, 'image/png', 'receipt.png', null);
+
+    expect(analysis.summary).toBe(FALLBACK_SUMMARY);
+    expect(cachedKeys()).toHaveLength(0);
+  });
+});
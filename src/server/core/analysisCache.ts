@@ -0,0 +1,80 @@
+/**
+ * Cached document analysis
+ *
+ * Analysis results are cached by file contents for a week, so the same file
+ * analyzed again does not call the model. The result also depends on the
+ * taxonomy, schema, provider and AI settings, so changing any of them misses the
+ * cache. Fallback responses are never cached, so a failed analysis is tried
+ * again next time.
+ *
+ * Key layout (subreddit-wide):
+ *   analysis:{fileMd5}:{optionsHash}:p{promptVersion}   DocumentAnalysis JSON, 7-day TTL
+ */
+
+import crypto from 'crypto';
+import { redis } from '@devvit/web/server';
+import type { FieldSchema } from '../../shared/types/api';
+import { analyzeDocument, FALLBACK_SUMMARY, type DocumentAnalysis } from '../ai/gemini';
+import { getAnalysisProvider } from '../ai/providers';
+import { getConfig } from '../config';
+import { getActiveAiSettings } from './aiSettings';
+import { getDocumentCategories } from './categories';
+
+export const ANALYSIS_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Analyze a file, or return the cached analysis of the same file
+ * @param fileData - Base64 encoded file data (with or without data URI prefix)
+ * @param schema - Schema to extract field values with, if any
+ * @returns The analysis, and whether it came from the cache
+ */
+export async function analyzeWithCache(
+  fileData: string,
+  fileType: string,
+  fileName: string,
+  schema: FieldSchema | null
+): Promise<{ analysis: DocumentAnalysis; cached: boolean }> {
+  const base64Data = fileData.includes(',') ? (fileData.split(',')[1] ?? '') : fileData;
+  const fileHash = crypto.createHash('md5').update(Buffer.from(base64Data, 'base64')).digest('hex');
+
+  const config = await getConfig(redis);
+  const categories = getDocumentCategories(config);
+  const provider = await getAnalysisProvider(config);
+  const ai = await getActiveAiSettings();
+  const { model, temperature, maxOutputTokens, language } = ai.settings;
+  const optionsHash = crypto
+    .createHash('md5')
+    .update(
+      JSON.stringify({
+        categories,
+        schema,
+        provider: provider.name,
+        generation: { model, temperature, maxOutputTokens, language },
+      })
+    )
+    .digest('hex')
+    .slice(0, 8);
+  const cacheKey = `analysis:${fileHash}:${optionsHash}:p${ai.prompts.version ?? 0}`;
+
+  const cachedResult = await redis.get(cacheKey);
+  if (cachedResult) {
+    console.log(`[Analysis] Cache hit for file: ${fileName} (key: ${cacheKey})`);
+    return { analysis: JSON.parse(cachedResult) as DocumentAnalysis, cached: true };
+  }
+  console.log(`[Analysis] Cache miss for file: ${fileName} (key: ${cacheKey})`);
+
+  const analysis = await analyzeDocument(fileData, fileType, fileName, {
+    categories,
+    ...(schema ? { schema } : {}),
+    ai,
+  });
+
+  if (analysis.summary === FALLBACK_SUMMARY) {
+    console.log(`[Analysis] Skipping cache for fallback response: ${fileName}`);
+  } else {
+    await redis.set(cacheKey, JSON.stringify(analysis));
+    await redis.expire(cacheKey, ANALYSIS_CACHE_TTL_SECONDS);
+    console.log(`[Analysis] Cached analysis results for ${fileName} (TTL: 7 days)`);
+  }
+  return { analysis, cached: false };
+}
@@ -0,0 +1,448 @@
+/**
+ * Background analysis of stored documents
+ *
+ * Documents can be analyzed again after upload, one at a time or in bulk, e.g. to
+ * improve documents saved with the fallback description while the AI was
+ * unavailable. Each request becomes a job in a Redis queue. A worker, run every
+ * minute by the scheduler, takes a few due jobs per run and charges each one to
+ * the daily AI quota of the user who queued it; jobs whose user is out of quota
+ * wait until the quota resets. Results are written to the stored document.
+ *
+ * A document has at most one queued or running job. A job that was running when
+ * its worker died is queued again once its lease runs out.
+ *
+ * Key layout:
+ *   analysis-jobs:queue               sorted set of "{postId}:{jobId}", score = runAt
+ *   analysis-jobs:running             sorted set of "{postId}:{jobId}", score = lease end
+ *   analysis-jobs:{postId}:job:{id}   AnalysisJob JSON; expires a week after it finishes
+ *   analysis-jobs:{postId}:active     hash of documentId -> id of its queued or running job
+ */
+
+import { redis } from '@devvit/web/server';
+import type {
+  AnalysisJob,
+  Document,
+  DocumentMetadata,
+  ReanalyzeRequest,
+} from '../../shared/types/api';
+import type { AppConfig } from '../config';
+import { analyzeDocument, FALLBACK_SUMMARY, type DocumentAnalysis } from '../ai/gemini';
+import { consumeAnalysisQuota } from './analysisQuota';
+import { getDocumentCategories } from './categories';
+import { readDocumentDataUri } from './documentFiles';
+import { getDocument, listAllDocuments, toMetadata, updateDocument } from './documents';
+import { getFieldSchema } from './fieldSchemas';
+import { rescheduleReminders } from './reminders';
+import { MAX_TAGS_PER_DOCUMENT } from './tags';
+
+export const ANALYSIS_WORKER_TASK = 'analysis-worker';
+
+// Jobs run per worker run (the worker runs once a minute)
+export const WORKER_BATCH_SIZE = 3;
+// Jobs one reanalyze request can queue, and job ids one status request can read
+export const MAX_BULK_JOBS = 100;
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+const JOB_LEASE_MS = 10 * 60 * 1000;
+const FINISHED_JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const QUEUE_KEY = 'analysis-jobs:queue';
+const RUNNING_KEY = 'analysis-jobs:running';
+const jobKey = (postId: string, id: string) => `analysis-jobs:${postId}:job:${id}`;
+const activeKey = (postId: string) => `analysis-jobs:${postId}:active`;
+
+/**
+ * Raised when an analysis job cannot be queued
+ */
+export class AnalysisJobRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'AnalysisJobRejectedError';
+  }
+}
+
+type JobOptions = Pick<AnalysisJob, 'schemaId' | 'overwrite'>;
+
+/**
+ * Whether a document still has the description or notes used when analysis failed,
+ * by the server or by the uploader
+ */
+function isFallbackDocument(document: DocumentMetadata): boolean {
+  return (
+    document.description === `Image - ${document.fileName}` ||
+    document.description === `PDF - ${document.fileName}` ||
+    document.notes === FALLBACK_SUMMARY ||
+    document.notes === 'Please add details manually.'
+  );
+}
+
+/**
+ * Check the schema and overwrite options of a request
+ * @throws AnalysisJobRejectedError if the schema is unknown or overwrite is not a boolean
+ */
+async function parseJobOptions(
+  postId: string,
+  input: { schema?: unknown; overwrite?: unknown }
+): Promise<JobOptions> {
+  const { schema, overwrite = false } = input;
+  if (typeof overwrite !== 'boolean') {
+    throw new AnalysisJobRejectedError('overwrite must be true or false');
+  }
+  if (schema === undefined || schema === null || schema === '') {
+    return { schemaId: null, overwrite };
+  }
+  if (typeof schema !== 'string' || !(await getFieldSchema(postId, schema))) {
+    throw new AnalysisJobRejectedError(`Unknown schema "${String(schema)}"`);
+  }
+  return { schemaId: schema, overwrite };
+}
+
+/**
+ * Start of a YYYY-MM-DD day in UTC, from a request
+ * @throws AnalysisJobRejectedError if it is not a date
+ */
+function parseDay(name: string, value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const time =
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    throw new AnalysisJobRejectedError(`${name} must be a date as YYYY-MM-DD`);
+  }
+  return time;
+}
+
+async function saveJob(postId: string, job: AnalysisJob): Promise<void> {
+  await redis.set(jobKey(postId, job.id), JSON.stringify(job));
+  if (job.status === 'done' || job.status === 'failed') {
+    await redis.expire(jobKey(postId, job.id), FINISHED_JOB_TTL_SECONDS);
+  }
+}
+
+/**
+ * A job by id
+ * @returns The job, or null if it does not exist or finished more than a week ago
+ */
+export async function getAnalysisJob(postId: string, id: string): Promise<AnalysisJob | null> {
+  const json = await redis.get(jobKey(postId, id));
+  return json ? (JSON.parse(json) as AnalysisJob) : null;
+}
+
+/**
+ * Several jobs by id, for polling; unknown ids are left out
+ */
+export async function getAnalysisJobs(postId: string, ids: string[]): Promise<AnalysisJob[]> {
+  const jobs = await Promise.all(
+    ids.slice(0, MAX_BULK_JOBS).map((id) => getAnalysisJob(postId, id))
+  );
+  return jobs.filter((job): job is AnalysisJob => job !== null);
+}
+
+/**
+ * Queue a job for a document, unless it already has one
+ * @returns The new job, or the document's queued or running job
+ */
+async function enqueue(
+  postId: string,
+  documentId: string,
+  options: JobOptions,
+  requestedBy: string
+): Promise<{ job: AnalysisJob; created: boolean }> {
+  const now = Date.now();
+  const job: AnalysisJob = {
+    id: `analysis_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    documentId,
+    status: 'queued',
+    requestedBy,
+    ...options,
+    attempts: 0,
+    createdAt: now,
+    runAt: now,
+  };
+
+  if (!(await redis.hSetNX(activeKey(postId), documentId, job.id))) {
+    const activeId = await redis.hGet(activeKey(postId), documentId);
+    const active = activeId ? await getAnalysisJob(postId, activeId) : null;
+    if (active && (active.status === 'queued' || active.status === 'running')) {
+      return { job: active, created: false };
+    }
+    // Left behind by a job that no longer exists
+    await redis.hSet(activeKey(postId), { [documentId]: job.id });
+  }
+
+  await saveJob(postId, job);
+  await redis.zAdd(QUEUE_KEY, { member: `${postId}:${job.id}`, score: job.runAt });
+  return { job, created: true };
+}
+
+/**
+ * Queue analysis of one document
+ * @returns The job and whether it was created (false if the document already had one),
+ *          or null if the document does not exist
+ * @throws AnalysisJobRejectedError if the options are invalid or the document is in the trash
+ */
+export async function enqueueDocumentAnalysis(
+  postId: string,
+  documentId: string,
+  input: { schema?: unknown; overwrite?: unknown },
+  requestedBy: string
+): Promise<{ job: AnalysisJob; created: boolean } | null> {
+  const options = await parseJobOptions(postId, input);
+  const document = await getDocument(postId, documentId);
+  if (!document) {
+    return null;
+  }
+  if (document.deletedAt !== undefined) {
+    throw new AnalysisJobRejectedError('Document is in the trash', 409);
+  }
+
+  const queued = await enqueue(postId, documentId, options, requestedBy);
+  console.log(
+    `[Analysis Jobs] ${queued.created ? 'Queued' : 'Already queued'} document ${documentId} (job ${queued.job.id})`
+  );
+  return queued;
+}
+
+/**
+ * Queue analysis of every document that matches a filter, oldest first, up to
+ * MAX_BULK_JOBS per request
+ * @returns The new jobs, the number of matches that already had a job, and whether
+ *          more documents matched than were queued
+ * @throws AnalysisJobRejectedError if the filter or options are invalid
+ */
+export async function enqueueReanalysis(
+  postId: string,
+  input: ReanalyzeRequest,
+  requestedBy: string
+): Promise<{ jobs: AnalysisJob[]; alreadyQueued: number; limited: boolean }> {
+  const options = await parseJobOptions(postId, input);
+  const { fallbackOnly = true, fileType } = input;
+  if (typeof fallbackOnly !== 'boolean') {
+    throw new AnalysisJobRejectedError('fallbackOnly must be true or false');
+  }
+  if (fileType !== undefined && fileType !== 'image' && fileType !== 'pdf') {
+    throw new AnalysisJobRejectedError('fileType must be image or pdf');
+  }
+  const from = parseDay('from', input.from);
+  const to = parseDay('to', input.to);
+  if (from !== null && to !== null && from > to) {
+    throw new AnalysisJobRejectedError('from must not be after to');
+  }
+
+  const matches = (await listAllDocuments(postId))
+    .filter(
+      (document) =>
+        (!fallbackOnly || isFallbackDocument(document)) &&
+        (fileType === undefined ||
+          (fileType === 'pdf') === (document.fileType === 'application/pdf')) &&
+        (from === null || document.timestamp >= from) &&
+        (to === null || document.timestamp < to + DAY_MS)
+    )
+    .reverse();
+
+  const jobs: AnalysisJob[] = [];
+  let alreadyQueued = 0;
+  let limited = false;
+  for (const document of matches) {
+    if (jobs.length >= MAX_BULK_JOBS) {
+      limited = true;
+      break;
+    }
+    const { job, created } = await enqueue(postId, document.id, options, requestedBy);
+    if (created) {
+      jobs.push(job);
+    } else {
+      alreadyQueued++;
+    }
+  }
+
+  console.log(
+    `[Analysis Jobs] Queued ${jobs.length} of ${matches.length} matching documents in post ${postId}`
+  );
+  return { jobs, alreadyQueued, limited };
+}
+
+/**
+ * Fill in a document from an analysis. Without overwrite only the description and
+ * notes left by a failed analysis, and empty values, are replaced; suggested tags
+ * are always added to the existing ones.
+ */
+function applyAnalysis(
+  document: Document,
+  analysis: DocumentAnalysis,
+  overwrite: boolean
+): Document {
+  const replaceText = overwrite || isFallbackDocument(document);
+  const tags = [...new Set([...(document.tags ?? []), ...analysis.suggestedTags])].slice(
+    0,
+    MAX_TAGS_PER_DOCUMENT
+  );
+  return {
+    ...document,
+    description:
+      replaceText || !document.description.trim() ? analysis.description : document.description,
+    notes: replaceText || !document.notes.trim() ? analysis.summary : document.notes,
+    ...(overwrite || !document.category ? { category: analysis.category } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(analysis.fields && (overwrite || !document.fields) ? { fields: analysis.fields } : {}),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Run one claimed job
+ * @returns The job as it ended this run: done, failed, or queued again for later
+ */
+async function runJob(job: AnalysisJob, postId: string, config: AppConfig): Promise<AnalysisJob> {
+  const fail = (message: string): AnalysisJob => ({
+    ...job,
+    status: 'failed',
+    finishedAt: Date.now(),
+    message,
+  });
+  const retryAt = (runAt: number, message: string): AnalysisJob => ({
+    ...job,
+    status: 'queued',
+    runAt,
+    message,
+  });
+
+  const document = await getDocument(postId, job.documentId, true);
+  if (!document || document.deletedAt !== undefined) {
+    return fail('Document was deleted');
+  }
+
+  const quota = await consumeAnalysisQuota(job.requestedBy);
+  if (!quota.allowed) {
+    return retryAt(quota.resetAt.getTime(), 'Waiting for the daily AI limit to reset');
+  }
+
+  const fileData = await readDocumentDataUri(document, config);
+  if (!fileData) {
+    return fail('Document file is missing');
+  }
+
+  const schema = job.schemaId ? await getFieldSchema(postId, job.schemaId) : null;
+  const analysis = await analyzeDocument(fileData, document.fileType, document.fileName, {
+    categories: getDocumentCategories(config),
+    ...(schema ? { schema } : {}),
+  });
+  if (analysis.summary === FALLBACK_SUMMARY) {
+    return job.attempts < MAX_ATTEMPTS
+      ? retryAt(Date.now() + RETRY_DELAY_MS, 'AI analysis is unavailable; will retry')
+      : fail('AI analysis is unavailable');
+  }
+
+  // Only keep the analysis if the file it was made from is still current
+  const saved = await updateDocument(postId, job.documentId, (current) => {
+    if (current.deletedAt !== undefined) {
+      throw new AnalysisJobRejectedError('Document was deleted');
+    }
+    if (
+      current.contentHash !== document.contentHash ||
+      current.fileVersion !== document.fileVersion
+    ) {
+      throw new AnalysisJobRejectedError('Document file changed during analysis');
+    }
+    return applyAnalysis(current, analysis, job.overwrite);
+  });
+  if (!saved) {
+    return fail('Document was deleted');
+  }
+  if (analysis.fields) {
+    try {
+      await rescheduleReminders(postId, saved);
+    } catch (error) {
+      // The analysis is saved; reminders still check the due date when they run
+      console.error(`[Analysis Jobs] Failed to move reminders for ${job.documentId}:`, error);
+    }
+  }
+
+  const { message, ...rest } = job;
+  return {
+    ...rest,
+    status: 'done',
+    finishedAt: Date.now(),
+    document: toMetadata(saved),
+  };
+}
+
+/**
+ * Run the due jobs, at most WORKER_BATCH_SIZE. Jobs whose lease ran out are queued
+ * again first.
+ * @returns Number of jobs run, and whether more are due now
+ */
+export async function runAnalysisWorker(
+  config: AppConfig
+): Promise<{ processed: number; remaining: boolean }> {
+  const now = Date.now();
+
+  for (const { member } of await redis.zRange(RUNNING_KEY, 0, now, { by: 'score' })) {
+    if (await redis.zRem(RUNNING_KEY, [member])) {
+      await redis.zAdd(QUEUE_KEY, { member, score: now });
+      console.log(`[Analysis Jobs] Job ${member} timed out; queued again`);
+    }
+  }
+
+  const due = await redis.zRange(QUEUE_KEY, 0, now, {
+    by: 'score',
+    limit: { offset: 0, count: WORKER_BATCH_SIZE },
+  });
+
+  let processed = 0;
+  for (const { member } of due) {
+    // Removing the entry claims the job; another worker that got here first wins
+    if (!(await redis.zRem(QUEUE_KEY, [member]))) continue;
+    const separator = member.indexOf(':');
+    const postId = member.slice(0, separator);
+    const job = await getAnalysisJob(postId, member.slice(separator + 1));
+    if (!job) continue;
+
+    await redis.zAdd(RUNNING_KEY, { member, score: Date.now() + JOB_LEASE_MS });
+    const running: AnalysisJob = {
+      ...job,
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt: Date.now(),
+    };
+    await saveJob(postId, running);
+
+    let ended: AnalysisJob;
+    try {
+      ended = await runJob(running, postId, config);
+    } catch (error) {
+      console.error(`[Analysis Jobs] Job ${job.id} failed:`, error);
+      ended = {
+        ...running,
+        status: 'failed',
+        finishedAt: Date.now(),
+        message:
+          error instanceof AnalysisJobRejectedError
+            ? error.message
+            : 'Analysis failed unexpectedly',
+      };
+    }
+
+    await saveJob(postId, ended);
+    if (ended.status === 'queued') {
+      await redis.zAdd(QUEUE_KEY, { member, score: ended.runAt });
+    } else if ((await redis.hGet(activeKey(postId), job.documentId)) === job.id) {
+      await redis.hDel(activeKey(postId), [job.documentId]);
+    }
+    await redis.zRem(RUNNING_KEY, [member]);
+    processed++;
+    console.log(`[Analysis Jobs] Job ${job.id} for document ${job.documentId}: ${ended.status}`);
+  }
+
+  const next = await redis.zRange(QUEUE_KEY, 0, Date.now(), {
+    by: 'score',
+    limit: { offset: 0, count: 1 },
+  });
+  return { processed, remaining: next.length > 0 };
+}
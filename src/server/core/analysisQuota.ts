@@ -0,0 +1,50 @@
+/**
+ * Daily AI request quota
+ *
+ * Every request that calls the AI model (analysis, document questions) counts
+ * against one per-user daily limit. Counters reset at midnight UTC.
+ *
+ * Key layout (subreddit-wide):
+ *   ratelimit:analysis:{username}:{YYYY-MM-DD}   request count for the day
+ */
+
+import { redis } from '@devvit/web/server';
+import { logRateLimitCheck } from '../ai/gemini';
+
+export const DAILY_ANALYSIS_LIMIT = 100;
+
+/**
+ * Outcome of taking one request from a user's quota
+ */
+export interface QuotaCheck {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date; // Next midnight UTC
+}
+
+/**
+ * Count one AI request for a user, unless the day's limit is already reached
+ */
+export async function consumeAnalysisQuota(username: string): Promise<QuotaCheck> {
+  const now = new Date();
+  const resetAt = new Date(now);
+  resetAt.setUTCHours(24, 0, 0, 0);
+  const key = `ratelimit:analysis:${username}:${now.toISOString().slice(0, 10)}`;
+
+  const count = parseInt((await redis.get(key)) ?? '0', 10) || 0;
+  if (count >= DAILY_ANALYSIS_LIMIT) {
+    logRateLimitCheck(username, count, DAILY_ANALYSIS_LIMIT, true);
+    return { allowed: false, limit: DAILY_ANALYSIS_LIMIT, remaining: 0, resetAt };
+  }
+
+  const newCount = await redis.incrBy(key, 1);
+  await redis.expire(key, Math.floor((resetAt.getTime() - now.getTime()) / 1000));
+  logRateLimitCheck(username, newCount, DAILY_ANALYSIS_LIMIT, false);
+  return {
+    allowed: true,
+    limit: DAILY_ANALYSIS_LIMIT,
+    remaining: Math.max(0, DAILY_ANALYSIS_LIMIT - newCount),
+    resetAt,
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Bill insights
+ *
+ * Documents with extracted bill fields (the built-in "bill" field schema) are
+ * grouped by provider and account number. Each bill is compared with the same
+ * account's bill for the previous month and for the same month a year earlier,
+ * and flagged when its amount is well above the account's trailing average.
+ * Insights are computed from the document store on each request.
+ */
+
+import type {
+  BillAccount,
+  BillChange,
+  BillComparison,
+  BillInsight,
+  DocumentMetadata,
+  FieldValue,
+} from '../../shared/types/api';
+import { listAllDocuments } from './documents';
+import { BILL_SCHEMA_ID } from './fieldSchemas';
+
+// A bill this far above the trailing average (0.3 = 30%) is an outlier
+export const OUTLIER_THRESHOLD = 0.3;
+// Number of earlier bills averaged, and how many are needed before flagging outliers
+const TRAILING_BILLS = 6;
+const MIN_TRAILING_BILLS = 2;
+
+interface BillRecord {
+  documentId: string;
+  timestamp: number;
+  month: string;
+  provider: string;
+  accountNumber: string | null;
+  currency: string | null;
+  usageUnit: string | null;
+  amountDue: number;
+  usage: number | null;
+  dueDate: string | null;
+}
+
+const asString = (value: FieldValue | null | undefined) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const asNumber = (value: FieldValue | null | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const round = (value: number, places: number) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+// Provider names and account numbers are matched loosely: "PG&E" and "pg & e" are one
+// provider, "1234-567" and "1234567" one account
+const accountKey = (provider: string, accountNumber: string | null) =>
+  `${provider.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')}|${(accountNumber ?? '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')}`;
+
+/**
+ * Shift a YYYY-MM month by a number of months
+ */
+function shiftMonth(month: string, offset: number): string {
+  const [year = 0, monthIndex = 1] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 1 + offset, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Read one document's bill fields
+ * @returns The bill, or null if the provider or amount due is missing
+ */
+function toBillRecord(document: DocumentMetadata): BillRecord | null {
+  const values = document.fields?.values ?? {};
+  const provider = asString(values.provider);
+  const amountDue = asNumber(values.amountDue);
+  if (!provider || amountDue === null) {
+    return null;
+  }
+
+  // The billing period decides the month; bills without one fall back to the due date,
+  // then to when the document was uploaded
+  const date =
+    asString(values.periodEnd) ??
+    asString(values.periodStart) ??
+    asString(values.dueDate) ??
+    new Date(document.timestamp).toISOString();
+
+  return {
+    documentId: document.id,
+    timestamp: document.timestamp,
+    month: date.slice(0, 7),
+    provider,
+    accountNumber: asString(values.accountNumber),
+    currency: asString(values.currency)?.toUpperCase() ?? null,
+    usageUnit: asString(values.usageUnit),
+    amountDue,
+    usage: asNumber(values.usage),
+    dueDate: asString(values.dueDate),
+  };
+}
+
+function change(current: number | null, previous: number | null | undefined): BillChange | null {
+  if (current === null || previous === null || previous === undefined) {
+    return null;
+  }
+  return {
+    previous,
+    difference: round(current - previous, 2),
+    percent: previous === 0 ? null : round(((current - previous) / previous) * 100, 1),
+  };
+}
+
+function compare(
+  byMonth: Map<string, BillRecord>,
+  bill: BillRecord,
+  pick: (record: BillRecord) => number | null
+): BillComparison {
+  const current = pick(bill);
+  const lastMonth = byMonth.get(shiftMonth(bill.month, -1));
+  const lastYear = byMonth.get(shiftMonth(bill.month, -12));
+  return {
+    monthOverMonth: change(current, lastMonth && pick(lastMonth)),
+    yearOverYear: change(current, lastYear && pick(lastYear)),
+  };
+}
+
+/**
+ * Compare an account's bills, oldest first
+ */
+function analyzeAccount(bills: BillRecord[]): BillInsight[] {
+  const byMonth = new Map(bills.map((bill) => [bill.month, bill]));
+
+  return bills.map((bill, index) => {
+    const earlier = bills.slice(Math.max(0, index - TRAILING_BILLS), index);
+    const trailingAverage =
+      earlier.length > 0
+        ? round(earlier.reduce((sum, { amountDue }) => sum + amountDue, 0) / earlier.length, 2)
+        : null;
+    const outlier =
+      earlier.length >= MIN_TRAILING_BILLS &&
+      trailingAverage !== null &&
+      trailingAverage > 0 &&
+      bill.amountDue > trailingAverage * (1 + OUTLIER_THRESHOLD);
+
+    const amountChange = compare(byMonth, bill, (record) => record.amountDue);
+    const usageChange = compare(byMonth, bill, (record) => record.usage);
+
+    const alerts: string[] = [];
+    if (outlier && trailingAverage !== null) {
+      const percent = Math.round(((bill.amountDue - trailingAverage) / trailingAverage) * 100);
+      alerts.push(`Amount is ${percent}% above the average of the last ${earlier.length} bills`);
+    }
+    const usagePercent = usageChange.monthOverMonth?.percent ?? null;
+    if (usagePercent !== null && usagePercent > OUTLIER_THRESHOLD * 100) {
+      alerts.push(`Usage is up ${Math.round(usagePercent)}% from last month`);
+    }
+    const yearPercent = amountChange.yearOverYear?.percent ?? null;
+    if (yearPercent !== null && yearPercent > OUTLIER_THRESHOLD * 100) {
+      alerts.push(`Amount is up ${Math.round(yearPercent)}% from the same month last year`);
+    }
+
+    return {
+      documentId: bill.documentId,
+      month: bill.month,
+      amountDue: bill.amountDue,
+      usage: bill.usage,
+      dueDate: bill.dueDate,
+      amountChange,
+      usageChange,
+      trailingAverage,
+      outlier,
+      alerts,
+    };
+  });
+}
+
+/**
+ * Read every bill in a post
+ * @returns Bills with a provider and amount due, and the number of bills without
+ */
+async function readBills(postId: string): Promise<{ bills: BillRecord[]; skipped: number }> {
+  const bills: BillRecord[] = [];
+  let skipped = 0;
+
+  for (const document of await listAllDocuments(postId)) {
+    if (document.fields?.schemaId !== BILL_SCHEMA_ID) continue;
+    const bill = toBillRecord(document);
+    if (bill) {
+      bills.push(bill);
+    } else {
+      skipped++;
+    }
+  }
+
+  return { bills, skipped };
+}
+
+/**
+ * Bill trends for each provider account in a post. When an account has more than one
+ * bill for a month (e.g. the same bill uploaded twice), the latest upload is used.
+ * @returns Accounts with their bills oldest first; accounts with the most recent bill first
+ */
+export async function getBillInsights(
+  postId: string
+): Promise<{ accounts: BillAccount[]; skipped: number }> {
+  const { bills, skipped } = await readBills(postId);
+
+  const groups = new Map<string, Map<string, BillRecord>>();
+  for (const bill of bills) {
+    const key = accountKey(bill.provider, bill.accountNumber);
+    const months = groups.get(key) ?? new Map<string, BillRecord>();
+    const existing = months.get(bill.month);
+    if (!existing || existing.timestamp < bill.timestamp) {
+      months.set(bill.month, bill);
+    }
+    groups.set(key, months);
+  }
+
+  const accounts: BillAccount[] = [];
+  for (const [key, months] of groups) {
+    const sorted = [...months.values()].sort((a, b) => a.month.localeCompare(b.month));
+    const latest = sorted[sorted.length - 1];
+    if (!latest) continue;
+
+    accounts.push({
+      key,
+      provider: latest.provider,
+      accountNumber: latest.accountNumber,
+      currency: latest.currency,
+      usageUnit: sorted.findLast((bill) => bill.usageUnit)?.usageUnit ?? null,
+      bills: analyzeAccount(sorted),
+      averageAmount: round(
+        sorted.reduce((sum, { amountDue }) => sum + amountDue, 0) / sorted.length,
+        2
+      ),
+    });
+  }
+
+  accounts.sort((a, b) => (b.bills.at(-1)?.month ?? '').localeCompare(a.bills.at(-1)?.month ?? ''));
+  console.log(`[Insights] ${bills.length} bills in ${accounts.length} accounts for post ${postId}`);
+  return { accounts, skipped };
+}
@@ -0,0 +1,42 @@
+/**
+ * Document categories
+ *
+ * AI analysis classifies each document into one category from a taxonomy that
+ * can be replaced in AppConfig.documentCategories. "other" is always part of the
+ * taxonomy so there is somewhere to put documents that fit nothing else.
+ */
+
+import { DEFAULT_DOCUMENT_CATEGORIES, type AppConfig } from '../config';
+import { normalizeTag } from './tags';
+
+export const FALLBACK_CATEGORY = 'other';
+
+/**
+ * The configured taxonomy, normalized like tags, ending with "other"
+ */
+export function getDocumentCategories(config: AppConfig): string[] {
+  const configured = Array.isArray(config.documentCategories)
+    ? config.documentCategories
+    : DEFAULT_DOCUMENT_CATEGORIES;
+
+  const categories = new Set<string>();
+  for (const value of configured) {
+    const category = typeof value === 'string' ? normalizeTag(value) : null;
+    if (category && category !== FALLBACK_CATEGORY) {
+      categories.add(category);
+    }
+  }
+  return [...categories, FALLBACK_CATEGORY];
+}
+
+/**
+ * Match a value to a category in the taxonomy
+ * @returns The category, or null if the value is not one of them
+ */
+export function matchCategory(value: unknown, categories: string[]): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const category = normalizeTag(value);
+  return category && categories.includes(category) ? category : null;
+}
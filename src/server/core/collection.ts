@@ -0,0 +1,284 @@
+/**
+ * Questions and digests across a post's whole library
+ *
+ * Collection questions are answered from what is already stored about each
+ * document (description, notes, category, tags, extracted fields and OCR text),
+ * not from the files themselves. The documents that best match the question's
+ * terms are picked, and a compact text version of each is sent to the AI model,
+ * which cites the ids of the documents its answer is based on.
+ *
+ * The digest sums up the last week's or month's uploads: counts per category,
+ * amounts per currency and a short written summary. It is cached for an hour,
+ * or until the next upload.
+ *
+ * Key layout (per post):
+ *   collection:{postId}:digest:{period}   latest digest with the uploads it covers
+ */
+
+import { redis } from '@devvit/web/server';
+import type {
+  CollectionAnswer,
+  CollectionCitation,
+  CollectionDigest,
+  DigestAmount,
+  DigestPeriod,
+  DocumentMetadata,
+} from '../../shared/types/api';
+import { askCollection, summarizeDocuments, type ContextDocument } from '../ai/gemini';
+import { consumeAnalysisQuota } from './analysisQuota';
+import { FALLBACK_CATEGORY } from './categories';
+import { listAllDocuments } from './documents';
+import { MAX_QUESTION_LENGTH, QuestionRejectedError, toQuestionError } from './documentQa';
+import { tokenize } from './searchIndex';
+
+// Documents sent to the model per question or digest, and the text kept for each
+const MAX_CONTEXT_DOCUMENTS = 15;
+const MAX_CONTEXT_TEXT = 800;
+const MAX_NOTES_TEXT = 300;
+const MAX_OCR_TEXT = 400;
+
+const MAX_DIGEST_DOCUMENTS = 50;
+const DIGEST_TTL_SECONDS = 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DIGEST_PERIODS: Record<DigestPeriod, { days: number; label: string }> = {
+  week: { days: 7, label: 'the last 7 days' },
+  month: { days: 30, label: 'the last 30 days' },
+};
+
+// Common question words that would match almost every document
+// prettier-ignore
+const STOP_WORDS = new Set([
+  'about', 'all', 'and', 'any', 'are', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have',
+  'how', 'in', 'is', 'it', 'many', 'me', 'much', 'my', 'of', 'on', 'or', 'our', 'the', 'this',
+  'to', 'us', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'with', 'year', 'month',
+]);
+
+// Where a question's terms are looked for, and what a match there adds to the score
+const TEXT_WEIGHTS = {
+  description: 4,
+  category: 3,
+  tags: 3,
+  fileName: 2,
+  fields: 2,
+  notes: 2,
+  ocrText: 1,
+};
+
+const digestKey = (postId: string, period: DigestPeriod) => `collection:${postId}:digest:${period}`;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+const citation = (document: DocumentMetadata): CollectionCitation => ({
+  documentId: document.id,
+  description: document.description,
+});
+
+/**
+ * Terms to match a question on. "this year" and "last year" become the year, so
+ * they match dates in extracted fields.
+ */
+function questionTerms(question: string, now: Date = new Date()): string[] {
+  const year = now.getUTCFullYear();
+  const expanded = question
+    .replace(/\bthis year\b/gi, ` ${year} `)
+    .replace(/\blast year\b/gi, ` ${year - 1} `);
+  return [...new Set(tokenize(expanded))].filter((term) => !STOP_WORDS.has(term));
+}
+
+/**
+ * How well a document matches the question's terms; a term counts once per place
+ * it is found, as a whole word or the start of one
+ */
+function scoreDocument(document: DocumentMetadata, terms: string[]): number {
+  const texts: [string, number][] = [
+    [document.description, TEXT_WEIGHTS.description],
+    [document.category ?? '', TEXT_WEIGHTS.category],
+    [(document.tags ?? []).join(' '), TEXT_WEIGHTS.tags],
+    [document.fileName, TEXT_WEIGHTS.fileName],
+    [Object.values(document.fields?.values ?? {}).join(' '), TEXT_WEIGHTS.fields],
+    [document.notes, TEXT_WEIGHTS.notes],
+    [document.ocrText ?? '', TEXT_WEIGHTS.ocrText],
+  ];
+
+  let score = 0;
+  for (const [text, weight] of texts) {
+    const words = tokenize(text);
+    for (const term of terms) {
+      if (words.some((word) => word.startsWith(term))) {
+        score += weight;
+      }
+    }
+  }
+  return score;
+}
+
+/**
+ * A document as one line of text for the model
+ */
+function toContextDocument(document: DocumentMetadata): ContextDocument {
+  const parts = [
+    `uploaded ${new Date(document.timestamp).toISOString().slice(0, 10)}`,
+    `description: ${document.description}`,
+    document.category && `category: ${document.category}`,
+    document.tags?.length && `tags: ${document.tags.join(', ')}`,
+    document.fields && `fields: ${JSON.stringify(document.fields.values)}`,
+    document.notes && `notes: ${truncate(document.notes, MAX_NOTES_TEXT)}`,
+    document.ocrText && `text: ${truncate(document.ocrText.replace(/\s+/g, ' '), MAX_OCR_TEXT)}`,
+  ];
+  return {
+    id: document.id,
+    text: truncate(parts.filter(Boolean).join('; '), MAX_CONTEXT_TEXT),
+  };
+}
+
+/**
+ * Answer a question about all of a post's documents. Documents in the trash are
+ * not included.
+ * @throws QuestionRejectedError if the question is invalid, the post has no
+ *         documents, or the AI model could not answer
+ */
+export async function askAboutCollection(
+  postId: string,
+  question: unknown
+): Promise<CollectionAnswer> {
+  if (typeof question !== 'string' || !question.trim()) {
+    throw new QuestionRejectedError('question is required');
+  }
+  const text = question.trim();
+  if (text.length > MAX_QUESTION_LENGTH) {
+    throw new QuestionRejectedError(`question must be at most ${MAX_QUESTION_LENGTH} characters`);
+  }
+
+  const documents = await listAllDocuments(postId);
+  if (documents.length === 0) {
+    throw new QuestionRejectedError('There are no documents to ask about yet', 404);
+  }
+
+  // Questions that match nothing (e.g. "what's new?") get the latest documents instead
+  const terms = questionTerms(text);
+  const ranked = documents
+    .map((document) => ({ document, score: scoreDocument(document, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.document.timestamp - a.document.timestamp)
+    .map(({ document }) => document);
+  const selected = (ranked.length > 0 ? ranked : documents).slice(0, MAX_CONTEXT_DOCUMENTS);
+
+  let result;
+  try {
+    result = await askCollection(text, selected.map(toContextDocument));
+  } catch (error) {
+    throw toQuestionError(error);
+  }
+
+  const byId = new Map(selected.map((document) => [document.id, document]));
+  const citations = result.documentIds.flatMap((id) => {
+    const document = byId.get(id);
+    return document ? [citation(document)] : [];
+  });
+
+  console.log(
+    `[Collection] Answered from ${selected.length} of ${documents.length} documents in post ${postId} (${citations.length} cited)`
+  );
+  return {
+    question: text,
+    answer: result.answer,
+    found: result.found,
+    citations,
+    consideredDocuments: selected.length,
+    askedAt: Date.now(),
+  };
+}
+
+/**
+ * Amounts due (bills, invoices) and totals (receipts) per currency
+ */
+function sumAmounts(documents: DocumentMetadata[]): DigestAmount[] {
+  const amounts = new Map<string, DigestAmount>();
+  for (const document of documents) {
+    const values = document.fields?.values ?? {};
+    const amount = typeof values.amountDue === 'number' ? values.amountDue : values.total;
+    if (typeof amount !== 'number' || !Number.isFinite(amount)) continue;
+
+    const currency = typeof values.currency === 'string' ? values.currency.toUpperCase() : null;
+    const sum = amounts.get(currency ?? '') ?? { currency, count: 0, total: 0 };
+    sum.count++;
+    sum.total = Math.round((sum.total + amount) * 100) / 100;
+    amounts.set(currency ?? '', sum);
+  }
+  return [...amounts.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Summary of a post's uploads in the last week or month
+ * @param requester - Username whose daily AI quota pays for the written summary;
+ *                    without quota the digest is returned without one
+ */
+export async function getCollectionDigest(
+  postId: string,
+  period: DigestPeriod,
+  requester: string
+): Promise<CollectionDigest> {
+  const to = Date.now();
+  const from = to - DIGEST_PERIODS[period].days * DAY_MS;
+  const uploads = (await listAllDocuments(postId))
+    .filter((document) => document.timestamp >= from)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  // A new upload or deletion changes the fingerprint and misses the cache
+  const fingerprint = `${uploads.length}:${uploads[0]?.timestamp ?? 0}`;
+  const cached = await redis.get(digestKey(postId, period));
+  if (cached) {
+    const entry = JSON.parse(cached) as { fingerprint: string; digest: CollectionDigest };
+    if (entry.fingerprint === fingerprint) {
+      return entry.digest;
+    }
+  }
+
+  const categories = new Map<string, number>();
+  for (const document of uploads) {
+    const category = document.category ?? FALLBACK_CATEGORY;
+    categories.set(category, (categories.get(category) ?? 0) + 1);
+  }
+
+  let summary: string | null = null;
+  if (uploads.length > 0) {
+    const quota = await consumeAnalysisQuota(requester);
+    if (quota.allowed) {
+      try {
+        summary = await summarizeDocuments(
+          uploads.slice(0, MAX_CONTEXT_DOCUMENTS).map(toContextDocument),
+          DIGEST_PERIODS[period].label
+        );
+      } catch (error) {
+        console.error(`[Collection] Digest summary failed for post ${postId}:`, error);
+      }
+    } else {
+      console.log(`[Collection] Digest summary skipped for ${requester}: daily AI limit reached`);
+    }
+  }
+
+  const digest: CollectionDigest = {
+    period,
+    from,
+    to,
+    uploads: uploads.length,
+    byCategory: [...categories]
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count),
+    amounts: sumAmounts(uploads),
+    documents: uploads.slice(0, MAX_DIGEST_DOCUMENTS).map(citation),
+    summary,
+    generatedAt: to,
+  };
+
+  // Digests without a summary are not cached, so the summary is tried again next time
+  if (summary !== null || uploads.length === 0) {
+    await redis.set(digestKey(postId, period), JSON.stringify({ fingerprint, digest }));
+    await redis.expire(digestKey(postId, period), DIGEST_TTL_SECONDS);
+  }
+
+  console.log(`[Collection] Digest for post ${postId}: ${uploads.length} uploads in ${period}`);
+  return digest;
+}
@@ -0,0 +1,54 @@
+/**
+ * Reading stored document files on the server
+ *
+ * Redis-stored documents carry their file as a base64 data URI; other documents
+ * are read back through the storage adapter that holds them. Used by features
+ * that send a document's file on to OCR or the AI model.
+ */
+
+import type { Document } from '../../shared/types/api';
+import type { AppConfig } from '../config';
+import { StorageFactory } from '../storage/StorageFactory.js';
+
+/**
+ * Read a document's current file
+ * @param document - The document with its payload (getDocument with includePayload)
+ * @returns The file contents, or null if the file is missing
+ */
+export async function readDocumentFile(
+  document: Document,
+  config: AppConfig
+): Promise<Buffer | null> {
+  if (document.storageProvider === 'redis') {
+    if (!document.imageData) {
+      return null;
+    }
+    const base64 = document.imageData.includes(',')
+      ? (document.imageData.split(',')[1] ?? '')
+      : document.imageData;
+    return Buffer.from(base64, 'base64');
+  }
+
+  if (!document.storageKey) {
+    console.error(`[Files] Document ${document.id} has no storage key`);
+    return null;
+  }
+  const adapter = StorageFactory.createAdapterFor(config, document.storageProvider);
+  const stored = adapter.getDocument ? await adapter.getDocument(document.storageKey) : null;
+  return stored?.buffer ?? null;
+}
+
+/**
+ * A document's current file as a base64 data URI, the form the AI model accepts
+ * @returns The data URI, or null if the file is missing
+ */
+export async function readDocumentDataUri(
+  document: Document,
+  config: AppConfig
+): Promise<string | null> {
+  if (document.storageProvider === 'redis' && document.imageData?.startsWith('data:')) {
+    return document.imageData;
+  }
+  const file = await readDocumentFile(document, config);
+  return file && `data:${document.fileType};base64,${file.toString('base64')}`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Questions about a stored document
+ *
+ * A question is sent to the AI model together with the document's current file
+ * and the last few questions asked about that file, so follow-up questions work.
+ * Each document keeps a short conversation history, which expires when nobody
+ * has asked about the document for a while.
+ *
+ * Key layout (per post):
+ *   qa:{postId}:{documentId}   sorted set of QaExchange JSON, score = askedAt
+ */
+
+import { redis } from '@devvit/web/server';
+import type { QaExchange } from '../../shared/types/api';
+import type { AppConfig } from '../config';
+import { askDocument } from '../ai/gemini';
+import { readDocumentDataUri } from './documentFiles';
+import { getDocument } from './documents';
+
+export const MAX_QUESTION_LENGTH = 500;
+// Exchanges kept per document; older ones are dropped as new ones are added
+export const MAX_CONVERSATION_LENGTH = 20;
+// Earlier exchanges given to the model as context for a new question
+const CONTEXT_EXCHANGES = 5;
+const CONVERSATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const conversationKey = (postId: string, documentId: string) => `qa:${postId}:${documentId}`;
+
+/**
+ * Raised when a question cannot be asked or answered
+ */
+export class QuestionRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'QuestionRejectedError';
+  }
+}
+
+/**
+ * Map an AI error to the message and status shown to the user
+ */
+export function toQuestionError(error: unknown): QuestionRejectedError {
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  if (message.includes('api key not configured')) {
+    return new QuestionRejectedError('AI answers are temporarily unavailable', 503);
+  }
+  if (message.includes('timeout')) {
+    return new QuestionRejectedError('Answering took too long. Please try again.', 504);
+  }
+  if (message.includes('invalid response')) {
+    return new QuestionRejectedError(
+      'AI service returned an invalid answer. Please try again.',
+      502
+    );
+  }
+  return new QuestionRejectedError('AI service is temporarily unavailable', 503);
+}
+
+/**
+ * Questions asked about a document, oldest first
+ */
+export async function getConversation(postId: string, documentId: string): Promise<QaExchange[]> {
+  const entries = await redis.zRange(conversationKey(postId, documentId), 0, -1, { by: 'rank' });
+  return entries.map((entry) => JSON.parse(entry.member) as QaExchange);
+}
+
+/**
+ * Forget the questions asked about a document
+ */
+export async function clearConversation(postId: string, documentId: string): Promise<void> {
+  await redis.del(conversationKey(postId, documentId));
+}
+
+/**
+ * Ask a question about a document's current file and record the answer
+ * @returns The question and answer, or null if the document does not exist
+ * @throws QuestionRejectedError if the question is invalid, the document is in the
+ *         trash or its file is missing, or the AI model could not answer
+ */
+export async function askQuestion(
+  postId: string,
+  documentId: string,
+  question: unknown,
+  askedBy: string,
+  config: AppConfig
+): Promise<QaExchange | null> {
+  if (typeof question !== 'string' || !question.trim()) {
+    throw new QuestionRejectedError('question is required');
+  }
+  const text = question.trim();
+  if (text.length > MAX_QUESTION_LENGTH) {
+    throw new QuestionRejectedError(`question must be at most ${MAX_QUESTION_LENGTH} characters`);
+  }
+
+  const document = await getDocument(postId, documentId, true);
+  if (!document) {
+    return null;
+  }
+  if (document.deletedAt !== undefined) {
+    throw new QuestionRejectedError('Document is in the trash', 409);
+  }
+  const fileData = await readDocumentDataUri(document, config);
+  if (!fileData) {
+    throw new QuestionRejectedError('Document file is missing', 404);
+  }
+
+  // Answers about an earlier file version would mislead the model
+  const fileVersion = document.fileVersion ?? 1;
+  const history = (await getConversation(postId, documentId))
+    .filter((exchange) => exchange.fileVersion === fileVersion)
+    .slice(-CONTEXT_EXCHANGES);
+
+  let answer;
+  try {
+    answer = await askDocument(fileData, document.fileType, document.fileName, text, history);
+  } catch (error) {
+    throw toQuestionError(error);
+  }
+
+  const exchange: QaExchange = {
+    id: `qa_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    documentId,
+    question: text,
+    ...answer,
+    fileVersion,
+    askedBy,
+    askedAt: Date.now(),
+  };
+
+  const key = conversationKey(postId, documentId);
+  await redis.zAdd(key, { member: JSON.stringify(exchange), score: exchange.askedAt });
+  await redis.zRemRangeByRank(key, 0, -(MAX_CONVERSATION_LENGTH + 1));
+  await redis.expire(key, CONVERSATION_TTL_SECONDS);
+
+  console.log(
+    `[Q&A] ${askedBy} asked about document ${documentId} (${answer.quotes.length} quotes, found: ${answer.found})`
+  );
+  return exchange;
+}
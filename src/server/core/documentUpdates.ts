@@ -0,0 +1,180 @@
+/**
+ * Validation for editable document metadata
+ *
+ * Each editable field has a validator that normalizes the incoming value or
+ * returns an error message. Add new fields here to make them editable via
+ * PATCH /api/documents/:id.
+ */
+
+import { redis } from '@devvit/web/server';
+import type { Document, DocumentFields, DocumentUpdate } from '../../shared/types/api';
+import { getConfig } from '../config';
+import { getDocumentCategories, matchCategory } from './categories';
+import { SchemaRejectedError, validateFields } from './fieldSchemas';
+import { getFolder } from './folders';
+import { normalizeTag, validateTags } from './tags';
+
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_NOTES_LENGTH = 5000;
+
+type FieldValidator<T> = (value: unknown) => { value: T } | { error: string };
+
+const EDITABLE_FIELDS: { [K in keyof Required<DocumentUpdate>]: FieldValidator<DocumentUpdate[K]> } =
+  {
+    description: (value) => {
+      if (typeof value !== 'string' || !value.trim()) {
+        return { error: 'description must be a non-empty string' };
+      }
+      if (value.trim().length > MAX_DESCRIPTION_LENGTH) {
+        return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+      }
+      return { value: value.trim() };
+    },
+    notes: (value) => {
+      if (typeof value !== 'string') {
+        return { error: 'notes must be a string' };
+      }
+      if (value.trim().length > MAX_NOTES_LENGTH) {
+        return { error: `notes must be at most ${MAX_NOTES_LENGTH} characters` };
+      }
+      return { value: value.trim() };
+    },
+    tags: validateTags,
+    // Existence is checked by the caller (see getFolder)
+    folderId: (value) => {
+      if (value === null) {
+        return { value: null };
+      }
+      if (typeof value !== 'string' || !value) {
+        return { error: 'folderId must be a folder id or null' };
+      }
+      return { value };
+    },
+    // Checked against the configured taxonomy by the caller (see getDocumentCategories)
+    category: (value) => {
+      if (value === null) {
+        return { value: null };
+      }
+      const category = typeof value === 'string' ? normalizeTag(value) : null;
+      if (!category) {
+        return { error: 'category must be a category name or null' };
+      }
+      return { value: category };
+    },
+    // Values are coerced against their schema by the caller (see validateFields)
+    fields: (value) => {
+      if (value === null) {
+        return { value: null };
+      }
+      const fields = value as { schemaId?: unknown; values?: unknown };
+      if (
+        !fields ||
+        typeof fields !== 'object' ||
+        typeof fields.schemaId !== 'string' ||
+        !fields.values ||
+        typeof fields.values !== 'object'
+      ) {
+        return { error: 'fields must be an object with schemaId and values, or null' };
+      }
+      return { value: value as DocumentFields };
+    },
+  };
+
+/**
+ * Validate a PATCH body against the editable field registry
+ * @param body - Raw request body (may include non-editable keys such as version)
+ * @returns Normalized update, or a list of validation errors
+ */
+export function validateDocumentUpdate(
+  body: Record<string, unknown>
+): { update: DocumentUpdate } | { errors: string[] } {
+  const update: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [field, validate] of Object.entries(EDITABLE_FIELDS)) {
+    if (body[field] === undefined) {
+      continue;
+    }
+    const result = (validate as FieldValidator<unknown>)(body[field]);
+    if ('error' in result) {
+      errors.push(result.error);
+    } else {
+      update[field] = result.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  if (Object.keys(update).length === 0) {
+    return { errors: [`No editable fields provided (${Object.keys(EDITABLE_FIELDS).join(', ')})`] };
+  }
+
+  return { update: update as DocumentUpdate };
+}
+
+/**
+ * Apply a validated update to a document; a null value clears an optional field
+ */
+export function applyDocumentUpdate(document: Document, update: DocumentUpdate): Document {
+  const updated: Record<string, unknown> = { ...document };
+  for (const [field, value] of Object.entries(update)) {
+    if (value === null) {
+      delete updated[field];
+    } else {
+      updated[field] = value;
+    }
+  }
+  return updated as Document;
+}
+
+type UploadMetadata = Pick<Document, 'tags' | 'folderId' | 'category' | 'fields'>;
+
+/**
+ * Validate the tags, folder, category and field values sent with a new upload
+ * @returns The fields to store on the document, or an error message
+ */
+export async function validateUploadMetadata(
+  postId: string,
+  body: { tags?: unknown; folderId?: unknown; category?: unknown; fields?: unknown }
+): Promise<{ value: UploadMetadata } | { error: string }> {
+  const value: UploadMetadata = {};
+
+  if (body.tags !== undefined) {
+    const tags = validateTags(body.tags);
+    if ('error' in tags) {
+      return tags;
+    }
+    if (tags.value.length > 0) {
+      value.tags = tags.value;
+    }
+  }
+
+  if (body.folderId !== undefined && body.folderId !== null && body.folderId !== '') {
+    if (typeof body.folderId !== 'string' || !(await getFolder(postId, body.folderId))) {
+      return { error: 'folderId must be an existing folder' };
+    }
+    value.folderId = body.folderId;
+  }
+
+  if (body.category !== undefined && body.category !== null && body.category !== '') {
+    const category = matchCategory(body.category, getDocumentCategories(await getConfig(redis)));
+    if (!category) {
+      return { error: `Unknown category "${String(body.category)}"` };
+    }
+    value.category = category;
+  }
+
+  if (body.fields !== undefined && body.fields !== null) {
+    try {
+      value.fields = await validateFields(postId, body.fields);
+    } catch (error) {
+      if (!(error instanceof SchemaRejectedError)) {
+        throw error;
+      }
+      return { error: error.message };
+    }
+  }
+
+  return { value };
+}
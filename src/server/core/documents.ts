@@ -0,0 +1,1426 @@
+/**
+ * Document repository backed by Redis
+ *
+ * Each document is stored under its own key, with the file payload (base64) kept
+ * separately from the metadata so list pages stay small. A sorted set per post,
+ * scored by upload timestamp, provides ordering and cursor pagination.
+ *
+ * All mutations run as WATCH/MULTI/EXEC transactions and bump a per-document
+ * version counter, so concurrent writers can never silently overwrite each other.
+ *
+ * Key layout (per post):
+ *   docs:{postId}:index              sorted set of document ids, score = timestamp
+ *   docs:{postId}:trash              sorted set of trashed document ids, score = deletedAt
+ *   docs:{postId}:doc:{id}           document metadata JSON (no imageData)
+ *   docs:{postId}:data:{id}          base64 payload for Redis-stored documents
+ *   docs:{postId}:storage-keys       hash of external storageKey -> document id
+ *   docs:{postId}:content-hashes     hash of contentHash -> document id
+ *   docs:{postId}:versions:{id}      hash of file version number -> DocumentFileVersion JSON
+ *   docs:{postId}:tag:{tag}          sorted set of document ids with a tag, score = timestamp
+ *   docs:{postId}:folder:{folderId}  sorted set of document ids in a folder, score = timestamp
+ *   docs:{postId}:tag-counts         sorted set of tags, score = number of documents
+ *
+ * Subreddit-wide:
+ *   docs:posts                       sorted set of post ids that hold documents,
+ *                                    score = latest upload timestamp
+ *   docs:blobs:{contentHash}         shared file record (location + reference count)
+ *   docs:blobs:{contentHash}:data    base64 payload of a Redis-stored shared file
+ *   docs:blob-storage-keys           hash of external storageKey -> contentHash
+ *   docs:trash-queue                 sorted set of "{postId}:{id}", score = deletedAt
+ *
+ * Documents uploaded with a contentHash (SHA-256 of the file) share one stored
+ * copy per hash. The copy is only released when its last document is removed.
+ *
+ * Uploading a replacement file adds a file version. Versions are immutable and
+ * each holds its own reference on its shared file, so previous files stay stored
+ * until the document itself is removed. Documents that were never replaced have
+ * no version entries; their current file is version 1.
+ *
+ * Deleting a document moves it to the trash: it leaves the index but keeps its
+ * metadata, payload and file reference until it is restored or purged.
+ *
+ * Tag and folder sets mirror the index: they only hold documents that are not in
+ * the trash, and are updated in the same transaction as the document.
+ *
+ * Search index entries (searchIndex.ts) are refreshed after every successful
+ * write, and removed while a document is in the trash.
+ */
+
+import { redis, type TxClientLike } from '@devvit/web/server';
+import type { Document, DocumentFileVersion, DocumentMetadata } from '../../shared/types/api';
+import { indexDocument, unindexDocument } from './searchIndex';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+// Transaction attempts before a write gives up and reports a conflict
+const MAX_TRANSACTION_ATTEMPTS = 3;
+
+const legacyListKey = (postId: string) => `docs:${postId}:list`;
+const indexKey = (postId: string) => `docs:${postId}:index`;
+const trashKey = (postId: string) => `docs:${postId}:trash`;
+const documentKey = (postId: string, id: string) => `docs:${postId}:doc:${id}`;
+const dataKey = (postId: string, id: string) => `docs:${postId}:data:${id}`;
+const storageKeysKey = (postId: string) => `docs:${postId}:storage-keys`;
+const contentHashesKey = (postId: string) => `docs:${postId}:content-hashes`;
+const versionsKey = (postId: string, id: string) => `docs:${postId}:versions:${id}`;
+const tagKey = (postId: string, tag: string) => `docs:${postId}:tag:${tag}`;
+const folderKey = (postId: string, folderId: string) => `docs:${postId}:folder:${folderId}`;
+const tagCountsKey = (postId: string) => `docs:${postId}:tag-counts`;
+const postsKey = 'docs:posts';
+const blobKey = (contentHash: string) => `docs:blobs:${contentHash}`;
+const blobDataKey = (contentHash: string) => `docs:blobs:${contentHash}:data`;
+const blobStorageKeysKey = 'docs:blob-storage-keys';
+const trashQueueKey = 'docs:trash-queue';
+const trashQueueMember = (postId: string, id: string) => `${postId}:${id}`;
+
+/**
+ * Raised when a document changed between read and write and the write
+ * could not be applied. Clients should reload and retry.
+ */
+export class DocumentConflictError extends Error {
+  constructor(
+    message: string,
+    public documentId?: string
+  ) {
+    super(message);
+    this.name = 'DocumentConflictError';
+  }
+}
+
+/**
+ * A page of document metadata returned by listDocuments()
+ */
+export interface DocumentPage {
+  documents: DocumentMetadata[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Restricts listDocuments() to one tag or one folder
+ */
+export interface DocumentFilter {
+  tag?: string;
+  folderId?: string;
+}
+
+/**
+ * Where a file is stored
+ */
+export interface FileLocation {
+  storageProvider: Document['storageProvider'];
+  storageKey?: string;
+}
+
+/**
+ * A stored file shared by every document with the same contentHash
+ */
+export interface BlobRecord extends FileLocation {
+  refCount: number;
+}
+
+/**
+ * An external file that no document uses any more
+ */
+export interface ReleasedFile {
+  storageProvider: Exclude<Document['storageProvider'], 'redis'>;
+  storageKey: string;
+}
+
+/**
+ * A document removed by removeDocument()
+ */
+export interface RemovedDocument {
+  document: Document;
+  /** Files of any of its versions that can now be deleted from external storage */
+  releasedFiles: ReleasedFile[];
+}
+
+/**
+ * A replacement file passed to addDocumentVersion()
+ */
+export interface NewFileVersion {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  storageProvider: Document['storageProvider'];
+  storageKey?: string;
+  imageData?: string; // Payload of a Redis-stored file
+  contentHash: string;
+  description?: string; // Defaults to the document's current description
+  notes?: string; // Defaults to the document's current notes
+  uploadedBy: string;
+}
+
+/**
+ * A trashed document due for purging, as returned by listExpiredTrash()
+ */
+export interface ExpiredTrashEntry {
+  postId: string;
+  documentId: string;
+  deletedAt: number;
+}
+
+/**
+ * Strip the file payload from a document
+ */
+export function toMetadata(document: Document): DocumentMetadata {
+  const { imageData, ...metadata } = document;
+  return metadata;
+}
+
+/**
+ * Version entry describing a document's current file. Used as version 1 for
+ * documents that have never been replaced.
+ */
+function currentFileAsVersion(document: Document): DocumentFileVersion {
+  return {
+    number: document.fileVersion ?? 1,
+    fileName: document.fileName,
+    fileType: document.fileType,
+    fileSize: document.fileSize,
+    storageProvider: document.storageProvider,
+    ...(document.storageKey ? { storageKey: document.storageKey } : {}),
+    ...(document.contentHash ? { contentHash: document.contentHash } : {}),
+    description: document.description,
+    notes: document.notes,
+    uploadedAt: document.timestamp,
+  };
+}
+
+/**
+ * Point a document at a file version, taking its file and description. Text
+ * recognized from the previous file is dropped.
+ */
+function applyVersion(document: Document, version: DocumentFileVersion): Document {
+  const { imageData, storageKey, contentHash, ocrText, ...rest } = document;
+  return {
+    ...rest,
+    fileName: version.fileName,
+    fileType: version.fileType,
+    fileSize: version.fileSize,
+    storageProvider: version.storageProvider,
+    ...(version.storageKey ? { storageKey: version.storageKey } : {}),
+    ...(version.contentHash ? { contentHash: version.contentHash } : {}),
+    description: version.description,
+    notes: version.notes,
+    fileVersion: version.number,
+  };
+}
+
+/**
+ * Fail with a conflict unless the document is at the expected version
+ * @returns The document's current version
+ */
+function checkVersion(document: Document, expectedVersion?: number): number {
+  const currentVersion = document.version ?? 1;
+  if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+    throw new DocumentConflictError(
+      `Document ${document.id} is at version ${currentVersion}, expected ${expectedVersion}`,
+      document.id
+    );
+  }
+  return currentVersion;
+}
+
+/**
+ * Whether a change left a document as it was. A new updatedAt alone is not a change.
+ */
+function isUnchanged(before: Document, after: Document): boolean {
+  // Compare with sorted keys; a mutation may rebuild the document in another order
+  const canonical = ({ updatedAt, version, ...document }: Document) =>
+    JSON.stringify(document, (_key, value: unknown) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1)))
+        : value
+    );
+  return canonical(before) === canonical(after);
+}
+
+/**
+ * Run a WATCH/MULTI/EXEC transaction, retrying when a watched key changes
+ * @param keys - Keys to watch for concurrent modification
+ * @param prepare - Reads current state; returns a function that queues writes
+ *                  (null if there is nothing to write), or null to abort
+ * @returns The value produced by prepare, or null if it aborted
+ * @throws DocumentConflictError if every attempt lost a race
+ */
+async function withTransaction<T>(
+  keys: string[],
+  prepare: () => Promise<{ result: T; write: ((tx: TxClientLike) => Promise<void>) | null } | null>,
+  documentId?: string
+): Promise<T | null> {
+  for (let attempt = 0; attempt < MAX_TRANSACTION_ATTEMPTS; attempt++) {
+    const tx = await redis.watch(...keys);
+
+    let prepared: Awaited<ReturnType<typeof prepare>>;
+    try {
+      prepared = await prepare();
+    } catch (error) {
+      await tx.unwatch();
+      throw error;
+    }
+
+    if (!prepared) {
+      await tx.unwatch();
+      return null;
+    }
+    if (!prepared.write) {
+      await tx.unwatch();
+      return prepared.result;
+    }
+
+    await tx.multi();
+    await prepared.write(tx);
+    const results = await tx.exec();
+
+    // An aborted EXEC (watched key modified) returns no results
+    if (results && results.length > 0) {
+      return prepared.result;
+    }
+
+    console.log(
+      `[Documents] Transaction conflict on ${keys.join(', ')} (attempt ${attempt + 1}/${MAX_TRANSACTION_ATTEMPTS})`
+    );
+  }
+
+  throw new DocumentConflictError(
+    'Document was modified by another request. Please retry.',
+    documentId
+  );
+}
+
+async function queueWrite(tx: TxClientLike, postId: string, document: Document): Promise<void> {
+  if (document.imageData) {
+    await tx.set(
+      document.contentHash ? blobDataKey(document.contentHash) : dataKey(postId, document.id),
+      document.imageData
+    );
+  }
+  if (document.contentHash) {
+    await tx.hSet(contentHashesKey(postId), { [document.contentHash]: document.id });
+  }
+  await tx.set(documentKey(postId, document.id), JSON.stringify(toMetadata(document)));
+  if (document.storageKey) {
+    await tx.hSet(storageKeysKey(postId), { [document.storageKey]: document.id });
+  }
+  await tx.zAdd(indexKey(postId), { member: document.id, score: document.timestamp });
+  await tx.zAdd(postsKey, { member: postId, score: document.timestamp });
+  await queueOrganizationWrite(tx, postId, null, document);
+}
+
+/**
+ * Move a document between tag and folder sets. Pass null (or a trashed
+ * document) for a side where it is not listed.
+ */
+async function queueOrganizationWrite(
+  tx: TxClientLike,
+  postId: string,
+  before: Document | null,
+  after: Document | null
+): Promise<void> {
+  const listed = (document: Document | null) =>
+    document && document.deletedAt === undefined ? document : null;
+  const previous = listed(before);
+  const next = listed(after);
+
+  const previousTags = new Set(previous?.tags ?? []);
+  const nextTags = new Set(next?.tags ?? []);
+  const removedTags = [...previousTags].filter((tag) => !nextTags.has(tag));
+  if (previous && removedTags.length > 0) {
+    for (const tag of removedTags) {
+      await tx.zRem(tagKey(postId, tag), [previous.id]);
+      await tx.zIncrBy(tagCountsKey(postId), tag, -1);
+    }
+    await tx.zRemRangeByScore(tagCountsKey(postId), -Infinity, 0);
+  }
+  if (next) {
+    for (const tag of nextTags) {
+      if (!previousTags.has(tag)) {
+        await tx.zAdd(tagKey(postId, tag), { member: next.id, score: next.timestamp });
+        await tx.zIncrBy(tagCountsKey(postId), tag, 1);
+      }
+    }
+  }
+
+  if (previous?.folderId && previous.folderId !== next?.folderId) {
+    await tx.zRem(folderKey(postId, previous.folderId), [previous.id]);
+  }
+  if (next?.folderId && next.folderId !== previous?.folderId) {
+    await tx.zAdd(folderKey(postId, next.folderId), { member: next.id, score: next.timestamp });
+  }
+}
+
+async function queueBlobWrite(
+  tx: TxClientLike,
+  contentHash: string,
+  blob: BlobRecord,
+  previous: BlobRecord | null
+): Promise<void> {
+  await tx.set(blobKey(contentHash), JSON.stringify(blob));
+  if (previous?.storageKey && previous.storageKey !== blob.storageKey) {
+    await tx.hDel(blobStorageKeysKey, [previous.storageKey]);
+  }
+  if (blob.storageKey) {
+    await tx.hSet(blobStorageKeysKey, { [blob.storageKey]: contentHash });
+  }
+}
+
+/**
+ * File versions of a document, oldest first (empty if it was never replaced)
+ */
+async function readVersions(postId: string, id: string): Promise<DocumentFileVersion[]> {
+  const entries = await redis.hGetAll(versionsKey(postId, id));
+  return Object.values(entries)
+    .map((json) => JSON.parse(json) as DocumentFileVersion)
+    .sort((a, b) => a.number - b.number);
+}
+
+/**
+ * Keys to watch when changing an existing document: its own key, its version
+ * history, and the shared file records of every file it holds
+ */
+async function watchKeysFor(postId: string, id: string): Promise<string[]> {
+  const json = await redis.get(documentKey(postId, id));
+  const hashes = new Set((await readVersions(postId, id)).map((version) => version.contentHash));
+  hashes.add(json ? (JSON.parse(json) as Document).contentHash : undefined);
+
+  const keys = [documentKey(postId, id), versionsKey(postId, id)];
+  for (const contentHash of hashes) {
+    if (contentHash) {
+      keys.push(blobKey(contentHash));
+    }
+  }
+  return keys;
+}
+
+/**
+ * Where a document's or version's file lives now. A shared file may have been
+ * moved by a storage migration since the document or version was recorded.
+ */
+async function resolveLocation<T extends FileLocation & { contentHash?: string }>(
+  file: T
+): Promise<T> {
+  const blob = file.contentHash ? await getBlob(file.contentHash) : null;
+  if (
+    !blob ||
+    (blob.storageProvider === file.storageProvider && blob.storageKey === file.storageKey)
+  ) {
+    return file;
+  }
+  const { storageKey, ...rest } = file;
+  return {
+    ...rest,
+    storageProvider: blob.storageProvider,
+    ...(blob.storageKey ? { storageKey: blob.storageKey } : {}),
+  } as T;
+}
+
+/**
+ * Look up the shared file record for a content hash
+ */
+export async function getBlob(contentHash: string): Promise<BlobRecord | null> {
+  const json = await redis.get(blobKey(contentHash));
+  return json ? JSON.parse(json) : null;
+}
+
+/**
+ * Check whether an external storage key holds a shared file still in use
+ */
+export async function isBlobStorageKeyInUse(storageKey: string): Promise<boolean> {
+  return !!(await redis.hGet(blobStorageKeysKey, storageKey));
+}
+
+/**
+ * Move documents from the old single-blob list (docs:{postId}:list) into
+ * per-document keys. Runs once per post; later calls are a single GET.
+ */
+async function migrateLegacyList(postId: string): Promise<void> {
+  if (!(await redis.get(legacyListKey(postId)))) {
+    return;
+  }
+
+  const migrated = await withTransaction([legacyListKey(postId)], async () => {
+    // Re-read under WATCH; another request may have migrated already
+    const existing = await redis.get(legacyListKey(postId));
+    if (!existing) {
+      return null;
+    }
+
+    const documents: Document[] = JSON.parse(existing);
+    return {
+      result: documents.length,
+      write: async (tx) => {
+        for (const document of documents) {
+          await queueWrite(tx, postId, { ...document, version: document.version ?? 1 });
+        }
+        await tx.del(legacyListKey(postId));
+      },
+    };
+  });
+
+  if (migrated !== null) {
+    console.log(`[Documents] Migrated ${migrated} legacy documents for post ${postId}`);
+  }
+}
+
+/**
+ * Save a new document (metadata, payload and index entry) atomically
+ * If the document has a contentHash and that content is already stored, the
+ * document shares the existing copy: the returned document carries the shared
+ * storage location, and the caller should discard the file it stored, if any.
+ * @param options.reusedBlob - The document points at an existing shared copy
+ *                             found by getBlob() rather than a fresh upload
+ * @throws DocumentConflictError if a document with the same id already exists,
+ *         or a reused copy was released before the document could be saved
+ */
+export async function saveDocument(
+  postId: string,
+  document: Document,
+  options: { reusedBlob?: boolean } = {}
+): Promise<Document> {
+  await migrateLegacyList(postId);
+
+  const { contentHash } = document;
+  const keys = [documentKey(postId, document.id)];
+  if (contentHash) {
+    keys.push(blobKey(contentHash));
+  }
+
+  const saved = await withTransaction(
+    keys,
+    async () => {
+      if (await redis.exists(documentKey(postId, document.id))) {
+        return null;
+      }
+
+      let versioned: Document = { ...document, version: 1 };
+      if (!contentHash) {
+        return {
+          result: versioned,
+          write: (tx) => queueWrite(tx, postId, versioned),
+        };
+      }
+
+      const existing = await getBlob(contentHash);
+      let blob: BlobRecord;
+      if (existing) {
+        // Share the stored copy instead of the one the caller provided
+        const { imageData, storageKey, ...rest } = versioned;
+        versioned = {
+          ...rest,
+          storageProvider: existing.storageProvider,
+          ...(existing.storageKey ? { storageKey: existing.storageKey } : {}),
+        };
+        blob = { ...existing, refCount: existing.refCount + 1 };
+      } else if (options.reusedBlob) {
+        throw new DocumentConflictError(
+          'The stored copy of this file was removed. Please retry.',
+          document.id
+        );
+      } else {
+        blob = {
+          storageProvider: document.storageProvider,
+          ...(document.storageKey ? { storageKey: document.storageKey } : {}),
+          refCount: 1,
+        };
+      }
+
+      return {
+        result: versioned,
+        write: async (tx) => {
+          await queueWrite(tx, postId, versioned);
+          await queueBlobWrite(tx, contentHash, blob, existing);
+        },
+      };
+    },
+    document.id
+  );
+
+  if (!saved) {
+    throw new DocumentConflictError(`Document ${document.id} already exists`, document.id);
+  }
+  await indexDocument(postId, toMetadata(saved));
+  return saved;
+}
+
+/**
+ * Apply a change to an existing document's metadata atomically. If the change
+ * leaves the document as it was, nothing is written and its version stays the same.
+ * @param mutate - Returns the updated document; must not change id or timestamp
+ * @param expectedVersion - If set, fail with a conflict unless the stored
+ *                          document is still at this version
+ * @returns The updated document, or null if it does not exist
+ * @throws DocumentConflictError on version mismatch or repeated races
+ */
+export async function updateDocument(
+  postId: string,
+  id: string,
+  mutate: (document: Document) => Document,
+  expectedVersion?: number
+): Promise<Document | null> {
+  await migrateLegacyList(postId);
+
+  const keys = await watchKeysFor(postId, id);
+  let unchanged = false;
+  const saved = await withTransaction(
+    keys,
+    async () => {
+      const json = await redis.get(documentKey(postId, id));
+      if (!json) {
+        return null;
+      }
+
+      const current: Document = JSON.parse(json);
+      const currentVersion = checkVersion(current, expectedVersion);
+
+      const updated: Document = {
+        ...mutate(current),
+        id,
+        version: currentVersion + 1,
+        ...(current.contentHash ? { contentHash: current.contentHash } : {}),
+      };
+      unchanged = isUnchanged(current, updated);
+      if (unchanged) {
+        return { result: current, write: null };
+      }
+
+      // A moved file (storage migration) moves the shared record with it, so
+      // other documents with the same content are pointed at the new copy
+      const { contentHash } = current;
+      const blob = contentHash ? await getBlob(contentHash) : null;
+      const blobMoved =
+        !!blob &&
+        (blob.storageProvider !== updated.storageProvider ||
+          blob.storageKey !== updated.storageKey);
+
+      // The current version's entry records where its file lives; keep it in step
+      const fileMoved =
+        current.storageProvider !== updated.storageProvider ||
+        current.storageKey !== updated.storageKey;
+      const versionJson =
+        fileMoved && current.fileVersion !== undefined
+          ? await redis.hGet(versionsKey(postId, id), String(current.fileVersion))
+          : undefined;
+      let movedVersion: DocumentFileVersion | null = null;
+      if (versionJson) {
+        const { storageKey, ...rest } = JSON.parse(versionJson) as DocumentFileVersion;
+        movedVersion = {
+          ...rest,
+          storageProvider: updated.storageProvider,
+          ...(updated.storageKey ? { storageKey: updated.storageKey } : {}),
+        };
+      }
+
+      return {
+        result: updated,
+        write: async (tx) => {
+          if (contentHash && blob && blobMoved) {
+            const { storageKey, ...rest } = blob;
+            await queueBlobWrite(
+              tx,
+              contentHash,
+              {
+                ...rest,
+                storageProvider: updated.storageProvider,
+                ...(updated.storageKey ? { storageKey: updated.storageKey } : {}),
+              },
+              blob
+            );
+            // Documents still recorded as Redis-stored find the file through the record
+            if (blob.storageProvider === 'redis' && updated.storageProvider !== 'redis') {
+              await tx.del(blobDataKey(contentHash));
+            }
+          }
+          await tx.set(documentKey(postId, id), JSON.stringify(toMetadata(updated)));
+          await queueOrganizationWrite(tx, postId, current, updated);
+          if (movedVersion) {
+            await tx.hSet(versionsKey(postId, id), {
+              [String(movedVersion.number)]: JSON.stringify(movedVersion),
+            });
+          }
+          if (
+            current.storageProvider === 'redis' &&
+            !current.contentHash &&
+            updated.storageProvider !== 'redis'
+          ) {
+            // Payload now lives in external storage
+            await tx.del(dataKey(postId, id));
+          }
+          if (current.storageKey && current.storageKey !== updated.storageKey) {
+            await tx.hDel(storageKeysKey(postId), [current.storageKey]);
+          }
+          if (updated.storageKey) {
+            await tx.hSet(storageKeysKey(postId), { [updated.storageKey]: id });
+          }
+        },
+      };
+    },
+    id
+  );
+  if (saved && !unchanged && saved.deletedAt === undefined) {
+    await indexDocument(postId, toMetadata(saved));
+  }
+  return saved;
+}
+
+/**
+ * List the ids of all posts in this subreddit that hold documents
+ */
+export async function listDocumentPosts(): Promise<string[]> {
+  const members = await redis.zRange(postsKey, 0, -1, { by: 'rank' });
+  return members.map((m) => m.member);
+}
+
+/**
+ * Get a single document by id
+ * @param includeData - Also load the base64 payload for Redis-stored documents
+ * @returns The document, or null if it does not exist in this post
+ */
+export async function getDocument(
+  postId: string,
+  id: string,
+  includeData: boolean = false
+): Promise<Document | null> {
+  await migrateLegacyList(postId);
+
+  const json = await redis.get(documentKey(postId, id));
+  if (!json) {
+    return null;
+  }
+
+  const document = await resolveLocation<Document>(JSON.parse(json));
+  if (includeData && document.storageProvider === 'redis') {
+    const imageData =
+      (document.contentHash ? await redis.get(blobDataKey(document.contentHash)) : undefined) ??
+      (await redis.get(dataKey(postId, id)));
+    if (imageData) {
+      document.imageData = imageData;
+    }
+  }
+  return document;
+}
+
+/**
+ * Look up a document by its external storage key
+ */
+export async function getDocumentByStorageKey(
+  postId: string,
+  storageKey: string
+): Promise<Document | null> {
+  await migrateLegacyList(postId);
+
+  const id = await redis.hGet(storageKeysKey(postId), storageKey);
+  return id ? getDocument(postId, id) : null;
+}
+
+/**
+ * Parse a "{score}:{id}" page cursor, the last entry of the previous page.
+ * Anything else starts from the first page.
+ */
+function parseCursor(cursor: string | undefined): { score: number; id: string } | null {
+  const separator = cursor?.indexOf(':') ?? -1;
+  if (!cursor || separator <= 0) {
+    return null;
+  }
+  const score = Number(cursor.substring(0, separator));
+  return Number.isFinite(score) ? { score, id: cursor.substring(separator + 1) } : null;
+}
+
+/**
+ * One page of a sorted set, highest score first. The cursor is the score and id of
+ * the last entry returned rather than a rank, so documents added or removed between
+ * pages never cause entries to be repeated or skipped.
+ */
+async function listPage(
+  postId: string,
+  key: string,
+  cursor: string | undefined,
+  limit: number
+): Promise<DocumentPage> {
+  const after = parseCursor(cursor);
+  const pageSize = Math.min(Math.max(1, limit), MAX_PAGE_SIZE);
+  // One extra entry tells whether there is another page
+  const wanted = pageSize + 1;
+
+  const total = await redis.zCard(key);
+  const members: { member: string; score: number }[] = [];
+  if (after) {
+    // Entries sharing the cursor's score come in reverse member order
+    const tied = await redis.zRange(key, after.score, after.score, {
+      by: 'score',
+      reverse: true,
+    });
+    members.push(...tied.filter(({ member }) => member < after.id).slice(0, wanted));
+  }
+  if (members.length < wanted) {
+    members.push(
+      ...(await redis.zRange(key, after ? `(${after.score}` : '+inf', '-inf', {
+        by: 'score',
+        reverse: true,
+        limit: { offset: 0, count: wanted - members.length },
+      }))
+    );
+  }
+
+  const page = members.slice(0, pageSize);
+  const documents: DocumentMetadata[] = [];
+  if (page.length > 0) {
+    const values = await redis.mGet(page.map((m) => documentKey(postId, m.member)));
+    for (const value of values) {
+      if (value) {
+        documents.push(JSON.parse(value));
+      }
+    }
+  }
+
+  const last = page[page.length - 1];
+  return {
+    documents,
+    nextCursor: members.length > pageSize && last ? `${last.score}:${last.member}` : null,
+    total,
+  };
+}
+
+/**
+ * List document metadata, newest first. Trashed documents are not included.
+ * @param cursor - Opaque cursor from a previous page (omit for the first page)
+ * @param limit - Page size, clamped to MAX_PAGE_SIZE
+ * @param filter - Only list documents with this tag or in this folder
+ */
+export async function listDocuments(
+  postId: string,
+  cursor?: string,
+  limit: number = DEFAULT_PAGE_SIZE,
+  filter: DocumentFilter = {}
+): Promise<DocumentPage> {
+  await migrateLegacyList(postId);
+  const key = filter.tag
+    ? tagKey(postId, filter.tag)
+    : filter.folderId
+      ? folderKey(postId, filter.folderId)
+      : indexKey(postId);
+  return listPage(postId, key, cursor, limit);
+}
+
+/**
+ * Every document in a post, newest first, for reports that need all of them.
+ * Trashed documents are not included.
+ */
+export async function listAllDocuments(postId: string): Promise<DocumentMetadata[]> {
+  const documents: DocumentMetadata[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await listDocuments(postId, cursor ?? undefined, MAX_PAGE_SIZE);
+    documents.push(...page.documents);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return documents;
+}
+
+/**
+ * Number of documents (not in the trash) in a folder
+ */
+export async function countFolderDocuments(postId: string, folderId: string): Promise<number> {
+  return redis.zCard(folderKey(postId, folderId));
+}
+
+/**
+ * Tags in use and how many documents (not in the trash) have each, most used first
+ */
+export async function listTagCounts(postId: string): Promise<{ name: string; count: number }[]> {
+  const entries = await redis.zRange(tagCountsKey(postId), 0, -1, { by: 'rank', reverse: true });
+  return entries.map(({ member, score }) => ({ name: member, count: score }));
+}
+
+/**
+ * List trashed document metadata, most recently deleted first
+ * @param cursor - Opaque cursor from a previous page (omit for the first page)
+ * @param limit - Page size, clamped to MAX_PAGE_SIZE
+ */
+export async function listTrash(
+  postId: string,
+  cursor?: string,
+  limit: number = DEFAULT_PAGE_SIZE
+): Promise<DocumentPage> {
+  await migrateLegacyList(postId);
+  return listPage(postId, trashKey(postId), cursor, limit);
+}
+
+/**
+ * List trashed documents in every post that were deleted before a cutoff,
+ * oldest first
+ */
+export async function listExpiredTrash(
+  cutoff: number,
+  limit: number = DEFAULT_PAGE_SIZE
+): Promise<ExpiredTrashEntry[]> {
+  const members = await redis.zRange(trashQueueKey, 0, cutoff, {
+    by: 'score',
+    limit: { offset: 0, count: limit },
+  });
+  return members.map(({ member, score }) => {
+    // Post ids never contain ':' (t3_...), so the first one separates the pair
+    const separator = member.indexOf(':');
+    return {
+      postId: member.substring(0, separator),
+      documentId: member.substring(separator + 1),
+      deletedAt: score,
+    };
+  });
+}
+
+/**
+ * Find a document in this post with the same file contents. Documents in the
+ * trash don't count: they are gone as far as uploaders can see.
+ */
+export async function findDocumentByContentHash(
+  postId: string,
+  contentHash: string
+): Promise<Document | null> {
+  await migrateLegacyList(postId);
+
+  const id = await redis.hGet(contentHashesKey(postId), contentHash);
+  const document = id ? await getDocument(postId, id) : null;
+  return document && document.deletedAt === undefined ? document : null;
+}
+
+/**
+ * Move a document into or out of the trash atomically
+ * @param deletion - Trash state to set, or null to restore the document
+ * @throws DocumentConflictError on version mismatch, repeated races, or if the
+ *         document is already in the requested state
+ */
+async function setTrashState(
+  postId: string,
+  id: string,
+  deletion: { deletedAt: number; deletedBy: string } | null,
+  expectedVersion?: number
+): Promise<Document | null> {
+  await migrateLegacyList(postId);
+
+  const saved = await withTransaction(
+    [documentKey(postId, id)],
+    async () => {
+      const json = await redis.get(documentKey(postId, id));
+      if (!json) {
+        return null;
+      }
+
+      const current: Document = JSON.parse(json);
+      const currentVersion = checkVersion(current, expectedVersion);
+      if ((current.deletedAt !== undefined) === !!deletion) {
+        throw new DocumentConflictError(
+          `Document ${id} is ${deletion ? 'already' : 'not'} in the trash`,
+          id
+        );
+      }
+
+      const { deletedAt, deletedBy, ...rest } = current;
+      const updated: Document = { ...rest, ...deletion, version: currentVersion + 1 };
+
+      return {
+        result: updated,
+        write: async (tx) => {
+          await tx.set(documentKey(postId, id), JSON.stringify(toMetadata(updated)));
+          await queueOrganizationWrite(tx, postId, current, updated);
+          if (deletion) {
+            await tx.zRem(indexKey(postId), [id]);
+            await tx.zAdd(trashKey(postId), { member: id, score: deletion.deletedAt });
+            await tx.zAdd(trashQueueKey, {
+              member: trashQueueMember(postId, id),
+              score: deletion.deletedAt,
+            });
+          } else {
+            await tx.zRem(trashKey(postId), [id]);
+            await tx.zRem(trashQueueKey, [trashQueueMember(postId, id)]);
+            await tx.zAdd(indexKey(postId), { member: id, score: updated.timestamp });
+          }
+        },
+      };
+    },
+    id
+  );
+  if (saved) {
+    await (deletion ? unindexDocument(postId, id) : indexDocument(postId, toMetadata(saved)));
+  }
+  return saved;
+}
+
+/**
+ * Move a document to the trash. It disappears from listDocuments() but keeps
+ * its payload and file reference until restored or removed.
+ * @param deletedBy - Username recorded on the document
+ * @returns The trashed document, or null if it does not exist
+ * @throws DocumentConflictError on version mismatch, repeated races, or if the
+ *         document is already in the trash
+ */
+export async function trashDocument(
+  postId: string,
+  id: string,
+  deletedBy: string,
+  expectedVersion?: number
+): Promise<Document | null> {
+  return setTrashState(postId, id, { deletedAt: Date.now(), deletedBy }, expectedVersion);
+}
+
+/**
+ * Move a document out of the trash and back into the document list
+ * @returns The restored document, or null if it does not exist
+ * @throws DocumentConflictError on version mismatch, repeated races, or if the
+ *         document is not in the trash
+ */
+export async function restoreDocument(
+  postId: string,
+  id: string,
+  expectedVersion?: number
+): Promise<Document | null> {
+  return setTrashState(postId, id, null, expectedVersion);
+}
+
+/**
+ * Replace a document's file with a new version, keeping the previous versions
+ * If the file's contentHash is already stored, the version shares that copy and
+ * the caller should discard the file it stored, if any (see saveDocument).
+ * @param options.reusedBlob - The file is an existing shared copy found by getBlob()
+ * @param options.expectedVersion - If set, fail with a conflict unless the stored
+ *                                  document is still at this version
+ * @returns The updated document, or null if it does not exist
+ * @throws DocumentConflictError on version mismatch, repeated races, if the
+ *         document is in the trash, or if a reused copy was released
+ */
+export async function addDocumentVersion(
+  postId: string,
+  id: string,
+  file: NewFileVersion,
+  options: { reusedBlob?: boolean; expectedVersion?: number } = {}
+): Promise<Document | null> {
+  await migrateLegacyList(postId);
+
+  const { contentHash } = file;
+  const saved = await withTransaction(
+    [documentKey(postId, id), versionsKey(postId, id), blobKey(contentHash)],
+    async () => {
+      const json = await redis.get(documentKey(postId, id));
+      if (!json) {
+        return null;
+      }
+
+      const current: Document = JSON.parse(json);
+      const currentVersion = checkVersion(current, options.expectedVersion);
+      if (current.deletedAt !== undefined) {
+        throw new DocumentConflictError(
+          'Restore this document from the trash before changing it',
+          id
+        );
+      }
+
+      // A document that was never replaced records its original file as version 1
+      const history = await readVersions(postId, id);
+      const original = history.length === 0 ? currentFileAsVersion(current) : null;
+      const number =
+        Math.max(current.fileVersion ?? 1, ...history.map((version) => version.number)) + 1;
+
+      const existing = await getBlob(contentHash);
+      if (!existing && options.reusedBlob) {
+        throw new DocumentConflictError(
+          'The stored copy of this file was removed. Please retry.',
+          id
+        );
+      }
+      const location = existing ?? file;
+      const blob: BlobRecord = existing
+        ? { ...existing, refCount: existing.refCount + 1 }
+        : {
+            storageProvider: file.storageProvider,
+            ...(file.storageKey ? { storageKey: file.storageKey } : {}),
+            refCount: 1,
+          };
+
+      const now = Date.now();
+      const version: DocumentFileVersion = {
+        number,
+        fileName: file.fileName,
+        fileType: file.fileType,
+        fileSize: file.fileSize,
+        storageProvider: location.storageProvider,
+        ...(location.storageKey ? { storageKey: location.storageKey } : {}),
+        contentHash,
+        description: file.description ?? current.description,
+        notes: file.notes ?? current.notes,
+        uploadedAt: now,
+        uploadedBy: file.uploadedBy,
+      };
+      const updated: Document = {
+        ...applyVersion(current, version),
+        updatedAt: now,
+        version: currentVersion + 1,
+      };
+
+      return {
+        result: updated,
+        write: async (tx) => {
+          const entries: Record<string, string> = { [String(number)]: JSON.stringify(version) };
+          if (original) {
+            entries[String(original.number)] = JSON.stringify(original);
+          }
+          await tx.hSet(versionsKey(postId, id), entries);
+          await tx.set(documentKey(postId, id), JSON.stringify(toMetadata(updated)));
+          if (!existing && file.imageData) {
+            await tx.set(blobDataKey(contentHash), file.imageData);
+          }
+          await queueBlobWrite(tx, contentHash, blob, existing);
+          await tx.hSet(contentHashesKey(postId), { [contentHash]: id });
+          // Earlier versions keep their storage keys, so their files stay reachable
+          if (version.storageKey) {
+            await tx.hSet(storageKeysKey(postId), { [version.storageKey]: id });
+          }
+        },
+      };
+    },
+    id
+  );
+  if (saved) {
+    await indexDocument(postId, toMetadata(saved));
+  }
+  return saved;
+}
+
+/**
+ * Point a document back at one of its earlier file versions, restoring the
+ * file and the description and notes recorded with it
+ * @param expectedVersion - If set, fail with a conflict unless the stored
+ *                          document is still at this version
+ * @returns The updated document, or null if the document or version does not exist
+ * @throws DocumentConflictError on version mismatch, repeated races, or if the
+ *         document is in the trash
+ */
+export async function rollbackDocument(
+  postId: string,
+  id: string,
+  fileVersion: number,
+  expectedVersion?: number
+): Promise<Document | null> {
+  await migrateLegacyList(postId);
+
+  const keys = await watchKeysFor(postId, id);
+  const saved = await withTransaction(
+    keys,
+    async () => {
+      const json = await redis.get(documentKey(postId, id));
+      if (!json) {
+        return null;
+      }
+
+      const current: Document = JSON.parse(json);
+      const currentVersion = checkVersion(current, expectedVersion);
+      if (current.deletedAt !== undefined) {
+        throw new DocumentConflictError(
+          'Restore this document from the trash before changing it',
+          id
+        );
+      }
+
+      const versionJson = await redis.hGet(versionsKey(postId, id), String(fileVersion));
+      if (!versionJson) {
+        return null;
+      }
+
+      const version = await resolveLocation(JSON.parse(versionJson));
+      const updated: Document = {
+        ...applyVersion(current, version),
+        updatedAt: Date.now(),
+        version: currentVersion + 1,
+      };
+
+      return {
+        result: updated,
+        write: async (tx) => {
+          await tx.set(documentKey(postId, id), JSON.stringify(toMetadata(updated)));
+          if (version.contentHash) {
+            await tx.hSet(contentHashesKey(postId), { [version.contentHash]: id });
+          }
+          if (version.storageKey) {
+            await tx.hSet(storageKeysKey(postId), { [version.storageKey]: id });
+          }
+        },
+      };
+    },
+    id
+  );
+  if (saved) {
+    await indexDocument(postId, toMetadata(saved));
+  }
+  return saved;
+}
+
+/**
+ * List a document's file versions, newest first
+ * @returns The versions and the one in use, or null if the document does not exist
+ */
+export async function listDocumentVersions(
+  postId: string,
+  id: string
+): Promise<{ currentVersion: number; versions: DocumentFileVersion[] } | null> {
+  const document = await getDocument(postId, id);
+  if (!document) {
+    return null;
+  }
+
+  const history = await readVersions(postId, id);
+  const versions =
+    history.length > 0
+      ? await Promise.all(history.map((version) => resolveLocation(version)))
+      : [currentFileAsVersion(document)];
+  return { currentVersion: document.fileVersion ?? 1, versions: versions.reverse() };
+}
+
+/**
+ * Get one file version of a document
+ * @param includeData - Also load the base64 payload for a Redis-stored file
+ * @returns The version, or null if the document or version does not exist
+ */
+export async function getDocumentVersion(
+  postId: string,
+  id: string,
+  fileVersion: number,
+  includeData: boolean = false
+): Promise<{ version: DocumentFileVersion; imageData?: string } | null> {
+  const document = await getDocument(postId, id, includeData);
+  if (!document) {
+    return null;
+  }
+
+  // The version in use is described by the document itself
+  if ((document.fileVersion ?? 1) === fileVersion) {
+    return {
+      version: currentFileAsVersion(document),
+      ...(document.imageData ? { imageData: document.imageData } : {}),
+    };
+  }
+
+  const versionJson = await redis.hGet(versionsKey(postId, id), String(fileVersion));
+  if (!versionJson) {
+    return null;
+  }
+
+  const version = await resolveLocation(JSON.parse(versionJson));
+  if (!includeData || version.storageProvider !== 'redis') {
+    return { version };
+  }
+  const imageData = await redis.get(
+    version.contentHash ? blobDataKey(version.contentHash) : dataKey(postId, id)
+  );
+  return { version, ...(imageData ? { imageData } : {}) };
+}
+
+/**
+ * Point an earlier file version at a copy of its file in another place, for
+ * storage migration. A shared file's record moves with it, so every document
+ * and version using the file follows.
+ * @param from - Where the caller read the file from
+ * @returns False if the document or version no longer exists
+ * @throws DocumentConflictError if the version is now the current file, its file
+ *         was moved since it was read, or on repeated races
+ */
+export async function moveFileVersion(
+  postId: string,
+  id: string,
+  fileVersion: number,
+  from: FileLocation,
+  to: FileLocation
+): Promise<boolean> {
+  await migrateLegacyList(postId);
+
+  const keys = await watchKeysFor(postId, id);
+  const moved = await withTransaction(
+    keys,
+    async () => {
+      const json = await redis.get(documentKey(postId, id));
+      const versionJson = await redis.hGet(versionsKey(postId, id), String(fileVersion));
+      if (!json || !versionJson) {
+        return null;
+      }
+
+      const current: Document = JSON.parse(json);
+      if ((current.fileVersion ?? 1) === fileVersion) {
+        throw new DocumentConflictError(
+          `File version ${fileVersion} of document ${id} is now its current file`,
+          id
+        );
+      }
+
+      const version: DocumentFileVersion = JSON.parse(versionJson);
+      const { contentHash } = version;
+      const blob = contentHash ? await getBlob(contentHash) : null;
+      const location = blob ?? version;
+      if (
+        location.storageProvider !== from.storageProvider ||
+        location.storageKey !== from.storageKey
+      ) {
+        throw new DocumentConflictError(
+          `File version ${fileVersion} of document ${id} was moved by another request`,
+          id
+        );
+      }
+
+      const { storageKey, ...rest } = version;
+      const movedVersion: DocumentFileVersion = {
+        ...rest,
+        storageProvider: to.storageProvider,
+        ...(to.storageKey ? { storageKey: to.storageKey } : {}),
+      };
+      const leavesRedis = location.storageProvider === 'redis' && to.storageProvider !== 'redis';
+
+      return {
+        result: true,
+        write: async (tx) => {
+          await tx.hSet(versionsKey(postId, id), {
+            [String(fileVersion)]: JSON.stringify(movedVersion),
+          });
+          if (contentHash && blob) {
+            const { storageKey: previousKey, ...blobRest } = blob;
+            await queueBlobWrite(
+              tx,
+              contentHash,
+              {
+                ...blobRest,
+                storageProvider: to.storageProvider,
+                ...(to.storageKey ? { storageKey: to.storageKey } : {}),
+              },
+              blob
+            );
+            if (leavesRedis) {
+              await tx.del(blobDataKey(contentHash));
+            }
+          } else if (leavesRedis && (current.storageProvider !== 'redis' || current.contentHash)) {
+            // The original file of a document saved without a content hash; the
+            // payload key is free once the current file is stored elsewhere
+            await tx.del(dataKey(postId, id));
+          }
+          if (to.storageKey) {
+            await tx.hSet(storageKeysKey(postId), { [to.storageKey]: id });
+          }
+        },
+      };
+    },
+    id
+  );
+  return moved ?? false;
+}
+
+/**
+ * Remove a document's metadata, payload, version history and index entries
+ * atomically, and drop its references to shared files
+ * @param expectedVersion - If set, fail with a conflict unless the stored
+ *                          document is still at this version
+ * @param trashedBefore - If set, fail with a conflict unless the document was
+ *                        moved to the trash at or before this time
+ * @returns The removed document, or null if it was already gone
+ * @throws DocumentConflictError on version or trash state mismatch, or repeated races
+ */
+export async function removeDocument(
+  postId: string,
+  id: string,
+  expectedVersion?: number,
+  trashedBefore?: number
+): Promise<RemovedDocument | null> {
+  await migrateLegacyList(postId);
+
+  const keys = await watchKeysFor(postId, id);
+  const removed = await withTransaction(
+    keys,
+    async () => {
+      const json = await redis.get(documentKey(postId, id));
+      if (!json) {
+        return null;
+      }
+
+      const current: Document = JSON.parse(json);
+      checkVersion(current, expectedVersion);
+      if (
+        trashedBefore !== undefined &&
+        (current.deletedAt === undefined || current.deletedAt > trashedBefore)
+      ) {
+        throw new DocumentConflictError(`Document ${id} is not in the trash`, id);
+      }
+
+      // Each file version holds one reference on its shared file
+      const history = await readVersions(postId, id);
+      const files = history.length > 0 ? history : [currentFileAsVersion(current)];
+      const references = new Map<string, DocumentFileVersion[]>();
+      const storageKeys = new Set(current.storageKey ? [current.storageKey] : []);
+      const releasedFiles: ReleasedFile[] = [];
+      for (const file of files) {
+        if (file.storageKey) {
+          storageKeys.add(file.storageKey);
+        }
+        if (file.contentHash) {
+          references.set(file.contentHash, [...(references.get(file.contentHash) ?? []), file]);
+        } else if (file.storageProvider !== 'redis' && file.storageKey) {
+          releasedFiles.push({
+            storageProvider: file.storageProvider,
+            storageKey: file.storageKey,
+          });
+        }
+      }
+
+      const blobs: { contentHash: string; blob: BlobRecord; count: number; released: boolean }[] =
+        [];
+      const ownedHashes: string[] = [];
+      for (const [contentHash, versions] of references) {
+        if ((await redis.hGet(contentHashesKey(postId), contentHash)) === id) {
+          ownedHashes.push(contentHash);
+        }
+        const blob = await getBlob(contentHash);
+        const location = blob ?? versions[0]!;
+        const released = !blob || blob.refCount <= versions.length;
+        if (released && location.storageProvider !== 'redis' && location.storageKey) {
+          releasedFiles.push({
+            storageProvider: location.storageProvider,
+            storageKey: location.storageKey,
+          });
+        }
+        if (blob) {
+          blobs.push({ contentHash, blob, count: versions.length, released });
+        }
+      }
+
+      return {
+        result: { document: current, releasedFiles },
+        write: async (tx) => {
+          await tx.zRem(indexKey(postId), [id]);
+          await tx.zRem(trashKey(postId), [id]);
+          await tx.zRem(trashQueueKey, [trashQueueMember(postId, id)]);
+          await tx.del(documentKey(postId, id), dataKey(postId, id), versionsKey(postId, id));
+          await queueOrganizationWrite(tx, postId, current, null);
+          if (storageKeys.size > 0) {
+            await tx.hDel(storageKeysKey(postId), [...storageKeys]);
+          }
+          if (ownedHashes.length > 0) {
+            await tx.hDel(contentHashesKey(postId), ownedHashes);
+          }
+          for (const { contentHash, blob, count, released } of blobs) {
+            if (released) {
+              await tx.del(blobKey(contentHash), blobDataKey(contentHash));
+              if (blob.storageKey) {
+                await tx.hDel(blobStorageKeysKey, [blob.storageKey]);
+              }
+            } else {
+              await tx.set(
+                blobKey(contentHash),
+                JSON.stringify({ ...blob, refCount: blob.refCount - count })
+              );
+            }
+          }
+        },
+      };
+    },
+    id
+  );
+  if (removed) {
+    await unindexDocument(postId, id);
+  }
+  return removed;
+}
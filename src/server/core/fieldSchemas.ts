@@ -0,0 +1,402 @@
+/**
+ * Field schemas for structured extraction
+ *
+ * A schema lists the typed fields to pull out of one kind of document. Bill,
+ * receipt and invoice schemas are built in; a post can add custom schemas of its
+ * own. AI analysis asks for values matching a schema, and the same coercion
+ * checks them whether they came from the model or from an edit.
+ *
+ * Key layout (per post):
+ *   schemas:{postId}     hash of custom schema id -> schema JSON
+ */
+
+import { redis } from '@devvit/web/server';
+import type {
+  DocumentFields,
+  FieldDefinition,
+  FieldSchema,
+  FieldType,
+  FieldValue,
+  LineItem,
+} from '../../shared/types/api';
+
+export const MAX_CUSTOM_SCHEMAS = 20;
+export const MAX_SCHEMA_FIELDS = 30;
+export const MAX_LINE_ITEMS = 100;
+
+// Built-in schema ids that other features read fields from
+export const BILL_SCHEMA_ID = 'bill';
+export const RECEIPT_SCHEMA_ID = 'receipt';
+
+const MAX_STRING_FIELD_LENGTH = 300;
+const MAX_LABEL_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const FIELD_TYPES: FieldType[] = ['string', 'number', 'currency', 'date', 'boolean'];
+
+const schemasKey = (postId: string) => `schemas:${postId}`;
+
+const BUILT_IN_SCHEMAS: FieldSchema[] = [
+  {
+    id: BILL_SCHEMA_ID,
+    name: 'Bill',
+    description: 'Utility or service bill',
+    builtIn: true,
+    fields: [
+      { name: 'provider', label: 'Provider', type: 'string', required: true },
+      { name: 'accountNumber', label: 'Account number', type: 'string' },
+      { name: 'amountDue', label: 'Amount due', type: 'currency', required: true },
+      { name: 'currency', label: 'Currency', type: 'string', description: 'ISO code, e.g. USD' },
+      { name: 'dueDate', label: 'Due date', type: 'date' },
+      { name: 'periodStart', label: 'Billing period start', type: 'date' },
+      { name: 'periodEnd', label: 'Billing period end', type: 'date' },
+      {
+        name: 'usage',
+        label: 'Usage',
+        type: 'number',
+        description: 'Amount used in the period, e.g. kWh of electricity',
+      },
+      { name: 'usageUnit', label: 'Usage unit', type: 'string', description: 'e.g. kWh, therms' },
+    ],
+  },
+  {
+    id: RECEIPT_SCHEMA_ID,
+    name: 'Receipt',
+    description: 'Proof of a purchase',
+    builtIn: true,
+    lineItems: true,
+    fields: [
+      { name: 'merchant', label: 'Merchant', type: 'string', required: true },
+      { name: 'date', label: 'Date', type: 'date' },
+      { name: 'subtotal', label: 'Subtotal', type: 'currency' },
+      { name: 'tax', label: 'Tax', type: 'currency' },
+      {
+        name: 'total',
+        label: 'Total',
+        type: 'currency',
+        required: true,
+        description: 'Total paid, including tax',
+      },
+      { name: 'currency', label: 'Currency', type: 'string', description: 'ISO code, e.g. USD' },
+      { name: 'paymentMethod', label: 'Payment method', type: 'string' },
+      {
+        name: 'expenseCategory',
+        label: 'Expense category',
+        type: 'string',
+        description: 'What the purchase was for, e.g. meals, travel, office supplies',
+      },
+    ],
+  },
+  {
+    id: 'invoice',
+    name: 'Invoice',
+    description: 'Request for payment from a vendor',
+    builtIn: true,
+    lineItems: true,
+    fields: [
+      { name: 'vendor', label: 'Vendor', type: 'string', required: true },
+      { name: 'invoiceNumber', label: 'Invoice number', type: 'string' },
+      { name: 'issueDate', label: 'Issue date', type: 'date' },
+      { name: 'dueDate', label: 'Due date', type: 'date' },
+      { name: 'subtotal', label: 'Subtotal', type: 'currency' },
+      { name: 'tax', label: 'Tax', type: 'currency' },
+      { name: 'amountDue', label: 'Amount due', type: 'currency', required: true },
+      { name: 'currency', label: 'Currency', type: 'string', description: 'ISO code, e.g. USD' },
+      { name: 'paid', label: 'Paid', type: 'boolean' },
+    ],
+  },
+];
+
+/**
+ * Raised when a schema or a set of field values is invalid
+ */
+export class SchemaRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'SchemaRejectedError';
+  }
+}
+
+async function readCustomSchemas(postId: string): Promise<FieldSchema[]> {
+  const entries = await redis.hGetAll(schemasKey(postId));
+  return Object.values(entries)
+    .map((json) => JSON.parse(json) as FieldSchema)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Built-in schemas followed by the post's custom schemas
+ */
+export async function listFieldSchemas(postId: string): Promise<FieldSchema[]> {
+  return [...BUILT_IN_SCHEMAS, ...(await readCustomSchemas(postId))];
+}
+
+/**
+ * Look up a schema by id
+ * @returns The schema, or null if it is neither built in nor in this post
+ */
+export async function getFieldSchema(postId: string, id: string): Promise<FieldSchema | null> {
+  const builtIn = BUILT_IN_SCHEMAS.find((schema) => schema.id === id);
+  if (builtIn) {
+    return builtIn;
+  }
+  const json = await redis.hGet(schemasKey(postId), id);
+  return json ? (JSON.parse(json) as FieldSchema) : null;
+}
+
+function checkFieldDefinition(value: unknown, index: number): FieldDefinition {
+  const field = (value ?? {}) as Record<string, unknown>;
+  const where = `fields[${index}]`;
+
+  if (typeof field.name !== 'string' || !/^[A-Za-z][A-Za-z0-9]{0,39}$/.test(field.name)) {
+    throw new SchemaRejectedError(
+      `${where}.name must start with a letter and contain only letters and digits`
+    );
+  }
+  if (typeof field.label !== 'string' || !field.label.trim()) {
+    throw new SchemaRejectedError(`${where}.label must be a non-empty string`);
+  }
+  if (!FIELD_TYPES.includes(field.type as FieldType)) {
+    throw new SchemaRejectedError(`${where}.type must be one of ${FIELD_TYPES.join(', ')}`);
+  }
+  if (field.description !== undefined && typeof field.description !== 'string') {
+    throw new SchemaRejectedError(`${where}.description must be a string`);
+  }
+
+  return {
+    name: field.name,
+    label: field.label.trim().slice(0, MAX_LABEL_LENGTH),
+    type: field.type as FieldType,
+    ...(field.description?.trim()
+      ? { description: field.description.trim().slice(0, MAX_DESCRIPTION_LENGTH) }
+      : {}),
+    ...(field.required === true ? { required: true } : {}),
+  };
+}
+
+/**
+ * Add a custom schema to a post
+ * @throws SchemaRejectedError if the definition is invalid or the post has
+ *         MAX_CUSTOM_SCHEMAS schemas already
+ */
+export async function createFieldSchema(
+  postId: string,
+  input: { name?: unknown; description?: unknown; fields?: unknown; lineItems?: unknown }
+): Promise<FieldSchema> {
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    throw new SchemaRejectedError('name must be a non-empty string');
+  }
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    throw new SchemaRejectedError('description must be a string');
+  }
+  if (!Array.isArray(input.fields) || input.fields.length === 0) {
+    throw new SchemaRejectedError('fields must be a non-empty array');
+  }
+  if (input.fields.length > MAX_SCHEMA_FIELDS) {
+    throw new SchemaRejectedError(`A schema can have at most ${MAX_SCHEMA_FIELDS} fields`);
+  }
+
+  const fields = input.fields.map(checkFieldDefinition);
+  const names = new Set(fields.map((field) => field.name));
+  if (names.size !== fields.length) {
+    throw new SchemaRejectedError('Field names must be unique');
+  }
+
+  const existing = await readCustomSchemas(postId);
+  if (existing.length >= MAX_CUSTOM_SCHEMAS) {
+    throw new SchemaRejectedError(`A post can have at most ${MAX_CUSTOM_SCHEMAS} custom schemas`);
+  }
+
+  const schema: FieldSchema = {
+    id: `custom_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name.trim().slice(0, MAX_LABEL_LENGTH),
+    description: (input.description ?? '').trim().slice(0, MAX_DESCRIPTION_LENGTH),
+    fields,
+    ...(input.lineItems === true ? { lineItems: true } : {}),
+    builtIn: false,
+  };
+  await redis.hSet(schemasKey(postId), { [schema.id]: JSON.stringify(schema) });
+  console.log(`[Schemas] Created schema ${schema.id} ("${schema.name}")`);
+  return schema;
+}
+
+/**
+ * Remove a custom schema. Documents keep the values extracted with it.
+ * @returns Whether the schema existed
+ * @throws SchemaRejectedError for built-in schemas
+ */
+export async function deleteFieldSchema(postId: string, id: string): Promise<boolean> {
+  if (BUILT_IN_SCHEMAS.some((schema) => schema.id === id)) {
+    throw new SchemaRejectedError('Built-in schemas cannot be deleted');
+  }
+  const removed = await redis.hDel(schemasKey(postId), [id]);
+  if (removed > 0) {
+    console.log(`[Schemas] Deleted schema ${id}`);
+  }
+  return removed > 0;
+}
+
+/**
+ * Parse a currency amount such as "$1,234.56", "1.234,56 EUR" or "(12.00)"
+ */
+function parseAmount(text: string): number | null {
+  const negative = /^\(.*\)$/.test(text.trim()) || text.trim().startsWith('-');
+  let digits = text.replace(/[^\d.,]/g, '');
+
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  if (lastComma > lastDot && digits.length - lastComma - 1 !== 3) {
+    // Comma is the decimal separator ("12,50" or "1.234,56")
+    digits = digits.replace(/\./g, '').replace(',', '.');
+  } else {
+    digits = digits.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(digits);
+  return Number.isFinite(amount) ? (negative ? -amount : amount) : null;
+}
+
+/**
+ * Parse a date into YYYY-MM-DD, keeping the calendar day as written
+ */
+function parseDate(text: string): string | null {
+  const iso = text.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const date = iso
+    ? new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])))
+    : new Date(`${text.trim()} UTC`);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  // Reject dates that rolled over, such as 2024-02-30
+  if (iso && date.getUTCDate() !== Number(iso[3])) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function coerceValue(type: FieldType, value: unknown): FieldValue | null | undefined {
+  switch (type) {
+    case 'string': {
+      const text = typeof value === 'number' ? String(value) : value;
+      return typeof text === 'string' ? text.trim().slice(0, MAX_STRING_FIELD_LENGTH) : undefined;
+    }
+    case 'number':
+    case 'currency': {
+      const amount =
+        typeof value === 'number' ? value : typeof value === 'string' ? parseAmount(value) : null;
+      if (amount === null || !Number.isFinite(amount)) return undefined;
+      return type === 'currency' ? Math.round(amount * 100) / 100 : amount;
+    }
+    case 'date':
+      return typeof value === 'string' ? (parseDate(value) ?? undefined) : undefined;
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'string' && /^(true|yes|y)$/i.test(value.trim())) return true;
+      if (typeof value === 'string' && /^(false|no|n)$/i.test(value.trim())) return false;
+      return undefined;
+  }
+}
+
+/**
+ * Coerce raw line items; items without a description are dropped
+ */
+function coerceLineItems(raw: unknown): { lineItems: LineItem[]; errors: string[] } {
+  if (raw === undefined || raw === null) {
+    return { lineItems: [], errors: [] };
+  }
+  if (!Array.isArray(raw)) {
+    return { lineItems: [], errors: ['lineItems must be an array'] };
+  }
+
+  const lineItems: LineItem[] = [];
+  const errors: string[] = [];
+  for (const [index, value] of raw.slice(0, MAX_LINE_ITEMS).entries()) {
+    const item = (value ?? {}) as Record<string, unknown>;
+    const description = coerceValue('string', item.description);
+    if (typeof description !== 'string' || !description) continue;
+
+    // Numbers that cannot be read are errors, and left empty
+    const number = (type: FieldType, key: 'quantity' | 'amount') => {
+      const input = item[key];
+      if (input === undefined || input === null || input === '') return null;
+      const coerced = coerceValue(type, input);
+      if (typeof coerced !== 'number') {
+        errors.push(`Line item ${index + 1} ${key} must be a valid number`);
+        return null;
+      }
+      return coerced;
+    };
+    lineItems.push({
+      description,
+      quantity: number('number', 'quantity'),
+      amount: number('currency', 'amount'),
+    });
+  }
+  return { lineItems, errors };
+}
+
+/**
+ * Coerce raw values to a schema's field types. Keys the schema does not define
+ * are dropped, and empty strings become null.
+ * @param rawLineItems - Line items, for schemas that have them
+ * @returns The coerced fields, and an error for each value that could not be
+ *          coerced or required field left empty (those values are set to null)
+ */
+export function coerceFields(
+  schema: FieldSchema,
+  raw: unknown,
+  rawLineItems?: unknown
+): { fields: DocumentFields; errors: string[] } {
+  const input = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const values: DocumentFields['values'] = {};
+  const errors: string[] = [];
+
+  for (const field of schema.fields) {
+    const value = input[field.name];
+    const empty =
+      value === undefined || value === null || (typeof value === 'string' && !value.trim());
+    const coerced = empty ? null : coerceValue(field.type, value);
+
+    if (coerced === undefined) {
+      errors.push(`${field.label} must be a valid ${field.type}`);
+    } else if (coerced === null && field.required) {
+      errors.push(`${field.label} is required`);
+    }
+    values[field.name] = coerced ?? null;
+  }
+
+  if (!schema.lineItems) {
+    return { fields: { schemaId: schema.id, values }, errors };
+  }
+  const items = coerceLineItems(rawLineItems);
+  return {
+    fields: { schemaId: schema.id, values, lineItems: items.lineItems },
+    errors: [...errors, ...items.errors],
+  };
+}
+
+/**
+ * Validate fields sent by a client (upload or edit) against their schema
+ * @returns The coerced fields
+ * @throws SchemaRejectedError if the schema is unknown or a value is invalid
+ */
+export async function validateFields(postId: string, value: unknown): Promise<DocumentFields> {
+  const input = (value ?? {}) as { schemaId?: unknown; values?: unknown; lineItems?: unknown };
+  if (typeof input.schemaId !== 'string' || !input.values || typeof input.values !== 'object') {
+    throw new SchemaRejectedError('fields must be an object with schemaId and values');
+  }
+
+  const schema = await getFieldSchema(postId, input.schemaId);
+  if (!schema) {
+    throw new SchemaRejectedError(`Unknown schema "${input.schemaId}"`);
+  }
+
+  const { fields, errors } = coerceFields(schema, input.values, input.lineItems);
+  if (errors.length > 0) {
+    throw new SchemaRejectedError(errors.join('; '));
+  }
+  return fields;
+}
@@ -0,0 +1,204 @@
+/**
+ * Folders for organizing a post's documents
+ *
+ * A document belongs to at most one folder (Document.folderId). Folders are flat
+ * and named uniquely within a post. Deleting a folder moves its documents out of
+ * it; the documents themselves are kept.
+ *
+ * Key layout (per post):
+ *   folders:{postId}     hash of folder id -> folder JSON
+ */
+
+import { redis } from '@devvit/web/server';
+import type { Folder } from '../../shared/types/api';
+import {
+  countFolderDocuments,
+  DocumentConflictError,
+  listDocuments,
+  listTrash,
+  MAX_PAGE_SIZE,
+  updateDocument,
+} from './documents';
+
+export const MAX_FOLDERS = 100;
+export const MAX_FOLDER_NAME_LENGTH = 50;
+
+const foldersKey = (postId: string) => `folders:${postId}`;
+
+type StoredFolder = Omit<Folder, 'documentCount'>;
+
+/**
+ * Raised when a folder change cannot be applied
+ */
+export class FolderRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'FolderRejectedError';
+  }
+}
+
+async function readFolders(postId: string): Promise<StoredFolder[]> {
+  const entries = await redis.hGetAll(foldersKey(postId));
+  return Object.values(entries).map((json) => JSON.parse(json) as StoredFolder);
+}
+
+async function withCount(postId: string, folder: StoredFolder): Promise<Folder> {
+  return { ...folder, documentCount: await countFolderDocuments(postId, folder.id) };
+}
+
+/**
+ * Validate a folder name against the post's other folders
+ * @returns The trimmed name
+ * @throws FolderRejectedError if the name is empty, too long or already used
+ */
+function checkName(name: unknown, folders: StoredFolder[], exceptId?: string): string {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new FolderRejectedError('name must be a non-empty string');
+  }
+  const trimmed = name.trim();
+  if (trimmed.length > MAX_FOLDER_NAME_LENGTH) {
+    throw new FolderRejectedError(`name must be at most ${MAX_FOLDER_NAME_LENGTH} characters`);
+  }
+  const taken = folders.some(
+    (folder) => folder.id !== exceptId && folder.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (taken) {
+    throw new FolderRejectedError(`A folder named "${trimmed}" already exists`, 409);
+  }
+  return trimmed;
+}
+
+/**
+ * List a post's folders with their document counts, sorted by name
+ */
+export async function listFolders(postId: string): Promise<Folder[]> {
+  const folders = await readFolders(postId);
+  folders.sort((a, b) => a.name.localeCompare(b.name));
+  return Promise.all(folders.map((folder) => withCount(postId, folder)));
+}
+
+/**
+ * Get a single folder
+ * @returns The folder, or null if it does not exist in this post
+ */
+export async function getFolder(postId: string, id: string): Promise<Folder | null> {
+  const json = await redis.hGet(foldersKey(postId), id);
+  return json ? withCount(postId, JSON.parse(json) as StoredFolder) : null;
+}
+
+/**
+ * Create a folder
+ * @throws FolderRejectedError if the name is invalid or taken, or the post
+ *         already has MAX_FOLDERS folders
+ */
+export async function createFolder(postId: string, name: unknown): Promise<Folder> {
+  const folders = await readFolders(postId);
+  const trimmed = checkName(name, folders);
+  if (folders.length >= MAX_FOLDERS) {
+    throw new FolderRejectedError(`A post can have at most ${MAX_FOLDERS} folders`);
+  }
+
+  const folder: StoredFolder = {
+    id: `folder_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    name: trimmed,
+    createdAt: Date.now(),
+  };
+  await redis.hSet(foldersKey(postId), { [folder.id]: JSON.stringify(folder) });
+  console.log(`[Folders] Created folder ${folder.id} ("${folder.name}")`);
+  return { ...folder, documentCount: 0 };
+}
+
+/**
+ * Rename a folder
+ * @returns The renamed folder, or null if it does not exist
+ * @throws FolderRejectedError if the name is invalid or taken
+ */
+export async function renameFolder(
+  postId: string,
+  id: string,
+  name: unknown
+): Promise<Folder | null> {
+  const folders = await readFolders(postId);
+  const folder = folders.find((candidate) => candidate.id === id);
+  if (!folder) {
+    return null;
+  }
+
+  const renamed: StoredFolder = { ...folder, name: checkName(name, folders, id) };
+  await redis.hSet(foldersKey(postId), { [id]: JSON.stringify(renamed) });
+  return withCount(postId, renamed);
+}
+
+/**
+ * Move a document out of a folder
+ * @returns Whether the document was changed
+ */
+async function unfileDocument(
+  postId: string,
+  documentId: string,
+  folderId: string
+): Promise<boolean> {
+  let changed = false;
+  try {
+    await updateDocument(postId, documentId, (current) => {
+      if (current.folderId !== folderId) {
+        return current;
+      }
+      changed = true;
+      const { folderId: _removed, ...rest } = current;
+      return rest;
+    });
+    return changed;
+  } catch (error) {
+    if (!(error instanceof DocumentConflictError)) {
+      throw error;
+    }
+    console.log(`[Folders] Skipped document ${documentId}: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Delete a folder and move its documents (including any in the trash) out of it
+ * @returns The number of documents moved, or null if the folder does not exist
+ */
+export async function deleteFolder(postId: string, id: string): Promise<number | null> {
+  const json = await redis.hGet(foldersKey(postId), id);
+  if (!json) {
+    return null;
+  }
+
+  // Remove the folder first so no new documents are filed into it
+  await redis.hDel(foldersKey(postId), [id]);
+
+  let moved = 0;
+  for (;;) {
+    const page = await listDocuments(postId, undefined, MAX_PAGE_SIZE, { folderId: id });
+    let changed = 0;
+    for (const document of page.documents) {
+      if (await unfileDocument(postId, document.id, id)) {
+        changed++;
+      }
+    }
+    moved += changed;
+    // Unfiled documents leave the folder's set; stop if a page could not be changed
+    if (page.documents.length === 0 || changed === 0) break;
+  }
+
+  let cursor: string | null = null;
+  do {
+    const page = await listTrash(postId, cursor ?? undefined, MAX_PAGE_SIZE);
+    for (const document of page.documents) {
+      if (document.folderId === id && (await unfileDocument(postId, document.id, id))) {
+        moved++;
+      }
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  console.log(`[Folders] Deleted folder ${id}; moved ${moved} documents out of it`);
+  return moved;
+}
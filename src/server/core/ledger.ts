@@ -0,0 +1,219 @@
+/**
+ * Expense ledger
+ *
+ * Documents with extracted receipt fields (the built-in "receipt" field schema)
+ * make up a per-post ledger of expenses. Receipts are summed by expense category,
+ * merchant and month; amounts in different currencies are kept apart rather than
+ * converted. The ledger is computed from the document store on each request and
+ * can be exported as CSV or JSON.
+ */
+
+import type {
+  DocumentMetadata,
+  FieldValue,
+  LedgerEntry,
+  LedgerResponse,
+  LedgerTotal,
+} from '../../shared/types/api';
+import { listAllDocuments } from './documents';
+import { RECEIPT_SCHEMA_ID } from './fieldSchemas';
+import { normalizeTag } from './tags';
+
+export const UNCATEGORIZED = 'uncategorized';
+
+export type LedgerSummary = Omit<LedgerResponse, 'type'>;
+
+/**
+ * Raised when a ledger query is invalid
+ */
+export class LedgerRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'LedgerRejectedError';
+  }
+}
+
+const asString = (value: FieldValue | null | undefined) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const asNumber = (value: FieldValue | null | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Read one document's receipt fields
+ * @returns The ledger entry, or null without a merchant or any amount to use as the total
+ */
+function toLedgerEntry(document: DocumentMetadata): LedgerEntry | null {
+  const values = document.fields?.values ?? {};
+  const lineItems = document.fields?.lineItems ?? [];
+  const merchant = asString(values.merchant);
+  const subtotal = asNumber(values.subtotal);
+  const tax = asNumber(values.tax);
+
+  // Receipts without a total fall back to subtotal plus tax, then to their line items
+  const itemAmounts = lineItems
+    .map(({ amount }) => amount)
+    .filter((amount): amount is number => amount !== null);
+  const total =
+    asNumber(values.total) ??
+    (subtotal !== null ? roundAmount(subtotal + (tax ?? 0)) : null) ??
+    (itemAmounts.length > 0 ? roundAmount(itemAmounts.reduce((sum, a) => sum + a, 0)) : null);
+  if (!merchant || total === null) {
+    return null;
+  }
+
+  return {
+    documentId: document.id,
+    description: document.description,
+    date: asString(values.date) ?? new Date(document.timestamp).toISOString().slice(0, 10),
+    merchant,
+    category: normalizeTag(asString(values.expenseCategory) ?? '') ?? UNCATEGORIZED,
+    currency: asString(values.currency)?.toUpperCase() ?? null,
+    subtotal,
+    tax,
+    total,
+    paymentMethod: asString(values.paymentMethod),
+    lineItems,
+  };
+}
+
+/**
+ * Sum entries per group and currency
+ * @param keyOf - Group of an entry; entries with the same lowercased key are one group,
+ *                shown with the key of the first (newest) entry
+ */
+function totalBy(entries: LedgerEntry[], keyOf: (entry: LedgerEntry) => string): LedgerTotal[] {
+  const totals = new Map<string, LedgerTotal>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const id = `${key.toLowerCase()}|${entry.currency ?? ''}`;
+    const total = totals.get(id) ?? { key, currency: entry.currency, count: 0, tax: 0, total: 0 };
+    total.count++;
+    total.tax = roundAmount(total.tax + (entry.tax ?? 0));
+    total.total = roundAmount(total.total + entry.total);
+    totals.set(id, total);
+  }
+  return [...totals.values()];
+}
+
+/**
+ * Check an optional YYYY-MM-DD query value
+ * @throws LedgerRejectedError if it is not a date
+ */
+function parseDateParam(name: string, value: unknown): string | null {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new LedgerRejectedError(`${name} must be a date as YYYY-MM-DD`);
+  }
+  return value;
+}
+
+/**
+ * The expense ledger for a post, optionally limited to receipts dated in a range
+ * @param range - Inclusive from/to dates as YYYY-MM-DD, straight from the query string
+ * @throws LedgerRejectedError if a date is invalid or from is after to
+ */
+export async function getLedger(
+  postId: string,
+  range: { from?: unknown; to?: unknown } = {}
+): Promise<LedgerSummary> {
+  const from = parseDateParam('from', range.from);
+  const to = parseDateParam('to', range.to);
+  if (from && to && from > to) {
+    throw new LedgerRejectedError('from must not be after to');
+  }
+
+  const entries: LedgerEntry[] = [];
+  let skipped = 0;
+  for (const document of await listAllDocuments(postId)) {
+    if (document.fields?.schemaId !== RECEIPT_SCHEMA_ID) continue;
+    const entry = toLedgerEntry(document);
+    if (!entry) {
+      skipped++;
+    } else if ((!from || entry.date >= from) && (!to || entry.date <= to)) {
+      entries.push(entry);
+    }
+  }
+  entries.sort((a, b) => b.date.localeCompare(a.date));
+
+  const largestFirst = (a: LedgerTotal, b: LedgerTotal) => b.total - a.total;
+  console.log(
+    `[Ledger] ${entries.length} receipts for post ${postId} (${from ?? '*'} to ${to ?? '*'})`
+  );
+  return {
+    from,
+    to,
+    entries,
+    totals: totalBy(entries, (entry) => entry.currency ?? ''),
+    byCategory: totalBy(entries, (entry) => entry.category).sort(largestFirst),
+    byMerchant: totalBy(entries, (entry) => entry.merchant).sort(largestFirst),
+    byMonth: totalBy(entries, (entry) => entry.date.slice(0, 7)).sort((a, b) =>
+      a.key.localeCompare(b.key)
+    ),
+    skipped,
+  };
+}
+
+const CSV_COLUMNS = [
+  'Date',
+  'Merchant',
+  'Category',
+  'Currency',
+  'Subtotal',
+  'Tax',
+  'Total',
+  'Payment method',
+  'Line items',
+  'Description',
+  'Document ID',
+];
+
+// Quote values containing separators, quotes or line breaks; double embedded quotes.
+// Text that a spreadsheet would run as a formula is prefixed with an apostrophe.
+const csvValue = (value: string | number | null) => {
+  const text =
+    value === null
+      ? ''
+      : typeof value === 'string' && /^[=+\-@]/.test(value)
+        ? `'${value}`
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Ledger entries as CSV, one row per receipt. Line items are listed in one column,
+ * e.g. "2 x Coffee 7; Muffin 3.5".
+ */
+export function ledgerToCsv(entries: LedgerEntry[]): string {
+  const rows = entries.map((entry) =>
+    [
+      entry.date,
+      entry.merchant,
+      entry.category,
+      entry.currency,
+      entry.subtotal,
+      entry.tax,
+      entry.total,
+      entry.paymentMethod,
+      entry.lineItems
+        .map(({ description, quantity, amount }) =>
+          [quantity !== null ? `${quantity} x ${description}` : description, amount]
+            .filter((part) => part !== null)
+            .join(' ')
+        )
+        .join('; '),
+      entry.description,
+      entry.documentId,
+    ]
+      .map(csvValue)
+      .join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
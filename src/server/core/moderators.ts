@@ -0,0 +1,21 @@
+/**
+ * Moderator checks
+ *
+ * Settings that change how the app behaves for everyone in a subreddit can only
+ * be changed by that subreddit's moderators.
+ */
+
+import { context, reddit } from '@devvit/web/server';
+
+/**
+ * Whether a user moderates the subreddit the app is installed in
+ */
+export async function isModerator(username: string): Promise<boolean> {
+  const { subredditName } = context;
+  if (!subredditName) {
+    return false;
+  }
+
+  const moderators = await reddit.getModerators({ subredditName, username }).all();
+  return moderators.some((user) => user.username.toLowerCase() === username.toLowerCase());
+}
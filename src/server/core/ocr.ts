@@ -0,0 +1,204 @@
+/**
+ * Server-side OCR with tesseract.js
+ *
+ * Recognition runs in a tesseract worker created per request and terminated
+ * afterwards. English language data comes from the @tesseract.js-data/eng
+ * package, so no traineddata is downloaded at runtime.
+ *
+ * Both packages stay outside the server bundle and are only required on the
+ * first OCR request. A server deployed without them still starts; OCR requests
+ * then fail with 503.
+ *
+ * Results are kept in a short per-post history, and text recognized from a
+ * stored document is saved on the document (ocrText) so it can be searched.
+ *
+ * Key layout (per post):
+ *   ocr:{postId}:history     sorted set of OcrResult JSON, score = timestamp
+ */
+
+import { redis } from '@devvit/web/server';
+import type { Document, OcrResult, OcrWord } from '../../shared/types/api';
+import type { AppConfig } from '../config';
+import { readDocumentFile } from './documentFiles';
+import { getDocument, updateDocument } from './documents';
+
+// Results kept per post; older entries are dropped as new ones are added
+export const MAX_OCR_HISTORY = 20;
+
+const historyKey = (postId: string) => `ocr:${postId}:history`;
+
+/**
+ * Raised when a file cannot be run through OCR
+ */
+export class OcrRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'OcrRejectedError';
+  }
+}
+
+type OcrEngine = {
+  createWorker: typeof import('tesseract.js').createWorker;
+  eng: typeof import('@tesseract.js-data/eng').default;
+};
+
+let engine: Promise<OcrEngine> | null = null;
+
+/**
+ * Load tesseract.js and the English language data on first use
+ * @throws OcrRejectedError (503) if the packages are not installed
+ */
+function loadEngine(): Promise<OcrEngine> {
+  engine ??= Promise.all([import('tesseract.js'), import('@tesseract.js-data/eng')]).then(
+    ([tesseract, { default: eng }]) => ({ createWorker: tesseract.createWorker, eng }),
+    (error: unknown) => {
+      // Forget the failure so a later request can try again
+      engine = null;
+      console.error('[OCR] Failed to load tesseract.js:', error);
+      throw new OcrRejectedError('OCR is not available on this server', 503);
+    }
+  );
+  return engine;
+}
+
+/**
+ * Recognize the text in an image
+ * @returns Full text, mean confidence and per-word confidence (0-100)
+ * @throws OcrRejectedError (503) if OCR is not available
+ */
+export async function recognizeImage(
+  image: Buffer
+): Promise<Pick<OcrResult, 'text' | 'confidence' | 'words'>> {
+  const { createWorker, eng } = await loadEngine();
+  const worker = await createWorker(eng.code, undefined, {
+    langPath: eng.langPath,
+    gzip: eng.gzip,
+    // Language data is read from the package; never write a cache copy
+    cacheMethod: 'none',
+  });
+
+  try {
+    const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+
+    const words: OcrWord[] = [];
+    for (const block of data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          for (const word of line.words) {
+            words.push({ text: word.text, confidence: Math.round(word.confidence) });
+          }
+        }
+      }
+    }
+
+    return { text: data.text.trim(), confidence: Math.round(data.confidence), words };
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * Read a stored document's image for recognition
+ * @throws OcrRejectedError if the document is not an image or its file is missing
+ */
+async function readDocumentImage(document: Document, config: AppConfig): Promise<Buffer> {
+  if (!document.fileType.startsWith('image/')) {
+    throw new OcrRejectedError('Only image documents can be run through OCR', 415);
+  }
+  const image = await readDocumentFile(document, config);
+  if (!image) {
+    throw new OcrRejectedError('Document file is missing', 404);
+  }
+  return image;
+}
+
+/**
+ * Add a result to the post's history, dropping the oldest beyond MAX_OCR_HISTORY
+ */
+async function recordResult(postId: string, result: OcrResult): Promise<void> {
+  await redis.zAdd(historyKey(postId), {
+    member: JSON.stringify(result),
+    score: result.timestamp,
+  });
+  await redis.zRemRangeByRank(historyKey(postId), 0, -(MAX_OCR_HISTORY + 1));
+}
+
+/**
+ * Run OCR on an uploaded image and record the result
+ */
+export async function runOcrOnImage(
+  postId: string,
+  image: Buffer,
+  fileName: string
+): Promise<OcrResult> {
+  const recognized = await recognizeImage(image);
+  const result: OcrResult = { ...recognized, fileName, timestamp: Date.now() };
+
+  await recordResult(postId, result);
+  console.log(
+    `[OCR] Recognized ${result.words.length} words in ${fileName} (confidence ${result.confidence})`
+  );
+  return result;
+}
+
+/**
+ * Run OCR on a stored document, save the text on the document and record the result
+ * @returns The result and the updated document, or null if the document does not exist
+ * @throws OcrRejectedError if the document cannot be run through OCR
+ * @throws DocumentConflictError if the text could not be saved
+ */
+export async function runOcrOnDocument(
+  postId: string,
+  id: string,
+  config: AppConfig
+): Promise<{ result: OcrResult; document: Document } | null> {
+  const document = await getDocument(postId, id, true);
+  if (!document) {
+    return null;
+  }
+  if (document.deletedAt !== undefined) {
+    throw new OcrRejectedError('Document is in the trash', 409);
+  }
+
+  const recognized = await recognizeImage(await readDocumentImage(document, config));
+  const result: OcrResult = {
+    ...recognized,
+    fileName: document.fileName,
+    documentId: id,
+    timestamp: Date.now(),
+  };
+
+  // Only keep the text if the file it was read from is still current
+  const saved = await updateDocument(postId, id, (current) => {
+    if (current.deletedAt !== undefined) {
+      throw new OcrRejectedError('Document is in the trash', 409);
+    }
+    if (
+      current.contentHash !== document.contentHash ||
+      current.fileVersion !== document.fileVersion
+    ) {
+      throw new OcrRejectedError('Document file changed while it was being read', 409);
+    }
+    return { ...current, ocrText: result.text };
+  });
+  if (!saved) {
+    return null;
+  }
+
+  await recordResult(postId, result);
+  console.log(
+    `[OCR] Recognized ${result.words.length} words in document ${id} (confidence ${result.confidence})`
+  );
+  return { result, document: saved };
+}
+
+/**
+ * Past OCR results for a post, newest first
+ */
+export async function getOcrHistory(postId: string): Promise<OcrResult[]> {
+  const entries = await redis.zRange(historyKey(postId), 0, -1, { by: 'rank', reverse: true });
+  return entries.map((entry) => JSON.parse(entry.member) as OcrResult);
+}
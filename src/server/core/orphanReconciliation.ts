@@ -0,0 +1,364 @@
+/**
+ * Orphan reconciliation between Redis metadata and external storage
+ *
+ * Finds orphans in both directions for one storage provider:
+ *   - missing blobs: files of documents, in the list or the trash, and of their
+ *     earlier file versions that no longer exist in the provider
+ *   - orphaned blobs: files in the provider that no document references (failed
+ *     uploads, copies left behind by a storage migration, legacy list eviction)
+ *
+ * A provider can be shared by several subreddits (one bucket, table or directory),
+ * while Redis only knows this subreddit's documents. Files are therefore only
+ * considered when they were uploaded to one of this subreddit's posts; files of
+ * other posts, or whose post is unknown, are never reported or deleted.
+ *
+ * A scan only reports. Purging is a separate, explicit step that re-checks each
+ * orphan from the last completed scan before deleting it. A document whose current
+ * file is missing is removed; a missing earlier version is only reported, as the
+ * document still works without it. Like storage migration, scans run in batches
+ * and save their progress in Redis.
+ *
+ * Key layout:
+ *   reconcile:storage:{provider}   progress and report JSON
+ */
+
+import { redis } from '@devvit/web/server';
+import type { AppConfig } from '../config';
+import { StorageFactory, type ExternalStorageProvider } from '../storage/StorageFactory.js';
+import { StorageError, StorageErrorCode, type StorageAdapter } from '../storage/StorageAdapter.js';
+import type { DocumentMetadata } from '../../shared/types/api';
+import {
+  getDocument,
+  getDocumentByStorageKey,
+  isBlobStorageKeyInUse,
+  listDocumentPosts,
+  listDocumentVersions,
+  listDocuments,
+  listTrash,
+  removeDocument,
+} from './documents';
+
+export const DEFAULT_RECONCILIATION_BATCH_SIZE = 50;
+
+// Blobs younger than this may belong to an upload whose metadata isn't saved yet
+const ORPHAN_GRACE_PERIOD_MS = 60 * 60 * 1000;
+// Keep the stored report bounded; purge and scan again to find the rest
+const MAX_REPORTED_ORPHANS = 200;
+const REPORT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const reportKey = (provider: string) => `reconcile:storage:${provider}`;
+
+export interface MissingBlob {
+  postId: string;
+  documentId: string;
+  fileName: string;
+  storageKey: string;
+  fileVersion?: number; // Set for an earlier file version
+  trashed?: boolean; // Set for a document in the trash
+}
+
+export interface OrphanedBlob {
+  postId: string;
+  storageKey: string;
+  createdAt: number;
+}
+
+/**
+ * Progress and results of a reconciliation scan
+ */
+export interface ReconciliationReport {
+  provider: ExternalStorageProvider;
+  status: 'running' | 'completed' | 'purged';
+  phase: 'documents' | 'trash' | 'blobs';
+  startedAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  purgedAt?: number;
+  postIds: string[];
+  postIndex: number; // Post currently being walked (documents and trash phases)
+  cursor: string | null; // listDocuments or listTrash cursor within that post
+  blobCursor: string | null; // listKeys cursor (blobs phase)
+  documentsScanned: number;
+  blobsScanned: number; // Only files uploaded to this subreddit's posts
+  missingBlobs: MissingBlob[];
+  orphanedBlobs: OrphanedBlob[];
+  truncated: boolean; // More orphans exist than were recorded
+  purgedDocuments: number;
+  purgedBlobs: number;
+}
+
+/**
+ * Get the saved report for a provider, if a scan has been started
+ */
+export async function getReconciliationReport(
+  provider: ExternalStorageProvider
+): Promise<ReconciliationReport | null> {
+  const json = await redis.get(reportKey(provider));
+  return json ? JSON.parse(json) : null;
+}
+
+async function saveReport(report: ReconciliationReport): Promise<void> {
+  report.updatedAt = Date.now();
+  await redis.set(reportKey(report.provider), JSON.stringify(report));
+  await redis.expire(reportKey(report.provider), REPORT_TTL_SECONDS);
+}
+
+function recordOrphan<T>(report: ReconciliationReport, list: T[], orphan: T): void {
+  if (report.missingBlobs.length + report.orphanedBlobs.length < MAX_REPORTED_ORPHANS) {
+    list.push(orphan);
+  } else {
+    report.truncated = true;
+  }
+}
+
+/**
+ * Check a document's current file and its earlier file versions. Versions come
+ * with their file's current location, so shared files are checked where they are.
+ */
+async function scanDocumentFiles(
+  report: ReconciliationReport,
+  adapter: StorageAdapter,
+  postId: string,
+  document: DocumentMetadata
+): Promise<void> {
+  const history = await listDocumentVersions(postId, document.id);
+  if (!history) {
+    return;
+  }
+
+  // The current file first, so a key it shares with older versions is reported for it
+  const versions = [...history.versions].sort(
+    (a, b) =>
+      Number(b.number === history.currentVersion) - Number(a.number === history.currentVersion)
+  );
+  const checked = new Set<string>();
+  for (const version of versions) {
+    if (
+      version.storageProvider !== report.provider ||
+      !version.storageKey ||
+      checked.has(version.storageKey)
+    ) {
+      continue;
+    }
+    checked.add(version.storageKey);
+    if (!(await adapter.exists(version.storageKey))) {
+      recordOrphan(report, report.missingBlobs, {
+        postId,
+        documentId: document.id,
+        fileName: version.fileName,
+        storageKey: version.storageKey,
+        ...(version.number !== history.currentVersion ? { fileVersion: version.number } : {}),
+        ...(document.deletedAt !== undefined ? { trashed: true } : {}),
+      });
+    }
+  }
+}
+
+/**
+ * Check a batch of documents, or of trashed documents, for missing blobs
+ * @returns Number of documents checked
+ */
+async function scanDocuments(
+  report: ReconciliationReport,
+  adapter: StorageAdapter,
+  batchSize: number
+): Promise<number> {
+  const postId = report.postIds[report.postIndex]!;
+  const list = report.phase === 'trash' ? listTrash : listDocuments;
+  const page = await list(postId, report.cursor ?? undefined, batchSize);
+
+  for (const document of page.documents) {
+    report.documentsScanned++;
+    await scanDocumentFiles(report, adapter, postId, document);
+  }
+
+  if (page.nextCursor) {
+    report.cursor = page.nextCursor;
+  } else if (report.phase !== 'trash') {
+    report.phase = 'trash';
+    report.cursor = null;
+  } else {
+    report.postIndex++;
+    report.phase = 'documents';
+    report.cursor = null;
+  }
+  return page.documents.length;
+}
+
+/**
+ * Whether a file belongs to one of this subreddit's posts. Files of other
+ * subreddits sharing the provider, or without a known post, are left alone.
+ */
+function isOwnFile(report: ReconciliationReport, postId: string): boolean {
+  return !!postId && report.postIds.includes(postId);
+}
+
+async function isReferenced(
+  provider: ExternalStorageProvider,
+  postId: string,
+  storageKey: string
+): Promise<boolean> {
+  // Shared files are referenced from any post, not just the one that uploaded them
+  if (await isBlobStorageKeyInUse(storageKey)) {
+    return true;
+  }
+  const document = await getDocumentByStorageKey(postId, storageKey);
+  return document?.storageProvider === provider;
+}
+
+/**
+ * Check a batch of stored blobs for missing metadata
+ * @returns Number of blobs checked
+ */
+async function scanBlobs(
+  report: ReconciliationReport,
+  adapter: StorageAdapter,
+  batchSize: number
+): Promise<number> {
+  const page = await adapter.listKeys(report.blobCursor ?? undefined, batchSize);
+  const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+
+  for (const key of page.keys) {
+    if (!isOwnFile(report, key.postId)) {
+      continue;
+    }
+    report.blobsScanned++;
+    if (key.createdAt > cutoff) {
+      continue;
+    }
+    if (!(await isReferenced(report.provider, key.postId, key.storageKey))) {
+      recordOrphan(report, report.orphanedBlobs, key);
+    }
+  }
+
+  report.blobCursor = page.nextCursor;
+  if (!page.nextCursor) {
+    report.status = 'completed';
+    report.completedAt = Date.now();
+  }
+  return page.keys.length;
+}
+
+/**
+ * Run (or resume) an orphan scan for a provider. Only reports; never deletes.
+ * Processes at most batchSize items per call; call again while the returned
+ * report's status is 'running'.
+ * @param provider - Provider to reconcile
+ * @param restart - Discard saved progress and start over
+ * @throws StorageError if the provider is not configured
+ */
+export async function scanForOrphans(options: {
+  config: AppConfig;
+  provider: ExternalStorageProvider;
+  batchSize?: number;
+  restart?: boolean;
+}): Promise<ReconciliationReport> {
+  const { config, provider } = options;
+  const batchSize = options.batchSize ?? DEFAULT_RECONCILIATION_BATCH_SIZE;
+  const adapter = StorageFactory.createAdapterFor(config, provider);
+
+  let report = await getReconciliationReport(provider);
+  if (!report || report.status !== 'running' || options.restart) {
+    const now = Date.now();
+    report = {
+      provider,
+      status: 'running',
+      phase: 'documents',
+      startedAt: now,
+      updatedAt: now,
+      postIds: await listDocumentPosts(),
+      postIndex: 0,
+      cursor: null,
+      blobCursor: null,
+      documentsScanned: 0,
+      blobsScanned: 0,
+      missingBlobs: [],
+      orphanedBlobs: [],
+      truncated: false,
+      purgedDocuments: 0,
+      purgedBlobs: 0,
+    };
+    console.log(`[Reconcile] Starting orphan scan of ${provider}`);
+  }
+
+  let processed = 0;
+  while (processed < batchSize && report.status === 'running') {
+    if (report.phase !== 'blobs') {
+      if (report.postIndex >= report.postIds.length) {
+        report.phase = 'blobs';
+        continue;
+      }
+      processed += await scanDocuments(report, adapter, batchSize - processed);
+    } else {
+      processed += await scanBlobs(report, adapter, batchSize - processed);
+    }
+    await saveReport(report);
+  }
+
+  if (report.status === 'completed') {
+    console.log(
+      `[Reconcile] Scan of ${provider} complete: ${report.missingBlobs.length} documents missing blobs, ${report.orphanedBlobs.length} orphaned blobs${report.truncated ? ' (truncated)' : ''}`
+    );
+  }
+  return report;
+}
+
+/**
+ * Purge the orphans found by the last completed scan
+ * Each orphan is re-checked first, so anything fixed since the scan is kept.
+ * @returns The report with purge counts, or null if there is no completed scan
+ */
+export async function purgeOrphans(options: {
+  config: AppConfig;
+  provider: ExternalStorageProvider;
+}): Promise<ReconciliationReport | null> {
+  const { config, provider } = options;
+  const report = await getReconciliationReport(provider);
+  if (!report || report.status !== 'completed') {
+    return null;
+  }
+
+  const adapter = StorageFactory.createAdapterFor(config, provider);
+
+  for (const orphan of report.missingBlobs) {
+    // Earlier versions are only reported; the document still has a working file
+    if (orphan.fileVersion !== undefined) {
+      continue;
+    }
+    const document = await getDocument(orphan.postId, orphan.documentId);
+    if (
+      !document ||
+      document.storageKey !== orphan.storageKey ||
+      (await adapter.exists(orphan.storageKey))
+    ) {
+      continue;
+    }
+    if (await removeDocument(orphan.postId, orphan.documentId, document.version)) {
+      report.purgedDocuments++;
+      console.log(`[Reconcile] Removed document ${orphan.documentId} with missing blob`);
+    }
+  }
+
+  for (const orphan of report.orphanedBlobs) {
+    if (
+      !isOwnFile(report, orphan.postId) ||
+      (await isReferenced(provider, orphan.postId, orphan.storageKey))
+    ) {
+      continue;
+    }
+    try {
+      await adapter.delete(orphan.storageKey);
+      report.purgedBlobs++;
+      console.log(`[Reconcile] Deleted orphaned blob ${orphan.storageKey}`);
+    } catch (error) {
+      if (!(error instanceof StorageError && error.code === StorageErrorCode.NOT_FOUND)) {
+        console.error(`[Reconcile] Failed to delete orphaned blob ${orphan.storageKey}:`, error);
+      }
+    }
+  }
+
+  report.status = 'purged';
+  report.purgedAt = Date.now();
+  await saveReport(report);
+  return report;
+}
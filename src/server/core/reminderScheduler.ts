@@ -0,0 +1,77 @@
+/**
+ * Scheduling for document reminders
+ *
+ * Reminders are one-off Devvit scheduler jobs. The scheduler and its clock are
+ * behind the ReminderScheduler interface so that they can be replaced by
+ * FakeReminderScheduler, which keeps jobs in memory and only moves time forward
+ * when told to.
+ */
+
+import { scheduler } from '@devvit/web/server';
+
+export type ReminderJobData = {
+  postId: string;
+  reminderId: string;
+};
+
+export interface ReminderJob {
+  name: string;
+  runAt: Date;
+  data: ReminderJobData;
+}
+
+export interface ReminderScheduler {
+  /** Current time, ms since epoch */
+  now(): number;
+  /** Schedule a job; returns its id */
+  runJob(job: ReminderJob): Promise<string>;
+  cancelJob(jobId: string): Promise<void>;
+}
+
+/**
+ * The Devvit scheduler with the system clock
+ */
+export const devvitReminderScheduler: ReminderScheduler = {
+  now: () => Date.now(),
+  runJob: (job) => scheduler.runJob(job),
+  cancelJob: (jobId) => scheduler.cancelJob(jobId),
+};
+
+/**
+ * In-memory scheduler with a manual clock
+ */
+export class FakeReminderScheduler implements ReminderScheduler {
+  readonly jobs = new Map<string, ReminderJob>();
+  private nextJobId = 1;
+
+  constructor(private time: number = 0) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  async runJob(job: ReminderJob): Promise<string> {
+    const jobId = `fake-job-${this.nextJobId++}`;
+    this.jobs.set(jobId, job);
+    return jobId;
+  }
+
+  async cancelJob(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+
+  /**
+   * Move the clock forward
+   * @returns The jobs that came due, earliest first; they are removed from the schedule
+   */
+  advance(ms: number): ReminderJob[] {
+    this.time += ms;
+    const due = [...this.jobs.entries()]
+      .filter(([, job]) => job.runAt.getTime() <= this.time)
+      .sort(([, a], [, b]) => a.runAt.getTime() - b.runAt.getTime());
+    for (const [jobId] of due) {
+      this.jobs.delete(jobId);
+    }
+    return due.map(([, job]) => job);
+  }
+}
@@ -0,0 +1,223 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Document } from '../../shared/types/api';
+import { FakeReminderScheduler } from './reminderScheduler';
+import {
+  cancelReminder,
+  createReminder,
+  listReminders,
+  REMINDER_TASK,
+  ReminderRejectedError,
+  rescheduleReminders,
+  runReminder,
+  type ReminderSender,
+} from './reminders';
+
+// Reminder hashes in memory, and documents by id
+const { hashes, documents } = vi.hoisted(() => ({
+  hashes: new Map<string, Map<string, string>>(),
+  documents: new Map<string, Document>(),
+}));
+vi.mock('@devvit/web/server', () => ({
+  redis: {
+    hGet: async (key: string, field: string) => hashes.get(key)?.get(field),
+    hGetAll: async (key: string) => Object.fromEntries(hashes.get(key) ?? []),
+    hSet: async (key: string, values: Record<string, string>) => {
+      const hash = hashes.get(key) ?? new Map<string, string>();
+      Object.entries(values).forEach(([field, value]) => hash.set(field, value));
+      hashes.set(key, hash);
+      return Object.keys(values).length;
+    },
+    hDel: async (key: string, fields: string[]) => {
+      fields.forEach((field) => hashes.get(key)?.delete(field));
+      return fields.length;
+    },
+  },
+  reddit: {},
+}));
+vi.mock('./documents', () => ({
+  getDocument: async (_postId: string, id: string) => documents.get(id) ?? null,
+}));
+
+const POST_ID = 't3_post';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1, 12);
+
+const addDocument = (dueDate: string, changes: Partial<Document> = {}) => {
+  const document: Document = {
+    id: 'doc_1',
+    fileName: 'bill.pdf',
+    fileType: 'application/pdf',
+    fileSize: 100,
+    description: 'Electric bill',
+    notes: '',
+    timestamp: START,
+    storageProvider: 'redis',
+    fields: { schemaId: 'bill', values: { dueDate } },
+    ...changes,
+  };
+  documents.set(document.id, document);
+  return document;
+};
+
+describe('reminders', () => {
+  let scheduler: FakeReminderScheduler;
+  let send: ReturnType<typeof vi.fn<ReminderSender>>;
+
+  beforeEach(() => {
+    hashes.clear();
+    documents.clear();
+    scheduler = new FakeReminderScheduler(START);
+    send = vi.fn<ReminderSender>(async () => {});
+  });
+
+  const remind = (daysBefore = 3) =>
+    createReminder(POST_ID, { documentId: 'doc_1', daysBefore }, 'alice', scheduler);
+
+  // Move the clock and run the reminders that came due, as the scheduler task would
+  const advance = async (ms: number) => {
+    const due = scheduler.advance(ms);
+    return Promise.all(
+      due.map((job) => runReminder(job.data.postId, job.data.reminderId, { scheduler, send }))
+    );
+  };
+
+  describe('createReminder', () => {
+    it('schedules a job for the reminder day', async () => {
+      addDocument('2026-01-20');
+
+      const reminder = await remind();
+
+      const remindAt = Date.UTC(2026, 0, 17, 9);
+      expect(reminder).toMatchObject({ dueDate: '2026-01-20', remindAt, status: 'scheduled' });
+      expect([...scheduler.jobs.values()]).toEqual([
+        {
+          name: REMINDER_TASK,
+          runAt: new Date(remindAt),
+          data: { postId: POST_ID, reminderId: reminder.id },
+        },
+      ]);
+    });
+
+    it('rejects a reminder time that has already passed', async () => {
+      addDocument('2026-01-03');
+
+      await expect(remind()).rejects.toThrow(ReminderRejectedError);
+      expect(scheduler.jobs.size).toBe(0);
+      expect(await listReminders(POST_ID)).toEqual([]);
+    });
+  });
+
+  describe('cancelReminder', () => {
+    it('removes the job and the reminder', async () => {
+      addDocument('2026-01-20');
+      const reminder = await remind();
+
+      expect(await cancelReminder(POST_ID, reminder.id, scheduler)).toBe(true);
+
+      expect(scheduler.jobs.size).toBe(0);
+      expect(await listReminders(POST_ID)).toEqual([]);
+      expect(await cancelReminder(POST_ID, reminder.id, scheduler)).toBe(false);
+    });
+  });
+
+  describe('rescheduleReminders', () => {
+    it('moves the job when the due date is edited to an earlier date', async () => {
+      addDocument('2026-01-20');
+      const reminder = await remind();
+
+      const [moved] = await rescheduleReminders(POST_ID, addDocument('2026-01-10'), scheduler);
+
+      const remindAt = Date.UTC(2026, 0, 7, 9);
+      expect(moved).toMatchObject({ id: reminder.id, dueDate: '2026-01-10', remindAt });
+      expect([...scheduler.jobs.values()].map((job) => job.runAt)).toEqual([new Date(remindAt)]);
+
+      const [sent] = await advance(6 * DAY_MS);
+      expect(sent?.status).toBe('sent');
+    });
+
+    it('fails a reminder whose new time has already passed', async () => {
+      addDocument('2026-01-20');
+      const reminder = await remind();
+
+      const [failed] = await rescheduleReminders(POST_ID, addDocument('2026-01-02'), scheduler);
+
+      expect(failed).toMatchObject({
+        id: reminder.id,
+        status: 'failed',
+        error: 'The new reminder time has already passed',
+      });
+      expect(scheduler.jobs.size).toBe(0);
+    });
+
+    it('leaves reminders alone when the due date did not change', async () => {
+      addDocument('2026-01-20');
+      await remind();
+
+      expect(await rescheduleReminders(POST_ID, addDocument('2026-01-20'), scheduler)).toEqual([]);
+      expect(scheduler.jobs.size).toBe(1);
+    });
+  });
+
+  describe('runReminder', () => {
+    it('sends the reminder when its job comes due', async () => {
+      addDocument('2026-01-20');
+      const reminder = await remind();
+
+      expect(await advance(15 * DAY_MS)).toEqual([]);
+      const [sent] = await advance(DAY_MS);
+
+      expect(sent).toMatchObject({ id: reminder.id, status: 'sent' });
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0]?.[2].subject).toBe('Reminder: Electric bill is due in 3 days');
+    });
+
+    it('moves the job when the due date is later', async () => {
+      addDocument('2026-01-20');
+      const reminder = await remind();
+      addDocument('2026-01-25');
+
+      const [moved] = await advance(16 * DAY_MS);
+
+      const remindAt = Date.UTC(2026, 0, 22, 9);
+      expect(moved).toMatchObject({ id: reminder.id, dueDate: '2026-01-25', remindAt });
+      expect(moved?.status).toBe('scheduled');
+      expect(send).not.toHaveBeenCalled();
+      expect([...scheduler.jobs.values()].map((job) => job.runAt)).toEqual([new Date(remindAt)]);
+    });
+
+    it('says a due date that has passed is overdue', async () => {
+      addDocument('2026-01-20');
+      await remind(0);
+      addDocument('2026-01-18');
+
+      await advance(19 * DAY_MS);
+
+      expect(send.mock.calls[0]?.[2].subject).toBe('Reminder: Electric bill was due 2 days ago');
+    });
+
+    it('ignores a job that runs well before the reminder time', async () => {
+      addDocument('2026-01-20');
+      const reminder = await remind();
+
+      const early = await runReminder(POST_ID, reminder.id, { scheduler, send });
+
+      expect(early?.status).toBe('scheduled');
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('fails without sending when the document is in the trash', async () => {
+      addDocument('2026-01-20');
+      const reminder = await remind();
+      addDocument('2026-01-20', { deletedAt: START + DAY_MS, deletedBy: 'alice' });
+
+      const [failed] = await advance(16 * DAY_MS);
+
+      expect(failed).toMatchObject({
+        id: reminder.id,
+        status: 'failed',
+        error: 'The document was deleted',
+      });
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Due-date reminders
+ *
+ * A reminder sends a Reddit private message to the user who set it, or posts a
+ * comment on the post, a number of days before a document's dueDate field
+ * (extracted by AI or entered by hand). Each reminder is a one-off scheduler job;
+ * the reminders themselves are kept per post so they can be listed and cancelled.
+ * When an edit or an analysis changes the due date, scheduled reminders are moved
+ * to match; a reminder whose new time has already passed is marked failed.
+ */
+
+import { reddit, redis } from '@devvit/web/server';
+import type { Document, Reminder, ReminderDelivery } from '../../shared/types/api';
+import { getDocument } from './documents';
+import { devvitReminderScheduler, type ReminderScheduler } from './reminderScheduler';
+
+export const REMINDER_TASK = 'document-reminder';
+export const DEFAULT_REMINDER_DAYS_BEFORE = 3;
+export const MAX_REMINDER_DAYS_BEFORE = 90;
+const MAX_REMINDERS_PER_DOCUMENT = 5;
+
+// Reminders go out at this hour (UTC) on their day
+const REMINDER_HOUR_UTC = 9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How early a job may run and still count as the reminder's current job
+const JOB_EARLY_MS = 60 * 1000;
+
+const DELIVERIES: ReminderDelivery[] = ['message', 'comment'];
+
+const remindersKey = (postId: string) => `reminders:${postId}`;
+
+interface StoredReminder extends Reminder {
+  jobId?: string;
+}
+
+/**
+ * Sends a reminder's text; replaceable so reminders can be run without Reddit
+ */
+export type ReminderSender = (
+  postId: string,
+  reminder: Reminder,
+  message: { subject: string; text: string }
+) => Promise<void>;
+
+const sendWithReddit: ReminderSender = async (postId, reminder, { subject, text }) => {
+  if (reminder.delivery === 'comment') {
+    if (!postId.startsWith('t3_')) {
+      throw new Error(`Cannot comment on ${postId}`);
+    }
+    await reddit.submitComment({ id: postId as `t3_${string}`, text, runAs: 'APP' });
+  } else {
+    await reddit.sendPrivateMessage({ to: reminder.recipient, subject, text });
+  }
+};
+
+/**
+ * Raised when a reminder request cannot be accepted
+ */
+export class ReminderRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ReminderRejectedError';
+  }
+}
+
+const toReminder = ({ jobId: _jobId, ...reminder }: StoredReminder): Reminder => reminder;
+
+/**
+ * The document's due date, if its fields have one
+ */
+function getDueDate(document: Document): string | null {
+  const value = document.fields?.values.dueDate;
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
+/**
+ * When a reminder for a due date is sent
+ */
+function reminderTime(dueDate: string, daysBefore: number): number {
+  const [year = 0, month = 1, day = 1] = dueDate.split('-').map(Number);
+  return Date.UTC(year, month - 1, day, REMINDER_HOUR_UTC) - daysBefore * DAY_MS;
+}
+
+async function readReminders(postId: string): Promise<StoredReminder[]> {
+  const entries = await redis.hGetAll(remindersKey(postId));
+  return Object.values(entries ?? {})
+    .map((json) => JSON.parse(json) as StoredReminder)
+    .sort((a, b) => a.remindAt - b.remindAt);
+}
+
+async function writeReminder(postId: string, reminder: StoredReminder): Promise<void> {
+  await redis.hSet(remindersKey(postId), { [reminder.id]: JSON.stringify(reminder) });
+}
+
+function scheduleJob(
+  scheduler: ReminderScheduler,
+  postId: string,
+  id: string,
+  remindAt: number
+): Promise<string> {
+  return scheduler.runJob({
+    name: REMINDER_TASK,
+    runAt: new Date(remindAt),
+    data: { postId, reminderId: id },
+  });
+}
+
+async function cancelJob(scheduler: ReminderScheduler, reminder: StoredReminder): Promise<void> {
+  if (!reminder.jobId) {
+    return;
+  }
+  try {
+    await scheduler.cancelJob(reminder.jobId);
+  } catch (error) {
+    // The job may have just run; sending skips reminders that are gone or changed
+    console.error(`[Reminders] Failed to cancel job ${reminder.jobId}:`, error);
+  }
+}
+
+async function markFailed(
+  postId: string,
+  reminder: StoredReminder,
+  error: string
+): Promise<Reminder> {
+  const failed: StoredReminder = { ...reminder, status: 'failed', error };
+  delete failed.jobId;
+  await writeReminder(postId, failed);
+  console.log(`[Reminders] Did not send ${reminder.id}: ${error}`);
+  return toReminder(failed);
+}
+
+/**
+ * How the reminder describes a due date, e.g. "is due tomorrow" or "was due 2 days ago"
+ */
+function describeDueDate(dueDate: string, now: number): string {
+  const today = new Date(now).toISOString().slice(0, 10);
+  const days = Math.round((Date.parse(dueDate) - Date.parse(today)) / DAY_MS);
+  if (days < -1) return `was due ${-days} days ago`;
+  if (days === -1) return 'was due yesterday';
+  if (days === 0) return 'is due today';
+  if (days === 1) return 'is due tomorrow';
+  return `is due in ${days} days`;
+}
+
+/**
+ * A post's reminders, soonest first
+ * @param documentId - Only list reminders for this document
+ */
+export async function listReminders(postId: string, documentId?: string): Promise<Reminder[]> {
+  const reminders = await readReminders(postId);
+  return reminders
+    .filter((reminder) => !documentId || reminder.documentId === documentId)
+    .map(toReminder);
+}
+
+/**
+ * Schedule a reminder for a document's due date
+ * @param input - Request body: documentId, daysBefore, delivery
+ * @param recipient - Username that set the reminder; private messages go to them
+ * @throws ReminderRejectedError if the input is invalid, the document has no due
+ *         date, or the reminder time has passed
+ */
+export async function createReminder(
+  postId: string,
+  input: Record<string, unknown>,
+  recipient: string,
+  scheduler: ReminderScheduler = devvitReminderScheduler
+): Promise<Reminder> {
+  const { documentId, daysBefore = DEFAULT_REMINDER_DAYS_BEFORE, delivery = 'message' } = input;
+  if (typeof documentId !== 'string' || !documentId) {
+    throw new ReminderRejectedError('documentId is required');
+  }
+  if (
+    typeof daysBefore !== 'number' ||
+    !Number.isInteger(daysBefore) ||
+    daysBefore < 0 ||
+    daysBefore > MAX_REMINDER_DAYS_BEFORE
+  ) {
+    throw new ReminderRejectedError(
+      `daysBefore must be a whole number from 0 to ${MAX_REMINDER_DAYS_BEFORE}`
+    );
+  }
+  if (!DELIVERIES.includes(delivery as ReminderDelivery)) {
+    throw new ReminderRejectedError(`delivery must be one of: ${DELIVERIES.join(', ')}`);
+  }
+  if (delivery === 'message' && recipient === 'anonymous') {
+    throw new ReminderRejectedError('Log in to get reminders by private message', 401);
+  }
+
+  const document = await getDocument(postId, documentId);
+  if (!document || document.deletedAt) {
+    throw new ReminderRejectedError('Document not found', 404);
+  }
+  const dueDate = getDueDate(document);
+  if (!dueDate) {
+    throw new ReminderRejectedError('Document has no due date; add one to its fields first');
+  }
+
+  const remindAt = reminderTime(dueDate, daysBefore);
+  if (remindAt <= scheduler.now()) {
+    throw new ReminderRejectedError('That reminder time has already passed');
+  }
+
+  const existing = await readReminders(postId);
+  const pending = existing.filter(
+    (reminder) => reminder.documentId === documentId && reminder.status === 'scheduled'
+  );
+  if (pending.length >= MAX_REMINDERS_PER_DOCUMENT) {
+    throw new ReminderRejectedError(
+      `A document can have at most ${MAX_REMINDERS_PER_DOCUMENT} scheduled reminders`
+    );
+  }
+
+  const id = `reminder_${scheduler.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const jobId = await scheduleJob(scheduler, postId, id, remindAt);
+
+  const reminder: StoredReminder = {
+    id,
+    documentId,
+    dueDate,
+    daysBefore,
+    remindAt,
+    delivery: delivery as ReminderDelivery,
+    recipient,
+    status: 'scheduled',
+    createdAt: scheduler.now(),
+    jobId,
+  };
+  await writeReminder(postId, reminder);
+
+  console.log(
+    `[Reminders] Scheduled ${id} for document ${documentId} at ${new Date(remindAt).toISOString()}`
+  );
+  return toReminder(reminder);
+}
+
+/**
+ * Cancel a reminder, or remove a sent or failed one from the list
+ * @returns Whether the reminder existed
+ */
+export async function cancelReminder(
+  postId: string,
+  id: string,
+  scheduler: ReminderScheduler = devvitReminderScheduler
+): Promise<boolean> {
+  const json = await redis.hGet(remindersKey(postId), id);
+  if (!json) {
+    return false;
+  }
+
+  const reminder = JSON.parse(json) as StoredReminder;
+  if (reminder.status === 'scheduled') {
+    await cancelJob(scheduler, reminder);
+  }
+  await redis.hDel(remindersKey(postId), [id]);
+  console.log(`[Reminders] Cancelled ${id}`);
+  return true;
+}
+
+/**
+ * Move a document's scheduled reminders to its current due date. Call after a write
+ * that may have changed the document's fields. Reminders whose new time has passed,
+ * or whose document no longer has a due date, are marked failed.
+ * @returns The reminders that were moved or failed
+ */
+export async function rescheduleReminders(
+  postId: string,
+  document: Document,
+  scheduler: ReminderScheduler = devvitReminderScheduler
+): Promise<Reminder[]> {
+  const dueDate = document.deletedAt === undefined ? getDueDate(document) : null;
+  const stale = (await readReminders(postId)).filter(
+    (reminder) =>
+      reminder.documentId === document.id &&
+      reminder.status === 'scheduled' &&
+      reminder.dueDate !== dueDate
+  );
+
+  const changed: Reminder[] = [];
+  for (const reminder of stale) {
+    await cancelJob(scheduler, reminder);
+    if (!dueDate) {
+      changed.push(
+        await markFailed(
+          postId,
+          reminder,
+          document.deletedAt === undefined
+            ? 'The document no longer has a due date'
+            : 'The document was deleted'
+        )
+      );
+      continue;
+    }
+
+    const remindAt = reminderTime(dueDate, reminder.daysBefore);
+    if (remindAt <= scheduler.now()) {
+      changed.push(
+        await markFailed(
+          postId,
+          { ...reminder, dueDate },
+          'The new reminder time has already passed'
+        )
+      );
+      continue;
+    }
+
+    const jobId = await scheduleJob(scheduler, postId, reminder.id, remindAt);
+    const moved: StoredReminder = { ...reminder, dueDate, remindAt, jobId };
+    await writeReminder(postId, moved);
+    console.log(
+      `[Reminders] Due date changed; moved ${reminder.id} to ${new Date(remindAt).toISOString()}`
+    );
+    changed.push(toReminder(moved));
+  }
+  return changed;
+}
+
+/**
+ * Send a reminder whose job has come due. A reminder whose document's due date has
+ * moved later without it being rescheduled is moved instead of sent.
+ * @returns The reminder after the run, or null if it was cancelled
+ */
+export async function runReminder(
+  postId: string,
+  id: string,
+  options: { scheduler?: ReminderScheduler; send?: ReminderSender } = {}
+): Promise<Reminder | null> {
+  const { scheduler = devvitReminderScheduler, send = sendWithReddit } = options;
+
+  const json = await redis.hGet(remindersKey(postId), id);
+  if (!json) {
+    return null;
+  }
+  const reminder = JSON.parse(json) as StoredReminder;
+  if (reminder.status !== 'scheduled') {
+    return toReminder(reminder);
+  }
+  if (reminder.remindAt > scheduler.now() + JOB_EARLY_MS) {
+    // A job that could not be cancelled when the reminder was moved later
+    console.log(`[Reminders] Skipped an earlier job for ${id}`);
+    return toReminder(reminder);
+  }
+
+  const document = await getDocument(postId, reminder.documentId);
+  if (!document || document.deletedAt) {
+    return markFailed(postId, reminder, 'The document was deleted');
+  }
+  const dueDate = getDueDate(document);
+  if (!dueDate) {
+    return markFailed(postId, reminder, 'The document no longer has a due date');
+  }
+
+  if (dueDate !== reminder.dueDate) {
+    const remindAt = reminderTime(dueDate, reminder.daysBefore);
+    if (remindAt > scheduler.now()) {
+      const jobId = await scheduleJob(scheduler, postId, id, remindAt);
+      const moved: StoredReminder = { ...reminder, dueDate, remindAt, jobId };
+      await writeReminder(postId, moved);
+      console.log(
+        `[Reminders] Due date changed; moved ${id} to ${new Date(remindAt).toISOString()}`
+      );
+      return toReminder(moved);
+    }
+  }
+
+  const when = describeDueDate(dueDate, scheduler.now());
+  const message = {
+    subject: `Reminder: ${document.description} ${when}`,
+    text: `"${document.description}" (${document.fileName}) ${when} (${dueDate}).\n\nOpen the document manager post to view it: https://www.reddit.com/comments/${postId.replace(/^t3_/, '')}`,
+  };
+
+  try {
+    await send(postId, reminder, message);
+  } catch (error) {
+    console.error(`[Reminders] Failed to send ${id}:`, error);
+    return markFailed(postId, reminder, error instanceof Error ? error.message : 'Failed to send');
+  }
+
+  const sent: StoredReminder = { ...reminder, dueDate, status: 'sent', sentAt: scheduler.now() };
+  delete sent.jobId;
+  await writeReminder(postId, sent);
+  console.log(`[Reminders] Sent ${id} by ${reminder.delivery}`);
+  return toReminder(sent);
+}
@@ -0,0 +1,155 @@
+/**
+ * Document search
+ *
+ * Queries the inverted index in searchIndex.ts and builds highlighted snippets
+ * from the matching documents. Posts that held documents before search existed
+ * are indexed in full the first time they are searched.
+ */
+
+import type {
+  DocumentMetadata,
+  SearchField,
+  SearchResult,
+  SearchSnippet,
+} from '../../shared/types/api';
+import { getDocument, listDocuments, MAX_PAGE_SIZE, toMetadata } from './documents';
+import {
+  SEARCH_FIELD_WEIGHTS,
+  indexDocument,
+  isIndexBuilt,
+  markIndexBuilt,
+  queryIndex,
+  tokenize,
+  unindexDocument,
+} from './searchIndex';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+// Query terms beyond this are ignored
+const MAX_QUERY_TERMS = 8;
+
+// Snippets per result, and the length of the excerpt each one shows
+const MAX_SNIPPETS = 2;
+const SNIPPET_LENGTH = 160;
+
+// Characters of context kept before the first match in a long field
+const SNIPPET_LEAD = 40;
+
+/**
+ * Index every document in a post, once
+ */
+async function ensureIndex(postId: string): Promise<void> {
+  if (await isIndexBuilt(postId)) {
+    return;
+  }
+
+  let cursor: string | null = null;
+  let indexed = 0;
+  do {
+    const page = await listDocuments(postId, cursor ?? undefined, MAX_PAGE_SIZE);
+    for (const document of page.documents) {
+      await indexDocument(postId, document);
+    }
+    indexed += page.documents.length;
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  await markIndexBuilt(postId);
+  console.log(`[Search] Indexed ${indexed} existing documents in post ${postId}`);
+}
+
+/**
+ * Excerpt of a field around its first match, with every matched word highlighted
+ * @returns The snippet, or null if no word in the field matches a query term
+ */
+function buildSnippet(
+  field: SearchField,
+  text: string,
+  queryTerms: string[]
+): SearchSnippet | null {
+  const matches: [number, number][] = [];
+  for (const word of text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)) {
+    const [term] = tokenize(word[0]);
+    if (term && queryTerms.some((queryTerm) => term.startsWith(queryTerm))) {
+      matches.push([word.index, word.index + word[0].length]);
+    }
+  }
+
+  const first = matches[0];
+  if (!first) {
+    return null;
+  }
+  if (text.length <= SNIPPET_LENGTH) {
+    return { field, text, highlights: matches };
+  }
+
+  const start = Math.max(0, Math.min(first[0] - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const offset = prefix.length - start;
+  return {
+    field,
+    text: prefix + text.slice(start, end) + (end < text.length ? '…' : ''),
+    highlights: matches
+      .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+      .map(([matchStart, matchEnd]) => [matchStart + offset, matchEnd + offset]),
+  };
+}
+
+function buildSnippets(document: DocumentMetadata, queryTerms: string[]): SearchSnippet[] {
+  const snippets: SearchSnippet[] = [];
+  for (const field of Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]) {
+    const text = document[field];
+    const snippet = text ? buildSnippet(field, text, queryTerms) : null;
+    if (snippet) {
+      snippets.push(snippet);
+    }
+    if (snippets.length === MAX_SNIPPETS) break;
+  }
+  return snippets;
+}
+
+/**
+ * Search a post's documents. Every query term must match a whole term or the
+ * start of one; trashed documents are not included.
+ * @param limit - Results to return, clamped to MAX_PAGE_SIZE
+ * @returns The best matches with snippets, and the number of matching documents
+ */
+export async function searchDocuments(
+  postId: string,
+  query: string,
+  limit: number = DEFAULT_SEARCH_LIMIT
+): Promise<{ results: SearchResult[]; total: number }> {
+  const queryTerms = [...new Set(tokenize(query))].slice(0, MAX_QUERY_TERMS);
+  if (queryTerms.length === 0) {
+    return { results: [], total: 0 };
+  }
+
+  await ensureIndex(postId);
+  const ranked = await queryIndex(postId, queryTerms);
+  const top = ranked.slice(0, Math.min(Math.max(1, limit), MAX_PAGE_SIZE));
+
+  const documents = await Promise.all(top.map(({ id }) => getDocument(postId, id)));
+  const results: SearchResult[] = [];
+  let stale = 0;
+  for (const [index, document] of documents.entries()) {
+    const entry = top[index];
+    if (!entry) continue;
+
+    // Left behind by a failed index update
+    if (!document || document.deletedAt !== undefined) {
+      await unindexDocument(postId, entry.id);
+      stale++;
+      continue;
+    }
+
+    const metadata = toMetadata(document);
+    results.push({
+      document: metadata,
+      score: entry.score,
+      snippets: buildSnippets(metadata, queryTerms),
+    });
+  }
+
+  return { results, total: ranked.length - stale };
+}
@@ -0,0 +1,208 @@
+/**
+ * Inverted index for document search
+ *
+ * Each document's searchable fields are split into normalized terms. Every term
+ * has a posting set of the documents that contain it, scored by field weight, and
+ * a per-post dictionary of terms (all scored 0, so it is ordered by term) lets a
+ * query expand a prefix to the terms that start with it.
+ *
+ * The repository (documents.ts) refreshes a document's entries after every write
+ * and removes them when it is trashed or deleted. Index writes are not part of the
+ * document transaction; a failed refresh is logged and fixed by the next write.
+ *
+ * Key layout (per post):
+ *   search:{postId}:term:{term}     sorted set of document ids, score = term weight
+ *   search:{postId}:terms           sorted set of every indexed term, score = 0
+ *   search:{postId}:doc:{id}        JSON array of the terms indexed for a document
+ *   search:{postId}:built           set once every existing document has been indexed
+ */
+
+import { redis } from '@devvit/web/server';
+import type { DocumentMetadata, SearchField } from '../../shared/types/api';
+
+// Fields in snippet order, with the weight a term found in each one adds to its score
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  description: 4,
+  notes: 2,
+  ocrText: 1,
+  fileName: 3,
+};
+
+// Occurrences of a term in one field that still add to its score
+const MAX_TERM_COUNT = 3;
+
+// Distinct terms indexed per document; long OCR text keeps its most frequent terms
+const MAX_TERMS_PER_DOCUMENT = 300;
+
+// Terms a single query prefix can expand to
+const MAX_PREFIX_EXPANSION = 50;
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+
+const termKey = (postId: string, term: string) => `search:${postId}:term:${term}`;
+const termsKey = (postId: string) => `search:${postId}:terms`;
+const documentTermsKey = (postId: string, id: string) => `search:${postId}:doc:${id}`;
+const builtKey = (postId: string) => `search:${postId}:built`;
+
+/**
+ * Split text into lowercase terms with diacritics removed
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH);
+}
+
+/**
+ * Weight of every term in a document, keeping the highest-weighted terms
+ */
+function weighTerms(document: DocumentMetadata): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const [field, weight] of Object.entries(SEARCH_FIELD_WEIGHTS)) {
+    const text = document[field as SearchField];
+    if (!text) continue;
+
+    const counts = new Map<string, number>();
+    for (const term of tokenize(text)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    for (const [term, count] of counts) {
+      weights.set(term, (weights.get(term) ?? 0) + weight * Math.min(count, MAX_TERM_COUNT));
+    }
+  }
+
+  if (weights.size <= MAX_TERMS_PER_DOCUMENT) {
+    return weights;
+  }
+  return new Map([...weights].sort((a, b) => b[1] - a[1]).slice(0, MAX_TERMS_PER_DOCUMENT));
+}
+
+async function readDocumentTerms(postId: string, id: string): Promise<string[]> {
+  const json = await redis.get(documentTermsKey(postId, id));
+  return json ? (JSON.parse(json) as string[]) : [];
+}
+
+/**
+ * Drop terms from the dictionary once no document contains them
+ */
+async function pruneTerms(postId: string, terms: string[]): Promise<void> {
+  await Promise.all(
+    terms.map(async (term) => {
+      if ((await redis.zCard(termKey(postId, term))) === 0) {
+        await redis.zRem(termsKey(postId), [term]);
+      }
+    })
+  );
+}
+
+/**
+ * Add or refresh a document's index entries. Failures are logged only.
+ */
+export async function indexDocument(postId: string, document: DocumentMetadata): Promise<void> {
+  try {
+    const weights = weighTerms(document);
+    const previous = await readDocumentTerms(postId, document.id);
+    const stale = previous.filter((term) => !weights.has(term));
+
+    await Promise.all(stale.map((term) => redis.zRem(termKey(postId, term), [document.id])));
+    await Promise.all(
+      [...weights].map(([term, score]) =>
+        redis.zAdd(termKey(postId, term), { member: document.id, score })
+      )
+    );
+    if (weights.size > 0) {
+      await redis.zAdd(
+        termsKey(postId),
+        ...[...weights.keys()].map((term) => ({ member: term, score: 0 }))
+      );
+    }
+    await redis.set(documentTermsKey(postId, document.id), JSON.stringify([...weights.keys()]));
+    await pruneTerms(postId, stale);
+  } catch (error) {
+    console.error(`[Search] Failed to index document ${document.id}:`, error);
+  }
+}
+
+/**
+ * Remove a document from the index. Failures are logged only.
+ */
+export async function unindexDocument(postId: string, id: string): Promise<void> {
+  try {
+    const terms = await readDocumentTerms(postId, id);
+    await Promise.all(terms.map((term) => redis.zRem(termKey(postId, term), [id])));
+    await redis.del(documentTermsKey(postId, id));
+    await pruneTerms(postId, terms);
+  } catch (error) {
+    console.error(`[Search] Failed to remove document ${id} from the index:`, error);
+  }
+}
+
+/**
+ * Whether every document stored before the index existed has been indexed
+ */
+export async function isIndexBuilt(postId: string): Promise<boolean> {
+  return (await redis.exists(builtKey(postId))) > 0;
+}
+
+export async function markIndexBuilt(postId: string): Promise<void> {
+  await redis.set(builtKey(postId), String(Date.now()));
+}
+
+/**
+ * Find the documents that contain every query term, as a whole term or as a
+ * prefix of one. Whole-term matches score twice as much as prefix matches.
+ * @returns Document ids with their scores, best first
+ */
+export async function queryIndex(
+  postId: string,
+  queryTerms: string[]
+): Promise<{ id: string; score: number }[]> {
+  let scores: Map<string, number> | null = null;
+
+  for (const queryTerm of queryTerms) {
+    const expanded = await redis.zRange(
+      termsKey(postId),
+      `[${queryTerm}`,
+      `[${queryTerm}\u{10ffff}`,
+      {
+        by: 'lex',
+        limit: { offset: 0, count: MAX_PREFIX_EXPANSION },
+      }
+    );
+
+    // Best score per document across the terms this query term matches
+    const matches = new Map<string, number>();
+    const postings = await Promise.all(
+      expanded.map(({ member: term }) =>
+        redis
+          .zRange(termKey(postId, term), 0, -1, { by: 'rank' })
+          .then((entries) => ({ term, entries }))
+      )
+    );
+    for (const { term, entries } of postings) {
+      const factor = term === queryTerm ? 1 : 0.5;
+      for (const { member: id, score } of entries) {
+        matches.set(id, Math.max(matches.get(id) ?? 0, score * factor));
+      }
+    }
+
+    const combined = new Map<string, number>();
+    for (const [id, score] of matches) {
+      if (!scores) {
+        combined.set(id, score);
+      } else if (scores.has(id)) {
+        combined.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+    scores = combined;
+    if (scores.size === 0) break;
+  }
+
+  return [...(scores ?? [])]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
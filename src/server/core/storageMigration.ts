@@ -0,0 +1,405 @@
+/**
+ * Storage migration between providers
+ *
+ * Copies each document's payload from where it currently lives (Redis base64 or
+ * another storage adapter) to a target adapter, verifies the copy by size and
+ * SHA-256, then points the document at its new storageKey. Documents in the
+ * trash and the earlier file versions of every document are moved as well, so
+ * restoring or rolling back still works once the old provider is retired.
+ *
+ * Each post is walked twice, first its documents and then its trash. Work is
+ * done in batches and progress is saved in Redis after every page, so a run that
+ * is stopped or times out resumes where it left off the next time it is started.
+ *
+ * Blobs on the source provider are left in place; only the Redis payload of a
+ * migrated file is removed (by updateDocument and moveFileVersion).
+ *
+ * Key layout:
+ *   migration:storage:{scope}   progress and report JSON; scope is a postId or 'subreddit'
+ */
+
+import crypto from 'crypto';
+import { redis } from '@devvit/web/server';
+import type { Document, DocumentMetadata } from '../../shared/types/api';
+import type { AppConfig } from '../config';
+import { StorageFactory, type ExternalStorageProvider } from '../storage/StorageFactory.js';
+import type { StorageAdapter } from '../storage/StorageAdapter.js';
+import {
+  DocumentConflictError,
+  getDocument,
+  getDocumentVersion,
+  listDocumentPosts,
+  listDocuments,
+  listDocumentVersions,
+  listTrash,
+  moveFileVersion,
+  updateDocument,
+  type FileLocation,
+} from './documents';
+
+export const DEFAULT_MIGRATION_BATCH_SIZE = 10;
+
+// Keep the stored report bounded; the counters still include every failure
+const MAX_REPORTED_FAILURES = 50;
+const REPORT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const reportKey = (scope: string) => `migration:storage:${scope}`;
+
+export type MigrationTarget = ExternalStorageProvider;
+
+export interface MigrationFailure {
+  postId: string;
+  documentId: string;
+  fileVersion?: number; // Set for an earlier file version
+  fileName: string;
+  reason: string;
+}
+
+/**
+ * Progress and results of a migration run
+ */
+export interface MigrationReport {
+  scope: string; // postId, or 'subreddit' for every post
+  target: MigrationTarget;
+  dryRun: boolean;
+  status: 'running' | 'completed';
+  startedAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  postIds: string[];
+  postIndex: number; // Post currently being walked
+  phase: 'documents' | 'trash'; // Which list of that post is being walked
+  cursor: string | null; // listDocuments or listTrash cursor within that post
+  scanned: number; // Files: current files and earlier file versions
+  migrated: number; // In a dry run: files that would be migrated
+  skipped: number; // Already on the target provider
+  failed: number;
+  bytes: number;
+  failures: MigrationFailure[];
+}
+
+/**
+ * Get the saved report for a scope, if a migration has been started
+ */
+export async function getMigrationReport(scope: string): Promise<MigrationReport | null> {
+  const json = await redis.get(reportKey(scope));
+  return json ? JSON.parse(json) : null;
+}
+
+async function saveReport(report: MigrationReport): Promise<void> {
+  report.updatedAt = Date.now();
+  await redis.set(reportKey(report.scope), JSON.stringify(report));
+  await redis.expire(reportKey(report.scope), REPORT_TTL_SECONDS);
+}
+
+const sha256 = (buffer: Buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+/**
+ * A file to migrate: a document's current file or one of its earlier versions,
+ * at the location it is read from
+ */
+interface MigrationFile extends FileLocation {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  /** Base64 payload of a Redis-stored file */
+  loadPayload: () => Promise<string | undefined>;
+  /** Point the file at its new location; false if it no longer exists */
+  moveTo: (location: FileLocation) => Promise<boolean>;
+}
+
+interface MigrationContext {
+  target: MigrationTarget;
+  targetAdapter: StorageAdapter;
+  getSourceAdapter: (provider: MigrationTarget) => StorageAdapter;
+  dryRun: boolean;
+}
+
+/**
+ * Read a file's payload from its current provider
+ * @throws Error describing why the payload could not be read
+ */
+async function readSource(file: MigrationFile, context: MigrationContext): Promise<Buffer> {
+  if (file.storageProvider === 'redis') {
+    const imageData = await file.loadPayload();
+    if (!imageData) {
+      throw new Error('Redis payload is missing');
+    }
+    const base64 = imageData.includes(',') ? (imageData.split(',')[1] ?? '') : imageData;
+    return Buffer.from(base64, 'base64');
+  }
+
+  if (!file.storageKey) {
+    throw new Error('Document has no storage key');
+  }
+
+  const adapter = context.getSourceAdapter(file.storageProvider);
+  if (!adapter.getDocument) {
+    throw new Error(`The ${file.storageProvider} adapter cannot read documents`);
+  }
+  const stored = await adapter.getDocument(file.storageKey);
+  if (!stored) {
+    throw new Error(`Blob ${file.storageKey} not found in ${file.storageProvider}`);
+  }
+  return stored.buffer;
+}
+
+/**
+ * Copy one file to the target and rewrite its storage reference
+ * @returns Bytes copied (0 if it now shares a copy already on the target)
+ * @throws Error describing why the file could not be migrated
+ */
+async function migrateFile(
+  postId: string,
+  file: MigrationFile,
+  context: MigrationContext
+): Promise<number> {
+  const { target, targetAdapter, dryRun } = context;
+
+  // Another document with the same contents was already moved; share its copy
+  if (file.storageProvider === target && file.storageKey) {
+    if (!dryRun && !(await file.moveTo({ storageProvider: target, storageKey: file.storageKey }))) {
+      throw new Error('Document was deleted during migration');
+    }
+    return 0;
+  }
+
+  const buffer = await readSource(file, context);
+  if (buffer.length !== file.fileSize) {
+    throw new Error(`Source has ${buffer.length} bytes, expected ${file.fileSize}`);
+  }
+  if (dryRun) {
+    return buffer.length;
+  }
+
+  const checksum = sha256(buffer);
+  const result = await targetAdapter.upload(buffer, {
+    fileName: file.fileName,
+    fileType: file.fileType,
+    fileSize: buffer.length,
+    userId: 'storage-migration',
+    postId,
+  });
+
+  // Don't leave a copy behind on the target if the document isn't switched over
+  const discardCopy = async (reason: string): Promise<never> => {
+    await targetAdapter.delete(result.storageKey).catch((error) => {
+      console.error(`[Migration] Failed to remove copy ${result.storageKey}:`, error);
+    });
+    throw new Error(reason);
+  };
+
+  if (targetAdapter.getDocument) {
+    const copy = await targetAdapter.getDocument(result.storageKey);
+    if (!copy || copy.buffer.length !== buffer.length || sha256(copy.buffer) !== checksum) {
+      return discardCopy(`Checksum mismatch after copying to ${target}`);
+    }
+  }
+
+  try {
+    if (!(await file.moveTo({ storageProvider: target, storageKey: result.storageKey }))) {
+      return discardCopy('Document was deleted during migration');
+    }
+  } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      return discardCopy('Document changed during migration; run again to retry');
+    }
+    throw error;
+  }
+
+  return buffer.length;
+}
+
+/**
+ * Migrate one file and count the outcome in the report
+ */
+async function migrateAndRecord(
+  report: MigrationReport,
+  postId: string,
+  documentId: string,
+  file: MigrationFile,
+  context: MigrationContext,
+  fileVersion?: number
+): Promise<void> {
+  report.scanned++;
+  try {
+    report.bytes += await migrateFile(postId, file, context);
+    report.migrated++;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const label = fileVersion ? `Version ${fileVersion} of document` : 'Document';
+    console.error(`[Migration] ${label} ${documentId} in post ${postId} failed: ${reason}`);
+    report.failed++;
+    if (report.failures.length < MAX_REPORTED_FAILURES) {
+      report.failures.push({
+        postId,
+        documentId,
+        ...(fileVersion ? { fileVersion } : {}),
+        fileName: file.fileName,
+        reason,
+      });
+    }
+  }
+}
+
+/**
+ * Migrate a document's current file and its earlier file versions
+ */
+async function migrateDocumentFiles(
+  report: MigrationReport,
+  postId: string,
+  document: DocumentMetadata,
+  context: MigrationContext
+): Promise<void> {
+  const { target } = context;
+
+  if (document.storageProvider === target) {
+    report.scanned++;
+    report.skipped++;
+  } else {
+    // Read where the file is now; a shared copy may have been moved already
+    const current: Document = (await getDocument(postId, document.id)) ?? document;
+    await migrateAndRecord(
+      report,
+      postId,
+      document.id,
+      {
+        ...current,
+        loadPayload: async () => (await getDocument(postId, document.id, true))?.imageData,
+        moveTo: async (location) =>
+          !!(await updateDocument(
+            postId,
+            document.id,
+            (latest) => ({ ...latest, ...location }),
+            document.version
+          )),
+      },
+      context
+    );
+  }
+
+  // Versions come with the file's current location
+  const history = await listDocumentVersions(postId, document.id);
+  for (const version of history?.versions ?? []) {
+    if (version.number === history?.currentVersion) {
+      continue;
+    }
+    if (version.storageProvider === target) {
+      report.scanned++;
+      report.skipped++;
+      continue;
+    }
+    await migrateAndRecord(
+      report,
+      postId,
+      document.id,
+      {
+        ...version,
+        loadPayload: async () =>
+          (await getDocumentVersion(postId, document.id, version.number, true))?.imageData,
+        moveTo: (location) =>
+          moveFileVersion(postId, document.id, version.number, version, location),
+      },
+      context,
+      version.number
+    );
+  }
+}
+
+/**
+ * Run (or resume) a migration of every document in a scope to a target provider
+ * Processes at most batchSize documents per call; call again while the returned
+ * report's status is 'running'.
+ * @param postId - Migrate a single post; omit to migrate every post in the subreddit
+ * @param restart - Discard saved progress and start over
+ * @throws StorageError if the target provider is not configured
+ */
+export async function runStorageMigration(options: {
+  config: AppConfig;
+  target: MigrationTarget;
+  dryRun: boolean;
+  postId?: string;
+  batchSize?: number;
+  restart?: boolean;
+}): Promise<MigrationReport> {
+  const { config, target, dryRun } = options;
+  const scope = options.postId ?? 'subreddit';
+  const batchSize = options.batchSize ?? DEFAULT_MIGRATION_BATCH_SIZE;
+
+  const sourceAdapters = new Map<MigrationTarget, StorageAdapter>();
+  const context: MigrationContext = {
+    target,
+    targetAdapter: StorageFactory.createAdapterFor(config, target),
+    getSourceAdapter: (provider) => {
+      let adapter = sourceAdapters.get(provider);
+      if (!adapter) {
+        adapter = StorageFactory.createAdapterFor(config, provider);
+        sourceAdapters.set(provider, adapter);
+      }
+      return adapter;
+    },
+    dryRun,
+  };
+
+  let report = await getMigrationReport(scope);
+  const resumable =
+    report?.status === 'running' && report.target === target && report.dryRun === dryRun;
+
+  if (!report || !resumable || options.restart) {
+    const now = Date.now();
+    report = {
+      scope,
+      target,
+      dryRun,
+      status: 'running',
+      startedAt: now,
+      updatedAt: now,
+      postIds: options.postId ? [options.postId] : await listDocumentPosts(),
+      postIndex: 0,
+      phase: 'documents',
+      cursor: null,
+      scanned: 0,
+      migrated: 0,
+      skipped: 0,
+      failed: 0,
+      bytes: 0,
+      failures: [],
+    };
+    console.log(
+      `[Migration] Starting ${dryRun ? 'dry run' : 'migration'} of ${scope} to ${target} (${report.postIds.length} posts)`
+    );
+  }
+
+  let processed = 0;
+  while (processed < batchSize && report.postIndex < report.postIds.length) {
+    const postId = report.postIds[report.postIndex]!;
+    const list = report.phase === 'trash' ? listTrash : listDocuments;
+    const page = await list(postId, report.cursor ?? undefined, batchSize - processed);
+
+    for (const document of page.documents) {
+      await migrateDocumentFiles(report, postId, document, context);
+    }
+
+    processed += page.documents.length;
+    if (page.nextCursor) {
+      report.cursor = page.nextCursor;
+    } else if (report.phase !== 'trash') {
+      report.phase = 'trash';
+      report.cursor = null;
+    } else {
+      report.postIndex++;
+      report.phase = 'documents';
+      report.cursor = null;
+    }
+    await saveReport(report);
+  }
+
+  if (report.postIndex >= report.postIds.length) {
+    report.status = 'completed';
+    report.completedAt = Date.now();
+    await saveReport(report);
+    console.log(`[Migration] Completed: ${JSON.stringify(report)}`);
+  }
+
+  return report;
+}
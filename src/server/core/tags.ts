@@ -0,0 +1,217 @@
+/**
+ * Document tags
+ *
+ * Tags are short lowercase labels stored on each document (Document.tags). The
+ * repository keeps a set of documents per tag and a count of documents per tag
+ * (see documents.ts); renaming or merging tags rewrites every document that has
+ * them, including documents in the trash.
+ */
+
+import type { DocumentMetadata } from '../../shared/types/api';
+import {
+  DocumentConflictError,
+  listDocuments,
+  listTagCounts,
+  listTrash,
+  MAX_PAGE_SIZE,
+  updateDocument,
+} from './documents';
+
+export const MAX_TAGS_PER_DOCUMENT = 20;
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * Raised when a tag change cannot be applied
+ */
+export class TagRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'TagRejectedError';
+  }
+}
+
+/**
+ * Normalize a tag: lowercase, words joined with "-", letters, digits and "-" only
+ * @returns The tag, or null if nothing is left
+ */
+export function normalizeTag(value: string): string | null {
+  const tag = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^\p{L}\p{N}-]/gu, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+  return tag || null;
+}
+
+/**
+ * Validate and normalize a list of tags, dropping duplicates
+ */
+export function validateTags(value: unknown): { value: string[] } | { error: string } {
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== 'string')) {
+    return { error: 'tags must be an array of strings' };
+  }
+
+  const tags = new Set<string>();
+  for (const raw of value as string[]) {
+    const tag = normalizeTag(raw);
+    if (!tag) {
+      return { error: `"${raw}" is not a valid tag` };
+    }
+    tags.add(tag);
+  }
+  if (tags.size > MAX_TAGS_PER_DOCUMENT) {
+    return { error: `A document can have at most ${MAX_TAGS_PER_DOCUMENT} tags` };
+  }
+  return { value: [...tags] };
+}
+
+/**
+ * Tags in use in a post, most used first
+ */
+export async function listTags(postId: string): Promise<{ name: string; count: number }[]> {
+  return listTagCounts(postId);
+}
+
+/**
+ * Rewrite one document's tags
+ * @returns Whether the document was changed
+ */
+async function retagDocument(
+  postId: string,
+  document: DocumentMetadata,
+  sources: Set<string>,
+  target: string
+): Promise<boolean> {
+  let changed = false;
+  try {
+    await updateDocument(postId, document.id, (current) => {
+      if (!current.tags?.some((tag) => sources.has(tag))) {
+        return current;
+      }
+      changed = true;
+      const tags = current.tags.map((tag) => (sources.has(tag) ? target : tag));
+      return { ...current, tags: [...new Set(tags)] };
+    });
+    return changed;
+  } catch (error) {
+    if (!(error instanceof DocumentConflictError)) {
+      throw error;
+    }
+    console.log(`[Tags] Skipped document ${document.id}: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Replace source tags with a target tag on every document that has them
+ * @returns Number of documents changed
+ */
+async function replaceTagEverywhere(
+  postId: string,
+  sources: Set<string>,
+  target: string
+): Promise<number> {
+  let updated = 0;
+
+  // Retagged documents leave the source tag's set, so always read its first page
+  for (const source of sources) {
+    for (;;) {
+      const page = await listDocuments(postId, undefined, MAX_PAGE_SIZE, { tag: source });
+      let changed = 0;
+      for (const document of page.documents) {
+        if (await retagDocument(postId, document, sources, target)) {
+          changed++;
+        }
+      }
+      updated += changed;
+      // Stop if nothing could be changed (repeated conflicts), rather than loop forever
+      if (page.documents.length === 0 || changed === 0) break;
+    }
+  }
+
+  // Trashed documents are not in the tag sets; rewrite them too so a restore
+  // does not bring an old tag back
+  let cursor: string | null = null;
+  do {
+    const page = await listTrash(postId, cursor ?? undefined, MAX_PAGE_SIZE);
+    for (const document of page.documents) {
+      if (document.tags?.some((tag) => sources.has(tag))) {
+        if (await retagDocument(postId, document, sources, target)) {
+          updated++;
+        }
+      }
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return updated;
+}
+
+/**
+ * Rename a tag on every document that has it
+ * @returns The new tag and the number of documents changed
+ * @throws TagRejectedError if a tag is invalid, the tag is not in use, or the
+ *         new name is already a tag (merge the tags instead)
+ */
+export async function renameTag(
+  postId: string,
+  from: string,
+  to: string
+): Promise<{ tag: string; updated: number }> {
+  const source = normalizeTag(from);
+  const target = normalizeTag(to);
+  if (!source || !target) {
+    throw new TagRejectedError('from and to must be valid tags');
+  }
+
+  const tags = await listTagCounts(postId);
+  if (!tags.some(({ name }) => name === source)) {
+    throw new TagRejectedError(`Tag "${source}" is not in use`, 404);
+  }
+  if (source === target) {
+    return { tag: target, updated: 0 };
+  }
+  if (tags.some(({ name }) => name === target)) {
+    throw new TagRejectedError(`Tag "${target}" already exists; merge the tags instead`, 409);
+  }
+
+  const updated = await replaceTagEverywhere(postId, new Set([source]), target);
+  console.log(`[Tags] Renamed "${source}" to "${target}" on ${updated} documents`);
+  return { tag: target, updated };
+}
+
+/**
+ * Merge tags into one: documents with any source tag get the target tag instead
+ * @returns The target tag and the number of documents changed
+ * @throws TagRejectedError if a tag is invalid or no sources are given
+ */
+export async function mergeTags(
+  postId: string,
+  sources: string[],
+  target: string
+): Promise<{ tag: string; updated: number }> {
+  const normalizedTarget = normalizeTag(target);
+  const normalizedSources = sources.map(normalizeTag);
+  if (!normalizedTarget || normalizedSources.some((tag) => !tag)) {
+    throw new TagRejectedError('sources and target must be valid tags');
+  }
+
+  const merged = new Set(
+    normalizedSources.filter((tag): tag is string => !!tag && tag !== normalizedTarget)
+  );
+  if (merged.size === 0) {
+    throw new TagRejectedError('Provide at least one tag to merge into the target');
+  }
+
+  const updated = await replaceTagEverywhere(postId, merged, normalizedTarget);
+  console.log(
+    `[Tags] Merged ${[...merged].map((tag) => `"${tag}"`).join(', ')} into "${normalizedTarget}" on ${updated} documents`
+  );
+  return { tag: normalizedTarget, updated };
+}
@@ -0,0 +1,105 @@
+/**
+ * Trash retention and purging
+ *
+ * Deleted documents stay in the trash (see trashDocument) for a configurable
+ * number of days so they can be restored. Purging removes the document for good,
+ * along with its question history, and deletes its file from external storage
+ * once no other document uses it.
+ */
+
+import type { Document } from '../../shared/types/api';
+import { DEFAULT_TRASH_RETENTION_DAYS, type AppConfig } from '../config';
+import { StorageFactory } from '../storage/StorageFactory.js';
+import {
+  DocumentConflictError,
+  listExpiredTrash,
+  removeDocument,
+  type ReleasedFile,
+} from './documents';
+import { clearConversation } from './documentQa';
+
+export const DEFAULT_TRASH_PURGE_BATCH_SIZE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a trashed document is kept before the scheduled purge removes it
+ */
+export function getTrashRetentionDays(config: AppConfig): number {
+  const days = config.trashRetentionDays;
+  return typeof days === 'number' && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Delete a released file from the provider that holds it. Failures are logged
+ * only; the orphan scan finds anything left behind.
+ */
+async function deleteStoredFile(config: AppConfig, file: ReleasedFile): Promise<void> {
+  const { storageProvider, storageKey } = file;
+  try {
+    const adapter = StorageFactory.createAdapterFor(config, storageProvider);
+    await adapter.delete(storageKey);
+    console.log(`[Trash] Deleted ${storageKey} from ${storageProvider}`);
+  } catch (error) {
+    console.error(`[Trash] Failed to delete ${storageKey} from ${storageProvider}:`, error);
+  }
+}
+
+/**
+ * Permanently remove a trashed document and the files of its versions that no
+ * other document shares
+ * @param trashedBefore - Only purge if it was trashed at or before this time
+ * @param expectedVersion - If set, fail with a conflict unless the stored
+ *                          document is still at this version
+ * @returns The removed document, or null if it was already gone
+ * @throws DocumentConflictError if the document is not in the trash, on
+ *         version mismatch, or on repeated races
+ */
+export async function purgeDocument(
+  postId: string,
+  id: string,
+  config: AppConfig,
+  trashedBefore: number = Date.now(),
+  expectedVersion?: number
+): Promise<Document | null> {
+  const removed = await removeDocument(postId, id, expectedVersion, trashedBefore);
+  if (!removed) {
+    return null;
+  }
+
+  for (const file of removed.releasedFiles) {
+    await deleteStoredFile(config, file);
+  }
+  await clearConversation(postId, id);
+  return removed.document;
+}
+
+/**
+ * Purge trashed documents older than the retention period, across every post
+ * Processes at most batchSize documents per call.
+ * @returns Number of documents purged, and whether more are due
+ */
+export async function purgeExpiredTrash(
+  config: AppConfig,
+  batchSize: number = DEFAULT_TRASH_PURGE_BATCH_SIZE
+): Promise<{ purged: number; remaining: boolean }> {
+  const cutoff = Date.now() - getTrashRetentionDays(config) * DAY_MS;
+  const expired = await listExpiredTrash(cutoff, batchSize);
+
+  let purged = 0;
+  for (const entry of expired) {
+    try {
+      if (await purgeDocument(entry.postId, entry.documentId, config, cutoff)) {
+        purged++;
+      }
+    } catch (error) {
+      if (!(error instanceof DocumentConflictError)) {
+        throw error;
+      }
+      // Changed while purging (e.g. restored); the next run picks it up if still due
+      console.log(`[Trash] Skipped document ${entry.documentId}: ${error.message}`);
+    }
+  }
+
+  return { purged, remaining: expired.length === batchSize };
+}
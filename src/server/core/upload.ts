@@ -0,0 +1,270 @@
+/**
+ * Upload routing between Redis and external storage
+ *
+ * Small files are kept in Redis as base64. Files over the configured threshold
+ * go to the storage adapter selected in AppConfig, and only the storage key is
+ * kept in Redis. If the adapter fails, the file falls back to Redis when it is
+ * small enough.
+ *
+ * Uploads are hashed with SHA-256; a file whose contents are already stored is
+ * not stored again, and its document shares the existing copy.
+ */
+
+import crypto from 'crypto';
+import type { Document, UploadLimitsResponse } from '../../shared/types/api';
+import {
+  AppConfig,
+  DEFAULT_EXTERNAL_STORAGE_THRESHOLD_KB,
+  DEFAULT_REDIS_MAX_FILE_SIZE_KB,
+} from '../config';
+import { StorageFactory } from '../storage/StorageFactory';
+import type { StorageMetadata } from '../storage/StorageAdapter';
+import { addDocumentVersion, getBlob, saveDocument } from './documents';
+
+// Must match the express.json() limit in index.ts
+export const MAX_JSON_BODY_BYTES = 2 * 1024 * 1024;
+
+// Largest raw file that fits in a JSON body once base64-encoded (4/3 inflation,
+// with headroom for the other fields)
+const MAX_INLINE_FILE_BYTES = Math.floor(((MAX_JSON_BODY_BYTES - 16 * 1024) * 3) / 4);
+
+// Raw bytes per chunk for /api/uploads sessions (~340KB once base64-encoded)
+export const UPLOAD_CHUNK_SIZE_BYTES = 256 * 1024;
+
+/**
+ * Raised when a file cannot be stored under the current configuration
+ */
+export class UploadRejectedError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+/**
+ * Where a file ended up; merged into the Document record
+ */
+export type StoredFile = Pick<Document, 'storageProvider'> & {
+  storageKey?: string;
+  imageData?: string;
+};
+
+/**
+ * Resolve the effective size limits for a configuration
+ */
+export function getUploadLimits(config: AppConfig): UploadLimitsResponse {
+  const redisMaxFileSizeBytes = (config.redisMaxFileSizeKB ?? DEFAULT_REDIS_MAX_FILE_SIZE_KB) * 1024;
+  const externalStorageEnabled = config.storageProvider !== 'redis';
+  const externalThresholdBytes =
+    (config.externalStorageThresholdKB ?? DEFAULT_EXTERNAL_STORAGE_THRESHOLD_KB) * 1024;
+  const configuredMaxBytes = (config.maxFileSizeMB ?? 10) * 1024 * 1024;
+
+  return {
+    type: 'upload-limits',
+    maxFileSizeBytes: externalStorageEnabled ? configuredMaxBytes : redisMaxFileSizeBytes,
+    maxInlineFileSizeBytes: MAX_INLINE_FILE_BYTES,
+    redisMaxFileSizeBytes,
+    externalStorageEnabled,
+    externalThresholdBytes,
+    chunkSizeBytes: UPLOAD_CHUNK_SIZE_BYTES,
+  };
+}
+
+/**
+ * Store a file in Redis or the configured storage adapter
+ * @param buffer - Decoded file contents
+ * @param metadata - File metadata passed to the adapter
+ * @param config - App configuration from Redis
+ * @param limits - Size limits; defaults to getUploadLimits(config)
+ * @returns Storage provider plus either a storage key or base64 data URI
+ * @throws UploadRejectedError if the file is too large or no backend can take it
+ */
+export async function storeFile(
+  buffer: Buffer,
+  metadata: StorageMetadata,
+  config: AppConfig,
+  limits: UploadLimitsResponse = getUploadLimits(config)
+): Promise<StoredFile> {
+  const fileSize = buffer.length;
+  const sizeLabel = `${(fileSize / 1024).toFixed(2)}KB`;
+
+  if (fileSize > limits.maxFileSizeBytes) {
+    throw new UploadRejectedError(
+      `File size exceeds maximum limit of ${(limits.maxFileSizeBytes / 1024).toFixed(0)}KB. Current size: ${sizeLabel}`
+    );
+  }
+
+  const fitsInRedis = fileSize <= limits.redisMaxFileSizeBytes;
+  const redisFile: StoredFile = {
+    storageProvider: 'redis',
+    imageData: `data:${metadata.fileType};base64,${buffer.toString('base64')}`,
+  };
+
+  if (!limits.externalStorageEnabled || fileSize <= limits.externalThresholdBytes) {
+    if (!fitsInRedis) {
+      throw new UploadRejectedError(
+        `File size exceeds Redis storage limit of ${(limits.redisMaxFileSizeBytes / 1024).toFixed(0)}KB. Current size: ${sizeLabel}`
+      );
+    }
+    return redisFile;
+  }
+
+  try {
+    const adapter = StorageFactory.getAdapter(config);
+    const result = await adapter.upload(buffer, metadata);
+
+    console.log(`[Upload] ${metadata.fileName} stored in ${result.provider} (${sizeLabel})`);
+    return { storageProvider: result.provider, storageKey: result.storageKey };
+  } catch (error) {
+    console.error(`[Upload] External storage failed for ${metadata.fileName}:`, error);
+
+    if (fitsInRedis) {
+      console.log(`[Upload] Falling back to Redis for ${metadata.fileName} (${sizeLabel})`);
+      return redisFile;
+    }
+
+    throw new UploadRejectedError(
+      'External storage is unavailable and the file is too large to store in Redis',
+      502
+    );
+  }
+}
+
+/**
+ * SHA-256 of a file's contents, used as its contentHash
+ */
+export function hashContent(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+async function discardStoredFile(stored: StoredFile, config: AppConfig): Promise<void> {
+  if (stored.storageProvider === 'redis' || !stored.storageKey) {
+    return;
+  }
+  try {
+    await StorageFactory.createAdapterFor(config, stored.storageProvider).delete(stored.storageKey);
+  } catch (error) {
+    // Left for the orphan reconciliation job
+    console.error(`[Upload] Failed to discard unused copy ${stored.storageKey}:`, error);
+  }
+}
+
+/**
+ * Store an uploaded file and save its document, reusing an identical stored
+ * copy when one exists
+ * @param document - Document fields other than its storage location
+ * @param metadata - File metadata passed to the adapter
+ * @returns The saved document
+ * @throws UploadRejectedError if the file is too large or no backend can take it
+ * @throws DocumentConflictError if the document could not be saved
+ */
+export async function saveUploadedDocument(
+  postId: string,
+  buffer: Buffer,
+  document: Omit<Document, 'storageProvider' | 'storageKey' | 'imageData' | 'contentHash'>,
+  metadata: StorageMetadata,
+  config: AppConfig
+): Promise<Document> {
+  const contentHash = hashContent(buffer);
+
+  const existing = await getBlob(contentHash);
+  if (existing) {
+    console.log(`[Upload] ${metadata.fileName} is already stored; sharing copy ${contentHash}`);
+    return saveDocument(
+      postId,
+      {
+        ...document,
+        contentHash,
+        storageProvider: existing.storageProvider,
+        ...(existing.storageKey ? { storageKey: existing.storageKey } : {}),
+      },
+      { reusedBlob: true }
+    );
+  }
+
+  const stored = await storeFile(buffer, metadata, config);
+
+  let saved: Document;
+  try {
+    saved = await saveDocument(postId, { ...document, ...stored, contentHash });
+  } catch (error) {
+    await discardStoredFile(stored, config);
+    throw error;
+  }
+
+  // An identical upload finished first; the document now shares its copy
+  if (stored.storageKey && saved.storageKey !== stored.storageKey) {
+    await discardStoredFile(stored, config);
+  }
+  return saved;
+}
+
+/**
+ * Store a replacement file and add it as a new version of an existing document,
+ * reusing an identical stored copy when one exists
+ * @param details - Uploader, plus description and notes for the new version
+ *                  (default to the document's current values)
+ * @param metadata - File metadata passed to the adapter
+ * @param expectedVersion - If set, fail with a conflict unless the document is
+ *                          still at this version
+ * @returns The updated document, or null if it does not exist
+ * @throws UploadRejectedError if the file is too large or no backend can take it
+ * @throws DocumentConflictError if the version could not be added
+ */
+export async function saveUploadedVersion(
+  postId: string,
+  id: string,
+  buffer: Buffer,
+  details: { uploadedBy: string; description?: string; notes?: string },
+  metadata: StorageMetadata,
+  config: AppConfig,
+  expectedVersion?: number
+): Promise<Document | null> {
+  const contentHash = hashContent(buffer);
+  const file = {
+    ...details,
+    fileName: metadata.fileName,
+    fileType: metadata.fileType,
+    fileSize: buffer.length,
+    contentHash,
+  };
+
+  const existing = await getBlob(contentHash);
+  if (existing) {
+    console.log(`[Upload] ${metadata.fileName} is already stored; sharing copy ${contentHash}`);
+    return addDocumentVersion(
+      postId,
+      id,
+      {
+        ...file,
+        storageProvider: existing.storageProvider,
+        ...(existing.storageKey ? { storageKey: existing.storageKey } : {}),
+      },
+      { reusedBlob: true, ...(expectedVersion !== undefined ? { expectedVersion } : {}) }
+    );
+  }
+
+  const stored = await storeFile(buffer, metadata, config);
+
+  let saved: Document | null;
+  try {
+    saved = await addDocumentVersion(
+      postId,
+      id,
+      { ...file, ...stored },
+      expectedVersion !== undefined ? { expectedVersion } : {}
+    );
+  } catch (error) {
+    await discardStoredFile(stored, config);
+    throw error;
+  }
+
+  // The document is gone, or an identical upload finished first and is shared
+  if (stored.storageKey && saved?.storageKey !== stored.storageKey) {
+    await discardStoredFile(stored, config);
+  }
+  return saved;
+}
@@ -0,0 +1,227 @@
+/**
+ * Chunked, resumable upload sessions
+ *
+ * Files too large for a single JSON request are sent as base64 chunks that are
+ * staged in Redis with a TTL. Once every chunk has arrived, the file is assembled
+ * and verified against the SHA-256 checksum the client declared up front.
+ *
+ * Each chunk write refreshes only the session and the chunk itself. A chunk is kept
+ * a little longer than an idle session, counted from when it was sent; if an upload
+ * takes long enough for early chunks to expire, assembling reports them as missing
+ * so the client sends them again.
+ *
+ * Key layout (per session):
+ *   upload:{sessionId}                 session JSON (owner, file info, checksum)
+ *   upload:{sessionId}:received        hash of chunk index -> byte length
+ *   upload:{sessionId}:chunk:{index}   base64 chunk data
+ */
+
+import crypto from 'crypto';
+import { redis } from '@devvit/web/server';
+import type { UploadSession } from '../../shared/types/api';
+import { UploadRejectedError } from './upload';
+
+// Sessions expire after an hour without activity
+const SESSION_TTL_SECONDS = 60 * 60;
+// Staged chunks (and the list of received ones) outlive an idle session slightly
+const CHUNK_TTL_SECONDS = SESSION_TTL_SECONDS + 5 * 60;
+
+const expiresIn = (seconds: number) => new Date(Date.now() + seconds * 1000);
+
+const sessionKey = (sessionId: string) => `upload:${sessionId}`;
+const receivedKey = (sessionId: string) => `upload:${sessionId}:received`;
+const chunkKey = (sessionId: string, index: number) => `upload:${sessionId}:chunk:${index}`;
+
+/**
+ * Stored session record; receivedChunks is derived from the received hash
+ */
+type StoredSession = Omit<UploadSession, 'receivedChunks'> & {
+  postId: string;
+  userId: string;
+};
+
+function toUploadSession(stored: StoredSession, received: string[]): UploadSession {
+  const { postId, userId, ...session } = stored;
+  return {
+    ...session,
+    receivedChunks: received.map((index) => parseInt(index, 10)).sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Save the session record, expiring SESSION_TTL_SECONDS from now
+ */
+async function saveSession(stored: StoredSession): Promise<void> {
+  const expiration = expiresIn(SESSION_TTL_SECONDS);
+  stored.expiresAt = expiration.getTime();
+  await redis.set(sessionKey(stored.sessionId), JSON.stringify(stored), { expiration });
+}
+
+async function loadSession(
+  sessionId: string,
+  postId: string,
+  userId: string
+): Promise<StoredSession> {
+  const json = await redis.get(sessionKey(sessionId));
+  if (!json) {
+    throw new UploadRejectedError('Upload session not found or expired', 404);
+  }
+
+  const stored: StoredSession = JSON.parse(json);
+  if (stored.postId !== postId || stored.userId !== userId) {
+    throw new UploadRejectedError('Upload session belongs to another user or post', 403);
+  }
+  return stored;
+}
+
+/**
+ * Start a new upload session
+ * @param maxFileSizeBytes - Largest file accepted under the current config
+ * @param chunkSize - Raw bytes per chunk
+ */
+export async function createUploadSession(
+  file: { fileName: string; fileType: string; fileSize: number; checksum: string },
+  owner: { postId: string; userId: string },
+  maxFileSizeBytes: number,
+  chunkSize: number
+): Promise<UploadSession> {
+  if (file.fileSize <= 0) {
+    throw new UploadRejectedError('fileSize must be greater than zero');
+  }
+  if (file.fileSize > maxFileSizeBytes) {
+    throw new UploadRejectedError(
+      `File size exceeds maximum limit of ${(maxFileSizeBytes / 1024).toFixed(0)}KB. Current size: ${(file.fileSize / 1024).toFixed(2)}KB`
+    );
+  }
+  if (!/^[a-f0-9]{64}$/i.test(file.checksum)) {
+    throw new UploadRejectedError('checksum must be a SHA-256 hex digest');
+  }
+
+  const sessionId = `upl_${Date.now()}_${crypto.randomBytes(6).toString('hex')}`;
+  const stored: StoredSession = {
+    sessionId,
+    fileName: file.fileName,
+    fileType: file.fileType,
+    fileSize: file.fileSize,
+    checksum: file.checksum.toLowerCase(),
+    chunkSize,
+    totalChunks: Math.ceil(file.fileSize / chunkSize),
+    expiresAt: 0,
+    postId: owner.postId,
+    userId: owner.userId,
+  };
+  await saveSession(stored);
+
+  console.log(
+    `[Uploads] Session ${sessionId} started for ${file.fileName} (${stored.totalChunks} chunks)`
+  );
+
+  return toUploadSession(stored, []);
+}
+
+/**
+ * Get session status, including which chunks have been received
+ */
+export async function getUploadSession(
+  sessionId: string,
+  postId: string,
+  userId: string
+): Promise<UploadSession> {
+  const stored = await loadSession(sessionId, postId, userId);
+  return toUploadSession(stored, await redis.hKeys(receivedKey(sessionId)));
+}
+
+/**
+ * Stage one chunk. Re-sending a chunk overwrites it, so retries are safe.
+ */
+export async function storeChunk(
+  sessionId: string,
+  postId: string,
+  userId: string,
+  index: number,
+  data: string
+): Promise<UploadSession> {
+  const stored = await loadSession(sessionId, postId, userId);
+
+  if (!Number.isInteger(index) || index < 0 || index >= stored.totalChunks) {
+    throw new UploadRejectedError(`Chunk index must be between 0 and ${stored.totalChunks - 1}`);
+  }
+
+  const base64Data = data.includes(',') ? (data.split(',')[1] ?? '') : data;
+  const byteLength = Buffer.from(base64Data, 'base64').length;
+  const expectedLength =
+    index === stored.totalChunks - 1
+      ? stored.fileSize - stored.chunkSize * (stored.totalChunks - 1)
+      : stored.chunkSize;
+
+  if (byteLength !== expectedLength) {
+    throw new UploadRejectedError(
+      `Chunk ${index} has ${byteLength} bytes, expected ${expectedLength}`
+    );
+  }
+
+  await redis.set(chunkKey(sessionId, index), base64Data, {
+    expiration: expiresIn(CHUNK_TTL_SECONDS),
+  });
+  await redis.hSet(receivedKey(sessionId), { [String(index)]: String(byteLength) });
+  await redis.expire(receivedKey(sessionId), CHUNK_TTL_SECONDS);
+  await saveSession(stored);
+
+  return toUploadSession(stored, await redis.hKeys(receivedKey(sessionId)));
+}
+
+/**
+ * Assemble all chunks and verify the checksum
+ * @returns The session and the complete file contents
+ * @throws UploadRejectedError if chunks are missing or the checksum does not match
+ */
+export async function assembleUpload(
+  sessionId: string,
+  postId: string,
+  userId: string
+): Promise<{ session: UploadSession; buffer: Buffer }> {
+  const stored = await loadSession(sessionId, postId, userId);
+  const received = await redis.hKeys(receivedKey(sessionId));
+  const session = toUploadSession(stored, received);
+
+  if (received.length < stored.totalChunks) {
+    throw new UploadRejectedError(
+      `Upload incomplete: received ${received.length} of ${stored.totalChunks} chunks`,
+      409
+    );
+  }
+
+  const keys = Array.from({ length: stored.totalChunks }, (_, index) => chunkKey(sessionId, index));
+  const chunks = await redis.mGet(keys);
+  const missing = chunks.flatMap((chunk, index) => (chunk ? [] : [String(index)]));
+  if (missing.length > 0) {
+    // Forget them so the session status asks the client to send them again
+    await redis.hDel(receivedKey(sessionId), missing);
+    throw new UploadRejectedError(
+      `Chunks ${missing.join(', ')} expired before the upload completed; send them again`,
+      409
+    );
+  }
+
+  const buffer = Buffer.concat(chunks.map((chunk) => Buffer.from(chunk as string, 'base64')));
+  const checksum = crypto.createHash('sha256').update(buffer).digest('hex');
+
+  if (buffer.length !== stored.fileSize || checksum !== stored.checksum) {
+    // The staged data is unusable; drop it so the client starts over
+    await deleteUploadSession(sessionId, stored.totalChunks);
+    throw new UploadRejectedError('Checksum mismatch: the uploaded file is corrupted', 422);
+  }
+
+  return { session, buffer };
+}
+
+/**
+ * Remove a session and all staged chunks
+ */
+export async function deleteUploadSession(sessionId: string, totalChunks: number): Promise<void> {
+  const keys = [sessionKey(sessionId), receivedKey(sessionId)];
+  for (let index = 0; index < totalChunks; index++) {
+    keys.push(chunkKey(sessionId, index));
+  }
+  await redis.del(...keys);
+}
@@ -1,27 +1,165 @@
 import express from 'express';
-import crypto from 'crypto';
 import {
   InitResponse,
   IncrementResponse,
   DecrementResponse,
   DocumentsListResponse,
   DocumentRetrievalResponse,
-  Document,
+  DocumentResponse,
+  DocumentSearchResponse,
+  DocumentMetadata,
+  DocumentFields,
+  DocumentUpdateRequest,
+  DocumentVersionRequest,
+  DocumentVersionsResponse,
+  DuplicateCheckResponse,
+  FolderResponse,
+  FoldersResponse,
+  TrashListResponse,
+  UploadLimitsResponse,
+  UploadSessionResponse,
+  AnalysisJobResponse,
+  AnalysisJobsResponse,
+  AnalysisRequest,
   AnalysisResponse,
+  AnalyzeDocumentRequest,
+  AiSettingsResponse,
+  AiSettingsUpdateRequest,
+  AskRequest,
+  AskResponse,
+  BillInsightsResponse,
+  CategoriesResponse,
+  CollectionAskRequest,
+  CollectionAskResponse,
+  CollectionDigestResponse,
+  ConversationResponse,
+  FieldSchemaResponse,
+  FieldSchemasResponse,
+  LedgerResponse,
+  OcrHistoryResponse,
+  OcrRequest,
+  OcrResponse,
+  PromptTemplatesRequest,
+  ReanalyzeRequest,
+  ReminderResponse,
+  RemindersResponse,
+  TagChangeResponse,
+  TagsResponse,
 } from '../shared/types/api';
-import { redis, reddit, createServer, context, getServerPort } from '@devvit/web/server';
+import { redis, reddit, scheduler, createServer, context, getServerPort } from '@devvit/web/server';
 import { createPost } from './core/post';
+import {
+  DEFAULT_PAGE_SIZE,
+  DocumentConflictError,
+  findDocumentByContentHash,
+  getDocument,
+  getDocumentByStorageKey,
+  getDocumentVersion,
+  listDocumentVersions,
+  listDocuments,
+  listTrash,
+  restoreDocument,
+  rollbackDocument,
+  toMetadata,
+  trashDocument,
+  updateDocument,
+} from './core/documents';
+import { getTrashRetentionDays, purgeDocument, purgeExpiredTrash } from './core/trash';
+import { DEFAULT_SEARCH_LIMIT, searchDocuments } from './core/search';
+import {
+  applyDocumentUpdate,
+  validateDocumentUpdate,
+  validateUploadMetadata,
+} from './core/documentUpdates';
+import {
+  FolderRejectedError,
+  createFolder,
+  deleteFolder,
+  getFolder,
+  listFolders,
+  renameFolder,
+} from './core/folders';
+import { TagRejectedError, listTags, mergeTags, normalizeTag, renameTag } from './core/tags';
+import { getDocumentCategories } from './core/categories';
+import { getBillInsights, OUTLIER_THRESHOLD } from './core/billInsights';
+import { getLedger, LedgerRejectedError, ledgerToCsv } from './core/ledger';
+import {
+  cancelReminder,
+  createReminder,
+  listReminders,
+  ReminderRejectedError,
+  rescheduleReminders,
+  runReminder,
+} from './core/reminders';
+import {
+  SchemaRejectedError,
+  createFieldSchema,
+  deleteFieldSchema,
+  getFieldSchema,
+  listFieldSchemas,
+  validateFields,
+} from './core/fieldSchemas';
+import {
+  MAX_JSON_BODY_BYTES,
+  UploadRejectedError,
+  getUploadLimits,
+  saveUploadedDocument,
+  saveUploadedVersion,
+} from './core/upload';
+import {
+  assembleUpload,
+  createUploadSession,
+  deleteUploadSession,
+  getUploadSession,
+  storeChunk,
+} from './core/uploadSessions';
+import { runStorageMigration, type MigrationReport } from './core/storageMigration';
+import {
+  purgeOrphans,
+  scanForOrphans,
+  type ReconciliationReport,
+} from './core/orphanReconciliation';
+import { getOcrHistory, OcrRejectedError, runOcrOnDocument, runOcrOnImage } from './core/ocr';
+import {
+  askQuestion,
+  clearConversation,
+  getConversation,
+  QuestionRejectedError,
+} from './core/documentQa';
+import { consumeAnalysisQuota, type QuotaCheck } from './core/analysisQuota';
+import { analyzeWithCache } from './core/analysisCache';
+import { askAboutCollection, getCollectionDigest } from './core/collection';
+import {
+  ANALYSIS_WORKER_TASK,
+  AnalysisJobRejectedError,
+  enqueueDocumentAnalysis,
+  enqueueReanalysis,
+  getAnalysisJob,
+  getAnalysisJobs,
+  runAnalysisWorker,
+} from './core/analysisJobs';
+import {
+  AI_MODELS,
+  AiSettingsRejectedError,
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_VARIABLES,
+  getAiSettings,
+  listPromptTemplates,
+  savePromptTemplates,
+  updateAiSettings,
+} from './core/aiSettings';
+import { isModerator } from './core/moderators';
+import { getConfig, DEFAULT_S3_PRESIGN_EXPIRY_SECONDS } from './config';
 import { StorageFactory } from './storage/StorageFactory';
-import { analyzeDocument } from './ai/gemini';
 
 const app = express();
 
 // Middleware for JSON body parsing with increased limit
-app.use(express.json({ limit: '2mb' }));
+app.use(express.json({ limit: MAX_JSON_BODY_BYTES }));
 // Middleware for URL-encoded body parsing with increased limit
-app.use(express.urlencoded({ extended: true, limit: '2mb' }));
+app.use(express.urlencoded({ extended: true, limit: MAX_JSON_BODY_BYTES }));
 // Middleware for plain text body parsing
-app.use(express.text({ limit: '2mb' }));
+app.use(express.text({ limit: MAX_JSON_BODY_BYTES }));
 
 const router = express.Router();
 
@@ -135,7 +273,231 @@ router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   }
 });
 
+// Storage migration menu actions: each run processes one batch and resumes from saved progress
+const describeMigration = (report: MigrationReport): string => {
+  const counts = `${report.migrated} ${report.dryRun ? 'to migrate' : 'migrated'}, ${report.skipped} already on ${report.target}, ${report.failed} failed`;
+  if (report.status === 'completed') {
+    return `${report.dryRun ? 'Dry run' : 'Migration'} complete: ${counts} (${(report.bytes / 1024).toFixed(0)}KB)`;
+  }
+  return `${report.dryRun ? 'Dry run' : 'Migration'} in progress: ${report.scanned} scanned, ${counts}. Run again to continue.`;
+};
+
+const handleMigrationMenu = async (dryRun: boolean, res: express.Response): Promise<void> => {
+  try {
+    const config = await getConfig(redis);
+    if (config.storageProvider === 'redis') {
+      res.json({ showToast: 'Set storageProvider to an external provider before migrating' });
+      return;
+    }
+
+    const report = await runStorageMigration({ config, target: config.storageProvider, dryRun });
+    console.log(`[Migration] ${describeMigration(report)}`);
+    if (report.failures.length > 0) {
+      console.log(`[Migration] Failures: ${JSON.stringify(report.failures)}`);
+    }
+
+    res.json({ showToast: describeMigration(report) });
+  } catch (error) {
+    console.error('[Migration Error] Storage migration failed:', error);
+    res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Storage migration failed',
+    });
+  }
+};
+
+router.post('/internal/menu/storage-migration-dry-run', async (_req, res): Promise<void> => {
+  await handleMigrationMenu(true, res);
+});
+
+router.post('/internal/menu/storage-migration', async (_req, res): Promise<void> => {
+  await handleMigrationMenu(false, res);
+});
+
+// Orphan reconciliation: a daily scheduled scan reports orphans; moderators purge them from the menu
+const ORPHAN_SCAN_TASK = 'orphan-reconciliation';
+const ORPHAN_SCAN_TIME_BUDGET_MS = 20000;
+
+const describeOrphans = (report: ReconciliationReport): string => {
+  const found = `${report.missingBlobs.length} missing document files, ${report.orphanedBlobs.length} unreferenced files${report.truncated ? ' (more remain)' : ''}`;
+  if (report.status === 'purged') {
+    return `Purged ${report.purgedDocuments} documents and ${report.purgedBlobs} files from ${report.provider}`;
+  }
+  if (report.status === 'completed') {
+    return `Scan of ${report.provider} complete: ${found}`;
+  }
+  return `Scan of ${report.provider} in progress: ${report.documentsScanned} documents and ${report.blobsScanned} files checked`;
+};
+
+/**
+ * Scan the configured provider for orphans until done or out of time
+ * @returns The report, or null when documents are stored in Redis only
+ */
+const runOrphanScan = async (): Promise<ReconciliationReport | null> => {
+  const config = await getConfig(redis);
+  if (config.storageProvider === 'redis') {
+    return null;
+  }
+
+  const deadline = Date.now() + ORPHAN_SCAN_TIME_BUDGET_MS;
+  let report = await scanForOrphans({ config, provider: config.storageProvider });
+  while (report.status === 'running' && Date.now() < deadline) {
+    report = await scanForOrphans({ config, provider: config.storageProvider });
+  }
+  return report;
+};
+
+router.post('/internal/scheduler/orphan-reconciliation', async (_req, res): Promise<void> => {
+  try {
+    const report = await runOrphanScan();
+    if (report?.status === 'running') {
+      // Continue in a follow-up run rather than holding the request open
+      await scheduler.runJob({ name: ORPHAN_SCAN_TASK, runAt: new Date(Date.now() + 60000) });
+    }
+    console.log(
+      `[Reconcile] ${report ? describeOrphans(report) : 'No external storage configured'}`
+    );
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('[Reconcile Error] Orphan scan failed:', error);
+    res.status(500).json({ status: 'error', message: 'Orphan scan failed' });
+  }
+});
+
+router.post('/internal/menu/orphan-scan', async (_req, res): Promise<void> => {
+  try {
+    const report = await runOrphanScan();
+    res.json({
+      showToast: report
+        ? `${describeOrphans(report)}${report.status === 'running' ? '. Run again to continue.' : ''}`
+        : 'Documents are stored in Redis only; nothing to reconcile',
+    });
+  } catch (error) {
+    console.error('[Reconcile Error] Orphan scan failed:', error);
+    res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Orphan scan failed',
+    });
+  }
+});
+
+router.post('/internal/menu/orphan-purge', async (_req, res): Promise<void> => {
+  try {
+    const config = await getConfig(redis);
+    const report =
+      config.storageProvider === 'redis'
+        ? null
+        : await purgeOrphans({ config, provider: config.storageProvider });
+
+    res.json({
+      showToast: report ? describeOrphans(report) : 'Run a complete orphan scan before purging',
+    });
+  } catch (error) {
+    console.error('[Reconcile Error] Orphan purge failed:', error);
+    res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Orphan purge failed',
+    });
+  }
+});
+
+// Trash purge: an hourly scheduled run removes documents past the retention period
+const TRASH_PURGE_TASK = 'trash-purge';
+
+router.post('/internal/scheduler/trash-purge', async (_req, res): Promise<void> => {
+  try {
+    const { purged, remaining } = await purgeExpiredTrash(await getConfig(redis));
+    if (remaining) {
+      // More expired documents than one batch; continue in a follow-up run
+      await scheduler.runJob({ name: TRASH_PURGE_TASK, runAt: new Date(Date.now() + 60000) });
+    }
+    console.log(`[Trash] Purged ${purged} expired documents${remaining ? '; more remain' : ''}`);
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('[Trash Error] Trash purge failed:', error);
+    res.status(500).json({ status: 'error', message: 'Trash purge failed' });
+  }
+});
+
+// Due-date reminders: each reminder is a one-off job for this task
+router.post<unknown, { status: string; message?: string }, { data?: Record<string, unknown> }>(
+  '/internal/scheduler/document-reminder',
+  async (req, res): Promise<void> => {
+    const { postId, reminderId } = req.body?.data ?? {};
+    if (typeof postId !== 'string' || typeof reminderId !== 'string') {
+      console.error('[Reminders Error] Job is missing postId or reminderId');
+      res.status(400).json({ status: 'error', message: 'postId and reminderId are required' });
+      return;
+    }
+
+    try {
+      await runReminder(postId, reminderId);
+      res.json({ status: 'success' });
+    } catch (error) {
+      console.error('[Reminders Error] Reminder job failed:', error);
+      res.status(500).json({ status: 'error', message: 'Reminder job failed' });
+    }
+  }
+);
+
+// Background analysis: runs every minute and continues sooner while due jobs remain
+router.post('/internal/scheduler/analysis-worker', async (_req, res): Promise<void> => {
+  try {
+    const { processed, remaining } = await runAnalysisWorker(await getConfig(redis));
+    if (remaining) {
+      await scheduler.runJob({ name: ANALYSIS_WORKER_TASK, runAt: new Date(Date.now() + 10000) });
+    }
+    if (processed > 0) {
+      console.log(`[Analysis Jobs] Ran ${processed} jobs${remaining ? '; more are due' : ''}`);
+    }
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('[Analysis Jobs Error] Analysis worker failed:', error);
+    res.status(500).json({ status: 'error', message: 'Analysis worker failed' });
+  }
+});
+
 // Document endpoints
+router.get<unknown, UploadLimitsResponse | { status: string; message: string }>(
+  '/api/documents/limits',
+  async (_req, res): Promise<void> => {
+    try {
+      const config = await getConfig(redis);
+      res.json(getUploadLimits(config));
+    } catch (error) {
+      console.error('Error loading upload limits:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to load upload limits' });
+    }
+  }
+);
+
+router.get<
+  unknown,
+  DuplicateCheckResponse | { status: string; message: string },
+  unknown,
+  { contentHash?: string }
+>('/api/documents/duplicates', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  const { contentHash } = req.query;
+  if (!contentHash || !/^[a-f0-9]{64}$/.test(contentHash)) {
+    res.status(400).json({ status: 'error', message: 'contentHash must be a SHA-256 hex digest' });
+    return;
+  }
+
+  try {
+    const duplicate = await findDocumentByContentHash(postId, contentHash);
+    res.json({ type: 'duplicate-check', duplicate: duplicate ? toMetadata(duplicate) : null });
+  } catch (error) {
+    console.error('[Duplicates Error] Error checking for duplicate:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to check for duplicates' });
+  }
+});
+
 router.post('/api/documents/add', async (req, res): Promise<void> => {
   const { postId } = context;
   if (!postId) {
@@ -144,13 +506,20 @@ router.post('/api/documents/add', async (req, res): Promise<void> => {
   }
 
   try {
-    const { fileName, fileType, fileData, description, notes } = req.body;
+    const { fileName, fileType, fileData, description, notes, tags, folderId, category, fields } =
+      req.body;
 
     if (!fileData || !description) {
       res.status(400).json({ status: 'error', message: 'Missing required fields' });
       return;
     }
 
+    const metadata = await validateUploadMetadata(postId, { tags, folderId, category, fields });
+    if ('error' in metadata) {
+      res.status(400).json({ status: 'error', message: metadata.error });
+      return;
+    }
+
     // Subtask 5.1: File type detection and validation
     const isPDF = fileType === 'application/pdf' || fileType.includes('pdf');
 
@@ -159,58 +528,48 @@ router.post('/api/documents/add', async (req, res): Promise<void> => {
     const buffer = Buffer.from(base64Data, 'base64');
     const fileSize = buffer.length;
 
-    // File size validation (max 500KB for Redis storage)
-    const MAX_FILE_SIZE = 500 * 1024; // 500KB in bytes
-    if (fileSize > MAX_FILE_SIZE) {
-      res.status(400).json({
-        status: 'error',
-        message: `File size exceeds maximum limit of 500KB. Current size: ${(fileSize / 1024).toFixed(2)}KB`,
-      });
-      return;
-    }
-
     const documentId = `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const username = await reddit.getCurrentUsername();
 
-    let document: Document;
-
-    // Store all files (images and PDFs) in Redis as base64
-    // External storage (S3/PostgreSQL) doesn't work in Devvit production
-    // because AWS SDK requires environment variables that Devvit doesn't support
-    document = {
-      id: documentId,
-      fileName,
-      fileType,
-      fileSize,
-      imageData: fileData, // Store base64 data for both images and PDFs
-      description,
-      notes: notes || '',
-      timestamp: Date.now(),
-      storageProvider: 'redis',
-    };
+    // Subtask 5.2: Route to Redis or external storage based on size and AppConfig
+    // Subtask 5.3: Update Redis metadata storage
+    // Identical files share one stored copy; the document gets its own key and index entry
+    const config = await getConfig(redis);
+    const saved = await saveUploadedDocument(
+      postId,
+      buffer,
+      {
+        id: documentId,
+        fileName,
+        fileType,
+        fileSize,
+        description,
+        notes: notes || '',
+        timestamp: Date.now(),
+        ...metadata.value,
+      },
+      { fileName, fileType, fileSize, userId: username ?? 'anonymous', postId },
+      config
+    );
 
     console.log(
-      `[Upload] Document ${documentId} stored in Redis (${isPDF ? 'PDF' : 'image'}, ${(fileSize / 1024).toFixed(2)}KB)`
+      `[Upload] Document ${documentId} stored in ${saved.storageProvider} (${isPDF ? 'PDF' : 'image'}, ${(fileSize / 1024).toFixed(2)}KB)`
     );
 
-    // Subtask 5.3: Update Redis metadata storage
-    // Save document metadata to Redis with storage provider and key
-    const key = `docs:${postId}:list`;
-    const existing = await redis.get(key);
-    const documents = existing ? JSON.parse(existing) : [];
-
-    documents.unshift(document);
-    // Keep last 20 documents to avoid payload size issues
-    if (documents.length > 20) documents.pop();
-
-    await redis.set(key, JSON.stringify(documents));
-
     console.log(
-      `[Upload] Document ${documentId} metadata saved to Redis with provider: ${document.storageProvider}`
+      `[Upload] Document ${documentId} metadata saved to Redis with provider: ${saved.storageProvider}`
     );
 
-    res.json({ type: 'document', document });
+    res.json({ type: 'document', document: toMetadata(saved) });
   } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      res.status(409).json({ status: 'error', message: error.message });
+      return;
+    }
+    if (error instanceof UploadRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
     console.error('[Upload Error] Error adding document:', error);
     res.status(500).json({
       status: 'error',
@@ -219,7 +578,12 @@ router.post('/api/documents/add', async (req, res): Promise<void> => {
   }
 });
 
-router.get('/api/documents/list', async (_req, res): Promise<void> => {
+router.get<
+  unknown,
+  DocumentsListResponse | { status: string; message: string },
+  unknown,
+  { cursor?: string; limit?: string; tag?: string; folderId?: string }
+>('/api/documents/list', async (req, res): Promise<void> => {
   const { postId } = context;
   if (!postId) {
     res.status(400).json({ status: 'error', message: 'postId is required' });
@@ -227,17 +591,95 @@ router.get('/api/documents/list', async (_req, res): Promise<void> => {
   }
 
   try {
-    const key = `docs:${postId}:list`;
-    const existing = await redis.get(key);
-    const documents = existing ? JSON.parse(existing) : [];
+    const { cursor, limit, tag, folderId } = req.query;
+    const pageSize = limit ? parseInt(limit, 10) : DEFAULT_PAGE_SIZE;
 
-    res.json({ type: 'documents-list', documents });
+    if (isNaN(pageSize) || pageSize < 1) {
+      res.status(400).json({ status: 'error', message: 'limit must be a positive number' });
+      return;
+    }
+
+    if (tag && folderId) {
+      res.status(400).json({ status: 'error', message: 'Filter by tag or by folder, not both' });
+      return;
+    }
+
+    const filter = tag ? { tag: normalizeTag(tag) ?? tag } : folderId ? { folderId } : {};
+    const page = await listDocuments(postId, cursor, pageSize, filter);
+
+    res.json({ type: 'documents-list', ...page });
   } catch (error) {
     console.error('Error fetching documents:', error);
     res.status(500).json({ status: 'error', message: 'Failed to fetch documents' });
   }
 });
 
+router.get<
+  unknown,
+  TrashListResponse | { status: string; message: string },
+  unknown,
+  { cursor?: string; limit?: string }
+>('/api/documents/trash', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    const { cursor, limit } = req.query;
+    const pageSize = limit ? parseInt(limit, 10) : DEFAULT_PAGE_SIZE;
+
+    if (isNaN(pageSize) || pageSize < 1) {
+      res.status(400).json({ status: 'error', message: 'limit must be a positive number' });
+      return;
+    }
+
+    const page = await listTrash(postId, cursor, pageSize);
+    const retentionDays = getTrashRetentionDays(await getConfig(redis));
+
+    res.json({ type: 'trash-list', ...page, retentionDays });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch trash' });
+  }
+});
+
+router.get<
+  unknown,
+  DocumentSearchResponse | { status: string; message: string },
+  unknown,
+  { q?: string; limit?: string }
+>('/api/documents/search', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    const { q, limit } = req.query;
+    const pageSize = limit ? parseInt(limit, 10) : DEFAULT_SEARCH_LIMIT;
+
+    if (typeof q !== 'string' || !q.trim()) {
+      res.status(400).json({ status: 'error', message: 'q is required' });
+      return;
+    }
+
+    if (isNaN(pageSize) || pageSize < 1) {
+      res.status(400).json({ status: 'error', message: 'limit must be a positive number' });
+      return;
+    }
+
+    const found = await searchDocuments(postId, q, pageSize);
+
+    res.json({ type: 'document-search', query: q, ...found });
+  } catch (error) {
+    console.error('Error searching documents:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to search documents' });
+  }
+});
+
 router.get('/api/documents/get/:id', async (req, res): Promise<void> => {
   const { postId } = context;
   if (!postId) {
@@ -253,12 +695,21 @@ router.get('/api/documents/get/:id', async (req, res): Promise<void> => {
       return;
     }
 
-    // Retrieve document metadata from Redis by ID
-    const key = `docs:${postId}:list`;
-    const existing = await redis.get(key);
-    const documents: Document[] = existing ? JSON.parse(existing) : [];
+    // ?version= serves an earlier file version instead of the current file
+    const fileVersion =
+      typeof req.query.version === 'string' ? parseInt(req.query.version, 10) : undefined;
+    if (fileVersion !== undefined && (isNaN(fileVersion) || fileVersion < 1)) {
+      res.status(400).json({ status: 'error', message: 'version must be a positive number' });
+      return;
+    }
 
-    const document = documents.find((doc: Document) => doc.id === id);
+    // Retrieve document (with payload for Redis-stored files) by ID
+    const document =
+      fileVersion === undefined
+        ? await getDocument(postId, id, true)
+        : await getDocumentVersion(postId, id, fileVersion, true).then(
+            (found) => found && { ...found.version, imageData: found.imageData }
+          );
 
     if (!document) {
       console.log(`[Retrieval] Document ${id} not found in Redis`);
@@ -288,13 +739,18 @@ router.get('/api/documents/get/:id', async (req, res): Promise<void> => {
       }
 
       try {
-        const storageAdapter = StorageFactory.getAdapter();
+        // The file may be on a provider other than the configured one (storage migration)
+        const config = await getConfig(redis);
+        const storageAdapter = StorageFactory.createAdapterFor(config, document.storageProvider);
         const url = await storageAdapter.getUrl(document.storageKey);
 
         // Return URL with expiration time to client
-        // S3 presigned URLs expire in 1 hour (3600 seconds)
+        // S3 presigned URLs expire after the configured expiry (1 hour by default)
         // PostgreSQL stream endpoints don't expire but we use the same format
-        const expiresIn = document.storageProvider === 's3' ? 3600 : undefined;
+        const expiresIn =
+          document.storageProvider === 's3'
+            ? (config.s3PresignExpirySeconds ?? DEFAULT_S3_PRESIGN_EXPIRY_SECONDS)
+            : undefined;
 
         console.log(
           `[Retrieval] Generated URL for document ${id} from ${document.storageProvider}`
@@ -323,7 +779,7 @@ router.get('/api/documents/get/:id', async (req, res): Promise<void> => {
   }
 });
 
-// PostgreSQL streaming endpoint
+// Streaming endpoint for PostgreSQL and file system storage
 router.get('/api/documents/stream/:storageKey', async (req, res): Promise<void> => {
   const { postId } = context;
 
@@ -342,13 +798,8 @@ router.get('/api/documents/stream/:storageKey', async (req, res): Promise<void>
       return;
     }
 
-    // Retrieve document metadata from Redis to verify ownership
-    const key = `docs:${postId}:list`;
-    const existing = await redis.get(key);
-    const documents: Document[] = existing ? JSON.parse(existing) : [];
-
     // Find document with matching storage key to verify it belongs to this post
-    const document = documents.find((doc: Document) => doc.storageKey === storageKey);
+    const document = await getDocumentByStorageKey(postId, storageKey);
 
     if (!document) {
       console.log(`[Stream] Document with storage key ${storageKey} not found in post ${postId}`);
@@ -356,20 +807,30 @@ router.get('/api/documents/stream/:storageKey', async (req, res): Promise<void>
       return;
     }
 
-    // Verify this is a PostgreSQL-stored document
-    if (document.storageProvider !== 'postgresql') {
+    // The key may belong to an earlier file version, which can be stored elsewhere
+    const file =
+      document.storageKey === storageKey
+        ? document
+        : (await listDocumentVersions(postId, document.id))?.versions.find(
+            (version) => version.storageKey === storageKey
+          );
+
+    // Verify this file is stored by a provider that is served through this endpoint
+    if (file?.storageProvider !== 'postgresql' && file?.storageProvider !== 'filesystem') {
       console.log(
-        `[Stream] Document ${storageKey} is not stored in PostgreSQL (provider: ${document.storageProvider})`
+        `[Stream] Document ${storageKey} is not streamable (provider: ${file?.storageProvider})`
       );
       res.status(400).json({ status: 'error', message: 'Invalid storage provider for streaming' });
       return;
     }
 
-    // Call PostgreSQLStorageAdapter.getDocument() to get binary data
-    const storageAdapter = StorageFactory.getAdapter();
+    // Use the provider holding the file, which may not be the configured one
+    const storageAdapter = StorageFactory.createAdapterFor(
+      await getConfig(redis),
+      file.storageProvider
+    );
 
-    // Type guard to ensure we have PostgreSQL adapter
-    if (!('getDocument' in storageAdapter)) {
+    if (!storageAdapter.getDocument) {
       console.error('[Stream] Storage adapter does not support getDocument method');
       res
         .status(500)
@@ -377,10 +838,10 @@ router.get('/api/documents/stream/:storageKey', async (req, res): Promise<void>
       return;
     }
 
-    const documentData = await (storageAdapter as any).getDocument(storageKey);
+    const documentData = await storageAdapter.getDocument(storageKey);
 
     if (!documentData) {
-      console.log(`[Stream] Document ${storageKey} not found in PostgreSQL storage`);
+      console.log(`[Stream] Document ${storageKey} not found in ${file.storageProvider} storage`);
       res.status(404).json({ status: 'error', message: 'Document not found' });
       return;
     }
@@ -410,61 +871,47 @@ router.post('/api/documents/delete', async (req, res): Promise<void> => {
   }
 
   try {
-    const { id } = req.body;
+    const { id, version, permanent } = req.body;
 
     if (!id) {
       res.status(400).json({ status: 'error', message: 'Document ID is required' });
       return;
     }
 
-    // Retrieve document metadata from Redis to get storage provider and key
-    const key = `docs:${postId}:list`;
-    const existing = await redis.get(key);
-    const documents: Document[] = existing ? JSON.parse(existing) : [];
-
-    const document = documents.find((doc: Document) => doc.id === id);
-
-    if (!document) {
-      console.log(`[Delete] Document ${id} not found in Redis`);
-      res.status(404).json({ status: 'error', message: 'Document not found' });
+    if (version !== undefined && typeof version !== 'number') {
+      res.status(400).json({ status: 'error', message: 'version must be a number' });
       return;
     }
 
-    console.log(`[Delete] Found document ${id} with provider: ${document.storageProvider}`);
-
-    // If stored externally, call adapter.delete() before removing from Redis
-    if (document.storageProvider !== 'redis' && document.storageKey) {
-      try {
-        const storageAdapter = StorageFactory.getAdapter();
-
-        console.log(
-          `[Delete] Deleting document ${id} from ${document.storageProvider} with key ${document.storageKey}`
-        );
-        await storageAdapter.delete(document.storageKey);
-
-        console.log(`[Delete] Successfully deleted document ${id} from external storage`);
-      } catch (deleteError) {
-        // If external deletion fails, return error and keep metadata intact
-        console.error(
-          `[Delete Error] Failed to delete document ${id} from external storage:`,
-          deleteError
-        );
-        res.status(500).json({
-          status: 'error',
-          message: 'Failed to delete document from external storage',
-        });
+    // Permanent deletes only apply to documents already in the trash
+    if (permanent === true) {
+      const purged = await purgeDocument(postId, id, await getConfig(redis), Date.now(), version);
+      if (!purged) {
+        console.log(`[Delete] Document ${id} not found in Redis`);
+        res.status(404).json({ status: 'error', message: 'Document not found' });
         return;
       }
-    }
 
-    // Only remove Redis metadata if external deletion succeeds (or if stored in Redis)
-    const filtered = documents.filter((doc: Document) => doc.id !== id);
-    await redis.set(key, JSON.stringify(filtered));
+      console.log(`[Delete] Document ${id} permanently deleted from the trash`);
+      res.json({ status: 'success' });
+      return;
+    }
 
-    console.log(`[Delete] Document ${id} metadata removed from Redis`);
+    const username = (await reddit.getCurrentUsername()) ?? 'anonymous';
+    const trashed = await trashDocument(postId, id, username, version);
+    if (!trashed) {
+      console.log(`[Delete] Document ${id} not found in Redis`);
+      res.status(404).json({ status: 'error', message: 'Document not found' });
+      return;
+    }
 
+    console.log(`[Delete] Document ${id} moved to the trash by ${username}`);
     res.json({ status: 'success' });
   } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      res.status(409).json({ status: 'error', message: error.message });
+      return;
+    }
     console.error('[Delete Error] Error deleting document:', error);
     res.status(500).json({
       status: 'error',
@@ -473,210 +920,1542 @@ router.post('/api/documents/delete', async (req, res): Promise<void> => {
   }
 });
 
-// TEMPORARY: Set API key endpoint (remove after use)
-// To use: Set GEMINI_API_KEY environment variable, then call this endpoint
-router.post('/api/temp-set-key', async (_req, res): Promise<void> => {
-  const apiKey = process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    res.status(400).json({ success: false, message: 'GEMINI_API_KEY not set in environment' });
-    return;
-  }
-
-  await redis.set('config:gemini_api_key', apiKey);
-  res.json({ success: true, message: 'API key set in Redis' });
-});
-
-// Gemini AI Analysis endpoint
 router.post<
-  unknown,
-  AnalysisResponse | { status: string; message: string },
-  { fileData: string; fileType: string; fileName: string }
->('/api/analyze', async (req, res): Promise<void> => {
+  { id: string },
+  DocumentResponse | { status: string; message: string; document?: DocumentMetadata },
+  { version?: number }
+>('/api/documents/:id/restore', async (req, res): Promise<void> => {
   const { postId } = context;
   if (!postId) {
     res.status(400).json({ status: 'error', message: 'postId is required' });
     return;
   }
 
+  const { id } = req.params;
+
   try {
-    // Get current username for rate limiting
-    const username = await reddit.getCurrentUsername();
-    if (!username) {
-      res.status(401).json({ status: 'error', message: 'User authentication required' });
+    const { version } = req.body ?? {};
+
+    if (version !== undefined && typeof version !== 'number') {
+      res.status(400).json({ status: 'error', message: 'version must be a number' });
       return;
     }
 
-    // Rate limiting: 100 requests per day per user
-    const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-    const rateLimitKey = `ratelimit:analysis:${username}:${today}`;
-
-    // Get current count and increment
-    const currentCount = await redis.get(rateLimitKey);
-    const count = currentCount ? parseInt(currentCount) : 0;
-
-    // Check if limit exceeded
-    const RATE_LIMIT = 100;
-    if (count >= RATE_LIMIT) {
-      console.log(`[Analysis] Rate limit exceeded for user ${username}: ${count}/${RATE_LIMIT}`);
-
-      // Add rate limit headers
-      res.setHeader('X-RateLimit-Limit', RATE_LIMIT.toString());
-      res.setHeader('X-RateLimit-Remaining', '0');
-      res.setHeader('X-RateLimit-Reset', new Date(new Date().setHours(24, 0, 0, 0)).toISOString());
+    const restored = await restoreDocument(postId, id, version);
+    if (!restored) {
+      console.log(`[Restore] Document ${id} not found in Redis`);
+      res.status(404).json({ status: 'error', message: 'Document not found' });
+      return;
+    }
 
-      res.status(429).json({
+    console.log(`[Restore] Document ${id} restored from the trash`);
+    res.json({ type: 'document', document: toMetadata(restored) });
+  } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      const current = await getDocument(postId, id);
+      res.status(409).json({
         status: 'error',
-        message: `Daily analysis limit reached (${RATE_LIMIT} requests per day). Limit resets at midnight UTC.`,
+        message: error.message,
+        ...(current ? { document: toMetadata(current) } : {}),
       });
       return;
     }
+    console.error('[Restore Error] Error restoring document:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to restore document',
+    });
+  }
+});
 
-    // Increment counter
-    const newCount = await redis.incrBy(rateLimitKey, 1);
+router.get<{ id: string }, DocumentVersionsResponse | { status: string; message: string }>(
+  '/api/documents/:id/versions',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
 
-    // Set expiration to end of day (24 hours from now, rounded to midnight UTC)
-    const now = new Date();
-    const midnight = new Date(now);
-    midnight.setUTCHours(24, 0, 0, 0);
-    const secondsUntilMidnight = Math.floor((midnight.getTime() - now.getTime()) / 1000);
-    await redis.expire(rateLimitKey, secondsUntilMidnight);
+    try {
+      const history = await listDocumentVersions(postId, req.params.id);
+      if (!history) {
+        res.status(404).json({ status: 'error', message: 'Document not found' });
+        return;
+      }
 
-    // Add rate limit headers to response
-    const remaining = Math.max(0, RATE_LIMIT - newCount);
-    res.setHeader('X-RateLimit-Limit', RATE_LIMIT.toString());
-    res.setHeader('X-RateLimit-Remaining', remaining.toString());
-    res.setHeader('X-RateLimit-Reset', midnight.toISOString());
+      res.json({ type: 'document-versions', ...history });
+    } catch (error) {
+      console.error('[Versions Error] Error listing versions:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list versions' });
+    }
+  }
+);
+
+router.post<
+  { id: string },
+  DocumentResponse | { status: string; message: string; document?: DocumentMetadata },
+  DocumentVersionRequest
+>('/api/documents/:id/versions', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  const { id } = req.params;
+
+  try {
+    const { fileName, fileType, fileData, uploadSessionId, description, notes, version } =
+      req.body ?? {};
+
+    if (version !== undefined && typeof version !== 'number') {
+      res.status(400).json({ status: 'error', message: 'version must be a number' });
+      return;
+    }
+    const details: { description?: string; notes?: string } = {};
+    if (description !== undefined || notes !== undefined) {
+      const validation = validateDocumentUpdate({ description, notes });
+      if ('errors' in validation) {
+        res.status(400).json({ status: 'error', message: validation.errors.join('; ') });
+        return;
+      }
+      Object.assign(details, validation.update);
+    }
+
+    const username = (await reddit.getCurrentUsername()) ?? 'anonymous';
+
+    // The replacement arrives inline, or as a chunked upload session
+    let buffer: Buffer;
+    let file: { fileName: string; fileType: string };
+    let session: { sessionId: string; totalChunks: number } | null = null;
+    if (uploadSessionId) {
+      const assembled = await assembleUpload(uploadSessionId, postId, username);
+      buffer = assembled.buffer;
+      file = { fileName: assembled.session.fileName, fileType: assembled.session.fileType };
+      session = { sessionId: uploadSessionId, totalChunks: assembled.session.totalChunks };
+    } else if (fileData && fileName && fileType) {
+      const base64Data = fileData.includes(',') ? (fileData.split(',')[1] ?? '') : fileData;
+      buffer = Buffer.from(base64Data, 'base64');
+      file = { fileName, fileType };
+    } else {
+      res.status(400).json({
+        status: 'error',
+        message: 'Either uploadSessionId or fileName, fileType and fileData are required',
+      });
+      return;
+    }
+
+    const updated = await saveUploadedVersion(
+      postId,
+      id,
+      buffer,
+      { ...details, uploadedBy: username },
+      { ...file, fileSize: buffer.length, userId: username, postId },
+      await getConfig(redis),
+      version
+    );
+
+    if (session) {
+      await deleteUploadSession(session.sessionId, session.totalChunks);
+    }
+
+    if (!updated) {
+      console.log(`[Versions] Document ${id} not found in Redis`);
+      res.status(404).json({ status: 'error', message: 'Document not found' });
+      return;
+    }
 
     console.log(
-      `[Analysis] Rate limit check passed for user ${username}: ${newCount}/${RATE_LIMIT}`
+      `[Versions] Document ${id} now at file version ${updated.fileVersion} in ${updated.storageProvider}`
     );
 
-    // Extract fileData, fileType, fileName from request body
-    const { fileData, fileType, fileName } = req.body;
+    res.json({ type: 'document', document: toMetadata(updated) });
+  } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      const current = await getDocument(postId, id);
+      res.status(409).json({
+        status: 'error',
+        message: error.message,
+        ...(current ? { document: toMetadata(current) } : {}),
+      });
+      return;
+    }
+    if (error instanceof UploadRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Versions Error] Error adding version:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to add version',
+    });
+  }
+});
+
+router.post<
+  { id: string; fileVersion: string },
+  DocumentResponse | { status: string; message: string; document?: DocumentMetadata },
+  { version?: number }
+>('/api/documents/:id/versions/:fileVersion/rollback', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
 
-    // Add request validation
-    if (!fileData) {
-      res.status(400).json({ status: 'error', message: 'fileData is required' });
+  const { id } = req.params;
+
+  try {
+    const fileVersion = parseInt(req.params.fileVersion, 10);
+    const { version } = req.body ?? {};
+
+    if (isNaN(fileVersion) || fileVersion < 1) {
+      res.status(400).json({ status: 'error', message: 'fileVersion must be a positive number' });
+      return;
+    }
+    if (version !== undefined && typeof version !== 'number') {
+      res.status(400).json({ status: 'error', message: 'version must be a number' });
       return;
     }
 
-    if (!fileType) {
-      res.status(400).json({ status: 'error', message: 'fileType is required' });
+    const updated = await rollbackDocument(postId, id, fileVersion, version);
+    if (!updated) {
+      res.status(404).json({ status: 'error', message: 'Document or version not found' });
       return;
     }
 
-    if (!fileName) {
-      res.status(400).json({ status: 'error', message: 'fileName is required' });
+    console.log(`[Versions] Document ${id} rolled back to file version ${fileVersion}`);
+    res.json({ type: 'document', document: toMetadata(updated) });
+  } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      const current = await getDocument(postId, id);
+      res.status(409).json({
+        status: 'error',
+        message: error.message,
+        ...(current ? { document: toMetadata(current) } : {}),
+      });
       return;
     }
+    console.error('[Versions Error] Error rolling back document:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to roll back document',
+    });
+  }
+});
 
-    console.log(`[Analysis] Starting analysis for file: ${fileName} (${fileType})`);
+router.patch<
+  { id: string },
+  DocumentResponse | { status: string; message: string; document?: DocumentMetadata },
+  DocumentUpdateRequest
+>('/api/documents/:id', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
 
-    // Generate file hash (MD5) for cache key
-    const base64Data = fileData.includes(',') ? fileData.split(',')[1] : fileData;
+  const { id } = req.params;
 
-    if (!base64Data) {
-      res.status(400).json({ status: 'error', message: 'Invalid file data format' });
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const { version } = req.body ?? {};
+
+    if (version !== undefined && typeof version !== 'number') {
+      res.status(400).json({ status: 'error', message: 'version must be a number' });
       return;
     }
 
-    const buffer = Buffer.from(base64Data, 'base64');
-    const fileHash = crypto.createHash('md5').update(buffer).digest('hex');
-    const cacheKey = `analysis:${fileHash}`;
+    const validation = validateDocumentUpdate(body);
+    if ('errors' in validation) {
+      res.status(400).json({ status: 'error', message: validation.errors.join('; ') });
+      return;
+    }
 
-    console.log(`[Analysis] Generated cache key for file: ${cacheKey}`);
+    const { folderId, category } = validation.update;
+    if (folderId && !(await getFolder(postId, folderId))) {
+      res.status(400).json({ status: 'error', message: 'folderId must be an existing folder' });
+      return;
+    }
+    if (category && !getDocumentCategories(await getConfig(redis)).includes(category)) {
+      res.status(400).json({ status: 'error', message: `Unknown category "${category}"` });
+      return;
+    }
+    if (validation.update.fields) {
+      validation.update.fields = await validateFields(postId, validation.update.fields);
+    }
 
-    // Check cache before calling API
-    const cachedResult = await redis.get(cacheKey);
+    const updated = await updateDocument(
+      postId,
+      id,
+      (document) => {
+        if (document.deletedAt !== undefined) {
+          throw new DocumentConflictError(
+            'Restore this document from the trash before editing it',
+            id
+          );
+        }
+        return { ...applyDocumentUpdate(document, validation.update), updatedAt: Date.now() };
+      },
+      version
+    );
 
-    let analysis: { description: string; summary: string };
+    if (!updated) {
+      console.log(`[Edit] Document ${id} not found in Redis`);
+      res.status(404).json({ status: 'error', message: 'Document not found' });
+      return;
+    }
 
-    if (cachedResult) {
-      // Cache hit - return cached results
-      console.log(`[Analysis] Cache hit for file: ${fileName} (key: ${cacheKey})`);
-      analysis = JSON.parse(cachedResult);
+    console.log(
+      `[Edit] Document ${id} updated (${Object.keys(validation.update).join(', ')}) to version ${updated.version}`
+    );
 
-      // Log cache operation for monitoring
-      console.log(`[Analysis] Returning cached analysis for ${fileName}`);
-    } else {
-      // Cache miss - call Gemini API
-      console.log(`[Analysis] Cache miss for file: ${fileName} (key: ${cacheKey})`);
-
-      // Call analyzeDocument() function
-      analysis = await analyzeDocument(fileData, fileType, fileName);
-
-      console.log(`[Analysis] Analysis completed for file: ${fileName}`);
-
-      // Only cache successful analyses (not fallback responses)
-      const isFallback = analysis.summary.includes('Auto-analysis unavailable') || 
-                         analysis.summary.includes('Please add details manually');
-      
-      if (!isFallback) {
-        // Store analysis results in Redis with 7-day TTL
-        const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days in seconds
-        await redis.set(cacheKey, JSON.stringify(analysis));
-        await redis.expire(cacheKey, CACHE_TTL_SECONDS);
-
-        console.log(`[Analysis] Cached analysis results for ${fileName} (TTL: 7 days)`);
-      } else {
-        console.log(`[Analysis] Skipping cache for fallback response: ${fileName}`);
+    if (validation.update.fields) {
+      try {
+        await rescheduleReminders(postId, updated);
+      } catch (error) {
+        // The edit is saved; reminders still check the due date when they run
+        console.error(`[Edit Error] Failed to move reminders for document ${id}:`, error);
       }
     }
 
-    console.log(`[Analysis] Returning analysis results for file: ${fileName}`);
-
-    // Return analysis results to client
-    res.json({
-      type: 'analysis',
-      description: analysis.description,
-      summary: analysis.summary,
-    });
+    res.json({ type: 'document', document: toMetadata(updated) });
   } catch (error) {
-    console.error('[Analysis Error] Error analyzing document:', error);
+    if (error instanceof DocumentConflictError) {
+      // Include the latest copy so the client can show it and let the user retry
+      const current = await getDocument(postId, id);
+      res.status(409).json({
+        status: 'error',
+        message: error.message,
+        ...(current ? { document: toMetadata(current) } : {}),
+      });
+      return;
+    }
+    if (error instanceof SchemaRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Edit Error] Error updating document:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to update document',
+    });
+  }
+});
 
-    // Determine appropriate error message and status code
-    let statusCode = 500;
-    let errorMessage = 'Failed to analyze document';
+// Chunked upload endpoints (for files larger than the JSON body limit)
+router.post<
+  unknown,
+  UploadSessionResponse | { status: string; message: string },
+  { fileName: string; fileType: string; fileSize: number; checksum: string }
+>('/api/uploads/init', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
 
-    if (error instanceof Error) {
-      const errorMsg = error.message.toLowerCase();
+  try {
+    const { fileName, fileType, fileSize, checksum } = req.body ?? {};
 
-      // API key not configured
-      if (errorMsg.includes('api key not configured')) {
-        statusCode = 503;
-        errorMessage = 'AI analysis is temporarily unavailable. Please add details manually.';
-      }
-      // Timeout errors
-      else if (errorMsg.includes('timeout')) {
-        statusCode = 504;
-        errorMessage = 'Analysis took too long. Please try again or add details manually.';
-      }
-      // Invalid response format
-      else if (errorMsg.includes('invalid response')) {
-        statusCode = 502;
-        errorMessage =
-          'AI service returned an invalid response. Please try again or add details manually.';
-      }
-      // Generic API errors
-      else if (errorMsg.includes('gemini') || errorMsg.includes('api')) {
-        statusCode = 503;
-        errorMessage =
-          'AI analysis service is temporarily unavailable. Please add details manually.';
-      }
-      // Use original error message for other cases
-      else {
-        errorMessage = error.message;
+    if (!fileName || !fileType || typeof fileSize !== 'number' || !checksum) {
+      res.status(400).json({
+        status: 'error',
+        message: 'fileName, fileType, fileSize and checksum are required',
+      });
+      return;
+    }
+
+    const username = (await reddit.getCurrentUsername()) ?? 'anonymous';
+    const limits = getUploadLimits(await getConfig(redis));
+    const session = await createUploadSession(
+      { fileName, fileType, fileSize, checksum },
+      { postId, userId: username },
+      limits.maxFileSizeBytes,
+      limits.chunkSizeBytes
+    );
+
+    res.json({ type: 'upload-session', session });
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Uploads Error] Error starting upload session:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to start upload' });
+  }
+});
+
+router.get<{ sessionId: string }, UploadSessionResponse | { status: string; message: string }>(
+  '/api/uploads/:sessionId',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const username = (await reddit.getCurrentUsername()) ?? 'anonymous';
+      const session = await getUploadSession(req.params.sessionId, postId, username);
+      res.json({ type: 'upload-session', session });
+    } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
       }
+      console.error('[Uploads Error] Error reading upload session:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to read upload session' });
     }
+  }
+);
 
-    res.status(statusCode).json({
+router.post<
+  { sessionId: string },
+  UploadSessionResponse | { status: string; message: string },
+  { index: number; data: string }
+>('/api/uploads/:sessionId/chunk', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    const { index, data } = req.body ?? {};
+
+    if (typeof index !== 'number' || !data) {
+      res.status(400).json({ status: 'error', message: 'index and data are required' });
+      return;
+    }
+
+    const username = (await reddit.getCurrentUsername()) ?? 'anonymous';
+    const session = await storeChunk(req.params.sessionId, postId, username, index, data);
+
+    res.json({ type: 'upload-session', session });
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Uploads Error] Error storing chunk:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to store chunk' });
+  }
+});
+
+router.post<
+  { sessionId: string },
+  DocumentResponse | { status: string; message: string },
+  {
+    description: string;
+    notes?: string;
+    tags?: string[];
+    folderId?: string;
+    category?: string;
+    fields?: DocumentFields;
+  }
+>('/api/uploads/:sessionId/complete', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    const { description, notes, tags, folderId, category, fields } = req.body ?? {};
+
+    if (!description) {
+      res.status(400).json({ status: 'error', message: 'Missing required fields' });
+      return;
+    }
+
+    const metadata = await validateUploadMetadata(postId, { tags, folderId, category, fields });
+    if ('error' in metadata) {
+      res.status(400).json({ status: 'error', message: metadata.error });
+      return;
+    }
+
+    const { sessionId } = req.params;
+    const username = (await reddit.getCurrentUsername()) ?? 'anonymous';
+    const { session, buffer } = await assembleUpload(sessionId, postId, username);
+
+    const config = await getConfig(redis);
+    const documentId = `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const saved = await saveUploadedDocument(
+      postId,
+      buffer,
+      {
+        id: documentId,
+        fileName: session.fileName,
+        fileType: session.fileType,
+        fileSize: buffer.length,
+        description,
+        notes: notes || '',
+        timestamp: Date.now(),
+        ...metadata.value,
+      },
+      {
+        fileName: session.fileName,
+        fileType: session.fileType,
+        fileSize: buffer.length,
+        userId: username,
+        postId,
+      },
+      config
+    );
+
+    await deleteUploadSession(sessionId, session.totalChunks);
+
+    console.log(
+      `[Uploads] Session ${sessionId} completed as document ${documentId} in ${saved.storageProvider}`
+    );
+
+    res.json({ type: 'document', document: toMetadata(saved) });
+  } catch (error) {
+    if (error instanceof DocumentConflictError) {
+      res.status(409).json({ status: 'error', message: error.message });
+      return;
+    }
+    if (error instanceof UploadRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Uploads Error] Error completing upload:', error);
+    res.status(500).json({
       status: 'error',
-      message: errorMessage,
+      message: error instanceof Error ? error.message : 'Failed to complete upload',
     });
   }
 });
 
+// TEMPORARY: Set API key endpoint (remove after use)
+// To use: Set GEMINI_API_KEY environment variable, then call this endpoint
+router.post('/api/temp-set-key', async (_req, res): Promise<void> => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  
+  if (!apiKey) {
+    res.status(400).json({ success: false, message: 'GEMINI_API_KEY not set in environment' });
+    return;
+  }
+
+  await redis.set('config:gemini_api_key', apiKey);
+  res.json({ success: true, message: 'API key set in Redis' });
+});
+
+// X-RateLimit-* headers for routes that count against the daily AI quota
+const setQuotaHeaders = (res: express.Response, quota: QuotaCheck): void => {
+  res.setHeader('X-RateLimit-Limit', quota.limit.toString());
+  res.setHeader('X-RateLimit-Remaining', quota.remaining.toString());
+  res.setHeader('X-RateLimit-Reset', quota.resetAt.toISOString());
+};
+
+// Gemini AI Analysis endpoint
+router.post<
+  unknown,
+  AnalysisResponse | { status: string; message: string },
+  AnalysisRequest
+>('/api/analyze', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    // Get current username for rate limiting
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json({ status: 'error', message: 'User authentication required' });
+      return;
+    }
+
+    // Rate limiting: 100 AI requests per day per user
+    const quota = await consumeAnalysisQuota(username);
+    setQuotaHeaders(res, quota);
+    if (!quota.allowed) {
+      console.log(`[Analysis] Rate limit exceeded for user ${username}`);
+      res.status(429).json({
+        status: 'error',
+        message: `Daily analysis limit reached (${quota.limit} requests per day). Limit resets at midnight UTC.`,
+      });
+      return;
+    }
+
+    // Extract fileData, fileType, fileName and the optional field schema from request body
+    const { fileData, fileType, fileName, schema: schemaId } = req.body;
+
+    // Add request validation
+    if (!fileData) {
+      res.status(400).json({ status: 'error', message: 'fileData is required' });
+      return;
+    }
+
+    if (!fileType) {
+      res.status(400).json({ status: 'error', message: 'fileType is required' });
+      return;
+    }
+
+    if (!fileName) {
+      res.status(400).json({ status: 'error', message: 'fileName is required' });
+      return;
+    }
+
+    const schema = schemaId ? await getFieldSchema(postId, schemaId) : null;
+    if (schemaId && !schema) {
+      res.status(400).json({ status: 'error', message: `Unknown schema "${schemaId}"` });
+      return;
+    }
+
+    console.log(`[Analysis] Starting analysis for file: ${fileName} (${fileType})`);
+
+    // Reject data URIs without a payload before hashing
+    const base64Data = fileData.includes(',') ? fileData.split(',')[1] : fileData;
+
+    if (!base64Data) {
+      res.status(400).json({ status: 'error', message: 'Invalid file data format' });
+      return;
+    }
+
+    const { analysis } = await analyzeWithCache(fileData, fileType, fileName, schema);
+
+    console.log(`[Analysis] Returning analysis results for file: ${fileName}`);
+
+    // Return analysis results to client
+    res.json({
+      type: 'analysis',
+      description: analysis.description,
+      summary: analysis.summary,
+      category: analysis.category,
+      suggestedTags: analysis.suggestedTags,
+      confidence: analysis.confidence,
+      ...(analysis.fields ? { fields: analysis.fields } : {}),
+    });
+  } catch (error) {
+    console.error('[Analysis Error] Error analyzing document:', error);
+
+    // Determine appropriate error message and status code
+    let statusCode = 500;
+    let errorMessage = 'Failed to analyze document';
+
+    if (error instanceof Error) {
+      const errorMsg = error.message.toLowerCase();
+
+      // API key not configured
+      if (errorMsg.includes('api key not configured')) {
+        statusCode = 503;
+        errorMessage = 'AI analysis is temporarily unavailable. Please add details manually.';
+      }
+      // Timeout errors
+      else if (errorMsg.includes('timeout')) {
+        statusCode = 504;
+        errorMessage = 'Analysis took too long. Please try again or add details manually.';
+      }
+      // Invalid response format
+      else if (errorMsg.includes('invalid response')) {
+        statusCode = 502;
+        errorMessage =
+          'AI service returned an invalid response. Please try again or add details manually.';
+      }
+      // Generic API errors
+      else if (errorMsg.includes('gemini') || errorMsg.includes('api')) {
+        statusCode = 503;
+        errorMessage =
+          'AI analysis service is temporarily unavailable. Please add details manually.';
+      }
+      // Use original error message for other cases
+      else {
+        errorMessage = error.message;
+      }
+    }
+
+    res.status(statusCode).json({
+      status: 'error',
+      message: errorMessage,
+    });
+  }
+});
+
+// OCR endpoint: recognize text in an uploaded image or a stored image document
+router.post<
+  unknown,
+  OcrResponse | { status: string; message: string; document?: DocumentMetadata },
+  OcrRequest
+>('/api/ocr', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  const { fileData, fileName, documentId } = req.body ?? {};
+
+  try {
+    if (documentId !== undefined) {
+      if (typeof documentId !== 'string' || !documentId) {
+        res.status(400).json({ status: 'error', message: 'documentId must be a string' });
+        return;
+      }
+
+      const config = await getConfig(redis);
+      const recognized = await runOcrOnDocument(postId, documentId, config);
+      if (!recognized) {
+        console.log(`[OCR] Document ${documentId} not found in Redis`);
+        res.status(404).json({ status: 'error', message: 'Document not found' });
+        return;
+      }
+
+      res.json({
+        type: 'ocr',
+        result: recognized.result,
+        document: toMetadata(recognized.document),
+      });
+      return;
+    }
+
+    if (typeof fileData !== 'string' || !fileData) {
+      res.status(400).json({ status: 'error', message: 'fileData or documentId is required' });
+      return;
+    }
+
+    if (typeof fileName !== 'string' || !fileName) {
+      res.status(400).json({ status: 'error', message: 'fileName is required' });
+      return;
+    }
+
+    // Data URIs carry the file type; bare base64 is assumed to be an image
+    const mimeMatch = fileData.match(/^data:([^;,]+)[;,]/);
+    if (mimeMatch?.[1] && !mimeMatch[1].startsWith('image/')) {
+      res.status(415).json({ status: 'error', message: 'Only images can be run through OCR' });
+      return;
+    }
+
+    const base64Data = fileData.includes(',') ? fileData.split(',')[1] : fileData;
+    if (!base64Data) {
+      res.status(400).json({ status: 'error', message: 'Invalid file data format' });
+      return;
+    }
+
+    const result = await runOcrOnImage(postId, Buffer.from(base64Data, 'base64'), fileName);
+    res.json({ type: 'ocr', result });
+  } catch (error) {
+    if (error instanceof OcrRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    if (error instanceof DocumentConflictError && documentId) {
+      const current = await getDocument(postId, documentId);
+      res.status(409).json({
+        status: 'error',
+        message: error.message,
+        ...(current ? { document: toMetadata(current) } : {}),
+      });
+      return;
+    }
+    console.error('[OCR Error] Error running OCR:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to run OCR',
+    });
+  }
+});
+
+router.get<unknown, OcrHistoryResponse | { status: string; message: string }>(
+  '/api/ocr/history',
+  async (_req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const results = await getOcrHistory(postId);
+      res.json({ type: 'ocr-history', results });
+    } catch (error) {
+      console.error('[OCR Error] Error fetching OCR history:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch OCR history' });
+    }
+  }
+);
+
+// Ask a question about a stored document; counts against the daily AI quota
+router.post<{ id: string }, AskResponse | { status: string; message: string }, AskRequest>(
+  '/api/documents/:id/ask',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res.status(401).json({ status: 'error', message: 'User authentication required' });
+        return;
+      }
+
+      const quota = await consumeAnalysisQuota(username);
+      setQuotaHeaders(res, quota);
+      if (!quota.allowed) {
+        res.status(429).json({
+          status: 'error',
+          message: `Daily AI limit reached (${quota.limit} requests per day). Limit resets at midnight UTC.`,
+        });
+        return;
+      }
+
+      const exchange = await askQuestion(
+        postId,
+        req.params.id,
+        req.body?.question,
+        username,
+        await getConfig(redis)
+      );
+      if (!exchange) {
+        res.status(404).json({ status: 'error', message: 'Document not found' });
+        return;
+      }
+      res.json({ type: 'ask', exchange });
+    } catch (error) {
+      if (error instanceof QuestionRejectedError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('[Q&A Error] Error answering question:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to answer question' });
+    }
+  }
+);
+
+router.get<{ id: string }, ConversationResponse | { status: string; message: string }>(
+  '/api/documents/:id/conversation',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const exchanges = await getConversation(postId, req.params.id);
+      res.json({ type: 'conversation', exchanges });
+    } catch (error) {
+      console.error('[Q&A Error] Error fetching conversation:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch conversation' });
+    }
+  }
+);
+
+router.delete<{ id: string }, { status: string; message: string }>(
+  '/api/documents/:id/conversation',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      await clearConversation(postId, req.params.id);
+      res.json({ status: 'success', message: 'Conversation cleared' });
+    } catch (error) {
+      console.error('[Q&A Error] Error clearing conversation:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to clear conversation' });
+    }
+  }
+);
+
+// Ask a question about every document in the post; counts against the daily AI quota
+router.post<
+  unknown,
+  CollectionAskResponse | { status: string; message: string },
+  CollectionAskRequest
+>('/api/collection/ask', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json({ status: 'error', message: 'User authentication required' });
+      return;
+    }
+
+    const quota = await consumeAnalysisQuota(username);
+    setQuotaHeaders(res, quota);
+    if (!quota.allowed) {
+      res.status(429).json({
+        status: 'error',
+        message: `Daily AI limit reached (${quota.limit} requests per day). Limit resets at midnight UTC.`,
+      });
+      return;
+    }
+
+    const answer = await askAboutCollection(postId, req.body?.question);
+    res.json({ type: 'collection-answer', answer });
+  } catch (error) {
+    if (error instanceof QuestionRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Collection Error] Error answering question:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to answer question' });
+  }
+});
+
+// Digest of recent uploads: ?period=week (default) or month. The written summary
+// counts against the daily AI quota when it is generated.
+router.get<unknown, CollectionDigestResponse | { status: string; message: string }>(
+  '/api/collection/digest',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    const period = req.query.period ?? 'week';
+    if (period !== 'week' && period !== 'month') {
+      res.status(400).json({ status: 'error', message: 'period must be week or month' });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res.status(401).json({ status: 'error', message: 'User authentication required' });
+        return;
+      }
+
+      const digest = await getCollectionDigest(postId, period, username);
+      res.json({ type: 'collection-digest', digest });
+    } catch (error) {
+      console.error('[Collection Error] Error building digest:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to build digest' });
+    }
+  }
+);
+
+// Queue analysis of a stored document; the job runs in the background and counts
+// against the daily AI quota of the user who queued it
+router.post<
+  { id: string },
+  AnalysisJobResponse | { status: string; message: string },
+  AnalyzeDocumentRequest
+>('/api/documents/:id/analyze', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json({ status: 'error', message: 'User authentication required' });
+      return;
+    }
+
+    const queued = await enqueueDocumentAnalysis(postId, req.params.id, req.body ?? {}, username);
+    if (!queued) {
+      res.status(404).json({ status: 'error', message: 'Document not found' });
+      return;
+    }
+    // An existing queued or running job is returned instead of a second one
+    res.status(queued.created ? 202 : 200).json({ type: 'analysis-job', job: queued.job });
+  } catch (error) {
+    if (error instanceof AnalysisJobRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Analysis Jobs Error] Error queueing analysis:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to queue analysis' });
+  }
+});
+
+// Queue analysis of every matching document; by default only those saved without
+// AI analysis
+router.post<unknown, AnalysisJobsResponse | { status: string; message: string }, ReanalyzeRequest>(
+  '/api/documents/reanalyze',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res.status(401).json({ status: 'error', message: 'User authentication required' });
+        return;
+      }
+
+      const { jobs, alreadyQueued, limited } = await enqueueReanalysis(
+        postId,
+        req.body ?? {},
+        username
+      );
+      res.status(202).json({ type: 'analysis-jobs', jobs, alreadyQueued, limited });
+    } catch (error) {
+      if (error instanceof AnalysisJobRejectedError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('[Analysis Jobs Error] Error queueing reanalysis:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to queue reanalysis' });
+    }
+  }
+);
+
+// Status of several jobs: ?ids=a,b,c
+router.get<
+  unknown,
+  AnalysisJobsResponse | { status: string; message: string },
+  unknown,
+  { ids?: string }
+>('/api/analysis-jobs', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  const ids = typeof req.query.ids === 'string' ? req.query.ids.split(',').filter(Boolean) : [];
+  if (ids.length === 0) {
+    res.status(400).json({ status: 'error', message: 'ids is required' });
+    return;
+  }
+
+  try {
+    const jobs = await getAnalysisJobs(postId, ids);
+    res.json({ type: 'analysis-jobs', jobs });
+  } catch (error) {
+    console.error('[Analysis Jobs Error] Error fetching jobs:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch analysis jobs' });
+  }
+});
+
+router.get<{ id: string }, AnalysisJobResponse | { status: string; message: string }>(
+  '/api/analysis-jobs/:id',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const job = await getAnalysisJob(postId, req.params.id);
+      if (!job) {
+        res.status(404).json({ status: 'error', message: 'Analysis job not found' });
+        return;
+      }
+      res.json({ type: 'analysis-job', job });
+    } catch (error) {
+      console.error('[Analysis Jobs Error] Error fetching job:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch analysis job' });
+    }
+  }
+);
+
+/**
+ * Everything the AI settings panel shows; canEdit is whether the user may change it
+ */
+async function buildAiSettingsResponse(canEdit: boolean): Promise<AiSettingsResponse> {
+  const [settings, prompts] = await Promise.all([getAiSettings(), listPromptTemplates()]);
+  return {
+    type: 'ai-settings',
+    settings,
+    prompts,
+    defaults: DEFAULT_PROMPT_TEMPLATES,
+    variables: PROMPT_VARIABLES,
+    models: AI_MODELS,
+    canEdit,
+  };
+}
+
+// Anyone can see which model and prompts analyses use; only moderators can change them
+router.get<unknown, AiSettingsResponse | { status: string; message: string }>(
+  '/api/ai-settings',
+  async (_req, res): Promise<void> => {
+    try {
+      const username = await reddit.getCurrentUsername();
+      const canEdit = username ? await isModerator(username) : false;
+      res.json(await buildAiSettingsResponse(canEdit));
+    } catch (error) {
+      console.error('[AI Settings Error] Error fetching settings:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to fetch AI settings' });
+    }
+  }
+);
+
+router.put<
+  unknown,
+  AiSettingsResponse | { status: string; message: string },
+  AiSettingsUpdateRequest
+>('/api/ai-settings', async (req, res): Promise<void> => {
+  try {
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json({ status: 'error', message: 'User authentication required' });
+      return;
+    }
+    if (!(await isModerator(username))) {
+      res.status(403).json({ status: 'error', message: 'Only moderators can change AI settings' });
+      return;
+    }
+
+    await updateAiSettings(req.body ?? {}, username);
+    res.json(await buildAiSettingsResponse(true));
+  } catch (error) {
+    if (error instanceof AiSettingsRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[AI Settings Error] Error updating settings:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to update AI settings' });
+  }
+});
+
+// Save new analysis prompts as the next version and make it active
+router.post<
+  unknown,
+  AiSettingsResponse | { status: string; message: string },
+  PromptTemplatesRequest
+>('/api/ai-settings/prompts', async (req, res): Promise<void> => {
+  try {
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json({ status: 'error', message: 'User authentication required' });
+      return;
+    }
+    if (!(await isModerator(username))) {
+      res.status(403).json({ status: 'error', message: 'Only moderators can change AI prompts' });
+      return;
+    }
+
+    await savePromptTemplates(req.body ?? { image: '', pdf: '' }, username);
+    res.status(201).json(await buildAiSettingsResponse(true));
+  } catch (error) {
+    if (error instanceof AiSettingsRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[AI Settings Error] Error saving prompts:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to save AI prompts' });
+  }
+});
+
+router.get<unknown, FoldersResponse | { status: string; message: string }>(
+  '/api/folders',
+  async (_req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const folders = await listFolders(postId);
+      res.json({ type: 'folders', folders });
+    } catch (error) {
+      console.error('[Folders Error] Error listing folders:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list folders' });
+    }
+  }
+);
+
+router.post<unknown, FolderResponse | { status: string; message: string }, { name?: unknown }>(
+  '/api/folders',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const folder = await createFolder(postId, req.body?.name);
+      res.json({ type: 'folder', folder });
+    } catch (error) {
+      if (error instanceof FolderRejectedError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('[Folders Error] Error creating folder:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to create folder' });
+    }
+  }
+);
+
+router.patch<
+  { id: string },
+  FolderResponse | { status: string; message: string },
+  { name?: unknown }
+>('/api/folders/:id', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    const folder = await renameFolder(postId, req.params.id, req.body?.name);
+    if (!folder) {
+      res.status(404).json({ status: 'error', message: 'Folder not found' });
+      return;
+    }
+    res.json({ type: 'folder', folder });
+  } catch (error) {
+    if (error instanceof FolderRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Folders Error] Error renaming folder:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to rename folder' });
+  }
+});
+
+router.delete<{ id: string }, { status: string; message: string; moved?: number }>(
+  '/api/folders/:id',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const moved = await deleteFolder(postId, req.params.id);
+      if (moved === null) {
+        res.status(404).json({ status: 'error', message: 'Folder not found' });
+        return;
+      }
+      res.json({ status: 'success', message: 'Folder deleted', moved });
+    } catch (error) {
+      console.error('[Folders Error] Error deleting folder:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to delete folder' });
+    }
+  }
+);
+
+router.get<unknown, TagsResponse | { status: string; message: string }>(
+  '/api/tags',
+  async (_req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const tags = await listTags(postId);
+      res.json({ type: 'tags', tags });
+    } catch (error) {
+      console.error('[Tags Error] Error listing tags:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list tags' });
+    }
+  }
+);
+
+router.post<
+  unknown,
+  TagChangeResponse | { status: string; message: string },
+  { from?: unknown; to?: unknown }
+>('/api/tags/rename', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    const { from, to } = req.body ?? {};
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      res.status(400).json({ status: 'error', message: 'from and to are required' });
+      return;
+    }
+
+    const result = await renameTag(postId, from, to);
+    res.json({ type: 'tag-change', ...result });
+  } catch (error) {
+    if (error instanceof TagRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Tags Error] Error renaming tag:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to rename tag' });
+  }
+});
+
+router.post<
+  unknown,
+  TagChangeResponse | { status: string; message: string },
+  { sources?: unknown; target?: unknown }
+>('/api/tags/merge', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+
+  try {
+    const { sources, target } = req.body ?? {};
+    if (
+      !Array.isArray(sources) ||
+      sources.some((source) => typeof source !== 'string') ||
+      typeof target !== 'string'
+    ) {
+      res
+        .status(400)
+        .json({ status: 'error', message: 'sources (array of tags) and target are required' });
+      return;
+    }
+
+    const result = await mergeTags(postId, sources as string[], target);
+    res.json({ type: 'tag-change', ...result });
+  } catch (error) {
+    if (error instanceof TagRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Tags Error] Error merging tags:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to merge tags' });
+  }
+});
+
+router.get<unknown, FieldSchemasResponse | { status: string; message: string }>(
+  '/api/schemas',
+  async (_req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const schemas = await listFieldSchemas(postId);
+      res.json({ type: 'field-schemas', schemas });
+    } catch (error) {
+      console.error('[Schemas Error] Error listing schemas:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list schemas' });
+    }
+  }
+);
+
+router.post<unknown, FieldSchemaResponse | { status: string; message: string }, unknown>(
+  '/api/schemas',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const schema = await createFieldSchema(postId, (req.body ?? {}) as Record<string, unknown>);
+      res.json({ type: 'field-schema', schema });
+    } catch (error) {
+      if (error instanceof SchemaRejectedError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('[Schemas Error] Error creating schema:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to create schema' });
+    }
+  }
+);
+
+router.delete<{ id: string }, { status: string; message: string }>(
+  '/api/schemas/:id',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      if (!(await deleteFieldSchema(postId, req.params.id))) {
+        res.status(404).json({ status: 'error', message: 'Schema not found' });
+        return;
+      }
+      res.json({ status: 'success', message: 'Schema deleted' });
+    } catch (error) {
+      if (error instanceof SchemaRejectedError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('[Schemas Error] Error deleting schema:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to delete schema' });
+    }
+  }
+);
+
+router.get<unknown, CategoriesResponse | { status: string; message: string }>(
+  '/api/categories',
+  async (_req, res): Promise<void> => {
+    try {
+      const categories = getDocumentCategories(await getConfig(redis));
+      res.json({ type: 'categories', categories });
+    } catch (error) {
+      console.error('[Categories Error] Error loading categories:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to load categories' });
+    }
+  }
+);
+
+router.get<unknown, BillInsightsResponse | { status: string; message: string }>(
+  '/api/insights/bills',
+  async (_req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const { accounts, skipped } = await getBillInsights(postId);
+      res.json({ type: 'bill-insights', accounts, outlierThreshold: OUTLIER_THRESHOLD, skipped });
+    } catch (error) {
+      console.error('[Insights Error] Error computing bill insights:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to load bill insights' });
+    }
+  }
+);
+
+router.get<unknown, LedgerResponse | { status: string; message: string }>(
+  '/api/ledger',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const ledger = await getLedger(postId, { from: req.query.from, to: req.query.to });
+      res.json({ type: 'ledger', ...ledger });
+    } catch (error) {
+      if (error instanceof LedgerRejectedError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('[Ledger Error] Error building ledger:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to load the ledger' });
+    }
+  }
+);
+
+// Ledger export: ?format=csv (default) or json, with the same from/to range
+router.get('/api/ledger/export', async (req, res): Promise<void> => {
+  const { postId } = context;
+  if (!postId) {
+    res.status(400).json({ status: 'error', message: 'postId is required' });
+    return;
+  }
+  const format = req.query.format ?? 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    res.status(400).json({ status: 'error', message: 'format must be csv or json' });
+    return;
+  }
+
+  try {
+    const ledger = await getLedger(postId, { from: req.query.from, to: req.query.to });
+    const fileName = `ledger-${ledger.from ?? 'start'}-to-${ledger.to ?? 'now'}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    if (format === 'csv') {
+      res.type('text/csv').send(ledgerToCsv(ledger.entries));
+    } else {
+      res.json({ type: 'ledger', ...ledger });
+    }
+  } catch (error) {
+    if (error instanceof LedgerRejectedError) {
+      res.status(error.statusCode).json({ status: 'error', message: error.message });
+      return;
+    }
+    console.error('[Ledger Error] Error exporting ledger:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to export the ledger' });
+  }
+});
+
+router.get<unknown, RemindersResponse | { status: string; message: string }>(
+  '/api/reminders',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const documentId =
+        typeof req.query.documentId === 'string' ? req.query.documentId : undefined;
+      const reminders = await listReminders(postId, documentId);
+      res.json({ type: 'reminders', reminders });
+    } catch (error) {
+      console.error('[Reminders Error] Error listing reminders:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list reminders' });
+    }
+  }
+);
+
+router.post<unknown, ReminderResponse | { status: string; message: string }, unknown>(
+  '/api/reminders',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      const username = (await reddit.getCurrentUsername()) ?? 'anonymous';
+      const reminder = await createReminder(
+        postId,
+        (req.body ?? {}) as Record<string, unknown>,
+        username
+      );
+      res.json({ type: 'reminder', reminder });
+    } catch (error) {
+      if (error instanceof ReminderRejectedError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('[Reminders Error] Error creating reminder:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to create reminder' });
+    }
+  }
+);
+
+router.delete<{ id: string }, { status: string; message: string }>(
+  '/api/reminders/:id',
+  async (req, res): Promise<void> => {
+    const { postId } = context;
+    if (!postId) {
+      res.status(400).json({ status: 'error', message: 'postId is required' });
+      return;
+    }
+
+    try {
+      if (!(await cancelReminder(postId, req.params.id))) {
+        res.status(404).json({ status: 'error', message: 'Reminder not found' });
+        return;
+      }
+      res.json({ status: 'success', message: 'Reminder cancelled' });
+    } catch (error) {
+      console.error('[Reminders Error] Error cancelling reminder:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to cancel reminder' });
+    }
+  }
+);
+
 // Use router middleware
 app.use(router);
 
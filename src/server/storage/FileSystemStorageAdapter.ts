@@ -0,0 +1,308 @@
+/**
+ * File System Storage Adapter Implementation
+ *
+ * This adapter stores documents as files under a configured root directory,
+ * for self-hosted and test deployments that have no S3 or PostgreSQL service.
+ * Blobs are sharded into two levels of subdirectories to keep directory sizes
+ * small, and each blob has a sidecar JSON file holding its metadata.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  StorageAdapter,
+  StorageMetadata,
+  StorageResult,
+  StorageError,
+  StorageErrorCode,
+  StoredDocument,
+  StorageKeyPage,
+} from './StorageAdapter.js';
+
+/**
+ * Sidecar metadata written next to each blob
+ */
+interface SidecarMetadata {
+  storageKey: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  userId: string;
+  postId: string;
+  createdAt: string;
+}
+
+// Storage keys are generated by this adapter; anything else could escape the root
+const STORAGE_KEY_PATTERN = /^fs_[a-z0-9_]+$/;
+
+function isNotFoundError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'ENOENT';
+}
+
+/**
+ * File System Storage Adapter
+ *
+ * Stores binary document data on local disk. Files are served through the
+ * server's /api/documents/stream/:storageKey endpoint.
+ */
+export class FileSystemStorageAdapter implements StorageAdapter {
+  private rootDir: string;
+  private baseUrl: string;
+  private configured: boolean;
+
+  constructor(config?: { rootDir: string; serverBaseUrl: string }) {
+    if (config) {
+      this.rootDir = config.rootDir;
+      this.baseUrl = config.serverBaseUrl;
+    } else {
+      // Fallback to environment variables for local development
+      this.rootDir = process.env.FILESYSTEM_STORAGE_ROOT || '';
+      this.baseUrl = process.env.SERVER_BASE_URL || '';
+    }
+
+    this.configured = !!this.rootDir;
+    if (!this.configured) {
+      console.warn('File system adapter is not properly configured');
+    }
+  }
+
+  /**
+   * Check if the adapter is properly configured
+   */
+  isConfigured(): boolean {
+    return this.configured;
+  }
+
+  /**
+   * Resolve the blob and sidecar paths for a storage key
+   * Layout: {root}/{aa}/{bb}/{storageKey}, where aabb are the first hex
+   * characters of the SHA-256 of the key
+   */
+  private resolvePaths(storageKey: string): { blobPath: string; metadataPath: string } {
+    if (!STORAGE_KEY_PATTERN.test(storageKey)) {
+      throw new StorageError(StorageErrorCode.NOT_FOUND, `Invalid storage key: ${storageKey}`);
+    }
+
+    const hash = crypto.createHash('sha256').update(storageKey).digest('hex');
+    const blobPath = path.join(
+      this.rootDir,
+      hash.substring(0, 2),
+      hash.substring(2, 4),
+      storageKey
+    );
+    return { blobPath, metadataPath: `${blobPath}.json` };
+  }
+
+  private assertConfigured(): void {
+    if (!this.isConfigured()) {
+      throw new StorageError(
+        StorageErrorCode.CONFIGURATION_ERROR,
+        'File system storage is not properly configured'
+      );
+    }
+  }
+
+  /**
+   * Write a file and its sidecar metadata to disk
+   */
+  async upload(buffer: Buffer, metadata: StorageMetadata): Promise<StorageResult> {
+    this.assertConfigured();
+
+    const storageKey = `fs_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const { blobPath, metadataPath } = this.resolvePaths(storageKey);
+
+    const sidecar: SidecarMetadata = {
+      storageKey,
+      fileName: metadata.fileName,
+      fileType: metadata.fileType,
+      fileSize: metadata.fileSize,
+      userId: metadata.userId,
+      postId: metadata.postId,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(blobPath), { recursive: true });
+      await fs.writeFile(blobPath, buffer);
+      await fs.writeFile(metadataPath, JSON.stringify(sidecar, null, 2));
+
+      console.log(`Document written to file system: ${storageKey}`);
+
+      return {
+        storageKey,
+        provider: 'filesystem',
+        url: `${this.baseUrl}/api/documents/stream/${storageKey}`,
+      };
+    } catch (error) {
+      console.error('Failed to write document to file system:', error);
+      // Don't leave a blob without its sidecar behind
+      await fs.rm(blobPath, { force: true }).catch(() => undefined);
+      throw new StorageError(
+        StorageErrorCode.UPLOAD_FAILED,
+        'Failed to write document to file system',
+        error
+      );
+    }
+  }
+
+  /**
+   * Get URL to access a stored document
+   * Returns the server streaming endpoint URL
+   */
+  async getUrl(storageKey: string): Promise<string> {
+    this.assertConfigured();
+
+    const { blobPath } = this.resolvePaths(storageKey);
+    try {
+      await fs.access(blobPath);
+    } catch {
+      throw new StorageError(
+        StorageErrorCode.NOT_FOUND,
+        'Document not found in file system storage'
+      );
+    }
+
+    return `${this.baseUrl}/api/documents/stream/${storageKey}`;
+  }
+
+  /**
+   * Delete a document and its sidecar metadata
+   */
+  async delete(storageKey: string): Promise<void> {
+    this.assertConfigured();
+
+    const { blobPath, metadataPath } = this.resolvePaths(storageKey);
+    try {
+      await fs.unlink(blobPath);
+      await fs.rm(metadataPath, { force: true });
+      console.log(`Document deleted from file system: ${storageKey}`);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        throw new StorageError(
+          StorageErrorCode.NOT_FOUND,
+          'Document not found in file system storage'
+        );
+      }
+      console.error('Failed to delete document from file system:', error);
+      throw new StorageError(
+        StorageErrorCode.DELETE_FAILED,
+        'Failed to delete document from file system',
+        error
+      );
+    }
+  }
+
+  /**
+   * Read document binary data and metadata
+   * Helper method for streaming endpoint
+   */
+  async getDocument(storageKey: string): Promise<StoredDocument | null> {
+    this.assertConfigured();
+
+    const { blobPath, metadataPath } = this.resolvePaths(storageKey);
+    try {
+      const [buffer, sidecarJson] = await Promise.all([
+        fs.readFile(blobPath),
+        fs.readFile(metadataPath, 'utf8'),
+      ]);
+      const sidecar: SidecarMetadata = JSON.parse(sidecarJson);
+
+      return {
+        buffer,
+        contentType: sidecar.fileType,
+        fileName: sidecar.fileName,
+      };
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      console.error('Failed to read document from file system:', error);
+      throw new StorageError(
+        StorageErrorCode.DOWNLOAD_FAILED,
+        'Failed to read document from file system',
+        error
+      );
+    }
+  }
+
+  /**
+   * Check whether a blob exists on disk
+   */
+  async exists(storageKey: string): Promise<boolean> {
+    this.assertConfigured();
+
+    const { blobPath } = this.resolvePaths(storageKey);
+    try {
+      await fs.access(blobPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List stored blobs ordered by storage key
+   * Walks every shard directory, so intended for maintenance jobs rather than
+   * request handling. The cursor is the last storage key of the previous page.
+   */
+  async listKeys(cursor?: string, limit: number = 100): Promise<StorageKeyPage> {
+    this.assertConfigured();
+
+    try {
+      const storageKeys: string[] = [];
+      for (const shard of await this.readDirectory(this.rootDir)) {
+        for (const subShard of await this.readDirectory(path.join(this.rootDir, shard))) {
+          const entries = await this.readDirectory(path.join(this.rootDir, shard, subShard));
+          storageKeys.push(...entries.filter((entry) => STORAGE_KEY_PATTERN.test(entry)));
+        }
+      }
+
+      const page = storageKeys
+        .sort()
+        .filter((storageKey) => !cursor || storageKey > cursor)
+        .slice(0, limit);
+
+      const keys = await Promise.all(
+        page.map(async (storageKey) => {
+          const { blobPath, metadataPath } = this.resolvePaths(storageKey);
+          try {
+            const sidecar: SidecarMetadata = JSON.parse(await fs.readFile(metadataPath, 'utf8'));
+            return {
+              storageKey,
+              postId: sidecar.postId,
+              createdAt: new Date(sidecar.createdAt).getTime(),
+            };
+          } catch {
+            // No readable sidecar; fall back to the file's own timestamp
+            const stats = await fs.stat(blobPath);
+            return { storageKey, postId: '', createdAt: stats.mtimeMs };
+          }
+        })
+      );
+
+      return {
+        keys,
+        nextCursor: page.length === limit ? page[page.length - 1]! : null,
+      };
+    } catch (error) {
+      console.error('Failed to list documents in file system:', error);
+      throw new StorageError(
+        StorageErrorCode.DOWNLOAD_FAILED,
+        'Failed to list documents in file system',
+        error
+      );
+    }
+  }
+
+  private async readDirectory(directory: string): Promise<string[]> {
+    try {
+      return await fs.readdir(directory);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
@@ -12,6 +12,8 @@ import {
   StorageResult,
   StorageError,
   StorageErrorCode,
+  StoredDocument,
+  StorageKeyPage,
 } from './StorageAdapter.js';
 
 /**
@@ -275,7 +277,7 @@ export class PostgreSQLStorageAdapter implements StorageAdapter {
    * Get document binary data and metadata
    * Helper method for streaming endpoint
    */
-  async getDocument(storageKey: string): Promise<{ buffer: Buffer; contentType: string; fileName: string } | null> {
+  async getDocument(storageKey: string): Promise<StoredDocument | null> {
     if (!this.isInitialized) {
       throw new StorageError(
         StorageErrorCode.CONFIGURATION_ERROR,
@@ -318,6 +320,75 @@ export class PostgreSQLStorageAdapter implements StorageAdapter {
     }
   }
 
+  /**
+   * Check whether a document exists in PostgreSQL storage
+   */
+  async exists(storageKey: string): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new StorageError(
+        StorageErrorCode.CONFIGURATION_ERROR,
+        'PostgreSQL adapter is not properly configured'
+      );
+    }
+
+    try {
+      const result = await this.pool.query(
+        'SELECT 1 FROM document_storage WHERE storage_key = $1',
+        [storageKey]
+      );
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Failed to check document in PostgreSQL:', error);
+      throw new StorageError(
+        StorageErrorCode.NETWORK_ERROR,
+        'Failed to check document in PostgreSQL',
+        error
+      );
+    }
+  }
+
+  /**
+   * List stored documents ordered by storage key
+   * The cursor is the last storage key of the previous page
+   */
+  async listKeys(cursor?: string, limit: number = 100): Promise<StorageKeyPage> {
+    if (!this.isInitialized) {
+      throw new StorageError(
+        StorageErrorCode.CONFIGURATION_ERROR,
+        'PostgreSQL adapter is not properly configured'
+      );
+    }
+
+    try {
+      const result = await this.pool.query(
+        `SELECT storage_key, post_id, created_at 
+         FROM document_storage 
+         WHERE storage_key > $1 
+         ORDER BY storage_key 
+         LIMIT $2`,
+        [cursor ?? '', limit]
+      );
+
+      const keys = result.rows.map((row) => ({
+        storageKey: row.storage_key as string,
+        postId: row.post_id as string,
+        createdAt: new Date(row.created_at).getTime(),
+      }));
+
+      return {
+        keys,
+        nextCursor: keys.length === limit ? keys[keys.length - 1]!.storageKey : null,
+      };
+    } catch (error) {
+      console.error('Failed to list documents in PostgreSQL:', error);
+      throw new StorageError(
+        StorageErrorCode.NETWORK_ERROR,
+        'Failed to list documents in PostgreSQL',
+        error
+      );
+    }
+  }
+
   /**
    * Close the connection pool
    * Should be called when shutting down the server
@@ -3,6 +3,8 @@
  * 
  * This module implements the StorageAdapter interface for AWS S3,
  * providing upload, retrieval, and deletion capabilities for PDF documents.
+ * A custom endpoint can be set to target S3-compatible services such as
+ * MinIO, Cloudflare R2 or Backblaze B2.
  */
 
 import {
@@ -10,6 +12,8 @@ import {
   PutObjectCommand,
   GetObjectCommand,
   DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import {
@@ -18,8 +22,16 @@ import {
   StorageResult,
   StorageError,
   StorageErrorCode,
+  StoredDocument,
+  StorageKeyPage,
 } from './StorageAdapter.js';
 
+// Presigned URL lifetime when none is configured
+const DEFAULT_PRESIGN_EXPIRY_SECONDS = 3600;
+
+// All uploads are written under documents/{postId}/{userId}/
+const KEY_PREFIX = 'documents/';
+
 /**
  * Retry an operation with exponential backoff
  * @param operation - The async operation to retry
@@ -57,6 +69,7 @@ export class S3StorageAdapter implements StorageAdapter {
   private client: S3Client;
   private bucketName: string;
   private region: string;
+  private presignExpirySeconds: number;
   private configured: boolean;
 
   constructor(config?: {
@@ -64,10 +77,14 @@ export class S3StorageAdapter implements StorageAdapter {
     accessKeyId: string;
     secretAccessKey: string;
     bucket: string;
+    endpoint?: string;
+    forcePathStyle?: boolean;
+    presignExpirySeconds?: number;
   }) {
     if (config) {
       this.region = config.region;
       this.bucketName = config.bucket;
+      this.presignExpirySeconds = config.presignExpirySeconds || DEFAULT_PRESIGN_EXPIRY_SECONDS;
       this.configured = !!(config.accessKeyId && config.secretAccessKey && config.bucket);
 
       this.client = new S3Client({
@@ -76,11 +93,16 @@ export class S3StorageAdapter implements StorageAdapter {
           accessKeyId: config.accessKeyId,
           secretAccessKey: config.secretAccessKey,
         },
+        ...(config.endpoint ? { endpoint: config.endpoint } : {}),
+        forcePathStyle: config.forcePathStyle || false,
       });
     } else {
       // Fallback to environment variables for local development
       this.region = process.env.AWS_REGION || 'us-east-1';
       this.bucketName = process.env.AWS_S3_BUCKET || '';
+      this.presignExpirySeconds =
+        parseInt(process.env.AWS_S3_PRESIGN_EXPIRY_SECONDS || '', 10) ||
+        DEFAULT_PRESIGN_EXPIRY_SECONDS;
       this.configured = !!(
         process.env.AWS_ACCESS_KEY_ID &&
         process.env.AWS_SECRET_ACCESS_KEY &&
@@ -93,6 +115,8 @@ export class S3StorageAdapter implements StorageAdapter {
           accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
           secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
         },
+        ...(process.env.AWS_S3_ENDPOINT ? { endpoint: process.env.AWS_S3_ENDPOINT } : {}),
+        forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
       });
     }
   }
@@ -123,7 +147,7 @@ export class S3StorageAdapter implements StorageAdapter {
     const timestamp = Date.now();
     const randomSuffix = Math.random().toString(36).substring(2, 9);
     const sanitizedFileName = metadata.fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
-    const storageKey = `documents/${metadata.postId}/${metadata.userId}/${timestamp}_${randomSuffix}_${sanitizedFileName}`;
+    const storageKey = `${KEY_PREFIX}${metadata.postId}/${metadata.userId}/${timestamp}_${randomSuffix}_${sanitizedFileName}`;
 
     try {
       // Upload to S3 with retry logic
@@ -150,7 +174,9 @@ export class S3StorageAdapter implements StorageAdapter {
         Bucket: this.bucketName,
         Key: storageKey,
       });
-      const url = await getSignedUrl(this.client, getCommand, { expiresIn: 3600 });
+      const url = await getSignedUrl(this.client, getCommand, {
+        expiresIn: this.presignExpirySeconds,
+      });
 
       console.log(`Successfully uploaded document to S3: ${storageKey}`);
 
@@ -172,7 +198,7 @@ export class S3StorageAdapter implements StorageAdapter {
   /**
    * Generate a presigned URL to access a stored file
    * @param storageKey - Unique identifier for the stored file
-   * @returns Presigned URL valid for 1 hour
+   * @returns Presigned URL valid for the configured expiry (default 1 hour)
    */
   async getUrl(storageKey: string): Promise<string> {
     if (!this.isConfigured()) {
@@ -188,7 +214,9 @@ export class S3StorageAdapter implements StorageAdapter {
         Key: storageKey,
       });
 
-      const url = await getSignedUrl(this.client, command, { expiresIn: 3600 });
+      const url = await getSignedUrl(this.client, command, {
+        expiresIn: this.presignExpirySeconds,
+      });
       console.log(`Generated presigned URL for: ${storageKey}`);
       return url;
     } catch (error) {
@@ -230,4 +258,120 @@ export class S3StorageAdapter implements StorageAdapter {
       );
     }
   }
+
+  /**
+   * Download a file's contents from S3
+   * @param storageKey - Unique identifier for the stored file
+   * @returns File contents, or null if the object does not exist
+   */
+  async getDocument(storageKey: string): Promise<StoredDocument | null> {
+    if (!this.isConfigured()) {
+      throw new StorageError(
+        StorageErrorCode.CONFIGURATION_ERROR,
+        'S3 storage is not properly configured'
+      );
+    }
+
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: storageKey,
+      });
+      const response = await this.client.send(command);
+
+      if (!response.Body) {
+        return null;
+      }
+
+      return {
+        buffer: Buffer.from(await response.Body.transformToByteArray()),
+        contentType: response.ContentType || 'application/octet-stream',
+        fileName: response.Metadata?.originalname || storageKey.split('/').pop() || storageKey,
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        return null;
+      }
+      console.error('S3 download failed:', error);
+      throw new StorageError(
+        StorageErrorCode.DOWNLOAD_FAILED,
+        'Failed to download document from S3',
+        error
+      );
+    }
+  }
+
+  /**
+   * Check whether an object exists in S3
+   * @param storageKey - Unique identifier for the stored file
+   */
+  async exists(storageKey: string): Promise<boolean> {
+    if (!this.isConfigured()) {
+      throw new StorageError(
+        StorageErrorCode.CONFIGURATION_ERROR,
+        'S3 storage is not properly configured'
+      );
+    }
+
+    try {
+      const command = new HeadObjectCommand({
+        Bucket: this.bucketName,
+        Key: storageKey,
+      });
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey')) {
+        return false;
+      }
+      console.error('S3 existence check failed:', error);
+      throw new StorageError(
+        StorageErrorCode.NETWORK_ERROR,
+        'Failed to check document in S3',
+        error
+      );
+    }
+  }
+
+  /**
+   * List stored objects under the documents/ prefix
+   * @param cursor - Continuation token from a previous page
+   * @param limit - Maximum number of keys to return (S3 caps this at 1000)
+   */
+  async listKeys(cursor?: string, limit: number = 100): Promise<StorageKeyPage> {
+    if (!this.isConfigured()) {
+      throw new StorageError(
+        StorageErrorCode.CONFIGURATION_ERROR,
+        'S3 storage is not properly configured'
+      );
+    }
+
+    try {
+      const command = new ListObjectsV2Command({
+        Bucket: this.bucketName,
+        Prefix: KEY_PREFIX,
+        MaxKeys: limit,
+        ...(cursor ? { ContinuationToken: cursor } : {}),
+      });
+      const response = await retryOperation(() => this.client.send(command));
+
+      return {
+        keys: (response.Contents ?? [])
+          .filter((object) => object.Key)
+          .map((object) => ({
+            storageKey: object.Key!,
+            postId: object.Key!.split('/')[1] ?? '',
+            createdAt: object.LastModified?.getTime() ?? 0,
+          })),
+        nextCursor: response.NextContinuationToken ?? null,
+      };
+    } catch (error) {
+      console.error('S3 listing failed:', error);
+      throw new StorageError(
+        StorageErrorCode.NETWORK_ERROR,
+        'Failed to list documents in S3',
+        error
+      );
+    }
+  }
 }
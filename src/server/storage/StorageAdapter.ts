@@ -2,7 +2,7 @@
  * Storage Adapter Interface for External PDF Storage
  * 
  * This module defines the core interfaces and types for the storage adapter pattern,
- * enabling flexible storage backend selection (S3, PostgreSQL, etc.)
+ * enabling flexible storage backend selection (S3, PostgreSQL, file system, etc.)
  */
 
 /**
@@ -21,10 +21,36 @@ export interface StorageMetadata {
  */
 export interface StorageResult {
   storageKey: string;
-  provider: 's3' | 'postgresql' | 'redis';
+  provider: 's3' | 'postgresql' | 'filesystem' | 'redis';
   url?: string; // For immediate access (S3 presigned URL)
 }
 
+/**
+ * File contents returned by adapters that can serve files through the server
+ */
+export interface StoredDocument {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+/**
+ * A stored file as reported by listKeys()
+ */
+export interface StoredKeyInfo {
+  storageKey: string;
+  postId: string; // Post the file was uploaded to ('' if unknown)
+  createdAt: number; // Upload time in ms, used to skip in-flight uploads
+}
+
+/**
+ * One page of listKeys() results
+ */
+export interface StorageKeyPage {
+  keys: StoredKeyInfo[];
+  nextCursor: string | null; // Pass back to listKeys() for the next page
+}
+
 /**
  * Error codes for storage operations
  */
@@ -83,9 +109,32 @@ export interface StorageAdapter {
    */
   delete(storageKey: string): Promise<void>;
 
+  /**
+   * Check whether a file exists in external storage
+   * @param storageKey - Unique identifier for the stored file
+   * @throws StorageError if the check fails
+   */
+  exists(storageKey: string): Promise<boolean>;
+
+  /**
+   * List stored files, one page at a time
+   * @param cursor - Cursor from a previous page (omit for the first page)
+   * @param limit - Maximum number of keys to return
+   * @throws StorageError if listing fails
+   */
+  listKeys(cursor?: string, limit?: number): Promise<StorageKeyPage>;
+
   /**
    * Check if the adapter is properly configured
    * @returns true if all required configuration is present and valid
    */
   isConfigured(): boolean;
+
+  /**
+   * Read a stored file's contents (adapters served via /api/documents/stream)
+   * @param storageKey - Unique identifier for the stored file
+   * @returns File contents, or null if not found
+   * @throws StorageError if reading fails
+   */
+  getDocument?(storageKey: string): Promise<StoredDocument | null>;
 }
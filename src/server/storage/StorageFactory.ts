@@ -8,12 +8,21 @@
 import { StorageAdapter, StorageError, StorageErrorCode } from './StorageAdapter.js';
 import { S3StorageAdapter } from './S3StorageAdapter.js';
 import { PostgreSQLStorageAdapter } from './PostgreSQLStorageAdapter.js';
-import { AppConfig } from '../config.js';
+import { FileSystemStorageAdapter } from './FileSystemStorageAdapter.js';
+import { AppConfig, DEFAULT_S3_PRESIGN_EXPIRY_SECONDS } from '../config.js';
 
 /**
  * Supported storage provider types
  */
-export type StorageProvider = 's3' | 'postgresql' | 'redis';
+export type StorageProvider = 's3' | 'postgresql' | 'filesystem' | 'redis';
+
+/**
+ * Providers backed by a storage adapter (everything except inline Redis)
+ */
+export type ExternalStorageProvider = Exclude<StorageProvider, 'redis'>;
+
+// SigV4 presigned URLs cannot be valid for longer than 7 days
+const MAX_S3_PRESIGN_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
 
 /**
  * Environment variable configuration for storage providers
@@ -25,12 +34,19 @@ interface StorageConfig {
     accessKeyId: string;
     secretAccessKey: string;
     bucket: string;
+    endpoint: string; // Empty for AWS
+    forcePathStyle: boolean;
+    presignExpirySeconds: number;
   };
   postgresql?: {
     connectionString: string;
     ssl: boolean;
     serverBaseUrl: string;
   };
+  filesystem?: {
+    rootDir: string;
+    serverBaseUrl: string;
+  };
 }
 
 /**
@@ -70,6 +86,31 @@ export class StorageFactory {
     return this.instance;
   }
 
+  /**
+   * Create a standalone adapter for a specific provider, bypassing the singleton
+   * Used when documents live on a provider other than the configured one
+   * (for example while migrating between providers)
+   * @param appConfig - Configuration from Redis
+   * @param provider - Provider to create an adapter for
+   * @throws StorageError if that provider's configuration is invalid
+   */
+  static createAdapterFor(
+    appConfig: AppConfig,
+    provider: ExternalStorageProvider
+  ): StorageAdapter {
+    const config = this.loadConfigurationFromAppConfig({ ...appConfig, storageProvider: provider });
+    this.validateConfiguration(config);
+
+    const adapter = this.createAdapter(config);
+    if (!adapter.isConfigured()) {
+      throw new StorageError(
+        StorageErrorCode.CONFIGURATION_ERROR,
+        `Storage provider ${provider} is not properly configured. Check configuration in Redis.`
+      );
+    }
+    return adapter;
+  }
+
   /**
    * Load configuration from AppConfig (Redis-based)
    */
@@ -84,6 +125,9 @@ export class StorageFactory {
         accessKeyId: appConfig.awsAccessKeyId || '',
         secretAccessKey: appConfig.awsSecretAccessKey || '',
         bucket: appConfig.awsS3Bucket || '',
+        endpoint: appConfig.s3Endpoint || '',
+        forcePathStyle: appConfig.s3ForcePathStyle || false,
+        presignExpirySeconds: appConfig.s3PresignExpirySeconds ?? DEFAULT_S3_PRESIGN_EXPIRY_SECONDS,
       };
     } else if (appConfig.storageProvider === 'postgresql') {
       config.postgresql = {
@@ -91,6 +135,11 @@ export class StorageFactory {
         ssl: appConfig.postgresqlSsl || false,
         serverBaseUrl: appConfig.serverBaseUrl || '',
       };
+    } else if (appConfig.storageProvider === 'filesystem') {
+      config.filesystem = {
+        rootDir: appConfig.filesystemRoot || '',
+        serverBaseUrl: appConfig.serverBaseUrl || '',
+      };
     }
 
     return config;
@@ -113,6 +162,11 @@ export class StorageFactory {
         accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
         secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
         bucket: process.env.AWS_S3_BUCKET || '',
+        endpoint: process.env.AWS_S3_ENDPOINT || '',
+        forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
+        presignExpirySeconds: process.env.AWS_S3_PRESIGN_EXPIRY_SECONDS
+          ? Number(process.env.AWS_S3_PRESIGN_EXPIRY_SECONDS)
+          : DEFAULT_S3_PRESIGN_EXPIRY_SECONDS,
       };
     } else if (provider === 'postgresql') {
       config.postgresql = {
@@ -120,6 +174,11 @@ export class StorageFactory {
         ssl: process.env.POSTGRESQL_SSL === 'true',
         serverBaseUrl: process.env.SERVER_BASE_URL || '',
       };
+    } else if (provider === 'filesystem') {
+      config.filesystem = {
+        rootDir: process.env.FILESYSTEM_STORAGE_ROOT || '',
+        serverBaseUrl: process.env.SERVER_BASE_URL || '',
+      };
     }
 
     return config;
@@ -138,10 +197,10 @@ export class StorageFactory {
       );
     }
 
-    if (!['s3', 'postgresql'].includes(config.provider)) {
+    if (!['s3', 'postgresql', 'filesystem'].includes(config.provider)) {
       throw new StorageError(
         StorageErrorCode.CONFIGURATION_ERROR,
-        `Invalid storage provider: ${config.provider}. Must be 's3' or 'postgresql'`
+        `Invalid storage provider: ${config.provider}. Must be 's3', 'postgresql' or 'filesystem'`
       );
     }
 
@@ -149,6 +208,8 @@ export class StorageFactory {
       this.validateS3Configuration(config.s3!);
     } else if (config.provider === 'postgresql') {
       this.validatePostgreSQLConfiguration(config.postgresql!);
+    } else if (config.provider === 'filesystem') {
+      this.validateFileSystemConfiguration(config.filesystem!);
     }
   }
 
@@ -172,6 +233,32 @@ export class StorageFactory {
         `Missing required S3 configuration: ${missing.map((v) => v.name).join(', ')}`
       );
     }
+
+    if (s3Config?.endpoint) {
+      let protocol: string;
+      try {
+        protocol = new URL(s3Config.endpoint).protocol;
+      } catch {
+        protocol = '';
+      }
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        throw new StorageError(
+          StorageErrorCode.CONFIGURATION_ERROR,
+          `Invalid AWS_S3_ENDPOINT: ${s3Config.endpoint}. Must be an http(s) URL`
+        );
+      }
+    }
+
+    const expiry = s3Config?.presignExpirySeconds;
+    if (
+      expiry !== undefined &&
+      (!Number.isInteger(expiry) || expiry < 1 || expiry > MAX_S3_PRESIGN_EXPIRY_SECONDS)
+    ) {
+      throw new StorageError(
+        StorageErrorCode.CONFIGURATION_ERROR,
+        `Invalid AWS_S3_PRESIGN_EXPIRY_SECONDS: ${expiry}. Must be between 1 and ${MAX_S3_PRESIGN_EXPIRY_SECONDS}`
+      );
+    }
   }
 
   /**
@@ -197,6 +284,22 @@ export class StorageFactory {
     }
   }
 
+  /**
+   * Validate file system-specific configuration
+   * @param fsConfig - File system configuration to validate
+   * @throws StorageError if file system configuration is invalid
+   */
+  private static validateFileSystemConfiguration(
+    fsConfig: StorageConfig['filesystem']
+  ): void {
+    if (!fsConfig?.rootDir) {
+      throw new StorageError(
+        StorageErrorCode.CONFIGURATION_ERROR,
+        'Missing required file system configuration: FILESYSTEM_STORAGE_ROOT'
+      );
+    }
+  }
+
   /**
    * Create storage adapter instance based on configuration
    * @param config - Storage configuration
@@ -209,6 +312,8 @@ export class StorageFactory {
         return new S3StorageAdapter(config.s3);
       case 'postgresql':
         return new PostgreSQLStorageAdapter(config.postgresql);
+      case 'filesystem':
+        return new FileSystemStorageAdapter(config.filesystem);
       default:
         throw new StorageError(
           StorageErrorCode.CONFIGURATION_ERROR,
@@ -245,6 +350,9 @@ export class StorageFactory {
         accessKeyId: this.maskSensitiveData(this.config.s3.accessKeyId),
         secretAccessKey: '***MASKED***',
         bucket: this.config.s3.bucket,
+        endpoint: this.config.s3.endpoint,
+        forcePathStyle: this.config.s3.forcePathStyle,
+        presignExpirySeconds: this.config.s3.presignExpirySeconds,
       };
     }
 
@@ -256,6 +364,10 @@ export class StorageFactory {
       };
     }
 
+    if (this.config.filesystem) {
+      maskedConfig.filesystem = { ...this.config.filesystem };
+    }
+
     return maskedConfig;
   }
 
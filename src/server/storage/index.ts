@@ -8,6 +8,9 @@ export type {
   StorageAdapter,
   StorageMetadata,
   StorageResult,
+  StoredDocument,
+  StoredKeyInfo,
+  StorageKeyPage,
 } from './StorageAdapter.js';
 
 export {
@@ -16,4 +19,5 @@ export {
 } from './StorageAdapter.js';
 
 export { StorageFactory } from './StorageFactory.js';
-export type { StorageProvider } from './StorageFactory.js';
+export { FileSystemStorageAdapter } from './FileSystemStorageAdapter.js';
+export type { StorageProvider, ExternalStorageProvider } from './StorageFactory.js';
@@ -12,7 +12,10 @@ export default defineConfig({
     target: 'node22',
     sourcemap: true,
     rollupOptions: {
-      external: [...builtinModules],
+      // tesseract.js starts its worker and loads language data from paths in
+      // node_modules, so it cannot be bundled. core/ocr.ts only requires it on
+      // the first OCR request, so the server still loads without it.
+      external: [...builtinModules, 'tesseract.js', '@tesseract.js-data/eng'],
 
       output: {
         format: 'cjs',
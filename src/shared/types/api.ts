@@ -26,8 +26,86 @@ export type Document = {
   description: string;
   notes: string;
   timestamp: number;
-  storageProvider: 'redis' | 's3' | 'postgresql';
+  updatedAt?: number; // Set when metadata is edited after upload
+  storageProvider: 'redis' | 's3' | 'postgresql' | 'filesystem';
   storageKey?: string; // For external storage references
+  contentHash?: string; // SHA-256 of the file; identical files share one stored copy
+  version?: number; // Incremented on every write; send back to detect concurrent edits
+  deletedAt?: number; // Set while the document is in the trash
+  deletedBy?: string; // Username that moved it to the trash
+  fileVersion?: number; // File version in use; unset until a replacement file is uploaded
+  ocrText?: string; // Text recognized by POST /api/ocr; cleared when the file changes
+  tags?: string[]; // Lowercase labels, e.g. "bill" or "home-insurance"
+  folderId?: string; // Folder from /api/folders; unset for unfiled documents
+  category?: string; // Document type from the configured taxonomy, e.g. "bill" or "receipt"
+  fields?: DocumentFields; // Typed values extracted with a field schema, or entered by hand
+};
+
+// Value types a schema field can hold. Currency amounts are numbers in the
+// document's currency (see the schema's "currency" field); dates are YYYY-MM-DD.
+export type FieldType = 'string' | 'number' | 'currency' | 'date' | 'boolean';
+
+export type FieldValue = string | number | boolean;
+
+export type FieldDefinition = {
+  name: string; // Key in DocumentFields.values, e.g. "amountDue"
+  label: string;
+  type: FieldType;
+  description?: string; // Extra guidance for the model, e.g. "Total including tax"
+  required?: boolean; // Edits must provide a value; extraction may still leave it empty
+};
+
+export type FieldSchema = {
+  id: string; // "bill", "receipt", "invoice", or "custom_..." for schemas added to a post
+  name: string;
+  description: string;
+  fields: FieldDefinition[];
+  lineItems?: boolean; // Also extract the document's line items (receipts, invoices)
+  builtIn: boolean;
+};
+
+export type LineItem = {
+  description: string;
+  quantity: number | null;
+  amount: number | null; // Line total in the document's currency
+};
+
+export type DocumentFields = {
+  schemaId: string;
+  values: Record<string, FieldValue | null>; // null where a value could not be found
+  lineItems?: LineItem[]; // Set for schemas with lineItems
+};
+
+// A file a document has held; previous versions are kept for rollback
+export type DocumentFileVersion = {
+  number: number; // 1 is the original upload
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  storageProvider: Document['storageProvider'];
+  storageKey?: string;
+  contentHash?: string;
+  description: string; // Description and notes as they were for this file
+  notes: string;
+  uploadedAt: number;
+  uploadedBy?: string; // Unknown for the original upload
+};
+
+// Document without its file payload, as returned by list pages
+export type DocumentMetadata = Omit<Document, 'imageData'>;
+
+// Metadata fields that can be changed after upload via PATCH /api/documents/:id
+export type DocumentUpdate = {
+  description?: string;
+  notes?: string;
+  tags?: string[]; // Replaces the document's tags
+  folderId?: string | null; // null moves the document out of its folder
+  category?: string | null; // null clears the category
+  fields?: DocumentFields | null; // Values are validated against the schema; null clears them
+};
+
+export type DocumentUpdateRequest = DocumentUpdate & {
+  version?: number; // Reject the edit with 409 if the document has changed since this version
 };
 
 export type DocumentResponse = {
@@ -35,9 +113,97 @@ export type DocumentResponse = {
   document: Document;
 };
 
+export type DocumentVersionsResponse = {
+  type: 'document-versions';
+  currentVersion: number;
+  versions: DocumentFileVersion[]; // Newest first
+};
+
+// POST /api/documents/:id/versions: send the file inline or as a completed upload session
+export type DocumentVersionRequest = {
+  fileName?: string;
+  fileType?: string;
+  fileData?: string; // base64 data URI
+  uploadSessionId?: string; // From /api/uploads once every chunk is received
+  description?: string; // Defaults to the current description
+  notes?: string;
+  version?: number; // Reject with 409 if the document has changed since this version
+};
+
+export type Folder = {
+  id: string;
+  name: string;
+  createdAt: number;
+  documentCount: number; // Documents in the folder, not counting the trash
+};
+
+export type FoldersResponse = {
+  type: 'folders';
+  folders: Folder[]; // Sorted by name
+};
+
+export type FolderResponse = {
+  type: 'folder';
+  folder: Folder;
+};
+
+export type TagCount = {
+  name: string;
+  count: number; // Documents with the tag, not counting the trash
+};
+
+export type TagsResponse = {
+  type: 'tags';
+  tags: TagCount[]; // Most used first
+};
+
+// POST /api/tags/rename and /api/tags/merge
+export type TagChangeResponse = {
+  type: 'tag-change';
+  tag: string; // The tag the documents now have
+  updated: number; // Documents changed
+};
+
 export type DocumentsListResponse = {
   type: 'documents-list';
-  documents: Document[];
+  documents: DocumentMetadata[];
+  nextCursor: string | null; // Pass back as ?cursor= to fetch the next page
+  total: number;
+};
+
+// Document fields covered by GET /api/documents/search
+export type SearchField = 'description' | 'notes' | 'ocrText' | 'fileName';
+
+export type SearchSnippet = {
+  field: SearchField;
+  text: string; // Excerpt of the field around the first match
+  highlights: [number, number][]; // [start, end) offsets of matched terms in text
+};
+
+export type SearchResult = {
+  document: DocumentMetadata;
+  score: number;
+  snippets: SearchSnippet[];
+};
+
+export type DocumentSearchResponse = {
+  type: 'document-search';
+  query: string;
+  results: SearchResult[]; // Best match first
+  total: number; // Matching documents, including any beyond the limit
+};
+
+export type TrashListResponse = {
+  type: 'trash-list';
+  documents: DocumentMetadata[]; // Newest deletion first
+  nextCursor: string | null;
+  total: number;
+  retentionDays: number; // Documents are purged this many days after deletion
+};
+
+export type DuplicateCheckResponse = {
+  type: 'duplicate-check';
+  duplicate: DocumentMetadata | null; // Existing document in this post with the same contents
 };
 
 export type DocumentRetrievalResponse = {
@@ -45,28 +211,398 @@ export type DocumentRetrievalResponse = {
   url?: string; // URL for external storage (S3 presigned or PostgreSQL stream endpoint)
   imageData?: string; // base64 data for Redis-stored images
   expiresIn?: number; // Seconds until URL expiration (for external storage)
-  storageProvider: 'redis' | 's3' | 'postgresql';
+  storageProvider: 'redis' | 's3' | 'postgresql' | 'filesystem';
+};
+
+export type UploadLimitsResponse = {
+  type: 'upload-limits';
+  maxFileSizeBytes: number; // Largest file the server will accept (via chunked upload)
+  maxInlineFileSizeBytes: number; // Largest file that fits in a single JSON request
+  redisMaxFileSizeBytes: number; // Largest file that can be stored in Redis
+  externalStorageEnabled: boolean;
+  externalThresholdBytes: number; // Files above this go to external storage
+  chunkSizeBytes: number; // Chunk size for /api/uploads sessions
+};
+
+export type UploadSession = {
+  sessionId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  checksum: string; // SHA-256 hex of the complete file
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[]; // Indexes already staged; upload the rest to resume
+  expiresAt: number;
+};
+
+export type UploadSessionResponse = {
+  type: 'upload-session';
+  session: UploadSession;
+};
+
+export type OcrWord = {
+  text: string;
+  confidence: number; // 0-100
 };
 
 export type OcrResult = {
   text: string;
-  confidence: number;
+  confidence: number; // Mean confidence for the page, 0-100
+  words: OcrWord[]; // In reading order
   fileName: string;
+  documentId?: string; // Set when a stored document was recognized
   timestamp: number;
 };
 
+// POST /api/ocr: send an image inline, or the id of a stored image document
+export type OcrRequest = {
+  fileData?: string; // base64 data URI
+  fileName?: string;
+  documentId?: string;
+};
+
 export type OcrResponse = {
   type: 'ocr';
   result: OcrResult;
+  document?: DocumentMetadata; // The document with its ocrText saved, for documentId requests
 };
 
 export type OcrHistoryResponse = {
   type: 'ocr-history';
-  results: OcrResult[];
+  results: OcrResult[]; // Newest first
 };
 
 export type AnalysisResponse = {
   type: 'analysis';
   description: string;
   summary: string;
+  category: string; // One of the configured categories; "other" when unsure
+  suggestedTags: string[]; // Normalized like document tags
+  confidence: number; // 0-1; how sure the model is of the category
+  fields?: DocumentFields; // Present when the request named a schema
+};
+
+// POST /api/analyze
+export type AnalysisRequest = {
+  fileData: string;
+  fileType: string;
+  fileName: string;
+  schema?: string; // Field schema id to extract values with
+};
+
+export type FieldSchemasResponse = {
+  type: 'field-schemas';
+  schemas: FieldSchema[]; // Built-in schemas first
+};
+
+export type FieldSchemaResponse = {
+  type: 'field-schema';
+  schema: FieldSchema;
+};
+
+// POST /api/schemas: add a custom schema to the post
+export type FieldSchemaRequest = {
+  name: string;
+  description?: string;
+  fields: FieldDefinition[];
+  lineItems?: boolean;
+};
+
+export type CategoriesResponse = {
+  type: 'categories';
+  categories: string[]; // In taxonomy order; always includes "other"
+};
+
+export type BillChange = {
+  previous: number;
+  difference: number;
+  percent: number | null; // null when the previous value was 0
+};
+
+export type BillComparison = {
+  monthOverMonth: BillChange | null; // Against the bill for the previous calendar month
+  yearOverYear: BillChange | null; // Against the bill for the same month a year earlier
+};
+
+export type BillInsight = {
+  documentId: string;
+  month: string; // YYYY-MM the bill covers
+  amountDue: number;
+  usage: number | null;
+  dueDate: string | null;
+  amountChange: BillComparison;
+  usageChange: BillComparison;
+  trailingAverage: number | null; // Mean amount of the account's previous bills
+  outlier: boolean; // Amount is above the trailing average by more than the threshold
+  alerts: string[];
+};
+
+export type BillAccount = {
+  key: string;
+  provider: string;
+  accountNumber: string | null;
+  currency: string | null;
+  usageUnit: string | null;
+  bills: BillInsight[]; // Oldest first, one per month
+  averageAmount: number;
+};
+
+export type BillInsightsResponse = {
+  type: 'bill-insights';
+  accounts: BillAccount[]; // Most recent bill first
+  outlierThreshold: number; // Fraction above the trailing average, e.g. 0.3
+  skipped: number; // Bills without a provider or amount due
+};
+
+// How a reminder is delivered: a private message to the user who set it, or a comment
+// on the post from the app account
+export type ReminderDelivery = 'message' | 'comment';
+
+export type Reminder = {
+  id: string;
+  documentId: string;
+  dueDate: string; // YYYY-MM-DD, from the document's dueDate field
+  daysBefore: number;
+  remindAt: number; // When the reminder is sent, ms since epoch
+  delivery: ReminderDelivery;
+  recipient: string; // Username that set the reminder
+  status: 'scheduled' | 'sent' | 'failed';
+  createdAt: number;
+  sentAt?: number;
+  error?: string; // Why a failed reminder was not sent
+};
+
+// POST /api/reminders
+export type ReminderRequest = {
+  documentId: string;
+  daysBefore?: number; // Defaults to 3
+  delivery?: ReminderDelivery; // Defaults to "message"
+};
+
+export type RemindersResponse = {
+  type: 'reminders';
+  reminders: Reminder[]; // Soonest first
+};
+
+export type ReminderResponse = {
+  type: 'reminder';
+  reminder: Reminder;
+};
+
+// One question about a document and the AI's answer
+export type QaExchange = {
+  id: string;
+  documentId: string;
+  question: string;
+  answer: string;
+  quotes: string[]; // Passages from the document that support the answer
+  found: boolean; // False when the document does not answer the question
+  fileVersion: number; // File version the question was asked about
+  askedBy: string; // Username
+  askedAt: number;
+};
+
+// POST /api/documents/:id/ask
+export type AskRequest = {
+  question: string;
+};
+
+export type AskResponse = {
+  type: 'ask';
+  exchange: QaExchange;
+};
+
+// GET /api/documents/:id/conversation
+export type ConversationResponse = {
+  type: 'conversation';
+  exchanges: QaExchange[]; // Oldest first
+};
+
+// A document an answer about the whole collection is based on
+export type CollectionCitation = {
+  documentId: string;
+  description: string;
+};
+
+export type CollectionAnswer = {
+  question: string;
+  answer: string;
+  found: boolean; // False when the stored documents do not answer the question
+  citations: CollectionCitation[];
+  consideredDocuments: number; // Documents sent to the AI as context
+  askedAt: number;
+};
+
+// POST /api/collection/ask
+export type CollectionAskRequest = {
+  question: string;
+};
+
+export type CollectionAskResponse = {
+  type: 'collection-answer';
+  answer: CollectionAnswer;
+};
+
+export type DigestPeriod = 'week' | 'month';
+
+export type DigestAmount = {
+  currency: string | null;
+  count: number; // Documents with an amount in this currency
+  total: number;
+};
+
+// GET /api/collection/digest?period=week|month: uploads in the last 7 or 30 days
+export type CollectionDigest = {
+  period: DigestPeriod;
+  from: number; // Start of the period, ms since epoch
+  to: number;
+  uploads: number;
+  byCategory: { category: string; count: number }[]; // Most uploads first
+  amounts: DigestAmount[]; // Amounts due and receipt totals, per currency
+  documents: CollectionCitation[]; // Newest first, at most 50
+  summary: string | null; // Written by the AI; null when it is unavailable
+  generatedAt: number;
+};
+
+export type CollectionDigestResponse = {
+  type: 'collection-digest';
+  digest: CollectionDigest;
+};
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+// Background analysis of a stored document
+export type AnalysisJob = {
+  id: string;
+  documentId: string;
+  status: AnalysisJobStatus;
+  requestedBy: string; // Username whose daily AI quota the job uses
+  schemaId: string | null; // Field schema to extract, if any
+  overwrite: boolean; // Replace existing description, notes, category and fields
+  attempts: number;
+  createdAt: number;
+  runAt: number; // Earliest time the job is (next) run
+  startedAt?: number;
+  finishedAt?: number;
+  message?: string; // Why the job is waiting or failed
+  document?: DocumentMetadata; // The updated document, once done
+};
+
+// POST /api/documents/:id/analyze
+export type AnalyzeDocumentRequest = {
+  schema?: string;
+  overwrite?: boolean; // Defaults to false: only fallback or empty values are replaced
+};
+
+// POST /api/documents/reanalyze: queue analysis for many documents at once
+export type ReanalyzeRequest = AnalyzeDocumentRequest & {
+  fallbackOnly?: boolean; // Defaults to true: only documents saved without AI analysis
+  from?: string; // Uploaded on or after, YYYY-MM-DD
+  to?: string; // Uploaded on or before, YYYY-MM-DD
+  fileType?: 'image' | 'pdf';
+};
+
+export type AnalysisJobResponse = {
+  type: 'analysis-job';
+  job: AnalysisJob;
+};
+
+// Also returned by GET /api/analysis-jobs?ids=a,b,c
+export type AnalysisJobsResponse = {
+  type: 'analysis-jobs';
+  jobs: AnalysisJob[];
+  alreadyQueued?: number; // Reanalyze only: matching documents that already had a job
+  limited?: boolean; // Reanalyze only: more documents matched than one request can queue
+};
+
+// AI model and generation settings for the subreddit
+export type AiSettings = {
+  model: string;
+  temperature: number; // 0-2; lower is more consistent
+  maxOutputTokens: number;
+  timeoutMs: number; // Time one analysis request may take
+  language: string | null; // Language of descriptions and summaries; null = the document's own
+  promptVersion: number | null; // Active analysis prompts; null uses the built-in prompts
+  updatedAt?: number;
+  updatedBy?: string;
+};
+
+// A saved version of the image and PDF analysis prompts
+export type PromptTemplates = {
+  version: number;
+  image: string;
+  pdf: string;
+  note?: string; // What changed in this version
+  createdAt: number;
+  createdBy: string;
+};
+
+export type PromptVariable = {
+  name: string; // Used in a template as {{name}}
+  description: string;
+  required: boolean;
+};
+
+export type AiSettingsResponse = {
+  type: 'ai-settings';
+  settings: AiSettings;
+  prompts: PromptTemplates[]; // Saved versions, newest first
+  defaults: { image: string; pdf: string }; // Built-in prompts
+  variables: PromptVariable[];
+  models: string[];
+  canEdit: boolean; // Only moderators can change the settings
+};
+
+// PUT /api/ai-settings; omitted settings are left unchanged
+export type AiSettingsUpdateRequest = Partial<
+  Pick<
+    AiSettings,
+    'model' | 'temperature' | 'maxOutputTokens' | 'timeoutMs' | 'language' | 'promptVersion'
+  >
+>;
+
+// POST /api/ai-settings/prompts: saves a new version and makes it active
+export type PromptTemplatesRequest = {
+  image: string;
+  pdf: string;
+  note?: string;
+};
+
+// One receipt in the expense ledger
+export type LedgerEntry = {
+  documentId: string;
+  description: string;
+  date: string; // YYYY-MM-DD; the upload date when the receipt has none
+  merchant: string;
+  category: string; // Expense category, "uncategorized" when not set
+  currency: string | null;
+  subtotal: number | null;
+  tax: number | null;
+  total: number;
+  paymentMethod: string | null;
+  lineItems: LineItem[];
+};
+
+// Receipts summed per group. Amounts in different currencies are never added
+// together, so each group has one entry per currency.
+export type LedgerTotal = {
+  key: string; // Category, merchant, or month (YYYY-MM)
+  currency: string | null;
+  count: number;
+  tax: number;
+  total: number;
+};
+
+// GET /api/ledger?from=YYYY-MM-DD&to=YYYY-MM-DD (both optional, inclusive)
+export type LedgerResponse = {
+  type: 'ledger';
+  from: string | null;
+  to: string | null;
+  entries: LedgerEntry[]; // Newest first
+  totals: LedgerTotal[]; // key is the currency
+  byCategory: LedgerTotal[]; // Largest total first
+  byMerchant: LedgerTotal[]; // Largest total first
+  byMonth: LedgerTotal[]; // Oldest first
+  skipped: number; // Receipts without a merchant or any amount
 };